@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."assets" ALTER COLUMN "size" SET DATA TYPE BIGINT;
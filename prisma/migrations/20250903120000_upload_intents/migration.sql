@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "public"."upload_intents" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "object_key" TEXT NOT NULL,
+    "upload_id" TEXT,
+    "filename" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "file_size" BIGINT NOT NULL,
+    "sha256_hash" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "consumed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "upload_intents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "upload_intents_object_key_key" ON "public"."upload_intents"("object_key");
+
+-- CreateIndex
+CREATE INDEX "upload_intents_user_id_idx" ON "public"."upload_intents"("user_id");
+
+-- CreateIndex
+CREATE INDEX "upload_intents_expires_at_idx" ON "public"."upload_intents"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."upload_intents" ADD CONSTRAINT "upload_intents_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
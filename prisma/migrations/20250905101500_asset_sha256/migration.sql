@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."assets" ADD COLUMN "sha256" TEXT;
+
+-- CreateIndex
+CREATE INDEX "assets_sha256_idx" ON "public"."assets"("sha256");
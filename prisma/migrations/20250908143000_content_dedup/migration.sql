@@ -0,0 +1,25 @@
+-- DropIndex
+DROP INDEX "public"."assets_object_key_key";
+
+-- CreateTable
+CREATE TABLE "public"."stored_objects" (
+    "object_key" TEXT NOT NULL,
+    "ref_count" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stored_objects_pkey" PRIMARY KEY ("object_key")
+);
+
+-- CreateTable
+CREATE TABLE "public"."system_settings" (
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "updated_by" TEXT,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "system_settings_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "assets_owner_id_sha256_idx" ON "public"."assets"("owner_id", "sha256");
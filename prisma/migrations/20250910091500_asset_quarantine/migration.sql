@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."AssetStatus" ADD VALUE 'QUARANTINED';
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "public"."tus_uploads" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "object_key" TEXT NOT NULL,
+    "upload_id" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "upload_length" BIGINT NOT NULL,
+    "upload_offset" BIGINT NOT NULL DEFAULT 0,
+    "part_size" INTEGER NOT NULL,
+    "parts" JSONB NOT NULL DEFAULT '[]',
+    "pending_size" INTEGER NOT NULL DEFAULT 0,
+    "metadata" TEXT,
+    "asset_id" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tus_uploads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tus_uploads_object_key_key" ON "public"."tus_uploads"("object_key");
+
+-- CreateIndex
+CREATE INDEX "tus_uploads_user_id_idx" ON "public"."tus_uploads"("user_id");
+
+-- CreateIndex
+CREATE INDEX "tus_uploads_expires_at_idx" ON "public"."tus_uploads"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."tus_uploads" ADD CONSTRAINT "tus_uploads_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
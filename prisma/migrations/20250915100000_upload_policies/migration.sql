@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "public"."upload_policies" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "role" "public"."UserRole",
+    "user_id" TEXT,
+    "allowed_types" TEXT[],
+    "max_file_size" BIGINT,
+    "daily_upload_count" INTEGER,
+    "daily_upload_bytes" BIGINT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "upload_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "upload_policies_name_key" ON "public"."upload_policies"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "upload_policies_role_key" ON "public"."upload_policies"("role");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "upload_policies_user_id_key" ON "public"."upload_policies"("user_id");
+
+-- CreateIndex
+CREATE INDEX "assets_owner_id_created_at_idx" ON "public"."assets"("owner_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."upload_policies" ADD CONSTRAINT "upload_policies_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN "storage_used" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN "storage_quota" BIGINT;
+
+-- AlterTable
+ALTER TABLE "public"."assets" ADD COLUMN "thumb_size" BIGINT;
+
+-- Backfill thumbnail sizes recorded by processing
+UPDATE "public"."assets"
+SET "thumb_size" = ("meta"->>'thumbnailSize')::BIGINT
+WHERE "thumb_key" IS NOT NULL AND "meta"->>'thumbnailSize' IS NOT NULL;
+
+-- Backfill usage from existing assets
+UPDATE "public"."users" AS u
+SET "storage_used" = usage."bytes"
+FROM (
+    SELECT "owner_id", SUM("size" + COALESCE("thumb_size", 0)) AS "bytes"
+    FROM "public"."assets"
+    GROUP BY "owner_id"
+) AS usage
+WHERE usage."owner_id" = u."id";
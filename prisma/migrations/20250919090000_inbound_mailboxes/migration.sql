@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."inbound_mailboxes" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "allowed_senders" TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "inbound_mailboxes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbound_mailboxes_user_id_key" ON "public"."inbound_mailboxes"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbound_mailboxes_token_key" ON "public"."inbound_mailboxes"("token");
+
+-- AddForeignKey
+ALTER TABLE "public"."inbound_mailboxes" ADD CONSTRAINT "inbound_mailboxes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
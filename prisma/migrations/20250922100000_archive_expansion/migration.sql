@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."assets" ADD COLUMN "parent_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."jobs" ADD COLUMN "details" JSONB;
+
+-- CreateIndex
+CREATE INDEX "assets_parent_id_idx" ON "public"."assets"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."assets" ADD CONSTRAINT "assets_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "public"."assets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
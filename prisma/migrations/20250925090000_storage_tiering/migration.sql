@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "public"."StorageTier" AS ENUM ('HOT', 'COLD');
+
+-- CreateEnum
+CREATE TYPE "public"."TierTransitionReason" AS ENUM ('LIFECYCLE_RULE', 'RESTORE');
+
+-- AlterTable
+ALTER TABLE "public"."assets" ADD COLUMN     "archived_at" TIMESTAMP(3),
+ADD COLUMN     "last_accessed_at" TIMESTAMP(3),
+ADD COLUMN     "restore_requested_at" TIMESTAMP(3),
+ADD COLUMN     "storage_tier" "public"."StorageTier" NOT NULL DEFAULT 'HOT';
+
+-- CreateTable
+CREATE TABLE "public"."lifecycle_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "content_types" TEXT[],
+    "days_without_access" INTEGER NOT NULL,
+    "min_size" BIGINT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lifecycle_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."asset_tier_transitions" (
+    "id" TEXT NOT NULL,
+    "asset_id" TEXT NOT NULL,
+    "from_tier" "public"."StorageTier" NOT NULL,
+    "to_tier" "public"."StorageTier" NOT NULL,
+    "reason" "public"."TierTransitionReason" NOT NULL,
+    "target" TEXT NOT NULL,
+    "rule_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "asset_tier_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lifecycle_rules_name_key" ON "public"."lifecycle_rules"("name");
+
+-- CreateIndex
+CREATE INDEX "asset_tier_transitions_asset_id_created_at_idx" ON "public"."asset_tier_transitions"("asset_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "assets_storage_tier_last_accessed_at_idx" ON "public"."assets"("storage_tier", "last_accessed_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."asset_tier_transitions" ADD CONSTRAINT "asset_tier_transitions_asset_id_fkey" FOREIGN KEY ("asset_id") REFERENCES "public"."assets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."asset_tier_transitions" ADD CONSTRAINT "asset_tier_transitions_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "public"."lifecycle_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "public"."EncryptionKeyStatus" AS ENUM ('ACTIVE', 'RETIRED', 'DESTROYED');
+
+-- AlterTable
+ALTER TABLE "public"."assets" ADD COLUMN     "data_key" BYTEA,
+ADD COLUMN     "data_key_id" TEXT,
+ADD COLUMN     "encrypted_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."user_encryption_keys" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "provider_key_id" TEXT NOT NULL,
+    "status" "public"."EncryptionKeyStatus" NOT NULL DEFAULT 'ACTIVE',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retired_at" TIMESTAMP(3),
+    "destroyed_at" TIMESTAMP(3),
+
+    CONSTRAINT "user_encryption_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "assets_data_key_id_idx" ON "public"."assets"("data_key_id");
+
+-- CreateIndex
+CREATE INDEX "user_encryption_keys_status_idx" ON "public"."user_encryption_keys"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_encryption_keys_user_id_version_key" ON "public"."user_encryption_keys"("user_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "public"."assets" ADD CONSTRAINT "assets_data_key_id_fkey" FOREIGN KEY ("data_key_id") REFERENCES "public"."user_encryption_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."user_encryption_keys" ADD CONSTRAINT "user_encryption_keys_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
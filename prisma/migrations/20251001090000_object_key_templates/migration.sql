@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."upload_intents" ADD COLUMN     "asset_id" TEXT;
@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "public"."UploadState" AS ENUM ('PRESIGNED', 'UPLOADING', 'UPLOADED', 'COMPLETED', 'ABANDONED');
+
+-- AlterTable
+ALTER TABLE "public"."upload_intents" ADD COLUMN     "abandoned_at" TIMESTAMP(3),
+ADD COLUMN     "client" TEXT,
+ADD COLUMN     "state" "public"."UploadState" NOT NULL DEFAULT 'PRESIGNED',
+ADD COLUMN     "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Intents completed before states were tracked
+UPDATE "public"."upload_intents" SET "state" = 'COMPLETED' WHERE "consumed_at" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "upload_intents_state_expires_at_idx" ON "public"."upload_intents"("state", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "upload_intents_created_at_idx" ON "public"."upload_intents"("created_at");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "public"."asset_texts" (
+    "asset_id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "encoding" TEXT,
+    "word_count" INTEGER NOT NULL,
+    "line_count" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "asset_texts_pkey" PRIMARY KEY ("asset_id")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."asset_texts" ADD CONSTRAINT "asset_texts_asset_id_fkey" FOREIGN KEY ("asset_id") REFERENCES "public"."assets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "public"."renditions" (
+    "asset_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "key" TEXT NOT NULL,
+    "size" BIGINT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "renditions_pkey" PRIMARY KEY ("asset_id","name","format")
+);
+
+-- CreateIndex
+CREATE INDEX "renditions_key_idx" ON "public"."renditions"("key");
+
+-- AddForeignKey
+ALTER TABLE "public"."renditions" ADD CONSTRAINT "renditions_asset_id_fkey" FOREIGN KEY ("asset_id") REFERENCES "public"."assets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Previews were listed in the asset's meta before they became renditions
+INSERT INTO "public"."renditions" ("asset_id", "name", "format", "width", "height", "key", "size")
+SELECT a."id",
+       p->>'variant',
+       CASE WHEN p->>'contentType' LIKE 'text/html%' THEN 'html'
+            ELSE split_part(p->>'contentType', '/', 2) END,
+       (p->>'width')::INTEGER,
+       (p->>'height')::INTEGER,
+       p->>'key',
+       (p->>'size')::BIGINT
+FROM "public"."assets" a
+CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(a."meta"->'previews') = 'array'
+         THEN a."meta"->'previews' ELSE '[]'::JSONB END
+) p
+ON CONFLICT DO NOTHING;
+
+UPDATE "public"."assets" SET "meta" = "meta" - 'previews' WHERE "meta" ? 'previews';
@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "public"."MetadataCategory" AS ENUM ('LOCATION', 'DEVICE', 'CAMERA', 'CAPTURE', 'DESCRIPTION');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "kept_metadata" "public"."MetadataCategory"[] DEFAULT ARRAY['CAMERA', 'CAPTURE', 'DESCRIPTION']::"public"."MetadataCategory"[];
+
+-- AlterTable
+ALTER TABLE "public"."assets" ADD COLUMN     "captured_at" TIMESTAMP(3),
+ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "assets_owner_id_captured_at_idx" ON "public"."assets"("owner_id", "captured_at");
+
+-- CreateIndex
+CREATE INDEX "assets_owner_id_latitude_longitude_idx" ON "public"."assets"("owner_id", "latitude", "longitude");
@@ -11,6 +11,7 @@ import { UploadsModule } from 'src/uploads/uploads.module';
 import { JobsModule } from 'src/jobs/jobs.module';
 import { AssetsModule } from 'src/assets/assets.module';
 import { AuditModule } from 'src/common/audit.module';
+import { SettingsModule } from 'src/common/settings.module';
 import { RateLimitInterceptor } from 'src/common/interceptors/rate-limit.interceptor';
 import { LoggingInterceptor } from 'src/common/interceptors/logging.interceptor';
 import { SecurityMiddleware } from 'src/common/middleware/security.middleware';
@@ -27,6 +28,7 @@ import { EnvValidationService } from 'src/common/config/env-validation.service';
     JobsModule,
     AssetsModule,
     AuditModule,
+    SettingsModule,
   ],
   controllers: [AppController, HealthController],
   providers: [
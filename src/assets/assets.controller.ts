@@ -5,9 +5,13 @@ import {
   Query,
   Delete,
   Put,
+  Post,
   Body,
+  HttpCode,
+  HttpStatus,
   UseGuards,
   Request,
+  StreamableFile,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -23,6 +27,7 @@ import { AssetsService } from './assets.service';
 import { ListAssetsDto } from './dto/list-assets.dto';
 import { ListAssetsResponseDto } from './dto/list-assets-response.dto';
 import { AssetResponseDto } from './dto/asset-response.dto';
+import { AssetTierTransitionDto } from './dto/asset-tier-transition.dto';
 import { AssetStatus } from '@prisma/client';
 
 @ApiTags('assets')
@@ -117,6 +122,115 @@ export class AssetsController {
     return this.assetsService.getAssetById(id, req.user.id);
   }
 
+  @Get(':id/download')
+  @ApiOperation({
+    summary: 'Download the original',
+    description:
+      'Stream the original through the API. Encrypted originals are decrypted on the way; ' +
+      'their downloadUrl points here.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Asset ID to download',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'File content',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - access denied to this asset or quarantined',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Asset not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The original is in cold storage',
+  })
+  async downloadOriginal(
+    @Param('id') id: string,
+    @Request() req: TypedRequest,
+  ): Promise<StreamableFile> {
+    const original = await this.assetsService.openOriginal(id, req.user.id);
+    return new StreamableFile(original.stream, {
+      type: original.contentType,
+      length: original.size,
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(original.filename)}`,
+    });
+  }
+
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Restore an asset from cold storage',
+    description:
+      'Request that an original moved to cold storage by a lifecycle rule is moved back. ' +
+      'The restore runs in the background and can take hours for archive storage classes; ' +
+      'restoreRequestedAt is set until it completes, after which the asset has a download URL again.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Asset ID to restore',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Restore requested',
+    type: AssetResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - access denied to this asset',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Asset not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The original is not in cold storage',
+  })
+  async requestRestore(
+    @Param('id') id: string,
+    @Request() req: TypedRequest,
+  ): Promise<AssetResponseDto> {
+    return this.assetsService.requestRestore(id, req.user.id);
+  }
+
+  @Get(':id/transitions')
+  @ApiOperation({
+    summary: 'List storage tier transitions',
+    description:
+      'Every move of the original between hot and cold storage, newest first',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Asset ID',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Transitions retrieved successfully',
+    type: [AssetTierTransitionDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - access denied to this asset',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Asset not found',
+  })
+  async listTransitions(
+    @Param('id') id: string,
+    @Request() req: TypedRequest,
+  ): Promise<AssetTierTransitionDto[]> {
+    return this.assetsService.listTransitions(id, req.user.id);
+  }
+
   @Put(':id/status')
   @ApiOperation({
     summary: 'Update asset status',
@@ -162,7 +276,7 @@ export class AssetsController {
   @ApiOperation({
     summary: 'Delete asset',
     description:
-      'Delete an asset and its associated files from S3. ' +
+      'Delete an asset and its associated files from storage. ' +
       'Only accessible by the asset owner. This action cannot be undone.',
   })
   @ApiParam({
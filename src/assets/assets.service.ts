@@ -3,27 +3,52 @@ import {
   Logger,
   NotFoundException,
   ForbiddenException,
+  BadRequestException,
+  ConflictException,
+  Inject,
 } from '@nestjs/common';
+import { Readable } from 'stream';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { S3Service } from 'src/uploads/s3.service';
+import {
+  STORAGE_PROVIDER,
+  StorageProvider,
+} from 'src/uploads/storage-provider';
+import { ObjectReferencesService } from 'src/uploads/object-references.service';
+import { StorageUsageService } from 'src/uploads/storage-usage.service';
+import { StorageTieringService } from 'src/uploads/storage-tiering.service';
+import { ObjectEncryptionService } from 'src/uploads/object-encryption.service';
 import { CacheService } from 'src/common/cache/cache.service';
 import { ListAssetsDto } from './dto/list-assets.dto';
 import { AssetResponseDto } from './dto/asset-response.dto';
 import { ListAssetsResponseDto } from './dto/list-assets-response.dto';
-import { AssetStatus, Asset, User } from '@prisma/client';
+import { AssetTierTransitionDto } from './dto/asset-tier-transition.dto';
+import {
+  AssetStatus,
+  Asset,
+  Rendition,
+  StorageTier,
+  User,
+} from '@prisma/client';
 
 type AssetWithOwner = Asset & {
   owner: Pick<User, 'id' | 'email'>;
+  renditions: Rendition[];
 };
 
 interface AssetWhereClause {
   ownerId: string;
   status?: AssetStatus;
   mime?: string;
+  parentId?: string;
+  storageTier?: StorageTier;
   meta?: {
     path: string[];
     string_contains: string;
   };
+  capturedAt?: { gte?: Date; lt?: Date };
+  latitude?: { gte: number; lte: number };
+  longitude?: { gte: number; lte: number };
+  OR?: { longitude: { gte: number } | { lte: number } }[];
 }
 
 @Injectable()
@@ -32,15 +57,30 @@ export class AssetsService {
 
   constructor(
     private readonly prisma: PrismaService,
-    private readonly s3Service: S3Service,
+    @Inject(STORAGE_PROVIDER) private readonly storage: StorageProvider,
+    private readonly objectReferencesService: ObjectReferencesService,
     private readonly cacheService: CacheService,
+    private readonly storageUsageService: StorageUsageService,
+    private readonly storageTieringService: StorageTieringService,
+    private readonly objectEncryptionService: ObjectEncryptionService,
   ) {}
 
   async listAssets(
     userId: string,
     query: ListAssetsDto,
   ): Promise<ListAssetsResponseDto> {
-    const { cursor, limit = 20, status, search, mimeType } = query;
+    const {
+      cursor,
+      limit = 20,
+      status,
+      search,
+      mimeType,
+      parentId,
+      storageTier,
+      capturedAfter,
+      capturedBefore,
+      bbox,
+    } = query;
 
     // Build where clause with user isolation
     const where: AssetWhereClause = {
@@ -55,6 +95,14 @@ export class AssetsService {
       where.mime = mimeType;
     }
 
+    if (parentId) {
+      where.parentId = parentId;
+    }
+
+    if (storageTier) {
+      where.storageTier = storageTier;
+    }
+
     if (search) {
       where.meta = {
         path: ['originalFilename'],
@@ -62,6 +110,17 @@ export class AssetsService {
       };
     }
 
+    if (capturedAfter || capturedBefore) {
+      where.capturedAt = {
+        gte: capturedAfter ? new Date(capturedAfter) : undefined,
+        lt: capturedBefore ? new Date(capturedBefore) : undefined,
+      };
+    }
+
+    if (bbox) {
+      Object.assign(where, this.boundingBoxFilter(bbox));
+    }
+
     // Get total count
     const total = await this.prisma.asset.count({ where });
 
@@ -83,6 +142,7 @@ export class AssetsService {
             email: true,
           },
         },
+        renditions: true,
       },
     })) as AssetWithOwner[];
 
@@ -133,6 +193,7 @@ export class AssetsService {
             email: true,
           },
         },
+        renditions: true,
       },
     });
 
@@ -145,6 +206,14 @@ export class AssetsService {
       throw new ForbiddenException('Access denied to this asset');
     }
 
+    // Opening an asset counts as access for lifecycle rules; listing does not
+    if (asset.storageTier === 'HOT') {
+      await this.prisma.asset.update({
+        where: { id: assetId },
+        data: { lastAccessedAt: new Date() },
+      });
+    }
+
     const assetResponse = await this.mapToAssetResponse(asset);
 
     // Cache the asset response
@@ -156,6 +225,7 @@ export class AssetsService {
   async deleteAsset(assetId: string, userId: string): Promise<void> {
     const asset = await this.prisma.asset.findUnique({
       where: { id: assetId },
+      include: { renditions: { select: { key: true, size: true } } },
     });
 
     if (!asset) {
@@ -167,24 +237,47 @@ export class AssetsService {
       throw new ForbiddenException('Access denied to this asset');
     }
 
-    // Delete from S3 first
-    try {
-      await this.s3Service.deleteObject(asset.objectKey);
-      if (asset.thumbKey) {
-        await this.s3Service.deleteObject(asset.thumbKey);
-      }
-    } catch (error) {
-      this.logger.warn(
-        `Failed to delete S3 objects for asset ${assetId}:`,
-        error,
+    // Delete from database, releasing this asset's reference to the object
+    const isLastReference = await this.prisma.$transaction(async (tx) => {
+      // Wait for an upload being moved onto the object to commit or give up
+      await this.objectReferencesService.lockObjects(tx, [asset.objectKey]);
+      await tx.asset.delete({
+        where: { id: assetId },
+      });
+      await this.storageUsageService.adjustUsage(
+        tx,
+        asset.ownerId,
+        -(
+          asset.size +
+          (asset.thumbSize ?? 0n) +
+          asset.renditions.reduce((total, { size }) => total + size, 0n)
+        ),
       );
-    }
-
-    // Delete from database
-    await this.prisma.asset.delete({
-      where: { id: assetId },
+      return this.objectReferencesService.releaseReference(tx, asset.objectKey);
     });
 
+    // Delete from storage only when no other asset shares the object
+    if (isLastReference) {
+      try {
+        if (asset.storageTier === 'COLD') {
+          await this.storageTieringService.deleteColdObject(asset.objectKey);
+        } else {
+          await this.storage.deleteObject(asset.objectKey);
+        }
+        if (asset.thumbKey) {
+          await this.storage.deleteObject(asset.thumbKey);
+        }
+        for (const { key } of asset.renditions) {
+          await this.storage.deleteObject(key);
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Failed to delete stored objects for asset ${assetId}:`,
+          error,
+        );
+      }
+    }
+
     // Invalidate cache
     await this.cacheService.invalidateAsset(assetId);
     await this.cacheService.invalidateUserAssets(userId);
@@ -210,6 +303,11 @@ export class AssetsService {
       throw new ForbiddenException('Access denied to this asset');
     }
 
+    // Quarantine is decided by content detection, not by the owner
+    if (asset.status === 'QUARANTINED' || status === 'QUARANTINED') {
+      throw new ForbiddenException('Quarantined assets cannot change status');
+    }
+
     const updatedAsset = await this.prisma.asset.update({
       where: { id: assetId },
       data: { status },
@@ -220,6 +318,7 @@ export class AssetsService {
             email: true,
           },
         },
+        renditions: true,
       },
     });
 
@@ -232,35 +331,198 @@ export class AssetsService {
     return assetResponse;
   }
 
+  /**
+   * Request that a cold original is moved back to hot storage. The asset
+   * gets a download URL again once the restore completes.
+   */
+  async requestRestore(
+    assetId: string,
+    userId: string,
+  ): Promise<AssetResponseDto> {
+    const asset = await this.findOwnedAsset(assetId, userId);
+
+    await this.storageTieringService.requestRestore(asset);
+
+    const updated = await this.prisma.asset.findUniqueOrThrow({
+      where: { id: assetId },
+      include: {
+        owner: { select: { id: true, email: true } },
+        renditions: true,
+      },
+    });
+    return this.mapToAssetResponse(updated);
+  }
+
+  /**
+   * Stream an original through the API, decrypting it when it is encrypted.
+   * Counts as access for lifecycle rules.
+   */
+  async openOriginal(
+    assetId: string,
+    userId: string,
+  ): Promise<{
+    stream: Readable;
+    contentType: string;
+    size: number;
+    filename: string;
+  }> {
+    const asset = await this.findOwnedAsset(assetId, userId);
+
+    if (asset.status === 'QUARANTINED') {
+      throw new ForbiddenException('Quarantined files cannot be downloaded');
+    }
+
+    if (asset.storageTier !== 'HOT') {
+      throw new ConflictException(
+        'The original is in cold storage and has to be restored first',
+      );
+    }
+
+    const stream = await this.objectEncryptionService.getObjectStream(asset);
+
+    await this.prisma.asset.update({
+      where: { id: assetId },
+      data: { lastAccessedAt: new Date() },
+    });
+
+    const meta = asset.meta as { originalFilename?: unknown } | null;
+    return {
+      stream,
+      contentType: asset.mime,
+      size: Number(asset.size),
+      filename:
+        typeof meta?.originalFilename === 'string'
+          ? meta.originalFilename
+          : asset.objectKey.split('/').pop()!,
+    };
+  }
+
+  async listTransitions(
+    assetId: string,
+    userId: string,
+  ): Promise<AssetTierTransitionDto[]> {
+    await this.findOwnedAsset(assetId, userId);
+
+    const transitions =
+      await this.storageTieringService.listTransitions(assetId);
+    return transitions.map((transition) => ({
+      id: transition.id,
+      fromTier: transition.fromTier,
+      toTier: transition.toTier,
+      reason: transition.reason,
+      target: transition.target,
+      ruleId: transition.ruleId,
+      createdAt: transition.createdAt.toISOString(),
+    }));
+  }
+
+  private async findOwnedAsset(
+    assetId: string,
+    userId: string,
+  ): Promise<Asset> {
+    const asset = await this.prisma.asset.findUnique({
+      where: { id: assetId },
+    });
+
+    if (!asset) {
+      throw new NotFoundException('Asset not found');
+    }
+
+    if (asset.ownerId !== userId) {
+      throw new ForbiddenException('Access denied to this asset');
+    }
+
+    return asset;
+  }
+
+  /**
+   * Filter on the photo location. A box whose west edge lies east of its
+   * east edge wraps around the antimeridian.
+   */
+  private boundingBoxFilter(
+    bbox: string,
+  ): Pick<AssetWhereClause, 'latitude' | 'longitude' | 'OR'> {
+    const [west, south, east, north] = bbox.split(',').map(Number);
+
+    if (
+      south > north ||
+      [south, north].some((latitude) => Math.abs(latitude) > 90) ||
+      [west, east].some((longitude) => Math.abs(longitude) > 180)
+    ) {
+      throw new BadRequestException(
+        'Invalid bbox: latitudes must be within ±90 with south below north, longitudes within ±180',
+      );
+    }
+
+    const latitude = { gte: south, lte: north };
+    return west <= east
+      ? { latitude, longitude: { gte: west, lte: east } }
+      : {
+          latitude,
+          OR: [{ longitude: { gte: west } }, { longitude: { lte: east } }],
+        };
+  }
+
   private async mapToAssetResponse(
     asset: AssetWithOwner,
   ): Promise<AssetResponseDto> {
-    // Generate signed URLs
-    const downloadUrl = await this.s3Service.generatePresignedGetUrl(
-      asset.objectKey,
-      3600, // 1 hour expiration
-    );
+    // Generate signed URLs. Quarantined files are never served, and cold
+    // originals have to be restored first. Storage only holds the ciphertext
+    // of encrypted originals, so they are downloaded through the API.
+    let downloadUrl: string | undefined;
+    if (asset.status !== 'QUARANTINED' && asset.storageTier === 'HOT') {
+      downloadUrl = asset.encryptedAt
+        ? `/assets/${asset.id}/download`
+        : await this.storage.generatePresignedGetUrl(
+            asset.objectKey,
+            3600, // 1 hour expiration
+          );
+    }
 
     let thumbnailUrl: string | undefined;
     if (asset.thumbKey) {
-      thumbnailUrl = await this.s3Service.generatePresignedGetUrl(
+      thumbnailUrl = await this.storage.generatePresignedGetUrl(
         asset.thumbKey,
         3600, // 1 hour expiration
       );
     }
 
+    const renditions = await Promise.all(
+      asset.renditions.map(async (rendition) => ({
+        name: rendition.name,
+        format: rendition.format,
+        width: rendition.width,
+        height: rendition.height,
+        size: Number(rendition.size),
+        url: await this.storage.generatePresignedGetUrl(
+          rendition.key,
+          3600, // 1 hour expiration
+        ),
+      })),
+    );
+
     return {
       id: asset.id,
       objectKey: asset.objectKey,
       mime: asset.mime,
-      size: asset.size,
+      size: Number(asset.size),
       status: asset.status,
       thumbKey: asset.thumbKey,
+      sha256: asset.sha256,
+      parentId: asset.parentId,
+      storageTier: asset.storageTier,
+      archivedAt: asset.archivedAt?.toISOString(),
+      restoreRequestedAt: asset.restoreRequestedAt?.toISOString(),
+      encrypted: asset.encryptedAt !== null,
+      capturedAt: asset.capturedAt?.toISOString(),
+      latitude: asset.latitude ?? undefined,
+      longitude: asset.longitude ?? undefined,
       meta: asset.meta,
       createdAt: asset.createdAt.toISOString(),
       updatedAt: asset.updatedAt.toISOString(),
       downloadUrl,
       thumbnailUrl,
+      renditions,
     };
   }
 }
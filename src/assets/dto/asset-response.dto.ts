@@ -1,5 +1,46 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { AssetStatus } from '@prisma/client';
+import { AssetStatus, StorageTier } from '@prisma/client';
+
+export class AssetRenditionDto {
+  @ApiProperty({
+    description: 'Rendition profile, page or preview the rendition belongs to',
+    example: 'medium',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Format the rendition is encoded in',
+    example: 'webp',
+  })
+  format: string;
+
+  @ApiProperty({
+    description: 'Width in pixels, for images',
+    example: 1024,
+    nullable: true,
+  })
+  width: number | null;
+
+  @ApiProperty({
+    description: 'Height in pixels, for images',
+    example: 768,
+    nullable: true,
+  })
+  height: number | null;
+
+  @ApiProperty({
+    description: 'Size in bytes',
+    example: 84512,
+  })
+  size: number;
+
+  @ApiProperty({
+    description: 'Signed URL of the rendition (expires in 1 hour)',
+    example:
+      'http://localhost:9000/media-inbox/derived/cmeq1wmrw0001z97fu028bcd5/medium-webp.webp?X-Amz-Algorithm=...',
+  })
+  url: string;
+}
 
 export class AssetResponseDto {
   @ApiProperty({
@@ -37,12 +78,81 @@ export class AssetResponseDto {
 
   @ApiProperty({
     description: 'Thumbnail object key (if available)',
-    example:
-      'uploads/2025/08/25/a86ee7b6-6a87-41d9-b6d8-184b8b30d1bc-test_thumb.jpg',
+    example: 'derived/cmeq1wmrw0001z97fu028bcd5/thumb.jpeg',
     required: false,
   })
   thumbKey?: string | null;
 
+  @ApiProperty({
+    description: 'SHA-256 hash of the stored file, verified during processing',
+    example: 'a591a6d40bf420404a011733cfb7b190d62c65bf0bcda32b57b277d9ad9f146e',
+    required: false,
+  })
+  sha256?: string | null;
+
+  @ApiProperty({
+    description: 'Archive the file was extracted from (if any)',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+    required: false,
+  })
+  parentId?: string | null;
+
+  @ApiProperty({
+    description:
+      'Where the original is stored. COLD originals have no download URL until restored',
+    enum: StorageTier,
+    enumName: 'StorageTier',
+    example: 'HOT',
+  })
+  storageTier: StorageTier;
+
+  @ApiProperty({
+    description: 'When the original moved to cold storage',
+    example: '2025-09-25T10:00:00.000Z',
+    format: 'date-time',
+    required: false,
+  })
+  archivedAt?: string;
+
+  @ApiProperty({
+    description:
+      'When a restore from cold storage was requested, while it is in progress',
+    example: '2025-09-25T10:00:00.000Z',
+    format: 'date-time',
+    required: false,
+  })
+  restoreRequestedAt?: string;
+
+  @ApiProperty({
+    description:
+      'Whether the original is stored encrypted; it is then downloaded through the API',
+    example: false,
+  })
+  encrypted: boolean;
+
+  @ApiProperty({
+    description:
+      'When the photo was taken, from its EXIF, XMP or IPTC metadata',
+    example: '2024-06-01T07:58:12.000Z',
+    format: 'date-time',
+    required: false,
+  })
+  capturedAt?: string;
+
+  @ApiProperty({
+    description: 'Latitude the photo was taken at, in degrees',
+    example: 48.8584,
+    required: false,
+  })
+  latitude?: number;
+
+  @ApiProperty({
+    description: 'Longitude the photo was taken at, in degrees',
+    example: 2.2945,
+    required: false,
+  })
+  longitude?: number;
+
   @ApiProperty({
     description: 'Additional metadata',
     example: {
@@ -70,11 +180,13 @@ export class AssetResponseDto {
   updatedAt: string;
 
   @ApiProperty({
-    description: 'Signed URL for file access (expires in 1 hour)',
+    description:
+      'Signed URL for file access (expires in 1 hour), or the API download path for encrypted originals. Omitted for quarantined assets and originals in cold storage',
     example:
       'http://localhost:9000/media-inbox/uploads/2025/08/25/...?X-Amz-Algorithm=...',
+    required: false,
   })
-  downloadUrl: string;
+  downloadUrl?: string;
 
   @ApiProperty({
     description: 'Signed URL for thumbnail access (if available)',
@@ -83,4 +195,11 @@ export class AssetResponseDto {
     required: false,
   })
   thumbnailUrl?: string;
+
+  @ApiProperty({
+    description:
+      'Renditions generated during processing: resized images, document pages and previews',
+    type: [AssetRenditionDto],
+  })
+  renditions: AssetRenditionDto[];
 }
@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { StorageTier, TierTransitionReason } from '@prisma/client';
+
+export class AssetTierTransitionDto {
+  @ApiProperty({
+    description: 'Transition ID',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Tier the original moved from',
+    enum: StorageTier,
+    enumName: 'StorageTier',
+    example: 'HOT',
+  })
+  fromTier: StorageTier;
+
+  @ApiProperty({
+    description: 'Tier the original moved to',
+    enum: StorageTier,
+    enumName: 'StorageTier',
+    example: 'COLD',
+  })
+  toTier: StorageTier;
+
+  @ApiProperty({
+    description: 'Why the original moved',
+    enum: TierTransitionReason,
+    enumName: 'TierTransitionReason',
+    example: 'LIFECYCLE_RULE',
+  })
+  reason: TierTransitionReason;
+
+  @ApiProperty({
+    description: 'Cold storage used, e.g. a storage class or bucket',
+    example: 'storage-class:GLACIER',
+  })
+  target: string;
+
+  @ApiProperty({
+    description: 'Lifecycle rule that moved the original to cold storage',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+    nullable: true,
+  })
+  ruleId: string | null;
+
+  @ApiProperty({
+    description: 'When the transition completed',
+    example: '2025-09-25T10:00:00.000Z',
+    format: 'date-time',
+  })
+  createdAt: string;
+}
@@ -4,10 +4,16 @@ import {
   IsString,
   IsEnum,
   IsNumber,
+  IsDateString,
+  Matches,
   Min,
   Max,
 } from 'class-validator';
-import { AssetStatus } from '@prisma/client';
+import { AssetStatus, StorageTier } from '@prisma/client';
+
+// west,south,east,north in decimal degrees
+export const BBOX_PATTERN =
+  /^-?\d+(\.\d+)?,-?\d+(\.\d+)?,-?\d+(\.\d+)?,-?\d+(\.\d+)?$/;
 
 export class ListAssetsDto {
   @ApiProperty({
@@ -61,4 +67,56 @@ export class ListAssetsDto {
   @IsOptional()
   @IsString()
   mimeType?: string;
+
+  @ApiProperty({
+    description: 'List the files extracted from this archive',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  parentId?: string;
+
+  @ApiProperty({
+    description: 'Filter by storage tier of the original',
+    enum: StorageTier,
+    enumName: 'StorageTier',
+    example: 'COLD',
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(StorageTier)
+  storageTier?: StorageTier;
+
+  @ApiProperty({
+    description: 'Only photos taken at or after this time',
+    example: '2024-06-01T00:00:00.000Z',
+    format: 'date-time',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  capturedAfter?: string;
+
+  @ApiProperty({
+    description: 'Only photos taken before this time',
+    example: '2024-07-01T00:00:00.000Z',
+    format: 'date-time',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  capturedBefore?: string;
+
+  @ApiProperty({
+    description:
+      'Only photos taken inside this box, as west,south,east,north in degrees. A west edge greater than the east edge crosses the antimeridian',
+    example: '2.22,48.81,2.47,48.90',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(BBOX_PATTERN, {
+    message: 'bbox must be west,south,east,north in decimal degrees',
+  })
+  bbox?: string;
 }
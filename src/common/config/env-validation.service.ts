@@ -1,5 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { STORAGE_DRIVERS } from 'src/uploads/storage-provider';
+import { KEY_PROVIDERS } from 'src/uploads/key-provider';
+import {
+  parseDerivedKeyTemplate,
+  parseObjectKeyTemplate,
+} from 'src/uploads/object-key-template';
+import { parseRenditionProfiles } from 'src/jobs/pipeline/rendition-profiles';
 
 @Injectable()
 export class EnvValidationService {
@@ -14,12 +21,68 @@ export class EnvValidationService {
       'JWT_REFRESH_SECRET',
       'REDIS_HOST',
       'REDIS_PORT',
-      'AWS_ACCESS_KEY_ID',
-      'AWS_SECRET_ACCESS_KEY',
-      'AWS_REGION',
-      'S3_BUCKET_NAME',
     ];
 
+    const storageDriver = this.configService.get<string>(
+      'STORAGE_DRIVER',
+      's3',
+    );
+    if (!(STORAGE_DRIVERS as readonly string[]).includes(storageDriver)) {
+      const errorMessage = `Unknown STORAGE_DRIVER "${storageDriver}", expected one of: ${STORAGE_DRIVERS.join(', ')}`;
+      this.logger.error(errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    if (storageDriver === 'local') {
+      requiredEnvVars.push('LOCAL_STORAGE_SECRET');
+    } else {
+      requiredEnvVars.push(
+        'AWS_ACCESS_KEY_ID',
+        'AWS_SECRET_ACCESS_KEY',
+        'AWS_REGION',
+        'S3_BUCKET_NAME',
+      );
+    }
+
+    const keyProvider = this.configService.get<string>(
+      'ENCRYPTION_KEY_PROVIDER',
+      'none',
+    );
+    if (!(KEY_PROVIDERS as readonly string[]).includes(keyProvider)) {
+      const errorMessage = `Unknown ENCRYPTION_KEY_PROVIDER "${keyProvider}", expected one of: ${KEY_PROVIDERS.join(', ')}`;
+      this.logger.error(errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    if (keyProvider === 'local') {
+      requiredEnvVars.push('LOCAL_KEY_STORE_MASTER_KEY');
+    }
+
+    const objectKeyTemplate = this.configService.get<string>(
+      'OBJECT_KEY_TEMPLATE',
+    );
+    const derivedKeyTemplate = this.configService.get<string>(
+      'DERIVED_KEY_TEMPLATE',
+    );
+    const renditionProfiles =
+      this.configService.get<string>('RENDITION_PROFILES');
+    try {
+      if (objectKeyTemplate) {
+        parseObjectKeyTemplate(objectKeyTemplate);
+      }
+      if (derivedKeyTemplate) {
+        parseDerivedKeyTemplate(derivedKeyTemplate);
+      }
+      if (renditionProfiles) {
+        parseRenditionProfiles(renditionProfiles);
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(errorMessage);
+      throw error;
+    }
+
     const missingVars: string[] = [];
 
     for (const envVar of requiredEnvVars) {
@@ -44,7 +107,13 @@ export class EnvValidationService {
     this.logger.log(
       `Redis: ${this.configService.get('REDIS_HOST')}:${this.configService.get('REDIS_PORT')}`,
     );
-    this.logger.log(`S3 Bucket: ${this.configService.get('S3_BUCKET_NAME')}`);
-    this.logger.log(`AWS Region: ${this.configService.get('AWS_REGION')}`);
+    if (storageDriver === 'local') {
+      this.logger.log(
+        `Local storage: ${this.configService.get('LOCAL_STORAGE_PATH', './storage')}`,
+      );
+    } else {
+      this.logger.log(`S3 Bucket: ${this.configService.get('S3_BUCKET_NAME')}`);
+      this.logger.log(`AWS Region: ${this.configService.get('AWS_REGION')}`);
+    }
   }
 }
@@ -0,0 +1,72 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Param,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+import { Request as TypedRequest } from 'src/types';
+import { SettingsService } from '../services/settings.service';
+import { UpdateSettingDto } from '../dto/update-setting.dto';
+
+@ApiTags('Settings')
+@Controller('settings')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class SettingsController {
+  constructor(private readonly settingsService: SettingsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all runtime settings' })
+  @ApiResponse({
+    status: 200,
+    description: 'Settings retrieved successfully',
+  })
+  @Roles(UserRole.ADMIN)
+  async getSettings() {
+    return this.settingsService.getAll();
+  }
+
+  @Put(':key')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Change a runtime setting' })
+  @ApiParam({
+    name: 'key',
+    description: 'Setting key',
+    example: 'uploads.crossUserDedup',
+  })
+  @ApiBody({ type: UpdateSettingDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Setting updated successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown setting or invalid value',
+  })
+  @Roles(UserRole.ADMIN)
+  async updateSetting(
+    @Param('key') key: string,
+    @Body() updateSettingDto: UpdateSettingDto,
+    @Request() req: TypedRequest,
+  ) {
+    await this.settingsService.set(key, updateSettingDto.value, req.user.id);
+    return { message: `Setting ${key} updated successfully` };
+  }
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDefined } from 'class-validator';
+
+export class UpdateSettingDto {
+  @ApiProperty({
+    description: 'New value for the setting',
+    example: true,
+  })
+  @IsDefined()
+  value: unknown;
+}
@@ -58,6 +58,25 @@ export class RateLimitInterceptor implements NestInterceptor {
       return { ttl: 60, limit: 10 }; // 10 presign requests per minute (more restrictive)
     }
 
+    if (
+      route === '/uploads/presign/batch' ||
+      route === '/uploads/complete/batch'
+    ) {
+      return { ttl: 60, limit: 10 }; // Each batch covers up to 250 files
+    }
+
+    if (route === '/uploads/import-url') {
+      return { ttl: 60, limit: 10 }; // Each import makes the server fetch a remote file
+    }
+
+    if (route === '/uploads/tus/:id') {
+      return { ttl: 60, limit: 120 }; // Resumable clients send many chunk and offset requests
+    }
+
+    if (route === '/storage/local/objects') {
+      return null; // Signed URLs are authorized by their token, like presigned S3 URLs
+    }
+
     if (route === '/auth/refresh') {
       return { ttl: 60, limit: 5 }; // 5 refresh attempts per minute (more restrictive)
     }
@@ -50,6 +50,10 @@ export interface FileEventDetails {
   objectKey?: string;
   assetId?: string;
   jobEnqueued?: boolean;
+  // Why an upload failed, and how far it got
+  reason?: string;
+  lastState?: string;
+  client?: string;
 }
 
 export interface JobEventDetails {
@@ -174,6 +178,9 @@ export class AuditService {
       if (details.jobEnqueued !== undefined) {
         payload.jobEnqueued = details.jobEnqueued;
       }
+      if (details.reason) payload.reason = details.reason;
+      if (details.lastState) payload.lastState = details.lastState;
+      if (details.client) payload.client = details.client;
     }
 
     await this.logEvent({
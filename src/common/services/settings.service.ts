@@ -0,0 +1,92 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditService } from './audit.service';
+
+// Runtime settings admins can change, with their defaults
+export const SETTING_DEFAULTS = {
+  'uploads.crossUserDedup': false,
+};
+
+export type SettingKey = keyof typeof SETTING_DEFAULTS;
+export type SettingValue<K extends SettingKey> = (typeof SETTING_DEFAULTS)[K];
+
+@Injectable()
+export class SettingsService {
+  private readonly logger = new Logger(SettingsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Get a setting, falling back to its default when it was never set
+   */
+  async get<K extends SettingKey>(key: K): Promise<SettingValue<K>> {
+    const setting = await this.prisma.systemSetting.findUnique({
+      where: { key },
+    });
+
+    if (!setting || !this.hasDefaultType(key, setting.value)) {
+      return SETTING_DEFAULTS[key];
+    }
+
+    return setting.value as SettingValue<K>;
+  }
+
+  /**
+   * Get every setting with its current value
+   */
+  async getAll(): Promise<Record<SettingKey, unknown>> {
+    const settings = await this.prisma.systemSetting.findMany();
+    const values: Record<string, unknown> = { ...SETTING_DEFAULTS };
+
+    for (const setting of settings) {
+      if (this.isSettingKey(setting.key)) {
+        values[setting.key] = setting.value;
+      }
+    }
+
+    return values as Record<SettingKey, unknown>;
+  }
+
+  /**
+   * Change a setting and record who changed it
+   */
+  async set(key: string, value: unknown, actorId: string): Promise<void> {
+    if (!this.isSettingKey(key)) {
+      throw new BadRequestException(`Unknown setting: ${key}`);
+    }
+
+    if (!this.hasDefaultType(key, value)) {
+      throw new BadRequestException(
+        `Setting ${key} must be a ${typeof SETTING_DEFAULTS[key]}`,
+      );
+    }
+
+    const oldValue = await this.get(key);
+    const jsonValue = value as Prisma.InputJsonValue;
+
+    await this.prisma.systemSetting.upsert({
+      where: { key },
+      create: { key, value: jsonValue, updatedBy: actorId },
+      update: { value: jsonValue, updatedBy: actorId },
+    });
+
+    await this.auditService.logAdminEvent(actorId, 'SYSTEM_CONFIG', key, {
+      oldValue,
+      newValue: value,
+    });
+
+    this.logger.log(`Setting ${key} changed by ${actorId}`);
+  }
+
+  private isSettingKey(key: string): key is SettingKey {
+    return Object.keys(SETTING_DEFAULTS).includes(key);
+  }
+
+  private hasDefaultType(key: SettingKey, value: unknown): boolean {
+    return typeof value === typeof SETTING_DEFAULTS[key];
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SettingsService } from './services/settings.service';
+import { SettingsController } from './controllers/settings.controller';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { AuditModule } from './audit.module';
+
+@Module({
+  imports: [PrismaModule, AuditModule],
+  controllers: [SettingsController],
+  providers: [SettingsService],
+  exports: [SettingsService],
+})
+export class SettingsModule {}
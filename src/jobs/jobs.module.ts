@@ -7,6 +7,20 @@ import { AuditModule } from 'src/common/audit.module';
 import { JobsController } from './jobs.controller';
 import { JobsService } from './jobs.service';
 import { MediaProcessingProcessor } from './processors/media-processing.processor';
+import { MaintenanceProcessor } from './processors/maintenance.processor';
+import { UrlImportProcessor } from './processors/url-import.processor';
+import { ArchiveExpansionProcessor } from './processors/archive-expansion.processor';
+import { PipelineRegistry } from './pipeline/pipeline-registry';
+import { ImageMetadataStep } from './pipeline/image-metadata.step';
+import { ImageThumbnailStep } from './pipeline/image-thumbnail.step';
+import { ImageRenditionsStep } from './pipeline/image-renditions.step';
+import { PdfMetadataStep } from './pipeline/pdf-metadata.step';
+import { PdfThumbnailStep } from './pipeline/pdf-thumbnail.step';
+import { PdfPagePreviewsStep } from './pipeline/pdf-page-previews.step';
+import { PlainTextExtractStep } from './pipeline/plain-text-extract.step';
+import { DocxTextExtractStep } from './pipeline/docx-text-extract.step';
+import { DocTextExtractStep } from './pipeline/doc-text-extract.step';
+import { TextPreviewStep } from './pipeline/text-preview.step';
 
 @Module({
   imports: [
@@ -37,9 +51,89 @@ import { MediaProcessingProcessor } from './processors/media-processing.processo
         },
       },
     }),
+    BullModule.registerQueue({
+      name: 'maintenance',
+      defaultJobOptions: {
+        removeOnComplete: 20,
+        removeOnFail: 20,
+        attempts: 1,
+      },
+    }),
   ],
   controllers: [JobsController],
-  providers: [JobsService, MediaProcessingProcessor],
+  providers: [
+    JobsService,
+    MediaProcessingProcessor,
+    MaintenanceProcessor,
+    UrlImportProcessor,
+    ArchiveExpansionProcessor,
+    ImageMetadataStep,
+    ImageThumbnailStep,
+    ImageRenditionsStep,
+    PdfMetadataStep,
+    PdfThumbnailStep,
+    PdfPagePreviewsStep,
+    PlainTextExtractStep,
+    DocxTextExtractStep,
+    DocTextExtractStep,
+    TextPreviewStep,
+    {
+      // Processing pipelines by content type; other types are stored as is
+      provide: PipelineRegistry,
+      useFactory: (
+        imageMetadata: ImageMetadataStep,
+        imageThumbnail: ImageThumbnailStep,
+        imageRenditions: ImageRenditionsStep,
+        pdfMetadata: PdfMetadataStep,
+        pdfThumbnail: PdfThumbnailStep,
+        pdfPagePreviews: PdfPagePreviewsStep,
+        plainTextExtract: PlainTextExtractStep,
+        docxTextExtract: DocxTextExtractStep,
+        docTextExtract: DocTextExtractStep,
+        textPreview: TextPreviewStep,
+      ) =>
+        new PipelineRegistry()
+          .register({
+            name: 'image',
+            mimePatterns: ['image/*'],
+            steps: [imageMetadata, imageThumbnail, imageRenditions],
+          })
+          .register({
+            name: 'pdf',
+            mimePatterns: ['application/pdf'],
+            steps: [pdfMetadata, pdfThumbnail, pdfPagePreviews],
+          })
+          .register({
+            name: 'text',
+            mimePatterns: ['text/plain'],
+            steps: [plainTextExtract, textPreview],
+          })
+          .register({
+            name: 'docx',
+            mimePatterns: [
+              'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+            ],
+            steps: [docxTextExtract, textPreview],
+          })
+          .register({
+            name: 'doc',
+            mimePatterns: ['application/msword'],
+            steps: [docTextExtract, textPreview],
+          }),
+      inject: [
+        ImageMetadataStep,
+        ImageThumbnailStep,
+        ImageRenditionsStep,
+        PdfMetadataStep,
+        PdfThumbnailStep,
+        PdfPagePreviewsStep,
+        PlainTextExtractStep,
+        DocxTextExtractStep,
+        DocTextExtractStep,
+        TextPreviewStep,
+      ],
+    },
+  ],
   exports: [JobsService],
 })
 export class JobsModule {}
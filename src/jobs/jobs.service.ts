@@ -1,6 +1,7 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectQueue } from '@nestjs/bull';
-import { Queue } from 'bull';
+import { JobOptions, Queue } from 'bull';
 import { PrismaService } from 'src/prisma/prisma.service';
 
 export interface MediaProcessingJobData {
@@ -10,6 +11,19 @@ export interface MediaProcessingJobData {
   originalFilename: string;
 }
 
+export interface UrlImportJobData {
+  assetId: string;
+  objectKey: string;
+  url: string;
+  originalFilename: string;
+}
+
+export interface ArchiveExpansionJobData {
+  assetId: string;
+  objectKey: string;
+  originalFilename: string;
+}
+
 export interface JobStats {
   waiting: number;
   active: number;
@@ -18,25 +32,139 @@ export interface JobStats {
   delayed: number;
 }
 
+export interface MaintenanceTask {
+  name: string;
+  every: number; // Interval in milliseconds
+}
+
 @Injectable()
-export class JobsService {
+export class JobsService implements OnModuleInit {
   private readonly logger = new Logger(JobsService.name);
 
   constructor(
     @InjectQueue('media-processing') private mediaProcessingQueue: Queue,
+    @InjectQueue('maintenance') private maintenanceQueue: Queue,
     private prisma: PrismaService,
+    private configService: ConfigService,
   ) {}
 
+  async onModuleInit() {
+    await this.scheduleMaintenanceTasks();
+  }
+
+  /**
+   * Register the repeatable maintenance jobs
+   */
+  async scheduleMaintenanceTasks(): Promise<void> {
+    const uploadSweepInterval = Number(
+      this.configService.get<number>(
+        'UPLOAD_INTENT_SWEEP_INTERVAL',
+        15 * 60 * 1000, // 15 minutes
+      ),
+    );
+
+    const usageRecalcInterval = Number(
+      this.configService.get<number>(
+        'STORAGE_USAGE_RECALC_INTERVAL',
+        24 * 60 * 60 * 1000, // 24 hours
+      ),
+    );
+
+    const lifecycleInterval = Number(
+      this.configService.get<number>(
+        'LIFECYCLE_RULES_INTERVAL',
+        24 * 60 * 60 * 1000, // 24 hours
+      ),
+    );
+
+    const restoreCheckInterval = Number(
+      this.configService.get<number>(
+        'RESTORE_CHECK_INTERVAL',
+        15 * 60 * 1000, // 15 minutes
+      ),
+    );
+
+    const rewrapInterval = Number(
+      this.configService.get<number>(
+        'KEY_REWRAP_INTERVAL',
+        60 * 60 * 1000, // 1 hour
+      ),
+    );
+
+    const tasks: MaintenanceTask[] = [
+      { name: 'sweep-upload-intents', every: uploadSweepInterval },
+      { name: 'sweep-tus-uploads', every: uploadSweepInterval },
+      { name: 'recalculate-storage-usage', every: usageRecalcInterval },
+      { name: 'apply-lifecycle-rules', every: lifecycleInterval },
+      { name: 'complete-restores', every: restoreCheckInterval },
+      { name: 'rewrap-data-keys', every: rewrapInterval },
+    ];
+
+    try {
+      for (const task of tasks) {
+        await this.maintenanceQueue.add(
+          task.name,
+          {},
+          {
+            jobId: task.name,
+            repeat: { every: task.every },
+          },
+        );
+        this.logger.log(
+          `Scheduled maintenance task ${task.name} every ${task.every}ms`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule maintenance tasks: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
   /**
    * Add a media processing job to the queue
    */
   async addMediaProcessingJob(data: MediaProcessingJobData): Promise<string> {
-    const jobId = `media-${data.assetId}`;
-
     this.logger.log(`Adding media processing job for asset: ${data.assetId}`);
 
-    const job = await this.mediaProcessingQueue.add('process-media', data, {
-      jobId,
+    const job = await this.mediaProcessingQueue.add(
+      'process-media',
+      data,
+      this.mediaProcessingJobOptions(data.assetId),
+    );
+
+    this.logger.log(`Media processing job added with ID: ${job.id}`);
+    return job.id as string;
+  }
+
+  /**
+   * Add media processing jobs for several assets in one atomic queue call
+   */
+  async addMediaProcessingJobs(
+    data: MediaProcessingJobData[],
+  ): Promise<string[]> {
+    if (data.length === 0) {
+      return [];
+    }
+
+    this.logger.log(`Adding ${data.length} media processing jobs`);
+
+    const jobs = await this.mediaProcessingQueue.addBulk(
+      data.map((jobData) => ({
+        name: 'process-media',
+        data: jobData,
+        opts: this.mediaProcessingJobOptions(jobData.assetId),
+      })),
+    );
+
+    return jobs.map((job) => job.id as string);
+  }
+
+  private mediaProcessingJobOptions(assetId: string): JobOptions {
+    return {
+      jobId: `media-${assetId}`,
       removeOnComplete: 100,
       removeOnFail: 50,
       attempts: 3,
@@ -44,9 +172,104 @@ export class JobsService {
         type: 'exponential',
         delay: 2000,
       },
+    };
+  }
+
+  /**
+   * Add a job that downloads a remote URL into storage. Media processing is
+   * enqueued by the import job once the file is stored.
+   */
+  async addUrlImportJob(data: UrlImportJobData): Promise<string> {
+    const jobId = `import-${data.assetId}`;
+
+    this.logger.log(`Adding URL import job for asset: ${data.assetId}`);
+
+    const job = await this.mediaProcessingQueue.add('import-url', data, {
+      jobId,
+      removeOnComplete: 100,
+      removeOnFail: 50,
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 5000,
+      },
     });
 
-    this.logger.log(`Media processing job added with ID: ${job.id}`);
+    this.logger.log(`URL import job added with ID: ${job.id}`);
+    return job.id as string;
+  }
+
+  /**
+   * Add a job that extracts the entries of an uploaded archive into child
+   * assets, each of which gets its own media processing job
+   */
+  async addArchiveExpansionJob(data: ArchiveExpansionJobData): Promise<string> {
+    this.logger.log(`Adding archive expansion job for asset: ${data.assetId}`);
+
+    const job = await this.mediaProcessingQueue.add('expand-archive', data, {
+      jobId: `expand-${data.assetId}`,
+      removeOnComplete: 100,
+      removeOnFail: 50,
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 5000,
+      },
+    });
+
+    this.logger.log(`Archive expansion job added with ID: ${job.id}`);
+    return job.id as string;
+  }
+
+  /**
+   * Try to complete a restore from cold storage right away. Restores that
+   * take longer are picked up by the scheduled complete-restores task.
+   */
+  async addRestoreJob(objectKey: string): Promise<string> {
+    const job = await this.maintenanceQueue.add(
+      'complete-restores',
+      { objectKey },
+      {
+        removeOnComplete: true,
+        removeOnFail: 50,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 60000,
+        },
+      },
+    );
+
+    this.logger.log(`Restore job added for ${objectKey} with ID: ${job.id}`);
+    return job.id as string;
+  }
+
+  /**
+   * Re-wrap the data keys of a rotated encryption key right away instead of
+   * at the next scheduled rewrap-data-keys task
+   */
+  async addRewrapJob(): Promise<string> {
+    const job = await this.maintenanceQueue.add(
+      'rewrap-data-keys',
+      {},
+      { removeOnComplete: true, removeOnFail: 50 },
+    );
+
+    this.logger.log(`Data key rewrap job added with ID: ${job.id}`);
+    return job.id as string;
+  }
+
+  /**
+   * Move stored objects to the keys of the current templates
+   */
+  async addRekeyJob(): Promise<string> {
+    const job = await this.maintenanceQueue.add(
+      'rekey-objects',
+      {},
+      { removeOnComplete: true, removeOnFail: 50 },
+    );
+
+    this.logger.log(`Object re-key job added with ID: ${job.id}`);
     return job.id as string;
   }
 
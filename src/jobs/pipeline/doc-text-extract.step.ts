@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import * as WordExtractor from 'word-extractor';
+import {
+  PipelineContext,
+  PipelineStep,
+  PipelineStepResult,
+} from './pipeline-step';
+import { normalizeText } from './text-content';
+
+/**
+ * Extracts the text of a legacy Word (.doc) document
+ */
+@Injectable()
+export class DocTextExtractStep implements PipelineStep {
+  readonly name = 'doc-text-extract';
+  private readonly extractor = new WordExtractor();
+
+  async run(context: PipelineContext): Promise<PipelineStepResult> {
+    const document = await this.extractor.extract(context.original);
+
+    return {
+      text: { content: normalizeText(document.getBody()) },
+    };
+  }
+}
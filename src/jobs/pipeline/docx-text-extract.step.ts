@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import * as mammoth from 'mammoth';
+import {
+  PipelineContext,
+  PipelineStep,
+  PipelineStepResult,
+} from './pipeline-step';
+import { normalizeText } from './text-content';
+
+/**
+ * Extracts the text of a DOCX document, and its HTML for the preview
+ */
+@Injectable()
+export class DocxTextExtractStep implements PipelineStep {
+  readonly name = 'docx-text-extract';
+
+  async run(context: PipelineContext): Promise<PipelineStepResult> {
+    const input = { buffer: context.original };
+    const text = await mammoth.extractRawText(input);
+    const html = await mammoth.convertToHtml(input);
+
+    return {
+      text: {
+        content: normalizeText(text.value),
+        html: normalizeText(html.value),
+      },
+    };
+  }
+}
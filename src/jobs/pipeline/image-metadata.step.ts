@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import * as sharp from 'sharp';
+import {
+  PipelineContext,
+  PipelineStep,
+  PipelineStepResult,
+} from './pipeline-step';
+import { readPhotoMetadata } from './photo-metadata';
+
+/**
+ * Reads the dimensions and colour information of an image, and its EXIF,
+ * IPTC and XMP metadata
+ */
+@Injectable()
+export class ImageMetadataStep implements PipelineStep {
+  readonly name = 'image-metadata';
+
+  async run(context: PipelineContext): Promise<PipelineStepResult> {
+    const metadata = await sharp(context.original).metadata();
+    const format = metadata.format || 'jpeg';
+    const width = metadata.width || 0;
+    const height = metadata.height || 0;
+    const photo = await readPhotoMetadata(metadata);
+
+    return {
+      meta: {
+        format,
+        mimeType: `image/${format}`,
+        originalDimensions: `${width}x${height}`,
+        metadata: {
+          width,
+          height,
+          channels: metadata.channels || 0,
+          hasAlpha: metadata.hasAlpha || false,
+          hasProfile: metadata.hasProfile || false,
+          space: metadata.space || 'srgb',
+          depth: metadata.depth || 8,
+          density: metadata.density || 96,
+          orientation: metadata.orientation || 1,
+        },
+        photo,
+      },
+      photo: photo ?? undefined,
+    };
+  }
+}
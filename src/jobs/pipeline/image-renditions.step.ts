@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as sharp from 'sharp';
+import {
+  GeneratedRendition,
+  PipelineContext,
+  PipelineStep,
+  PipelineStepResult,
+} from './pipeline-step';
+import {
+  DEFAULT_RENDITION_PROFILES,
+  RenditionFormat,
+  RenditionProfile,
+  contentTypeForFormat,
+  parseRenditionProfiles,
+} from './rendition-profiles';
+import { toRenditionMetadata } from './photo-metadata';
+
+// Encoder quality of each format, for about the same visual quality
+const QUALITY: Record<RenditionFormat, number> = {
+  webp: 80,
+  avif: 50,
+  jpeg: 80,
+  png: 100,
+};
+
+/**
+ * Encodes an image in every size and format of RENDITION_PROFILES. Sharp
+ * drops all metadata of the original; only the categories the owner keeps
+ * are written back.
+ */
+@Injectable()
+export class ImageRenditionsStep implements PipelineStep {
+  readonly name = 'image-renditions';
+  private readonly profiles: RenditionProfile[];
+
+  constructor(private readonly configService: ConfigService) {
+    this.profiles = parseRenditionProfiles(
+      this.configService.get<string>(
+        'RENDITION_PROFILES',
+        DEFAULT_RENDITION_PROFILES,
+      ),
+    );
+  }
+
+  async run(context: PipelineContext): Promise<PipelineStepResult> {
+    const renditions: GeneratedRendition[] = [];
+    const { exif, xmp } = toRenditionMetadata(
+      context.photo ?? null,
+      context.keptMetadata,
+    );
+
+    for (const profile of this.profiles) {
+      for (const format of profile.formats) {
+        let image = sharp(context.original)
+          // Apply the EXIF orientation, which is not carried over
+          .rotate()
+          .resize({
+            width: profile.width,
+            height: profile.height,
+            fit: 'inside',
+            withoutEnlargement: true,
+          });
+        if (exif) {
+          image = image.withExif(exif);
+        }
+        if (xmp) {
+          image = image.withXmp(xmp);
+        }
+
+        const { data, info } = await image
+          .toFormat(format, { quality: QUALITY[format] })
+          .toBuffer({ resolveWithObject: true });
+
+        renditions.push({
+          name: profile.name,
+          buffer: data,
+          format,
+          contentType: contentTypeForFormat(format),
+          width: info.width,
+          height: info.height,
+        });
+      }
+    }
+
+    return { renditions };
+  }
+}
@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { ThumbnailService } from 'src/uploads/thumbnail.service';
+import {
+  PipelineContext,
+  PipelineStep,
+  PipelineStepResult,
+} from './pipeline-step';
+import { contentTypeForFormat } from './rendition-profiles';
+
+/**
+ * Generates the 300x300 thumbnail of an image
+ */
+@Injectable()
+export class ImageThumbnailStep implements PipelineStep {
+  readonly name = 'image-thumbnail';
+
+  constructor(private readonly thumbnailService: ThumbnailService) {}
+
+  async run(context: PipelineContext): Promise<PipelineStepResult> {
+    const thumbnail = await this.thumbnailService.generateThumbnail(
+      context.original,
+      {
+        width: 300,
+        height: 300,
+        quality: 80,
+        format: 'jpeg',
+      },
+    );
+    const size = context.original.length;
+
+    return {
+      meta: {
+        thumbnailSize: thumbnail.buffer.length,
+        compressionRatio: `${(
+          ((size - thumbnail.buffer.length) / size) *
+          100
+        ).toFixed(1)}%`,
+        thumbnailDimensions: `${thumbnail.width}x${thumbnail.height}`,
+        thumbnailGenerated: true,
+      },
+      thumbnail: {
+        buffer: thumbnail.buffer,
+        format: thumbnail.format,
+        contentType: contentTypeForFormat(thumbnail.format),
+        width: thumbnail.width,
+        height: thumbnail.height,
+      },
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import * as path from 'path';
+import { createCanvas } from '@napi-rs/canvas';
+import type { PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+export type PdfDocument = PDFDocumentProxy;
+
+// Permission bits of an encrypted PDF (ISO 32000-1, table 22)
+export const PDF_PERMISSIONS = {
+  print: 4,
+  modify: 8,
+  copy: 16,
+  annotate: 32,
+  fillForms: 256,
+} as const;
+
+// Fonts, character maps and decoders pdf.js loads while rendering
+const PDFJS_DIR = path.dirname(require.resolve('pdfjs-dist/package.json'));
+
+/**
+ * Open a PDF with pdf.js. The caller has to destroy the document.
+ * Throws a PasswordException when the PDF needs a password to open.
+ */
+export async function openPdf(data: Buffer): Promise<PdfDocument> {
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  return getDocument({
+    // pdf.js takes ownership of the array it is given
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    useSystemFonts: false,
+    standardFontDataUrl: `${PDFJS_DIR}/standard_fonts/`,
+    cMapUrl: `${PDFJS_DIR}/cmaps/`,
+    cMapPacked: true,
+    wasmUrl: `${PDFJS_DIR}/wasm/`,
+    verbosity: 0,
+  }).promise;
+}
+
+export function isPasswordError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'PasswordException';
+}
+
+/**
+ * Render a page to a PNG of the given width, on a white background
+ * @param pageNumber - Page to render, starting at 1
+ */
+export async function renderPdfPage(
+  document: PdfDocument,
+  pageNumber: number,
+  width: number,
+): Promise<{ buffer: Buffer; width: number; height: number }> {
+  const page = await document.getPage(pageNumber);
+  try {
+    const viewport = page.getViewport({
+      scale: width / page.getViewport({ scale: 1 }).width,
+    });
+    const canvas = createCanvas(
+      Math.ceil(viewport.width),
+      Math.ceil(viewport.height),
+    );
+    const context = canvas.getContext('2d');
+    context.fillStyle = '#FFFFFF';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+
+    await page.render({
+      canvas: canvas as unknown as HTMLCanvasElement,
+      canvasContext: context as unknown as CanvasRenderingContext2D,
+      viewport,
+    }).promise;
+
+    return {
+      buffer: canvas.toBuffer('image/png'),
+      width: canvas.width,
+      height: canvas.height,
+    };
+  } finally {
+    page.cleanup();
+  }
+}
+
+/**
+ * Parse a PDF date string such as "D:20250105120000+01'00'"
+ */
+export async function parsePdfDate(value: unknown): Promise<Date | null> {
+  if (typeof value !== 'string' || !value) {
+    return null;
+  }
+
+  const { PDFDateString } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  return PDFDateString.toDateObject(value);
+}
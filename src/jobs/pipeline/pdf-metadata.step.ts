@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import {
+  PipelineContext,
+  PipelineStep,
+  PipelineStepResult,
+} from './pipeline-step';
+import {
+  PDF_PERMISSIONS,
+  PdfDocument,
+  isPasswordError,
+  openPdf,
+  parsePdfDate,
+} from './pdf-document';
+
+/**
+ * Reads the page count, document information and encryption of a PDF.
+ * PDFs that need a password to open are only flagged as such.
+ */
+@Injectable()
+export class PdfMetadataStep implements PipelineStep {
+  readonly name = 'pdf-metadata';
+
+  async run(context: PipelineContext): Promise<PipelineStepResult> {
+    let document: PdfDocument;
+    try {
+      document = await openPdf(context.original);
+    } catch (error) {
+      if (isPasswordError(error)) {
+        return {
+          meta: { encryption: { encrypted: true, passwordProtected: true } },
+        };
+      }
+      throw error;
+    }
+
+    try {
+      const { info } = await document.getMetadata();
+      const fields = info as Record<string, unknown>;
+      // Null when every operation is allowed
+      const permissions = await document.getPermissions();
+      const allows = (flag: number) =>
+        permissions === null || permissions.includes(flag);
+      const creationDate = await parsePdfDate(fields.CreationDate);
+
+      return {
+        meta: {
+          pageCount: document.numPages,
+          title: this.toText(fields.Title),
+          author: this.toText(fields.Author),
+          creationDate: creationDate?.toISOString() ?? null,
+          encryption: {
+            encrypted: typeof fields.EncryptFilterName === 'string',
+            passwordProtected: false,
+            canPrint: allows(PDF_PERMISSIONS.print),
+            canModify: allows(PDF_PERMISSIONS.modify),
+            canCopy: allows(PDF_PERMISSIONS.copy),
+            canAnnotate: allows(PDF_PERMISSIONS.annotate),
+            canFillForms: allows(PDF_PERMISSIONS.fillForms),
+          },
+        },
+      };
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  private toText(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+  }
+}
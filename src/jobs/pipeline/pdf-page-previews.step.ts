@@ -0,0 +1,62 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as sharp from 'sharp';
+import {
+  GeneratedRendition,
+  PipelineContext,
+  PipelineStep,
+  PipelineStepResult,
+} from './pipeline-step';
+import { openPdf, renderPdfPage } from './pdf-document';
+import { contentTypeForFormat } from './rendition-profiles';
+
+/**
+ * Renders a JPEG preview of every page of PDFs with at most
+ * PDF_PREVIEW_MAX_PAGES pages. Off unless that is set.
+ */
+@Injectable()
+export class PdfPagePreviewsStep implements PipelineStep {
+  readonly name = 'pdf-page-previews';
+  private readonly maxPages: number;
+  private readonly width: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.maxPages = Number(
+      this.configService.get<number>('PDF_PREVIEW_MAX_PAGES', 0),
+    );
+    this.width = Number(
+      this.configService.get<number>('PDF_PREVIEW_WIDTH', 1024),
+    );
+  }
+
+  async run(context: PipelineContext): Promise<PipelineStepResult> {
+    const { pageCount } = context.meta;
+    if (
+      typeof pageCount !== 'number' ||
+      pageCount === 0 ||
+      pageCount > this.maxPages
+    ) {
+      return {};
+    }
+
+    const document = await openPdf(context.original);
+    try {
+      const renditions: GeneratedRendition[] = [];
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        const page = await renderPdfPage(document, pageNumber, this.width);
+        renditions.push({
+          name: `page-${pageNumber}`,
+          buffer: await sharp(page.buffer).jpeg({ quality: 80 }).toBuffer(),
+          format: 'jpeg',
+          contentType: contentTypeForFormat('jpeg'),
+          width: page.width,
+          height: page.height,
+        });
+      }
+
+      return { renditions };
+    } finally {
+      await document.destroy();
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { ThumbnailService } from 'src/uploads/thumbnail.service';
+import {
+  PipelineContext,
+  PipelineStep,
+  PipelineStepResult,
+} from './pipeline-step';
+import { openPdf, renderPdfPage } from './pdf-document';
+import { contentTypeForFormat } from './rendition-profiles';
+
+// Width the first page is rendered at before it is scaled down
+const RENDER_WIDTH = 600;
+
+/**
+ * Generates the thumbnail of a PDF from its first page. Runs after
+ * PdfMetadataStep and skips PDFs that need a password.
+ */
+@Injectable()
+export class PdfThumbnailStep implements PipelineStep {
+  readonly name = 'pdf-thumbnail';
+
+  constructor(private readonly thumbnailService: ThumbnailService) {}
+
+  async run(context: PipelineContext): Promise<PipelineStepResult> {
+    if (!context.meta.pageCount) {
+      return { meta: { thumbnailGenerated: false } };
+    }
+
+    const document = await openPdf(context.original);
+    try {
+      const page = await renderPdfPage(document, 1, RENDER_WIDTH);
+      const thumbnail = await this.thumbnailService.generateThumbnail(
+        page.buffer,
+        {
+          width: 300,
+          height: 300,
+          quality: 80,
+          format: 'jpeg',
+        },
+      );
+
+      return {
+        meta: {
+          thumbnailSize: thumbnail.buffer.length,
+          thumbnailDimensions: `${thumbnail.width}x${thumbnail.height}`,
+          thumbnailGenerated: true,
+        },
+        thumbnail: {
+          buffer: thumbnail.buffer,
+          format: thumbnail.format,
+          contentType: contentTypeForFormat(thumbnail.format),
+          width: thumbnail.width,
+          height: thumbnail.height,
+        },
+      };
+    } finally {
+      await document.destroy();
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { MetadataCategory } from '@prisma/client';
+import * as sharp from 'sharp';
+import {
+  capturedAtDate,
+  readPhotoMetadata,
+  toPhotoMetadata,
+  toRenditionMetadata,
+} from './photo-metadata';
+
+const DEFAULT_KEEP = [
+  MetadataCategory.CAMERA,
+  MetadataCategory.CAPTURE,
+  MetadataCategory.DESCRIPTION,
+];
+
+describe('photo metadata', () => {
+  const photo = toPhotoMetadata({
+    exif: {
+      Make: 'Canon',
+      Model: 'EOS R5',
+      SerialNumber: '0123456789',
+      LensModel: 'RF50mm F1.8 STM',
+      DateTimeOriginal: '2024:06:01 09:58:12',
+      OffsetTimeOriginal: '+02:00',
+      ExposureTime: 0.004,
+      FNumber: 2.8,
+      ISO: 200,
+      FocalLength: 50,
+      Flash: 16,
+      latitude: -33.8568,
+      longitude: 151.2153,
+      GPSAltitude: 4,
+      GPSAltitudeRef: new Uint8Array([1]),
+    },
+    xmp: {
+      dc: {
+        subject: ['harbour', 'night'],
+        description: { lang: 'x-default', value: 'Opera <House>' },
+      },
+    },
+    iptc: { Keywords: ['night', 'Sydney'], Byline: 'JÃ¼rgen' },
+  });
+
+  it('reads structured fields from EXIF, XMP and IPTC', () => {
+    expect(photo).toMatchObject({
+      capturedAt: '2024-06-01T09:58:12+02:00',
+      camera: { make: 'Canon', model: 'EOS R5', serialNumber: '0123456789' },
+      lens: { model: 'RF50mm F1.8 STM' },
+      exposure: { exposureTime: 0.004, iso: 200, flashFired: false },
+      location: { latitude: -33.8568, longitude: 151.2153, altitude: -4 },
+      description: {
+        caption: 'Opera <House>',
+        keywords: ['harbour', 'night', 'Sydney'],
+        creator: 'Jürgen',
+      },
+    });
+  });
+
+  it('falls back to XMP and IPTC capture times', () => {
+    expect(
+      toPhotoMetadata({ xmp: { photoshop: { DateCreated: '2024-06-01' } } })
+        ?.capturedAt,
+    ).toBe('2024-06-01T00:00:00');
+    expect(
+      toPhotoMetadata({
+        iptc: { DateCreated: '20240601', TimeCreated: '095812-0500' },
+      })?.capturedAt,
+    ).toBe('2024-06-01T09:58:12-05:00');
+    expect(toPhotoMetadata({})).toBeNull();
+  });
+
+  it('takes capture times without an offset as UTC', () => {
+    expect(capturedAtDate('2024-06-01T09:58:12')?.toISOString()).toBe(
+      '2024-06-01T09:58:12.000Z',
+    );
+    expect(capturedAtDate('2024-06-01T09:58:12+02:00')?.toISOString()).toBe(
+      '2024-06-01T07:58:12.000Z',
+    );
+  });
+
+  it('leaves location and device tags out of renditions by default', () => {
+    const { exif, xmp } = toRenditionMetadata(photo, DEFAULT_KEEP);
+
+    expect(exif?.IFD0).toEqual({ Make: 'Canon', Model: 'EOS R5' });
+    expect(exif?.IFD2).toMatchObject({
+      LensModel: 'RF50mm F1.8 STM',
+      DateTimeOriginal: '2024:06:01 09:58:12',
+      OffsetTimeOriginal: '+02:00',
+      ExposureTime: '1/250',
+      FNumber: '2800/1000',
+    });
+    expect(exif?.IFD2.BodySerialNumber).toBeUndefined();
+    expect(exif?.IFD3).toEqual({});
+    expect(xmp).toContain('<dc:description><rdf:Alt>');
+    expect(xmp).toContain('Opera &lt;House&gt;');
+  });
+
+  it('keeps only the chosen categories', () => {
+    expect(toRenditionMetadata(photo, [])).toEqual({ exif: null, xmp: null });
+
+    const { exif, xmp } = toRenditionMetadata(photo, [
+      MetadataCategory.LOCATION,
+    ]);
+    expect(exif).toEqual({
+      IFD0: {},
+      IFD2: {},
+      IFD3: {
+        GPSLatitudeRef: 'S',
+        GPSLatitude: '33/1 51/1 2448/100',
+        GPSLongitudeRef: 'E',
+        GPSLongitude: '151/1 12/1 5508/100',
+      },
+    });
+    expect(xmp).toBeNull();
+  });
+
+  it('round-trips through an encoded image', async () => {
+    const original = await sharp({
+      create: { width: 64, height: 48, channels: 3, background: '#3366cc' },
+    })
+      .jpeg()
+      .withExif({
+        IFD0: { Make: 'Nikon', Model: 'Z 6' },
+        IFD2: {
+          DateTimeOriginal: '2023:12:24 18:30:00',
+          ISOSpeedRatings: '800',
+        },
+        IFD3: {
+          GPSLatitudeRef: 'N',
+          GPSLatitude: '52/1 31/1 1200/100',
+          GPSLongitudeRef: 'E',
+          GPSLongitude: '13/1 24/1 3600/100',
+        },
+      })
+      .toBuffer();
+
+    const read = await readPhotoMetadata(await sharp(original).metadata());
+    expect(read).toMatchObject({
+      capturedAt: '2023-12-24T18:30:00',
+      camera: { make: 'Nikon', model: 'Z 6' },
+      exposure: { iso: 800 },
+    });
+    expect(read?.location?.latitude).toBeCloseTo(52.52, 4);
+    expect(read?.location?.longitude).toBeCloseTo(13.41, 4);
+
+    const { exif } = toRenditionMetadata(read, DEFAULT_KEEP);
+    const rendition = await sharp(original)
+      .withExif(exif ?? {})
+      .webp()
+      .toBuffer();
+    const kept = await readPhotoMetadata(await sharp(rendition).metadata());
+    expect(kept?.camera.make).toBe('Nikon');
+    expect(kept?.location).toBeNull();
+  });
+});
@@ -0,0 +1,472 @@
+import { MetadataCategory } from '@prisma/client';
+import { sidecar } from 'exifr';
+
+/**
+ * Structured EXIF, IPTC and XMP fields of a photo. Missing fields are null.
+ * Capture times are ISO 8601 wall-clock times, with the offset when the
+ * file records one.
+ */
+export type PhotoMetadata = {
+  capturedAt: string | null;
+  camera: {
+    make: string | null;
+    model: string | null;
+    serialNumber: string | null;
+    ownerName: string | null;
+  };
+  lens: {
+    make: string | null;
+    model: string | null;
+    serialNumber: string | null;
+  };
+  exposure: {
+    // Seconds
+    exposureTime: number | null;
+    fNumber: number | null;
+    iso: number | null;
+    // Millimetres
+    focalLength: number | null;
+    focalLength35mm: number | null;
+    exposureCompensation: number | null;
+    flashFired: boolean | null;
+  };
+  location: {
+    latitude: number;
+    longitude: number;
+    // Metres above sea level
+    altitude: number | null;
+  } | null;
+  description: {
+    title: string | null;
+    caption: string | null;
+    keywords: string[];
+    creator: string | null;
+    copyright: string | null;
+  };
+};
+
+/**
+ * Raw metadata blocks of an image, as returned by sharp's metadata()
+ */
+export interface MetadataSegments {
+  exif?: Buffer;
+  xmp?: Buffer;
+  iptc?: Buffer;
+}
+
+/**
+ * Tags of each block, as parsed by exifr
+ */
+export interface ParsedSegments {
+  exif?: Tags;
+  xmp?: Tags;
+  iptc?: Tags;
+}
+
+/**
+ * Metadata to write into a rendition, in the shape of sharp's withExif()
+ * and withXmp()
+ */
+export interface RenditionMetadata {
+  exif: Record<'IFD0' | 'IFD2' | 'IFD3', Record<string, string>> | null;
+  xmp: string | null;
+}
+
+type Tags = Record<string, unknown>;
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+
+const EXIFR_OPTIONS = {
+  translateValues: false,
+  reviveValues: false,
+  ifd1: false,
+  interop: false,
+  makerNote: false,
+  userComment: false,
+};
+
+/**
+ * Parse the metadata blocks of an image. Blocks that cannot be parsed are
+ * ignored. Returns null when the image has no metadata.
+ */
+export async function readPhotoMetadata(
+  segments: MetadataSegments,
+): Promise<PhotoMetadata | null> {
+  const parse = async (
+    buffer: Buffer | undefined,
+    type: 'tiff' | 'xmp' | 'iptc',
+  ): Promise<Tags | undefined> =>
+    buffer
+      ? ((await sidecar(buffer, EXIFR_OPTIONS, type).catch(() => undefined)) as
+          | Tags
+          | undefined)
+      : undefined;
+
+  // EXIF blocks of JPEG and WebP images start with the APP1 identifier
+  const exif =
+    segments.exif &&
+    segments.exif.subarray(0, EXIF_HEADER.length).equals(EXIF_HEADER)
+      ? segments.exif.subarray(EXIF_HEADER.length)
+      : segments.exif;
+
+  return toPhotoMetadata({
+    exif: await parse(exif, 'tiff'),
+    xmp: await parse(segments.xmp, 'xmp'),
+    iptc: await parse(segments.iptc, 'iptc'),
+  });
+}
+
+/**
+ * Pick the structured fields out of parsed tags. EXIF is preferred for
+ * camera settings, XMP then IPTC for descriptive fields.
+ */
+export function toPhotoMetadata({
+  exif = {},
+  xmp = {},
+  iptc = {},
+}: ParsedSegments): PhotoMetadata | null {
+  if (![exif, xmp, iptc].some((tags) => Object.keys(tags).length > 0)) {
+    return null;
+  }
+
+  const dc = asTags(xmp.dc);
+  const photoshop = asTags(xmp.photoshop);
+  const xmpBasic = asTags(xmp.xmp);
+  const xmpExif = asTags(xmp.exif);
+  const tiff = asTags(xmp.tiff);
+  const aux = asTags(xmp.aux);
+  const iptcText = (key: string) => fromLatin1(text(iptc[key]));
+
+  const flash = number(exif.Flash);
+  const latitude = number(exif.latitude);
+  const longitude = number(exif.longitude);
+  const altitude = number(exif.GPSAltitude);
+
+  return {
+    capturedAt:
+      exifDate(exif.DateTimeOriginal, exif.OffsetTimeOriginal) ??
+      exifDate(exif.CreateDate, exif.OffsetTimeDigitized) ??
+      isoDate(photoshop.DateCreated) ??
+      isoDate(xmpExif.DateTimeOriginal) ??
+      isoDate(xmpBasic.CreateDate) ??
+      iptcDate(iptc.DateCreated, iptc.TimeCreated),
+    camera: {
+      make: text(exif.Make) ?? text(tiff.Make),
+      model: text(exif.Model) ?? text(tiff.Model),
+      serialNumber: text(exif.SerialNumber) ?? text(aux.SerialNumber),
+      ownerName: text(exif.OwnerName),
+    },
+    lens: {
+      make: text(exif.LensMake),
+      model: text(exif.LensModel) ?? text(aux.Lens),
+      serialNumber: text(exif.LensSerialNumber) ?? text(aux.LensSerialNumber),
+    },
+    exposure: {
+      exposureTime: number(exif.ExposureTime),
+      fNumber: number(exif.FNumber),
+      iso: number(exif.ISO),
+      focalLength: number(exif.FocalLength),
+      focalLength35mm: number(exif.FocalLengthIn35mmFormat),
+      exposureCompensation: number(exif.ExposureCompensation),
+      flashFired: flash === null ? null : (flash & 1) === 1,
+    },
+    location:
+      latitude !== null &&
+      longitude !== null &&
+      Math.abs(latitude) <= 90 &&
+      Math.abs(longitude) <= 180
+        ? {
+            latitude,
+            longitude,
+            altitude:
+              altitude === null
+                ? null
+                : number(exif.GPSAltitudeRef) === 1
+                  ? -altitude
+                  : altitude,
+          }
+        : null,
+    description: {
+      title: text(dc.title) ?? iptcText('ObjectName'),
+      caption:
+        text(dc.description) ??
+        iptcText('Caption') ??
+        text(exif.ImageDescription),
+      keywords: [
+        ...new Set(
+          [
+            ...list(dc.subject),
+            ...list(iptc.Keywords).map((keyword) => fromLatin1(keyword)),
+          ].filter((keyword): keyword is string => !!keyword),
+        ),
+      ],
+      creator: text(dc.creator) ?? iptcText('Byline') ?? text(exif.Artist),
+      copyright:
+        text(dc.rights) ?? iptcText('CopyrightNotice') ?? text(exif.Copyright),
+    },
+  };
+}
+
+/**
+ * Build the metadata a rendition keeps, limited to the given categories.
+ * Descriptive fields are written as XMP, because EXIF text is ASCII only.
+ */
+export function toRenditionMetadata(
+  photo: PhotoMetadata | null,
+  keep: MetadataCategory[],
+): RenditionMetadata {
+  const exif: Record<'IFD0' | 'IFD2' | 'IFD3', Record<string, string>> = {
+    IFD0: {},
+    IFD2: {},
+    IFD3: {},
+  };
+  let xmp: string | null = null;
+
+  if (!photo) {
+    return { exif: null, xmp };
+  }
+
+  if (keep.includes(MetadataCategory.CAMERA)) {
+    setTag(exif.IFD0, 'Make', photo.camera.make);
+    setTag(exif.IFD0, 'Model', photo.camera.model);
+    setTag(exif.IFD2, 'LensMake', photo.lens.make);
+    setTag(exif.IFD2, 'LensModel', photo.lens.model);
+  }
+
+  if (keep.includes(MetadataCategory.DEVICE)) {
+    setTag(exif.IFD2, 'BodySerialNumber', photo.camera.serialNumber);
+    setTag(exif.IFD2, 'CameraOwnerName', photo.camera.ownerName);
+    setTag(exif.IFD2, 'LensSerialNumber', photo.lens.serialNumber);
+  }
+
+  if (keep.includes(MetadataCategory.CAPTURE)) {
+    const captured = photo.capturedAt?.match(
+      /^(\d{4})-(\d{2})-(\d{2})T(\d{2}:\d{2}:\d{2})(?:\.\d+)?(Z|[+-]\d{2}:\d{2})?$/,
+    );
+    if (captured) {
+      const [, year, month, day, time, offset] = captured;
+      setTag(exif.IFD2, 'DateTimeOriginal', `${year}:${month}:${day} ${time}`);
+      setTag(
+        exif.IFD2,
+        'OffsetTimeOriginal',
+        offset === 'Z' ? '+00:00' : offset,
+      );
+    }
+
+    const { exposure } = photo;
+    setTag(exif.IFD2, 'ExposureTime', rational(exposure.exposureTime));
+    setTag(exif.IFD2, 'FNumber', rational(exposure.fNumber));
+    setTag(exif.IFD2, 'ISOSpeedRatings', integer(exposure.iso));
+    setTag(exif.IFD2, 'FocalLength', rational(exposure.focalLength));
+    setTag(
+      exif.IFD2,
+      'FocalLengthIn35mmFilm',
+      integer(exposure.focalLength35mm),
+    );
+    setTag(
+      exif.IFD2,
+      'ExposureBiasValue',
+      rational(exposure.exposureCompensation),
+    );
+  }
+
+  if (keep.includes(MetadataCategory.LOCATION) && photo.location) {
+    const { latitude, longitude, altitude } = photo.location;
+    setTag(exif.IFD3, 'GPSLatitudeRef', latitude < 0 ? 'S' : 'N');
+    setTag(exif.IFD3, 'GPSLatitude', degrees(latitude));
+    setTag(exif.IFD3, 'GPSLongitudeRef', longitude < 0 ? 'W' : 'E');
+    setTag(exif.IFD3, 'GPSLongitude', degrees(longitude));
+    // The altitude reference is a byte, which can't be written as a string,
+    // so only altitudes above sea level are kept
+    if (altitude !== null && altitude >= 0) {
+      setTag(exif.IFD3, 'GPSAltitude', rational(altitude));
+    }
+  }
+
+  if (keep.includes(MetadataCategory.DESCRIPTION)) {
+    xmp = toXmp(photo.description);
+  }
+
+  const hasExif = Object.values(exif).some(
+    (tags) => Object.keys(tags).length > 0,
+  );
+  return { exif: hasExif ? exif : null, xmp };
+}
+
+/**
+ * The capture time as an instant. Times without an offset are taken as UTC.
+ */
+export function capturedAtDate(capturedAt: string | null): Date | null {
+  if (!capturedAt) {
+    return null;
+  }
+  const date = new Date(
+    /(Z|[+-]\d{2}:\d{2})$/.test(capturedAt) ? capturedAt : `${capturedAt}Z`,
+  );
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toXmp(description: PhotoMetadata['description']): string | null {
+  const alt = (value: string) =>
+    `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`;
+  const properties = [
+    description.title && `<dc:title>${alt(description.title)}</dc:title>`,
+    description.caption &&
+      `<dc:description>${alt(description.caption)}</dc:description>`,
+    description.keywords.length > 0 &&
+      `<dc:subject><rdf:Bag>${description.keywords
+        .map((keyword) => `<rdf:li>${escapeXml(keyword)}</rdf:li>`)
+        .join('')}</rdf:Bag></dc:subject>`,
+    description.creator &&
+      `<dc:creator><rdf:Seq><rdf:li>${escapeXml(description.creator)}</rdf:li></rdf:Seq></dc:creator>`,
+    description.copyright &&
+      `<dc:rights>${alt(description.copyright)}</dc:rights>`,
+  ].filter(Boolean);
+
+  if (properties.length === 0) {
+    return null;
+  }
+
+  return (
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">' +
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+    properties.join('') +
+    '</rdf:Description></rdf:RDF></x:xmpmeta>'
+  );
+}
+
+function setTag(
+  tags: Record<string, string>,
+  name: string,
+  value: string | null | undefined,
+): void {
+  if (value) {
+    tags[name] = value;
+  }
+}
+
+// "YYYY:MM:DD HH:MM:SS" with an optional "+HH:MM" offset tag
+function exifDate(value: unknown, offset: unknown): string | null {
+  const match = text(value)?.match(
+    /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}:\d{2}:\d{2})/,
+  );
+  if (!match || match[1] === '0000') {
+    return null;
+  }
+  const zone = text(offset);
+  return isoDate(
+    `${match[1]}-${match[2]}-${match[3]}T${match[4]}${
+      zone && /^[+-]\d{2}:\d{2}$/.test(zone) ? zone : ''
+    }`,
+  );
+}
+
+// IPTC dates are "YYYYMMDD" with an optional "HHMMSS+HHMM" time
+function iptcDate(date: unknown, time: unknown): string | null {
+  const day = text(date)?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!day) {
+    return null;
+  }
+  const clock = text(time)?.match(
+    /^(\d{2})(\d{2})(\d{2})(?:([+-]\d{2})(\d{2}))?$/,
+  );
+  return isoDate(
+    `${day[1]}-${day[2]}-${day[3]}T` +
+      (clock
+        ? `${clock[1]}:${clock[2]}:${clock[3]}${clock[4] ? `${clock[4]}:${clock[5]}` : ''}`
+        : '00:00:00'),
+  );
+}
+
+// XMP dates may leave out the seconds, or the whole time
+function isoDate(value: unknown): string | null {
+  const match = text(value)?.match(
+    /^(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2})(:\d{2}(?:\.\d+)?)?)?(Z|[+-]\d{2}:\d{2})?$/,
+  );
+  if (!match) {
+    return null;
+  }
+  const [, day, minutes = '00:00', seconds = ':00', offset = ''] = match;
+  const iso = `${day}T${minutes}${seconds}${offset}`;
+  return capturedAtDate(iso) ? iso : null;
+}
+
+function asTags(value: unknown): Tags {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Tags)
+    : {};
+}
+
+// XMP language alternatives are { lang, value } objects
+function text(value: unknown): string | null {
+  if (Array.isArray(value)) {
+    return text(value[0]);
+  }
+  if (value && typeof value === 'object' && 'value' in value) {
+    return text((value as { value: unknown }).value);
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.replaceAll('\u0000', '').trim();
+  return trimmed || null;
+}
+
+function list(value: unknown): (string | null)[] {
+  return Array.isArray(value) ? value.map(text) : [text(value)];
+}
+
+// Byte tags come back as arrays
+function number(value: unknown): number | null {
+  const first =
+    ArrayBuffer.isView(value) || Array.isArray(value)
+      ? (value as ArrayLike<unknown>)[0]
+      : value;
+  return typeof first === 'number' && Number.isFinite(first) ? first : null;
+}
+
+// IPTC strings are read as Latin-1 but are usually UTF-8
+function fromLatin1(value: string | null): string | null {
+  if (!value) {
+    return value;
+  }
+  const utf8 = Buffer.from(value, 'latin1').toString('utf8');
+  return utf8.includes('\uFFFD') ? value : utf8;
+}
+
+function rational(value: number | null): string | null {
+  if (value === null) {
+    return null;
+  }
+  // Exposure times are written as 1/n seconds
+  const reciprocal = value > 0 && value < 1 ? 1 / value : 0;
+  if (reciprocal > 0 && Math.abs(reciprocal - Math.round(reciprocal)) < 1e-6) {
+    return `1/${Math.round(reciprocal)}`;
+  }
+  return `${Math.round(value * 1000)}/1000`;
+}
+
+function integer(value: number | null): string | null {
+  return value === null ? null : String(Math.round(value));
+}
+
+// Degrees, minutes and hundredths of seconds
+function degrees(value: number): string {
+  const absolute = Math.abs(value);
+  const whole = Math.floor(absolute);
+  const minutes = Math.floor((absolute - whole) * 60);
+  const seconds = Math.round(((absolute - whole) * 60 - minutes) * 6000);
+  return `${whole}/1 ${minutes}/1 ${seconds}/100`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;');
+}
@@ -0,0 +1,59 @@
+import { PipelineRegistry } from './pipeline-registry';
+import { PipelineStep } from './pipeline-step';
+
+describe('PipelineRegistry', () => {
+  const step = (name: string): PipelineStep => ({
+    name,
+    run: () => Promise.resolve({}),
+  });
+
+  const registry = new PipelineRegistry()
+    .register({
+      name: 'image',
+      mimePatterns: ['image/*'],
+      steps: [step('image-metadata')],
+    })
+    .register({
+      name: 'svg',
+      mimePatterns: ['image/svg+xml'],
+      steps: [step('svg-metadata')],
+    })
+    .register({
+      name: 'text',
+      mimePatterns: ['text/plain', 'text/markdown'],
+      steps: [step('text-extract')],
+    });
+
+  it('resolves wildcard and exact patterns', () => {
+    expect(registry.resolve('image/png')?.name).toBe('image');
+    expect(registry.resolve('text/markdown')?.name).toBe('text');
+  });
+
+  it('prefers an exact pattern over a wildcard', () => {
+    expect(registry.resolve('image/svg+xml')?.name).toBe('svg');
+  });
+
+  it('ignores case and parameters', () => {
+    expect(registry.resolve('Text/Plain; charset=utf-8')?.name).toBe('text');
+  });
+
+  it('returns null for types without a pipeline', () => {
+    expect(registry.resolve('application/pdf')).toBeNull();
+    expect(registry.resolve('text/csv')).toBeNull();
+  });
+
+  it('rejects duplicate and empty pipelines', () => {
+    expect(() =>
+      new PipelineRegistry()
+        .register({ name: 'a', mimePatterns: ['a/*'], steps: [step('a')] })
+        .register({ name: 'a', mimePatterns: ['b/*'], steps: [step('b')] }),
+    ).toThrow('already registered');
+    expect(() =>
+      new PipelineRegistry().register({
+        name: 'a',
+        mimePatterns: ['a/*'],
+        steps: [],
+      }),
+    ).toThrow('no steps');
+  });
+});
@@ -0,0 +1,55 @@
+import { PipelineStep } from './pipeline-step';
+
+export interface Pipeline {
+  name: string;
+  // Exact content types such as "application/pdf", or "image/*"
+  mimePatterns: string[];
+  steps: PipelineStep[];
+}
+
+/**
+ * Maps content types to the processing pipeline that handles them. An exact
+ * pattern takes precedence over a wildcard; otherwise the pipeline
+ * registered first wins.
+ */
+export class PipelineRegistry {
+  private readonly pipelines: Pipeline[] = [];
+
+  register(pipeline: Pipeline): this {
+    if (this.pipelines.some(({ name }) => name === pipeline.name)) {
+      throw new Error(`Pipeline ${pipeline.name} is already registered`);
+    }
+    if (pipeline.steps.length === 0) {
+      throw new Error(`Pipeline ${pipeline.name} has no steps`);
+    }
+
+    this.pipelines.push({
+      ...pipeline,
+      mimePatterns: pipeline.mimePatterns.map((pattern) =>
+        pattern.toLowerCase(),
+      ),
+    });
+    return this;
+  }
+
+  /**
+   * The pipeline for a content type, or null when none handles it
+   */
+  resolve(mime: string): Pipeline | null {
+    // Drop parameters such as "; charset=utf-8"
+    const type = mime.split(';')[0].trim().toLowerCase();
+    const wildcard = `${type.split('/')[0]}/*`;
+
+    return (
+      this.pipelines.find(({ mimePatterns }) => mimePatterns.includes(type)) ??
+      this.pipelines.find(({ mimePatterns }) =>
+        mimePatterns.includes(wildcard),
+      ) ??
+      null
+    );
+  }
+
+  list(): Pipeline[] {
+    return [...this.pipelines];
+  }
+}
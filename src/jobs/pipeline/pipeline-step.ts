@@ -0,0 +1,78 @@
+import { MetadataCategory, Prisma } from '@prisma/client';
+import { PhotoMetadata } from './photo-metadata';
+
+/**
+ * What a step knows about the asset being processed
+ */
+export interface PipelineContext {
+  assetId: string;
+  ownerId: string;
+  // Content type of the asset, checked against the stored bytes
+  mime: string;
+  originalFilename: string;
+  size: number;
+  // The original, downloaded once and shared by all steps
+  original: Buffer;
+  // Metadata returned by the steps that ran before this one
+  meta: Prisma.JsonObject;
+  // Text extracted by an earlier step
+  text?: ExtractedText;
+  // Photo metadata read by an earlier step
+  photo?: PhotoMetadata;
+  // Metadata the owner keeps in renditions
+  keptMetadata: MetadataCategory[];
+}
+
+/**
+ * Text of a document, stored with the asset so it can be searched
+ */
+export interface ExtractedText {
+  content: string;
+  // Encoding the text was decoded from, for plain text
+  encoding?: string;
+  // The document as HTML, when its format has markup; not yet sanitized
+  html?: string;
+}
+
+/**
+ * A file generated by a step, stored under one of the asset's derived keys
+ */
+export interface GeneratedFile {
+  buffer: Buffer;
+  format: string;
+  contentType: string;
+}
+
+export interface GeneratedImage extends GeneratedFile {
+  width: number;
+  height: number;
+}
+
+/**
+ * A rendition of the asset, such as a resized image or a document page.
+ * Renditions are identified by their name and format.
+ */
+export interface GeneratedRendition extends GeneratedFile {
+  name: string;
+  width?: number;
+  height?: number;
+}
+
+export interface PipelineStepResult {
+  // Merged into the asset's meta
+  meta?: Prisma.JsonObject;
+  thumbnail?: GeneratedImage;
+  renditions?: GeneratedRendition[];
+  text?: ExtractedText;
+  photo?: PhotoMetadata;
+}
+
+/**
+ * One stage of a processing pipeline. Steps run in order; a step that
+ * throws fails the job, which is retried like any other processing error.
+ */
+export interface PipelineStep {
+  readonly name: string;
+
+  run(context: PipelineContext): Promise<PipelineStepResult>;
+}
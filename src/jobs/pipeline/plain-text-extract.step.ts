@@ -0,0 +1,24 @@
+import { Injectable } from '@nestjs/common';
+import {
+  PipelineContext,
+  PipelineStep,
+  PipelineStepResult,
+} from './pipeline-step';
+import { decodeText } from './text-content';
+
+/**
+ * Decodes plain text, detecting the encoding it was saved in
+ */
+@Injectable()
+export class PlainTextExtractStep implements PipelineStep {
+  readonly name = 'plain-text-extract';
+
+  run(context: PipelineContext): Promise<PipelineStepResult> {
+    const { content, encoding } = decodeText(context.original);
+
+    return Promise.resolve({
+      meta: { encoding },
+      text: { content, encoding },
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  DEFAULT_RENDITION_PROFILES,
+  contentTypeForFormat,
+  parseRenditionProfiles,
+  renditionVariant,
+} from './rendition-profiles';
+
+describe('rendition profiles', () => {
+  it('parses the defaults', () => {
+    expect(parseRenditionProfiles(DEFAULT_RENDITION_PROFILES)).toEqual([
+      { name: 'small', width: 320, height: 320, formats: ['webp', 'avif'] },
+      { name: 'medium', width: 1024, height: 1024, formats: ['webp', 'avif'] },
+      { name: 'large', width: 2048, height: 2048, formats: ['webp', 'avif'] },
+    ]);
+  });
+
+  it('turns renditions off with an empty list', () => {
+    expect(parseRenditionProfiles('')).toEqual([]);
+    expect(parseRenditionProfiles(' , ')).toEqual([]);
+  });
+
+  it('ignores whitespace and repeated formats', () => {
+    expect(parseRenditionProfiles(' grid:200x150:jpeg+jpeg ')).toEqual([
+      { name: 'grid', width: 200, height: 150, formats: ['jpeg'] },
+    ]);
+  });
+
+  it('rejects malformed profiles', () => {
+    expect(() => parseRenditionProfiles('small:320:webp')).toThrow(
+      'Invalid rendition profile',
+    );
+    expect(() => parseRenditionProfiles('small:320x320:gif')).toThrow(
+      'Unknown format "gif"',
+    );
+    expect(() => parseRenditionProfiles('small:0x320:webp')).toThrow(
+      'between 1 and 8192',
+    );
+    expect(() =>
+      parseRenditionProfiles('small:320x320:webp,small:640x640:webp'),
+    ).toThrow('defined twice');
+  });
+
+  it('names variants and content types after the format', () => {
+    expect(renditionVariant('small', 'avif')).toBe('small-avif');
+    expect(contentTypeForFormat('avif')).toBe('image/avif');
+    expect(contentTypeForFormat('JPEG')).toBe('image/jpeg');
+    expect(contentTypeForFormat('html')).toBe('text/html; charset=utf-8');
+    expect(contentTypeForFormat('xyz')).toBe('application/octet-stream');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Rendition profiles: the sizes and formats images are re-encoded in for
+ * clients. RENDITION_PROFILES lists them as "name:WIDTHxHEIGHT:formats",
+ * e.g. "small:320x320:webp+avif". Images are scaled to fit the box, keeping
+ * their aspect ratio, and never enlarged.
+ */
+
+export const RENDITION_FORMATS = ['webp', 'avif', 'jpeg', 'png'] as const;
+
+export type RenditionFormat = (typeof RENDITION_FORMATS)[number];
+
+export interface RenditionProfile {
+  name: string;
+  width: number;
+  height: number;
+  formats: RenditionFormat[];
+}
+
+export const DEFAULT_RENDITION_PROFILES =
+  'small:320x320:webp+avif,medium:1024x1024:webp+avif,large:2048x2048:webp+avif';
+
+const MAX_RENDITION_SIZE = 8192;
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  gif: 'image/gif',
+  heif: 'image/heif',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml',
+  html: 'text/html; charset=utf-8',
+};
+
+/**
+ * Check a profile list and return its profiles. An empty list turns
+ * renditions off.
+ */
+export function parseRenditionProfiles(value: string): RenditionProfile[] {
+  const profiles: RenditionProfile[] = [];
+
+  for (const entry of value.split(',').map((part) => part.trim())) {
+    if (!entry) {
+      continue;
+    }
+
+    const match = /^([a-zA-Z0-9_-]+):(\d+)x(\d+):([a-z+]+)$/.exec(entry);
+    if (!match) {
+      throw new Error(
+        `Invalid rendition profile "${entry}", expected name:WIDTHxHEIGHT:formats, e.g. small:320x320:webp+avif`,
+      );
+    }
+
+    const [, name, width, height, formats] = match;
+    if (profiles.some((profile) => profile.name === name)) {
+      throw new Error(`Rendition profile ${name} is defined twice`);
+    }
+
+    const size = [Number(width), Number(height)];
+    if (size.some((pixels) => pixels < 1 || pixels > MAX_RENDITION_SIZE)) {
+      throw new Error(
+        `Rendition profile ${name} must be between 1 and ${MAX_RENDITION_SIZE} pixels wide and high`,
+      );
+    }
+
+    const unknown = formats
+      .split('+')
+      .find(
+        (format) => !(RENDITION_FORMATS as readonly string[]).includes(format),
+      );
+    if (unknown !== undefined) {
+      throw new Error(
+        `Unknown format "${unknown}" in rendition profile ${name}, expected one of: ${RENDITION_FORMATS.join(', ')}`,
+      );
+    }
+
+    profiles.push({
+      name,
+      width: size[0],
+      height: size[1],
+      formats: [...new Set(formats.split('+'))] as RenditionFormat[],
+    });
+  }
+
+  return profiles;
+}
+
+/**
+ * Variant a rendition is stored under, unique among the asset's derived files
+ */
+export function renditionVariant(name: string, format: string): string {
+  return `${name}-${format}`;
+}
+
+/**
+ * Content type of a file in the given format, as named by sharp
+ */
+export function contentTypeForFormat(format: string): string {
+  return CONTENT_TYPES[format.toLowerCase()] ?? 'application/octet-stream';
+}
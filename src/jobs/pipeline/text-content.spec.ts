@@ -0,0 +1,73 @@
+import * as iconv from 'iconv-lite';
+import {
+  countLines,
+  countWords,
+  decodeText,
+  toHtmlPreview,
+} from './text-content';
+
+describe('text content', () => {
+  it('decodes UTF-8 and strips the byte order mark', () => {
+    expect(decodeText(Buffer.from('﻿crème brûlée', 'utf8'))).toEqual({
+      content: 'crème brûlée',
+      encoding: 'utf-8',
+    });
+  });
+
+  it('decodes UTF-16 marked by a byte order mark', () => {
+    const buffer = Buffer.concat([
+      Buffer.from([0xff, 0xfe]),
+      Buffer.from('hello', 'utf16le'),
+    ]);
+    expect(decodeText(buffer)).toEqual({
+      content: 'hello',
+      encoding: 'utf-16le',
+    });
+  });
+
+  it('detects legacy encodings', () => {
+    const text = 'Привет, мир! Это обычный текстовый файл в старой кодировке.';
+    expect(decodeText(iconv.encode(text, 'windows-1251'))).toEqual({
+      content: text,
+      encoding: 'windows-1251',
+    });
+  });
+
+  it('removes NUL characters', () => {
+    expect(decodeText(Buffer.from('a\u0000b')).content).toBe('ab');
+  });
+
+  it('counts words and lines', () => {
+    expect(countWords('  one two\nthree\t four ')).toBe(4);
+    expect(countWords('')).toBe(0);
+    expect(countLines('one\r\ntwo\nthree')).toBe(3);
+    expect(countLines('one\ntwo\n')).toBe(2);
+    expect(countLines('')).toBe(0);
+  });
+
+  it('escapes plain text into a preformatted preview', () => {
+    const { html, truncated } = toHtmlPreview(
+      { content: '<script>alert(1)</script> & more' },
+      1024,
+    );
+    expect(html).toContain(
+      '<pre>&lt;script&gt;alert(1)&lt;/script&gt; &amp; more</pre>',
+    );
+    expect(truncated).toBe(false);
+  });
+
+  it('sanitizes and truncates document HTML', () => {
+    const { html, truncated } = toHtmlPreview(
+      {
+        content: '',
+        html: '<p onclick="x()">Intro <a href="javascript:x()">link</a></p><p><strong>Second paragraph</strong></p>',
+      },
+      85,
+    );
+    expect(truncated).toBe(true);
+    expect(html).toContain(
+      '<p>Intro <a>link</a></p><p><strong>Second paragra</strong></p>',
+    );
+    expect(html).not.toContain('onclick');
+  });
+});
@@ -0,0 +1,133 @@
+import { detect } from 'jschardet';
+import * as iconv from 'iconv-lite';
+import * as sanitizeHtml from 'sanitize-html';
+
+// Bytes looked at to guess the encoding of plain text
+const ENCODING_SAMPLE_BYTES = 64 * 1024;
+// Assumed for text that is not UTF-8 when no other encoding can be guessed
+const FALLBACK_ENCODING = 'windows-1252';
+
+const BYTE_ORDER_MARKS: { bytes: number[]; encoding: string }[] = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' },
+];
+
+export interface DecodedText {
+  content: string;
+  encoding: string;
+}
+
+export interface HtmlPreview {
+  html: string;
+  // Whether the document was cut off at the size limit
+  truncated: boolean;
+}
+
+/**
+ * Decode plain text in whatever encoding it was saved in. A byte order mark
+ * wins; otherwise the first 64 KiB are read as UTF-8 if they are valid, or
+ * the encoding is guessed from them.
+ */
+export function decodeText(buffer: Buffer): DecodedText {
+  let encoding = BYTE_ORDER_MARKS.find(({ bytes }) =>
+    bytes.every((byte, index) => buffer[index] === byte),
+  )?.encoding;
+
+  if (!encoding) {
+    const sample = buffer.subarray(0, ENCODING_SAMPLE_BYTES);
+    if (isUtf8(sample)) {
+      encoding = 'utf-8';
+    } else {
+      const guess = detect(sample).encoding;
+      encoding =
+        guess && iconv.encodingExists(guess)
+          ? guess.toLowerCase()
+          : FALLBACK_ENCODING;
+    }
+  }
+
+  return {
+    // iconv strips the byte order mark
+    content: normalizeText(iconv.decode(buffer, encoding)),
+    encoding,
+  };
+}
+
+function isUtf8(sample: Buffer): boolean {
+  try {
+    // Streaming tolerates a character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remove characters that cannot be stored in a Postgres text column
+ */
+export function normalizeText(text: string): string {
+  return text.replaceAll('\u0000', '');
+}
+
+export function countWords(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0;
+}
+
+export function countLines(text: string): number {
+  if (text === '') {
+    return 0;
+  }
+
+  const lines = text.split(/\r\n|\r|\n/);
+  // A final line break does not start another line
+  return lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+}
+
+/**
+ * Sanitized HTML of the first maxBytes of a document. Without HTML of its
+ * own, the text is shown preformatted.
+ */
+export function toHtmlPreview(
+  document: { content: string; html?: string },
+  maxBytes: number,
+): HtmlPreview {
+  const source = document.html ?? document.content;
+  const truncated = Buffer.byteLength(source) > maxBytes;
+
+  let body = truncated ? truncateBytes(source, maxBytes) : source;
+  if (document.html === undefined) {
+    body = `<pre>${escapeHtml(body)}</pre>`;
+  } else if (truncated) {
+    // Drop a tag that was cut in half
+    body = body.replace(/<[^>]*$/, '');
+  }
+
+  // The sanitizer also closes the elements left open by the cut
+  const html = sanitizeHtml(body, {
+    allowedTags: [...sanitizeHtml.defaults.allowedTags, 'pre'],
+    allowedAttributes: { a: ['href'], td: ['colspan', 'rowspan'] },
+    allowedSchemes: ['http', 'https', 'mailto'],
+  });
+
+  return {
+    html: `<!DOCTYPE html>\n<html><head><meta charset="utf-8"></head><body>${html}</body></html>\n`,
+    truncated,
+  };
+}
+
+// Cut at a character boundary rather than in the middle of one
+function truncateBytes(text: string, maxBytes: number): string {
+  return Buffer.from(text)
+    .subarray(0, maxBytes)
+    .toString()
+    .replace(/\uFFFD+$/, '');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
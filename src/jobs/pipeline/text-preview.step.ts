@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ThumbnailService } from 'src/uploads/thumbnail.service';
+import {
+  PipelineContext,
+  PipelineStep,
+  PipelineStepResult,
+} from './pipeline-step';
+import { countLines, countWords, toHtmlPreview } from './text-content';
+import { renderTextSnippet } from './text-snippet';
+import { contentTypeForFormat } from './rendition-profiles';
+
+// Size the snippet is rendered at before it is scaled down
+const SNIPPET_SIZE = 600;
+
+/**
+ * Counts the words and lines of the text extracted by the step before it,
+ * and generates an HTML preview of its first TEXT_PREVIEW_BYTES and a
+ * thumbnail of its beginning.
+ */
+@Injectable()
+export class TextPreviewStep implements PipelineStep {
+  readonly name = 'text-preview';
+  private readonly maxPreviewBytes: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly thumbnailService: ThumbnailService,
+  ) {
+    this.maxPreviewBytes = Number(
+      this.configService.get<number>('TEXT_PREVIEW_BYTES', 64 * 1024),
+    );
+  }
+
+  async run(context: PipelineContext): Promise<PipelineStepResult> {
+    const { text } = context;
+    if (!text) {
+      return {};
+    }
+
+    const preview = toHtmlPreview(text, this.maxPreviewBytes);
+    const thumbnail = await this.thumbnailService.generateThumbnail(
+      renderTextSnippet(text.content, SNIPPET_SIZE),
+      {
+        width: 300,
+        height: 300,
+        quality: 80,
+        format: 'jpeg',
+      },
+    );
+
+    return {
+      meta: {
+        wordCount: countWords(text.content),
+        lineCount: countLines(text.content),
+        characterCount: text.content.length,
+        previewTruncated: preview.truncated,
+        thumbnailSize: thumbnail.buffer.length,
+        thumbnailDimensions: `${thumbnail.width}x${thumbnail.height}`,
+        thumbnailGenerated: true,
+      },
+      renditions: [
+        {
+          name: 'preview',
+          buffer: Buffer.from(preview.html),
+          format: 'html',
+          contentType: contentTypeForFormat('html'),
+        },
+      ],
+      thumbnail: {
+        buffer: thumbnail.buffer,
+        format: thumbnail.format,
+        contentType: contentTypeForFormat(thumbnail.format),
+        width: thumbnail.width,
+        height: thumbnail.height,
+      },
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import * as path from 'path';
+import { GlobalFonts, SKRSContext2D, createCanvas } from '@napi-rs/canvas';
+
+// pdf.js ships Liberation Sans as a standard font; using it keeps snippets
+// readable on hosts without system fonts
+const FONT_FAMILY = 'Liberation Sans';
+const FONT_PATH = path.join(
+  path.dirname(require.resolve('pdfjs-dist/package.json')),
+  'standard_fonts',
+  'LiberationSans-Regular.ttf',
+);
+
+let fontRegistered = false;
+
+/**
+ * Render the beginning of a text as a square PNG, like a page seen from afar
+ */
+export function renderTextSnippet(text: string, size: number): Buffer {
+  if (!fontRegistered) {
+    GlobalFonts.registerFromPath(FONT_PATH, FONT_FAMILY);
+    fontRegistered = true;
+  }
+
+  const padding = Math.round(size / 25);
+  const fontSize = Math.round(size / 30);
+  const lineHeight = Math.round(fontSize * 1.3);
+  const maxLines = Math.floor((size - 2 * padding) / lineHeight);
+
+  const canvas = createCanvas(size, size);
+  const context = canvas.getContext('2d');
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, size, size);
+  context.fillStyle = '#222222';
+  context.font = `${fontSize}px "${FONT_FAMILY}"`;
+  context.textBaseline = 'top';
+
+  const lines = wrapLines(context, text, size - 2 * padding, maxLines);
+  lines.forEach((line, index) => {
+    context.fillText(line, padding, padding + index * lineHeight);
+  });
+
+  return canvas.toBuffer('image/png');
+}
+
+function wrapLines(
+  context: SKRSContext2D,
+  text: string,
+  width: number,
+  maxLines: number,
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\t/g, '    ').split(/\r\n|\r|\n/)) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (context.measureText(candidate).width <= width || !line) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+
+      // Break words longer than a line
+      while (context.measureText(line).width > width && line.length > 1) {
+        let fits = line.length - 1;
+        while (
+          fits > 1 &&
+          context.measureText(line.slice(0, fits)).width > width
+        ) {
+          fits--;
+        }
+        lines.push(line.slice(0, fits));
+        line = line.slice(fits);
+      }
+
+      if (lines.length >= maxLines) {
+        return lines.slice(0, maxLines);
+      }
+    }
+    lines.push(line);
+
+    if (lines.length >= maxLines) {
+      return lines.slice(0, maxLines);
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,312 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Job } from 'bull';
+import { Readable } from 'stream';
+import { crc32, deflateRawSync } from 'zlib';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ObjectEncryptionService } from 'src/uploads/object-encryption.service';
+import { UploadsService } from 'src/uploads/uploads.service';
+import {
+  ARCHIVE_MAX_ENTRIES,
+  ARCHIVE_MAX_TOTAL_SIZE,
+} from 'src/uploads/uploads.constants';
+import { AuditService } from 'src/common/services/audit.service';
+import { ArchiveExpansionJobData } from '../jobs.service';
+import { ArchiveExpansionProcessor } from './archive-expansion.processor';
+import { InvalidArchiveError } from './processing.errors';
+
+interface EntryFailure {
+  entry: string;
+  reason: string;
+}
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+  deflate?: boolean;
+  encrypted?: boolean;
+}
+
+/**
+ * Write a ZIP archive by hand, so entries can carry names and flags that
+ * archivers refuse to produce
+ */
+const buildZip = (entries: ZipEntry[]): Buffer => {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const data = entry.deflate ? deflateRawSync(entry.data) : entry.data;
+    // Encrypted data starts with a 12-byte encryption header
+    const body = entry.encrypted
+      ? Buffer.concat([Buffer.alloc(12), data])
+      : data;
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(entry.encrypted ? 1 : 0, 6);
+    header.writeUInt16LE(entry.deflate ? 8 : 0, 8);
+    header.writeUInt32LE(crc32(entry.data), 14);
+    header.writeUInt32LE(body.length, 18);
+    header.writeUInt32LE(entry.data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(20, 4);
+    record.writeUInt16LE(20, 6);
+    header.copy(record, 8, 6, 28);
+    record.writeUInt32LE(offset, 42);
+
+    local.push(header, name, body);
+    central.push(record, name);
+    offset += header.length + name.length + body.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...local, directory, end]);
+};
+
+describe('ArchiveExpansionProcessor', () => {
+  let processor: ArchiveExpansionProcessor;
+  let archive: Buffer;
+  // Entries extracted by earlier attempts, with the size of their asset
+  let extractedEntries: Map<string, number>;
+
+  const prisma = {
+    asset: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn<object, [{ data: { status?: string } }]>(),
+    },
+    job: {
+      create: jest.fn(),
+      update: jest.fn<
+        object,
+        [{ data: { details?: { failures?: EntryFailure[] } } }]
+      >(),
+    },
+  };
+  const uploadsService = {
+    ingestFile: jest.fn<
+      Promise<void>,
+      [{ filename: string; content: Readable }]
+    >(),
+  };
+
+  const createJob = () => ({
+    id: 7,
+    data: {
+      assetId: 'archive-1',
+      objectKey: 'users/u1/photos.zip',
+      originalFilename: 'photos.zip',
+    },
+    attemptsMade: 0,
+    progress: jest.fn(),
+    discard: jest.fn(),
+  });
+
+  const expand = (job = createJob()) =>
+    processor.expandArchive(job as unknown as Job<ArchiveExpansionJobData>);
+
+  const recordedFailures = () =>
+    prisma.job.update.mock.calls.at(-1)?.[0].data.details?.failures;
+
+  beforeEach(async () => {
+    extractedEntries = new Map();
+    jest.clearAllMocks();
+
+    prisma.asset.findUnique.mockImplementation(() => ({
+      ownerId: 'u1',
+      meta: {},
+      objectKey: 'users/u1/photos.zip',
+      size: BigInt(archive.length),
+    }));
+    prisma.asset.findMany.mockImplementation(() =>
+      [...extractedEntries].map(([archiveEntry, size]) => ({
+        meta: { archiveEntry },
+        size: BigInt(size),
+      })),
+    );
+    prisma.job.create.mockResolvedValue({ id: 'job-1' });
+    uploadsService.ingestFile.mockImplementation(async ({ content }) => {
+      for await (const chunk of content) {
+        expect(chunk).toBeInstanceOf(Buffer);
+      }
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ArchiveExpansionProcessor,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ObjectEncryptionService,
+          useValue: {
+            getObjectStream: jest.fn(
+              (_original: unknown, range?: { start: number; end: number }) =>
+                Promise.resolve(
+                  Readable.from(
+                    range
+                      ? archive.subarray(range.start, range.end + 1)
+                      : archive,
+                  ),
+                ),
+            ),
+          },
+        },
+        { provide: UploadsService, useValue: uploadsService },
+        { provide: AuditService, useValue: { logJobEvent: jest.fn() } },
+      ],
+    }).compile();
+
+    processor = module.get<ArchiveExpansionProcessor>(
+      ArchiveExpansionProcessor,
+    );
+  });
+
+  it('should extract supported entries as child assets', async () => {
+    archive = buildZip([
+      { name: 'photos/a.jpg', data: Buffer.from('first') },
+      {
+        name: 'notes.txt',
+        data: Buffer.from('hello '.repeat(50)),
+        deflate: true,
+      },
+      { name: '__MACOSX/._a.jpg', data: Buffer.from('fork') },
+      { name: 'setup.exe', data: Buffer.from('MZ') },
+    ]);
+
+    await expect(expand()).resolves.toMatchObject({
+      entryCount: 4,
+      extracted: 2,
+      skipped: 1,
+      failed: 1,
+    });
+    expect(uploadsService.ingestFile).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filename: 'a.jpg',
+        contentType: 'image/jpeg',
+        fileSize: 5,
+        parentId: 'archive-1',
+      }),
+      'u1',
+      { source: 'archive', archiveEntry: 'photos/a.jpg' },
+    );
+    expect(recordedFailures()).toEqual([
+      { entry: 'setup.exe', reason: 'Unsupported file type .exe' },
+    ]);
+  });
+
+  it('should reject archives with too many entries', async () => {
+    archive = buildZip(
+      Array.from({ length: ARCHIVE_MAX_ENTRIES + 1 }, (_, index) => ({
+        name: `${index}.txt`,
+        data: Buffer.alloc(0),
+      })),
+    );
+    const job = createJob();
+
+    await expect(expand(job)).rejects.toBeInstanceOf(InvalidArchiveError);
+    expect(uploadsService.ingestFile).not.toHaveBeenCalled();
+    expect(job.discard).toHaveBeenCalled();
+    expect(prisma.asset.update.mock.calls.at(-1)?.[0].data.status).toBe(
+      'FAILED',
+    );
+  });
+
+  it('should refuse entries over the compression ratio', async () => {
+    archive = buildZip([
+      { name: 'bomb.txt', data: Buffer.alloc(2 * 1024 * 1024), deflate: true },
+    ]);
+
+    await expect(expand()).resolves.toMatchObject({ extracted: 0, failed: 1 });
+    expect(uploadsService.ingestFile).not.toHaveBeenCalled();
+    expect(recordedFailures()).toEqual([
+      { entry: 'bomb.txt', reason: 'Compression ratio exceeds 100:1' },
+    ]);
+  });
+
+  it('should refuse entries that escape the archive', async () => {
+    archive = buildZip([
+      { name: '../evil.jpg', data: Buffer.from('evil') },
+      { name: '/etc/cron.d/evil.txt', data: Buffer.from('evil') },
+    ]);
+
+    await expect(expand()).resolves.toMatchObject({ extracted: 0, failed: 2 });
+    expect(uploadsService.ingestFile).not.toHaveBeenCalled();
+    const failures = recordedFailures() ?? [];
+    expect(failures.map(({ entry }) => entry)).toEqual([
+      '../evil.jpg',
+      '/etc/cron.d/evil.txt',
+    ]);
+    for (const { reason } of failures) {
+      expect(reason).toMatch(/^Unsafe entry name/);
+    }
+  });
+
+  it('should refuse encrypted entries', async () => {
+    archive = buildZip([
+      { name: 'secret.pdf', data: Buffer.from('%PDF-1.7'), encrypted: true },
+    ]);
+
+    await expect(expand()).resolves.toMatchObject({ extracted: 0, failed: 1 });
+    expect(recordedFailures()).toEqual([
+      { entry: 'secret.pdf', reason: 'Encrypted entries are not supported' },
+    ]);
+  });
+
+  it('should resume after the entries extracted by an earlier attempt', async () => {
+    archive = buildZip([
+      { name: 'a.jpg', data: Buffer.from('first') },
+      { name: 'b.jpg', data: Buffer.from('second') },
+      { name: 'c.jpg', data: Buffer.from('third') },
+    ]);
+
+    // The first attempt fails on storage after extracting a.jpg
+    uploadsService.ingestFile
+      .mockImplementationOnce(({ content }) => {
+        content.resume();
+        extractedEntries.set('a.jpg', 5);
+        return Promise.resolve();
+      })
+      .mockRejectedValueOnce(new Error('Storage unavailable'));
+
+    await expect(expand()).rejects.toThrow('Storage unavailable');
+    expect(uploadsService.ingestFile).toHaveBeenCalledTimes(2);
+
+    uploadsService.ingestFile.mockClear();
+    await expect(expand()).resolves.toMatchObject({
+      extracted: 3,
+      failed: 0,
+    });
+    expect(
+      uploadsService.ingestFile.mock.calls.map(([file]) => file.filename),
+    ).toEqual(['b.jpg', 'c.jpg']);
+  });
+
+  it('should count entries extracted earlier against the total size', async () => {
+    archive = buildZip([
+      { name: 'a.jpg', data: Buffer.from('first') },
+      { name: 'b.jpg', data: Buffer.from('second') },
+    ]);
+    extractedEntries.set('a.jpg', ARCHIVE_MAX_TOTAL_SIZE - 5);
+
+    await expect(expand()).resolves.toMatchObject({ extracted: 1, failed: 1 });
+    expect(uploadsService.ingestFile).not.toHaveBeenCalled();
+    expect(recordedFailures()).toEqual([
+      {
+        entry: 'b.jpg',
+        reason: `Archive exceeds ${ARCHIVE_MAX_TOTAL_SIZE} bytes when extracted`,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,484 @@
+import { Processor, Process } from '@nestjs/bull';
+import { HttpException, Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { PassThrough, Readable } from 'stream';
+import * as yauzl from 'yauzl';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  ObjectEncryptionService,
+  STORED_ORIGINAL_SELECT,
+  StoredOriginal,
+} from 'src/uploads/object-encryption.service';
+import { UploadsService } from 'src/uploads/uploads.service';
+import { pipeThrough } from 'src/uploads/pipe-through';
+import {
+  ARCHIVE_ENTRY_TYPES,
+  ARCHIVE_MAX_COMPRESSION_RATIO,
+  ARCHIVE_MAX_ENTRIES,
+  ARCHIVE_MAX_TOTAL_SIZE,
+  ARCHIVE_RATIO_CHECK_MIN_SIZE,
+} from 'src/uploads/uploads.constants';
+import { AuditService } from 'src/common/services/audit.service';
+
+import { ArchiveExpansionJobData } from '../jobs.service';
+import {
+  ArchiveEntryError,
+  IntegrityError,
+  InvalidArchiveError,
+} from './processing.errors';
+
+// Stored in the job details, hence a JSON object
+interface EntryFailure extends Prisma.JsonObject {
+  entry: string;
+  reason: string;
+}
+
+interface ExpansionResult {
+  entryCount: number;
+  extracted: number;
+  skipped: number;
+  failures: EntryFailure[];
+}
+
+/**
+ * Serves yauzl's reads with ranged storage requests, so only the central
+ * directory and the entries being extracted are downloaded (and decrypted)
+ */
+class StorageRangeReader extends yauzl.RandomAccessReader {
+  constructor(
+    private readonly objectEncryptionService: ObjectEncryptionService,
+    private readonly original: StoredOriginal,
+  ) {
+    super();
+  }
+
+  _readStreamForRange(start: number, end: number): Readable {
+    const stream = new PassThrough();
+
+    // Storage ranges are inclusive and cannot be empty
+    if (end <= start) {
+      stream.end();
+      return stream;
+    }
+
+    this.objectEncryptionService
+      .getObjectStream(this.original, { start, end: end - 1 })
+      .then(
+        (body) => pipeThrough(body, stream),
+        (error: Error) => stream.destroy(error),
+      );
+    return stream;
+  }
+}
+
+@Processor('media-processing')
+export class ArchiveExpansionProcessor {
+  private readonly logger = new Logger(ArchiveExpansionProcessor.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private objectEncryptionService: ObjectEncryptionService,
+    private uploadsService: UploadsService,
+    private auditService: AuditService,
+  ) {}
+
+  @Process('expand-archive')
+  async expandArchive(job: Job<ArchiveExpansionJobData>) {
+    const { assetId, objectKey, originalFilename } = job.data;
+
+    const asset = await this.prisma.asset.findUnique({
+      where: { id: assetId },
+      select: { ownerId: true, meta: true, ...STORED_ORIGINAL_SELECT },
+    });
+
+    if (!asset) {
+      throw new Error(`Asset ${assetId} not found`);
+    }
+
+    await this.auditService.logJobEvent(asset.ownerId, 'JOB_STARTED', assetId, {
+      jobId: String(job.id),
+      objectKey,
+      originalFilename,
+    });
+
+    // Per-entry failures are recorded on this job record
+    const dbJob = await this.prisma.job.create({
+      data: {
+        assetId,
+        state: 'ACTIVE',
+        attempts: job.attemptsMade + 1,
+      },
+    });
+
+    try {
+      const sha256 = await this.verifyIntegrity(
+        asset,
+        this.toMetaObject(asset.meta).sha256Hash,
+      );
+
+      const result = await this.extractEntries(
+        assetId,
+        asset.ownerId,
+        asset,
+        job,
+      );
+
+      const archiveMeta = {
+        entryCount: result.entryCount,
+        extracted: result.extracted,
+        skipped: result.skipped,
+        failed: result.failures.length,
+      };
+
+      await this.prisma.asset.update({
+        where: { id: assetId },
+        data: {
+          status: 'READY',
+          sha256,
+          meta: {
+            ...this.toMetaObject(asset.meta),
+            processed: true,
+            processedAt: new Date().toISOString(),
+            sha256,
+            detectedMime: 'application/zip',
+            archive: archiveMeta,
+          },
+        },
+      });
+
+      await this.prisma.job.update({
+        where: { id: dbJob.id },
+        data: {
+          state: 'COMPLETED',
+          details: { ...archiveMeta, failures: result.failures },
+        },
+      });
+
+      await this.auditService.logJobEvent(
+        asset.ownerId,
+        'JOB_COMPLETED',
+        assetId,
+        {
+          jobId: String(job.id),
+          objectKey,
+          originalFilename,
+          processingMeta: archiveMeta,
+        },
+      );
+
+      this.logger.log(
+        `Expanded archive ${assetId}: ${result.extracted} extracted, ${result.skipped} skipped, ${result.failures.length} failed`,
+      );
+
+      return { success: true, assetId, ...archiveMeta };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to expand archive ${assetId}: ${message}`);
+
+      await this.auditService.logJobEvent(
+        asset.ownerId,
+        'JOB_FAILED',
+        assetId,
+        {
+          jobId: String(job.id),
+          objectKey,
+          originalFilename,
+          error: message,
+          attempts: job.attemptsMade,
+        },
+      );
+
+      const final =
+        error instanceof InvalidArchiveError || error instanceof IntegrityError;
+
+      await this.prisma.asset.update({
+        where: { id: assetId },
+        data: {
+          status: 'FAILED',
+          meta: final
+            ? {
+                ...this.toMetaObject(asset.meta),
+                failureReason: error.code,
+                archiveError: message,
+              }
+            : undefined,
+        },
+      });
+
+      await this.prisma.job.update({
+        where: { id: dbJob.id },
+        data: { state: 'FAILED', lastError: message },
+      });
+
+      // The stored bytes won't change, so don't retry
+      if (final) {
+        await job.discard();
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Create a child asset for every supported entry. Entries extracted by an
+   * earlier attempt of the job are skipped.
+   */
+  private async extractEntries(
+    assetId: string,
+    ownerId: string,
+    original: StoredOriginal,
+    job: Job<ArchiveExpansionJobData>,
+  ): Promise<ExpansionResult> {
+    const zipfile = await this.openArchive(original);
+
+    try {
+      if (zipfile.entryCount > ARCHIVE_MAX_ENTRIES) {
+        throw new InvalidArchiveError(
+          `Archive has ${zipfile.entryCount} entries, the limit is ${ARCHIVE_MAX_ENTRIES}`,
+        );
+      }
+
+      const alreadyExtracted = await this.getExtractedEntries(assetId);
+      const result: ExpansionResult = {
+        entryCount: zipfile.entryCount,
+        extracted: alreadyExtracted.size,
+        skipped: 0,
+        failures: [],
+      };
+      // Entries extracted by earlier attempts count against the total too
+      let totalSize = [...alreadyExtracted.values()].reduce(
+        (total, size) => total + size,
+        0,
+      );
+      let processed = 0;
+
+      for await (const entry of zipfile.eachEntry()) {
+        await job.progress(
+          Math.floor((processed++ / zipfile.entryCount) * 100),
+        );
+
+        // Names are decoded here so an unsafe name fails its entry only
+        const name = yauzl.getFileNameLowLevel(
+          entry.generalPurposeBitFlag,
+          entry.fileNameRaw,
+          entry.extraFields,
+          false,
+        );
+
+        if (alreadyExtracted.has(name)) {
+          continue;
+        }
+        if (this.isIgnoredEntry(name)) {
+          result.skipped++;
+          continue;
+        }
+
+        try {
+          const contentType = this.checkEntry(entry, name, totalSize);
+          totalSize += entry.uncompressedSize;
+
+          await this.extractEntry(zipfile, entry, {
+            name,
+            contentType,
+            assetId,
+            ownerId,
+          });
+          result.extracted++;
+        } catch (error) {
+          if (
+            !(error instanceof ArchiveEntryError) &&
+            !(error instanceof HttpException)
+          ) {
+            // Storage or database trouble: retry the job, which resumes
+            // after the entries extracted so far
+            throw error;
+          }
+          result.failures.push({ entry: name, reason: error.message });
+        }
+      }
+
+      return result;
+    } finally {
+      zipfile.close();
+    }
+  }
+
+  /**
+   * Apply the path, type and zip bomb guards to an entry
+   * @param totalSize - Uncompressed bytes extracted so far
+   * @returns The content type of the entry
+   */
+  private checkEntry(
+    entry: yauzl.Entry,
+    name: string,
+    totalSize: number,
+  ): string {
+    const nameError = yauzl.validateFileName(name);
+    if (nameError) {
+      throw new ArchiveEntryError(`Unsafe entry name (${nameError})`);
+    }
+
+    if (entry.isEncrypted()) {
+      throw new ArchiveEntryError('Encrypted entries are not supported');
+    }
+
+    const extension = path.posix.extname(name).slice(1).toLowerCase();
+    const contentType = ARCHIVE_ENTRY_TYPES[extension];
+    if (!contentType) {
+      throw new ArchiveEntryError(
+        `Unsupported file type ${extension ? `.${extension}` : '(none)'}`,
+      );
+    }
+
+    if (
+      entry.uncompressedSize >= ARCHIVE_RATIO_CHECK_MIN_SIZE &&
+      entry.uncompressedSize >
+        Math.max(entry.compressedSize, 1) * ARCHIVE_MAX_COMPRESSION_RATIO
+    ) {
+      throw new ArchiveEntryError(
+        `Compression ratio exceeds ${ARCHIVE_MAX_COMPRESSION_RATIO}:1`,
+      );
+    }
+
+    if (totalSize + entry.uncompressedSize > ARCHIVE_MAX_TOTAL_SIZE) {
+      throw new ArchiveEntryError(
+        `Archive exceeds ${ARCHIVE_MAX_TOTAL_SIZE} bytes when extracted`,
+      );
+    }
+
+    return contentType;
+  }
+
+  private async extractEntry(
+    zipfile: yauzl.ZipFile,
+    entry: yauzl.Entry,
+    target: {
+      name: string;
+      contentType: string;
+      assetId: string;
+      ownerId: string;
+    },
+  ): Promise<void> {
+    let entryStream: Readable;
+    try {
+      entryStream = await zipfile.openReadStreamPromise(entry);
+    } catch (error) {
+      throw new ArchiveEntryError(
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+
+    // yauzl fails the stream when the data is corrupt or longer than the
+    // declared size; mark that as a problem with the entry, not with storage
+    const content = new PassThrough();
+    let entryError: ArchiveEntryError | null = null;
+    entryStream.once('error', (error) => {
+      entryError = new ArchiveEntryError(error.message);
+      content.destroy(entryError);
+    });
+    entryStream.pipe(content);
+
+    try {
+      await this.uploadsService.ingestFile(
+        {
+          filename: path.posix.basename(target.name),
+          contentType: target.contentType,
+          content,
+          fileSize: entry.uncompressedSize,
+          parentId: target.assetId,
+        },
+        target.ownerId,
+        { source: 'archive', archiveEntry: target.name },
+      );
+    } catch (error) {
+      throw entryError ?? error;
+    }
+  }
+
+  private async openArchive(original: StoredOriginal): Promise<yauzl.ZipFile> {
+    try {
+      return await yauzl.fromRandomAccessReaderPromise(
+        new StorageRangeReader(this.objectEncryptionService, original),
+        Number(original.size),
+        {
+          lazyEntries: true,
+          autoClose: false,
+          decodeStrings: false,
+          validateEntrySizes: true,
+        },
+      );
+    } catch (error) {
+      throw new InvalidArchiveError(
+        `Invalid ZIP archive: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Directories and files added by archivers, such as macOS resource forks
+   */
+  private isIgnoredEntry(name: string): boolean {
+    const basename = path.posix.basename(name);
+    return (
+      name.endsWith('/') ||
+      name.startsWith('__MACOSX/') ||
+      basename.startsWith('.') ||
+      basename === 'Thumbs.db'
+    );
+  }
+
+  /**
+   * Entries extracted by earlier attempts, with the size of their asset
+   */
+  private async getExtractedEntries(
+    assetId: string,
+  ): Promise<Map<string, number>> {
+    const children = await this.prisma.asset.findMany({
+      where: { parentId: assetId },
+      select: { meta: true, size: true },
+    });
+
+    const extracted = new Map<string, number>();
+    for (const child of children) {
+      const entry = this.toMetaObject(child.meta).archiveEntry;
+      if (typeof entry === 'string') {
+        extracted.set(entry, Number(child.size));
+      }
+    }
+    return extracted;
+  }
+
+  /**
+   * Hash the stored archive and compare it with the SHA-256 declared at
+   * upload, streaming it instead of holding it in memory
+   */
+  private async verifyIntegrity(
+    original: StoredOriginal,
+    declaredHash: Prisma.JsonValue | undefined,
+  ): Promise<string> {
+    const hash = createHash('sha256');
+    const body = await this.objectEncryptionService.getObjectStream(original);
+    for await (const chunk of body) {
+      hash.update(chunk as Buffer);
+    }
+
+    const actualHash = hash.digest('hex');
+    if (
+      typeof declaredHash === 'string' &&
+      declaredHash.toLowerCase() !== actualHash
+    ) {
+      throw new IntegrityError(declaredHash.toLowerCase(), actualHash);
+    }
+
+    return actualHash;
+  }
+
+  private toMetaObject(meta: Prisma.JsonValue): Prisma.JsonObject {
+    return meta && typeof meta === 'object' && !Array.isArray(meta) ? meta : {};
+  }
+}
@@ -0,0 +1,67 @@
+import { Processor, Process, OnQueueFailed } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { UploadIntentsService } from 'src/uploads/upload-intents.service';
+import { TusUploadsService } from 'src/uploads/tus-uploads.service';
+import { StorageUsageService } from 'src/uploads/storage-usage.service';
+import { StorageTieringService } from 'src/uploads/storage-tiering.service';
+import { EncryptionKeysService } from 'src/uploads/encryption-keys.service';
+import { ObjectKeysService } from 'src/uploads/object-keys.service';
+
+@Processor('maintenance')
+export class MaintenanceProcessor {
+  private readonly logger = new Logger(MaintenanceProcessor.name);
+
+  constructor(
+    private uploadIntentsService: UploadIntentsService,
+    private tusUploadsService: TusUploadsService,
+    private storageUsageService: StorageUsageService,
+    private storageTieringService: StorageTieringService,
+    private encryptionKeysService: EncryptionKeysService,
+    private objectKeysService: ObjectKeysService,
+  ) {}
+
+  @OnQueueFailed()
+  onError(job: Job, error: Error) {
+    this.logger.error(
+      `Maintenance job ${job.name} (${job.id}) failed: ${error.message}`,
+    );
+  }
+
+  @Process('sweep-upload-intents')
+  async sweepUploadIntents() {
+    return this.uploadIntentsService.sweepExpiredIntents();
+  }
+
+  @Process('sweep-tus-uploads')
+  async sweepTusUploads() {
+    const removed = await this.tusUploadsService.sweepExpiredUploads();
+    return { removed };
+  }
+
+  @Process('recalculate-storage-usage')
+  async recalculateStorageUsage() {
+    const corrected = await this.storageUsageService.recalculateUsage();
+    return { corrected };
+  }
+
+  @Process('apply-lifecycle-rules')
+  async applyLifecycleRules() {
+    return this.storageTieringService.applyLifecycleRules();
+  }
+
+  @Process('complete-restores')
+  async completeRestores(job: Job<{ objectKey?: string }>) {
+    return this.storageTieringService.completeRestores(job.data.objectKey);
+  }
+
+  @Process('rewrap-data-keys')
+  async rewrapDataKeys() {
+    return this.encryptionKeysService.rewrapDataKeys();
+  }
+
+  @Process('rekey-objects')
+  async rekeyObjects() {
+    return this.objectKeysService.rekeyObjects();
+  }
+}
@@ -5,15 +5,52 @@ import {
   OnQueueCompleted,
   OnQueueFailed,
 } from '@nestjs/bull';
-import { Logger, OnApplicationShutdown } from '@nestjs/common';
+import { Logger, OnApplicationShutdown, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Job } from 'bull';
-import * as sharp from 'sharp';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { S3Service } from 'src/uploads/s3.service';
-import { ThumbnailService } from 'src/uploads/thumbnail.service';
+import {
+  STORAGE_PROVIDER,
+  StorageProvider,
+} from 'src/uploads/storage-provider';
+import { StorageUsageService } from 'src/uploads/storage-usage.service';
+import {
+  ObjectEncryptionService,
+  STORED_ORIGINAL_SELECT,
+  StoredOriginal,
+} from 'src/uploads/object-encryption.service';
+import { ObjectKeysService } from 'src/uploads/object-keys.service';
+import { UploadsService } from 'src/uploads/uploads.service';
+import {
+  ContentSnifferService,
+  CONTENT_SNIFF_BYTES,
+  DetectedContentType,
+} from 'src/uploads/content-sniffer.service';
 import { AuditService } from 'src/common/services/audit.service';
 
 import { JobsService, MediaProcessingJobData } from '../jobs.service';
+import { ContentMismatchError, IntegrityError } from './processing.errors';
+import { Pipeline, PipelineRegistry } from '../pipeline/pipeline-registry';
+import {
+  ExtractedText,
+  GeneratedImage,
+  GeneratedRendition,
+  PipelineContext,
+} from '../pipeline/pipeline-step';
+import { PhotoMetadata, capturedAtDate } from '../pipeline/photo-metadata';
+import { countLines, countWords } from '../pipeline/text-content';
+import { renditionVariant } from '../pipeline/rendition-profiles';
+
+interface PipelineOutput {
+  meta: Prisma.JsonObject;
+  thumbnail?: GeneratedImage;
+  renditions: GeneratedRendition[];
+  text?: ExtractedText;
+  photo?: PhotoMetadata;
+}
 
 @Processor('media-processing')
 export class MediaProcessingProcessor implements OnApplicationShutdown {
@@ -22,10 +59,16 @@ export class MediaProcessingProcessor implements OnApplicationShutdown {
 
   constructor(
     private prisma: PrismaService,
-    private s3Service: S3Service,
-    private thumbnailService: ThumbnailService,
+    @Inject(STORAGE_PROVIDER) private readonly storage: StorageProvider,
     private jobsService: JobsService,
     private auditService: AuditService,
+    private contentSnifferService: ContentSnifferService,
+    private configService: ConfigService,
+    private storageUsageService: StorageUsageService,
+    private objectEncryptionService: ObjectEncryptionService,
+    private objectKeysService: ObjectKeysService,
+    private uploadsService: UploadsService,
+    private pipelineRegistry: PipelineRegistry,
   ) {}
 
   @OnQueueActive()
@@ -55,10 +98,18 @@ export class MediaProcessingProcessor implements OnApplicationShutdown {
 
     this.logger.log(`Starting media processing for asset: ${assetId}`);
 
-    // Get asset owner ID for audit logging
+    // Get asset owner ID for audit logging, and the type and hash declared at upload
     const asset = await this.prisma.asset.findUnique({
       where: { id: assetId },
-      select: { ownerId: true },
+      select: {
+        ownerId: true,
+        mime: true,
+        meta: true,
+        thumbKey: true,
+        thumbSize: true,
+        renditions: { select: { key: true, size: true } },
+        owner: { select: { keptMetadata: true } },
+      },
     });
 
     if (!asset) {
@@ -99,82 +150,208 @@ export class MediaProcessingProcessor implements OnApplicationShutdown {
         data: { status: 'PROCESSING' },
       });
 
-      // Download the image from S3
-      this.logger.debug(`Downloading image ${objectKey} from S3`);
-      const imageBuffer =
-        await this.s3Service.downloadObjectAsBuffer(objectKey);
-      this.logger.debug(`Downloaded image: ${imageBuffer.length} bytes`);
+      // Encrypt the original before anything else reads it
+      await this.objectEncryptionService.encryptObject(objectKey);
+      const original = await this.prisma.asset.findUniqueOrThrow({
+        where: { id: assetId },
+        select: STORED_ORIGINAL_SELECT,
+      });
 
-      // Extract comprehensive metadata from the image
-      const metadata = await this.extractImageMetadata(imageBuffer);
-      this.logger.debug(`Extracted metadata: ${JSON.stringify(metadata)}`);
+      // Check the real file type before handing the bytes to any decoder
+      const detected = await this.detectContentType(original, asset.mime);
+      const detectedMime = detected.mime;
 
-      // Generate thumbnail
-      this.logger.debug(`Generating thumbnail for ${originalFilename}`);
-      const thumbnailResult = await this.thumbnailService.generateThumbnail(
-        imageBuffer,
-        {
-          width: 300,
-          height: 300,
-          quality: 80,
-          format: 'jpeg',
-        },
-      );
+      // Archives are expanded into child assets by a job of their own
+      if (this.contentSnifferService.isArchive(asset.mime, detected)) {
+        const expansionJobId = await this.jobsService.addArchiveExpansionJob({
+          assetId,
+          objectKey,
+          originalFilename,
+        });
 
-      // Generate thumbnail key
-      const thumbnailKey = this.generateThumbnailKey(
-        objectKey,
-        metadata.format,
-      );
-      this.logger.debug(`Generated thumbnail key: ${thumbnailKey}`);
+        if (dbJob) {
+          await this.prisma.job.update({
+            where: { id: dbJob.id },
+            data: { state: 'COMPLETED' },
+          });
+        }
+
+        this.logger.log(
+          `Asset ${assetId} is an archive, expansion queued as job ${expansionJobId}`,
+        );
+        return { success: true, assetId, expansionJobId };
+      }
 
-      // Upload thumbnail to S3
-      this.logger.debug(`Uploading thumbnail to S3: ${thumbnailKey}`);
-      await this.s3Service.uploadObject(
-        thumbnailKey,
-        thumbnailResult.buffer,
-        metadata.mimeType,
+      // Types without a pipeline are stored as uploaded
+      const pipeline = this.pipelineRegistry.resolve(asset.mime);
+      let sha256: string;
+      let stepOutput: PipelineOutput = { meta: {}, renditions: [] };
+
+      if (pipeline) {
+        this.logger.debug(
+          `Downloading ${objectKey} for pipeline ${pipeline.name}`,
+        );
+        const buffer =
+          await this.objectEncryptionService.downloadObjectAsBuffer(original);
+        this.logger.debug(`Downloaded ${objectKey}: ${buffer.length} bytes`);
+
+        // Verify the stored bytes against the hash declared at upload
+        sha256 = await this.verifyIntegrity(
+          assetId,
+          buffer,
+          this.getDeclaredHash(asset.meta),
+        );
+
+        stepOutput = await this.runPipeline(pipeline, {
+          assetId,
+          ownerId: asset.ownerId,
+          mime: asset.mime,
+          originalFilename,
+          size: buffer.length,
+          original: buffer,
+          keptMetadata: asset.owner.keptMetadata,
+        });
+      } else {
+        this.logger.debug(
+          `No pipeline for ${asset.mime}, skipping processing of ${objectKey}`,
+        );
+        sha256 = await this.verifyIntegrity(
+          assetId,
+          await this.objectEncryptionService.getObjectStream(original),
+          this.getDeclaredHash(asset.meta),
+        );
+      }
+
+      // With the hash verified, another user's copy of the same content can
+      // replace the uploaded one
+      const deduplicated = await this.uploadsService.shareStoredOriginal(
+        assetId,
+        sha256,
       );
 
-      // Update asset with comprehensive metadata and mark as READY
-      const processingMeta = {
-        format: metadata.format,
-        mimeType: metadata.mimeType,
+      const renditions: Prisma.RenditionCreateManyInput[] = [];
+      for (const rendition of stepOutput.renditions) {
+        const key = this.objectKeysService.derivedKey({
+          userId: asset.ownerId,
+          assetId,
+          variant: renditionVariant(rendition.name, rendition.format),
+          format: rendition.format,
+        });
+        await this.storage.uploadObject(
+          key,
+          rendition.buffer,
+          rendition.contentType,
+        );
+        renditions.push({
+          assetId,
+          name: rendition.name,
+          format: rendition.format,
+          width: rendition.width ?? null,
+          height: rendition.height ?? null,
+          key,
+          size: BigInt(rendition.buffer.length),
+        });
+      }
+
+      // Step outputs are merged over what was recorded at upload
+      const processingMeta: Prisma.JsonObject = {
+        ...this.toMetaObject(asset.meta),
         processed: true,
         processedAt: new Date().toISOString(),
-        originalSize: imageBuffer.length,
-        thumbnailSize: thumbnailResult.buffer.length,
-        compressionRatio: `${(
-          ((imageBuffer.length - thumbnailResult.buffer.length) /
-            imageBuffer.length) *
-          100
-        ).toFixed(1)}%`,
+        originalSize: Number(original.size),
         originalFilename,
-        originalDimensions: `${metadata.width}x${metadata.height}`,
-        thumbnailDimensions: `${thumbnailResult.width}x${thumbnailResult.height}`,
-        metadata: {
-          width: metadata.width,
-          height: metadata.height,
-          channels: metadata.channels,
-          hasAlpha: metadata.hasAlpha,
-          hasProfile: metadata.hasProfile,
-          space: metadata.space,
-          depth: metadata.depth,
-          density: metadata.density,
-          orientation: metadata.orientation,
-        },
-        thumbnailGenerated: true,
+        sha256,
+        detectedMime,
+        pipeline: pipeline?.name ?? null,
+        ...(deduplicated && { deduplicated: true }),
+        ...stepOutput.meta,
       };
 
-      await this.prisma.asset.update({
-        where: { id: assetId },
-        data: {
-          status: 'READY',
-          thumbKey: thumbnailKey,
-          meta: processingMeta,
-        },
+      const { thumbnail, text, photo } = stepOutput;
+      let thumbnailKey: string | undefined;
+      if (thumbnail) {
+        thumbnailKey = this.objectKeysService.derivedKey({
+          userId: asset.ownerId,
+          assetId,
+          variant: 'thumb',
+          format: thumbnail.format,
+        });
+
+        this.logger.debug(`Uploading thumbnail to storage: ${thumbnailKey}`);
+        await this.storage.uploadObject(
+          thumbnailKey,
+          thumbnail.buffer,
+          thumbnail.contentType,
+        );
+      }
+
+      // Reprocessing replaces the thumbnail and renditions, so only the
+      // difference is charged
+      const thumbSize = thumbnail ? BigInt(thumbnail.buffer.length) : null;
+      const sizeDelta =
+        (thumbSize !== null ? thumbSize - (asset.thumbSize ?? 0n) : 0n) +
+        this.totalSize(renditions) -
+        this.totalSize(asset.renditions);
+      await this.prisma.$transaction(async (tx) => {
+        await tx.asset.update({
+          where: { id: assetId },
+          data: {
+            status: 'READY',
+            meta: processingMeta,
+            ...(thumbSize !== null && { thumbKey: thumbnailKey, thumbSize }),
+            capturedAt: capturedAtDate(photo?.capturedAt ?? null),
+            latitude: photo?.location?.latitude ?? null,
+            longitude: photo?.location?.longitude ?? null,
+          },
+        });
+        await tx.rendition.deleteMany({ where: { assetId } });
+        await tx.rendition.createMany({ data: renditions });
+        if (sizeDelta !== 0n) {
+          await this.storageUsageService.adjustUsage(
+            tx,
+            asset.ownerId,
+            sizeDelta,
+          );
+        }
+        if (text) {
+          const data = {
+            content: text.content,
+            encoding: text.encoding ?? null,
+            wordCount: countWords(text.content),
+            lineCount: countLines(text.content),
+          };
+          await tx.assetText.upsert({
+            where: { assetId },
+            create: { assetId, ...data },
+            update: data,
+          });
+        }
       });
 
+      // A thumbnail stored under an older key layout is now orphaned,
+      // unless assets sharing the original still point at it
+      if (
+        thumbnailKey &&
+        asset.thumbKey &&
+        asset.thumbKey !== thumbnailKey &&
+        (await this.prisma.asset.count({
+          where: { thumbKey: asset.thumbKey },
+        })) === 0
+      ) {
+        await this.storage.deleteObject(asset.thumbKey);
+      }
+
+      // Likewise renditions that were not generated again
+      const renditionKeys = new Set(renditions.map(({ key }) => key));
+      for (const { key } of asset.renditions) {
+        if (
+          !renditionKeys.has(key) &&
+          (await this.prisma.rendition.count({ where: { key } })) === 0
+        ) {
+          await this.storage.deleteObject(key);
+        }
+      }
+
       // Update database job as completed
       if (dbJob) {
         await this.prisma.job.update({
@@ -201,9 +378,6 @@ export class MediaProcessingProcessor implements OnApplicationShutdown {
         },
       );
 
-      this.logger.log(
-        `Image processing completed successfully for ${originalFilename}`,
-      );
       this.logger.log(`Media processing completed for asset: ${assetId}`);
 
       return {
@@ -234,10 +408,52 @@ export class MediaProcessingProcessor implements OnApplicationShutdown {
       );
 
       // Update asset status to FAILED
-      await this.prisma.asset.update({
-        where: { id: assetId },
-        data: { status: 'FAILED' },
-      });
+      if (error instanceof ContentMismatchError) {
+        const quarantine =
+          this.configService.get<string>(
+            'CONTENT_MISMATCH_ACTION',
+            'quarantine',
+          ) !== 'fail';
+
+        await this.prisma.asset.update({
+          where: { id: assetId },
+          data: {
+            status: quarantine ? 'QUARANTINED' : 'FAILED',
+            meta: {
+              ...this.toMetaObject(asset.meta),
+              failureReason: error.code,
+              declaredMime: error.declaredMime,
+              detectedMime: error.detectedMime,
+            },
+          },
+        });
+
+        // The stored bytes won't change, so don't retry
+        await job.discard();
+      } else if (error instanceof IntegrityError) {
+        await this.prisma.asset.update({
+          where: { id: assetId },
+          data: {
+            status: 'FAILED',
+            meta: {
+              ...this.toMetaObject(asset.meta),
+              failureReason: error.code,
+              integrity: {
+                expectedSha256: error.expectedHash,
+                actualSha256: error.actualHash,
+              },
+            },
+          },
+        });
+
+        // The stored bytes won't change, so don't retry
+        await job.discard();
+      } else {
+        await this.prisma.asset.update({
+          where: { id: assetId },
+          data: { status: 'FAILED' },
+        });
+      }
 
       // Update database job as failed
       if (dbJob) {
@@ -257,32 +473,108 @@ export class MediaProcessingProcessor implements OnApplicationShutdown {
   }
 
   /**
-   * Extract comprehensive metadata from image buffer
+   * Read the leading bytes of the stored object and detect its real type.
+   * Throws when it contradicts the content type declared at upload.
+   */
+  private async detectContentType(
+    original: StoredOriginal,
+    declaredMime: string,
+  ): Promise<DetectedContentType> {
+    const size = Number(original.size);
+    const header =
+      size > 0
+        ? await this.objectEncryptionService.getObjectRange(
+            original,
+            0,
+            Math.min(size, CONTENT_SNIFF_BYTES) - 1,
+          )
+        : Buffer.alloc(0);
+
+    const detected = this.contentSnifferService.detect(header);
+    this.logger.debug(
+      `Detected content type ${detected.mime} for ${original.objectKey}`,
+    );
+
+    if (
+      !this.contentSnifferService.matchesDeclaredType(declaredMime, detected)
+    ) {
+      throw new ContentMismatchError(declaredMime, detected.mime);
+    }
+
+    return detected;
+  }
+
+  /**
+   * Run the steps of a pipeline in order, each seeing the metadata, text and
+   * photo metadata of the steps before it
    */
-  private async extractImageMetadata(buffer: Buffer) {
-    const metadata = await sharp(buffer).metadata();
-    return {
-      format: metadata.format || 'jpeg',
-      mimeType: `image/${metadata.format || 'jpeg'}`,
-      width: metadata.width || 0,
-      height: metadata.height || 0,
-      channels: metadata.channels || 0,
-      hasAlpha: metadata.hasAlpha || false,
-      hasProfile: metadata.hasProfile || false,
-      space: metadata.space || 'srgb',
-      depth: metadata.depth || 8,
-      density: metadata.density || 96,
-      orientation: metadata.orientation || 1,
-    };
+  private async runPipeline(
+    pipeline: Pipeline,
+    context: Omit<PipelineContext, 'meta' | 'text' | 'photo'>,
+  ): Promise<PipelineOutput> {
+    const output: PipelineOutput = { meta: {}, renditions: [] };
+
+    for (const step of pipeline.steps) {
+      this.logger.debug(`Running ${step.name} for asset ${context.assetId}`);
+      const result = await step.run({
+        ...context,
+        meta: { ...output.meta },
+        text: output.text,
+        photo: output.photo,
+      });
+
+      Object.assign(output.meta, result.meta);
+      output.thumbnail = result.thumbnail ?? output.thumbnail;
+      output.renditions.push(...(result.renditions ?? []));
+      output.text = result.text ?? output.text;
+      output.photo = result.photo ?? output.photo;
+    }
+
+    return output;
   }
 
   /**
-   * Generate thumbnail key from original key
+   * Hash the stored bytes and compare them with the declared SHA-256.
+   * The verified hash is stored on the asset.
    */
-  private generateThumbnailKey(originalKey: string, format: string): string {
-    // Remove file extension and add thumbnail suffix
-    const baseKey = originalKey.replace(/\.[^/.]+$/, '');
-    return `${baseKey}_thumb.${format}`;
+  private async verifyIntegrity(
+    assetId: string,
+    content: Buffer | Readable,
+    declaredHash?: string,
+  ): Promise<string> {
+    const hash = createHash('sha256');
+    if (Buffer.isBuffer(content)) {
+      hash.update(content);
+    } else {
+      for await (const chunk of content) {
+        hash.update(chunk as Buffer);
+      }
+    }
+    const actualHash = hash.digest('hex');
+
+    if (declaredHash && declaredHash.toLowerCase() !== actualHash) {
+      throw new IntegrityError(declaredHash.toLowerCase(), actualHash);
+    }
+
+    await this.prisma.asset.update({
+      where: { id: assetId },
+      data: { sha256: actualHash },
+    });
+
+    return actualHash;
+  }
+
+  private totalSize(renditions: { size: bigint | number }[]): bigint {
+    return renditions.reduce((total, { size }) => total + BigInt(size), 0n);
+  }
+
+  private getDeclaredHash(meta: Prisma.JsonValue): string | undefined {
+    const hash = this.toMetaObject(meta).sha256Hash;
+    return typeof hash === 'string' ? hash : undefined;
+  }
+
+  private toMetaObject(meta: Prisma.JsonValue): Prisma.JsonObject {
+    return meta && typeof meta === 'object' && !Array.isArray(meta) ? meta : {};
   }
 
   /**
@@ -0,0 +1,59 @@
+/**
+ * Raised when the stored bytes do not hash to the SHA-256 declared at upload.
+ * Retrying cannot fix this, so the job is failed without further attempts.
+ */
+export class IntegrityError extends Error {
+  readonly code = 'INTEGRITY_MISMATCH';
+
+  constructor(
+    readonly expectedHash: string,
+    readonly actualHash: string,
+  ) {
+    super(
+      `Integrity check failed: expected SHA-256 ${expectedHash}, got ${actualHash}`,
+    );
+    this.name = 'IntegrityError';
+  }
+}
+
+/**
+ * Raised when an archive cannot be expanded at all, e.g. it is corrupt or has
+ * too many entries. Retrying cannot fix this.
+ */
+export class InvalidArchiveError extends Error {
+  readonly code = 'INVALID_ARCHIVE';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidArchiveError';
+  }
+}
+
+/**
+ * Raised when a single archive entry cannot be extracted. The failure is
+ * recorded and expansion continues with the next entry.
+ */
+export class ArchiveEntryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveEntryError';
+  }
+}
+
+/**
+ * Raised when the file signature shows a different type than the one declared
+ * at upload, e.g. an executable uploaded as image/jpeg.
+ */
+export class ContentMismatchError extends Error {
+  readonly code = 'CONTENT_TYPE_MISMATCH';
+
+  constructor(
+    readonly declaredMime: string,
+    readonly detectedMime: string,
+  ) {
+    super(
+      `Content type mismatch: declared ${declaredMime}, detected ${detectedMime}`,
+    );
+    this.name = 'ContentMismatchError';
+  }
+}
@@ -0,0 +1,239 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger, Inject } from '@nestjs/common';
+import { Job } from 'bull';
+import { createHash } from 'crypto';
+import { Transform } from 'stream';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  STORAGE_PROVIDER,
+  StorageProvider,
+} from 'src/uploads/storage-provider';
+import {
+  UrlFetcherService,
+  UrlFetchError,
+} from 'src/uploads/url-fetcher.service';
+import { UploadPoliciesService } from 'src/uploads/upload-policies.service';
+import { StorageUsageService } from 'src/uploads/storage-usage.service';
+import {
+  MAX_SINGLE_UPLOAD_SIZE,
+  URL_IMPORT_MAX_REDIRECTS,
+  URL_IMPORT_TIMEOUT,
+} from 'src/uploads/uploads.constants';
+import { pipeThrough } from 'src/uploads/pipe-through';
+import { AuditService } from 'src/common/services/audit.service';
+
+import { JobsService, UrlImportJobData } from '../jobs.service';
+
+@Processor('media-processing')
+export class UrlImportProcessor {
+  private readonly logger = new Logger(UrlImportProcessor.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(STORAGE_PROVIDER) private readonly storage: StorageProvider,
+    private urlFetcherService: UrlFetcherService,
+    private uploadPoliciesService: UploadPoliciesService,
+    private storageUsageService: StorageUsageService,
+    private jobsService: JobsService,
+    private auditService: AuditService,
+  ) {}
+
+  @Process('import-url')
+  async importUrl(job: Job<UrlImportJobData>) {
+    const { assetId, objectKey, url, originalFilename } = job.data;
+
+    const asset = await this.prisma.asset.findUnique({
+      where: { id: assetId },
+      select: { ownerId: true, meta: true },
+    });
+
+    if (!asset) {
+      throw new Error(`Asset ${assetId} not found`);
+    }
+
+    await this.auditService.logJobEvent(asset.ownerId, 'JOB_STARTED', assetId, {
+      jobId: String(job.id),
+      objectKey,
+      originalFilename,
+    });
+
+    // Track the import in the database like any other asset job
+    const dbJob = await this.prisma.job.create({
+      data: {
+        assetId,
+        state: 'ACTIVE',
+        attempts: job.attemptsMade + 1,
+      },
+    });
+
+    try {
+      const policy = await this.uploadPoliciesService.getEffectivePolicy(
+        asset.ownerId,
+      );
+
+      // Stop the download once it would take the owner over their quota
+      const availableBytes = await this.storageUsageService.getAvailableBytes(
+        asset.ownerId,
+      );
+      if (availableBytes === 0) {
+        throw new UrlFetchError('Storage quota exceeded');
+      }
+
+      const resource = await this.urlFetcherService.fetch(url, {
+        maxBytes: Math.min(
+          this.uploadPoliciesService.maxFileSize(
+            policy,
+            MAX_SINGLE_UPLOAD_SIZE,
+          ),
+          availableBytes ?? Infinity,
+        ),
+        timeoutMs: URL_IMPORT_TIMEOUT,
+        maxRedirects: URL_IMPORT_MAX_REDIRECTS,
+      });
+
+      // The type declared by the final response, after redirects
+      const contentType = (resource.contentType ?? '')
+        .split(';')[0]
+        .trim()
+        .toLowerCase();
+
+      if (!this.uploadPoliciesService.isTypeAllowed(policy, contentType)) {
+        resource.body.destroy();
+        throw new UrlFetchError(
+          `Remote file type ${contentType || 'unknown'} is not allowed`,
+        );
+      }
+
+      const hash = createHash('sha256');
+      const total = resource.contentLength;
+      let size = 0;
+      let reportedProgress = 0;
+
+      const hasher = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          hash.update(chunk);
+          size += chunk.length;
+
+          // Report download progress in 10% steps when the length is known
+          if (total) {
+            const progress = Math.floor((size / total) * 100);
+            if (progress >= reportedProgress + 10) {
+              reportedProgress = progress;
+              void job.progress(progress);
+            }
+          }
+
+          callback(null, chunk);
+        },
+      });
+      await this.storage.uploadStream(
+        objectKey,
+        pipeThrough(resource.body, hasher),
+        contentType,
+        { 'original-filename': originalFilename },
+      );
+
+      if (size === 0) {
+        await this.storage.deleteObject(objectKey);
+        throw new UrlFetchError('Remote file is empty');
+      }
+
+      const sha256Hash = hash.digest('hex');
+      await this.prisma.$transaction(async (tx) => {
+        await tx.asset.update({
+          where: { id: assetId },
+          data: {
+            status: 'PENDING',
+            mime: contentType,
+            size,
+            meta: {
+              ...this.toMetaObject(asset.meta),
+              sha256Hash,
+              finalUrl: resource.url,
+            },
+          },
+        });
+        await this.storageUsageService.adjustUsage(tx, asset.ownerId, size);
+      });
+
+      await this.prisma.job.update({
+        where: { id: dbJob.id },
+        data: { state: 'COMPLETED' },
+      });
+      await job.progress(100);
+
+      // Continue with the normal processing pipeline
+      await this.jobsService.addMediaProcessingJob({
+        assetId,
+        objectKey,
+        mimeType: contentType,
+        originalFilename,
+      });
+
+      await this.auditService.logFileEvent(
+        asset.ownerId,
+        'UPLOAD_COMPLETE',
+        assetId,
+        {
+          assetId,
+          filename: originalFilename,
+          contentType,
+          fileSize: size,
+          objectKey,
+          jobEnqueued: true,
+        },
+      );
+
+      this.logger.log(`Imported ${url} as ${objectKey} (${size} bytes)`);
+
+      return { success: true, assetId, objectKey, size };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to import ${url} for asset ${assetId}: ${message}`,
+      );
+
+      await this.auditService.logJobEvent(
+        asset.ownerId,
+        'JOB_FAILED',
+        assetId,
+        {
+          jobId: String(job.id),
+          objectKey,
+          originalFilename,
+          error: message,
+          attempts: job.attemptsMade,
+        },
+      );
+
+      await this.prisma.asset.update({
+        where: { id: assetId },
+        data: {
+          status: 'FAILED',
+          meta: {
+            ...this.toMetaObject(asset.meta),
+            failureReason: 'URL_IMPORT_FAILED',
+            importError: message,
+          },
+        },
+      });
+
+      await this.prisma.job.update({
+        where: { id: dbJob.id },
+        data: { state: 'FAILED', lastError: message },
+      });
+
+      // Blocked addresses, oversized or disallowed files won't change on retry
+      if (error instanceof UrlFetchError && !error.retryable) {
+        await job.discard();
+      }
+
+      throw error;
+    }
+  }
+
+  private toMetaObject(meta: Prisma.JsonValue): Prisma.JsonObject {
+    return meta && typeof meta === 'object' && !Array.isArray(meta) ? meta : {};
+  }
+}
@@ -0,0 +1,252 @@
+import { ConfigService } from '@nestjs/config';
+import { StorageClass, Tier } from '@aws-sdk/client-s3';
+import { S3Service } from './s3.service';
+import { LocalStorageService } from './local-storage.service';
+import { StorageProvider } from './storage-provider';
+
+// Injection token of the configured ColdStorage, or null when disabled
+export const COLD_STORAGE = 'COLD_STORAGE';
+
+// Targets selectable with COLD_STORAGE_TARGET
+export const COLD_STORAGE_TARGETS = [
+  'none',
+  'storage-class',
+  'backend',
+] as const;
+
+// Storage classes that need a restore before the object can be read
+const ARCHIVE_STORAGE_CLASSES: string[] = [
+  StorageClass.GLACIER,
+  StorageClass.DEEP_ARCHIVE,
+];
+
+/**
+ * Where originals go once a lifecycle rule marks them cold. Thumbnails are
+ * never moved.
+ */
+export interface ColdStorage {
+  /**
+   * Where cold objects are kept, recorded on every tier transition
+   */
+  readonly target: string;
+
+  /**
+   * Move an object from hot storage to cold storage
+   */
+  moveToCold(key: string, size: number): Promise<void>;
+
+  /**
+   * Start, or check on, making a cold object readable again. Safe to call
+   * repeatedly until it returns true.
+   * @returns Whether the object can now be moved back with moveToHot
+   */
+  prepareRestore(key: string): Promise<boolean>;
+
+  /**
+   * Move a prepared object back to hot storage
+   */
+  moveToHot(key: string, size: number): Promise<void>;
+
+  /**
+   * Delete an object that is in cold storage
+   */
+  deleteObject(key: string): Promise<void>;
+}
+
+/**
+ * Keeps cold objects in the same S3 bucket under a cheaper storage class
+ */
+export class StorageClassColdStorage implements ColdStorage {
+  readonly target: string;
+
+  constructor(
+    private readonly s3Service: S3Service,
+    private readonly storageClass: StorageClass,
+    private readonly restoreTier: Tier,
+    private readonly restoreDays: number,
+  ) {
+    this.target = `storage-class:${storageClass}`;
+  }
+
+  async moveToCold(key: string, size: number): Promise<void> {
+    await this.s3Service.changeStorageClass(key, this.storageClass, size);
+  }
+
+  async prepareRestore(key: string): Promise<boolean> {
+    if (!ARCHIVE_STORAGE_CLASSES.includes(this.storageClass)) {
+      return true;
+    }
+
+    const head = await this.s3Service.headObject(key);
+    if (!head) {
+      throw new Error(`Cold object ${key} not found`);
+    }
+
+    // Already moved back, e.g. by an earlier attempt that failed afterwards
+    if (
+      !head.storageClass ||
+      !ARCHIVE_STORAGE_CLASSES.includes(head.storageClass)
+    ) {
+      return true;
+    }
+
+    if (head.restore) {
+      return !head.restore.inProgress;
+    }
+
+    await this.s3Service.restoreObject(key, this.restoreDays, this.restoreTier);
+    return false;
+  }
+
+  async moveToHot(key: string, size: number): Promise<void> {
+    await this.s3Service.changeStorageClass(key, StorageClass.STANDARD, size);
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.s3Service.deleteObject(key);
+  }
+}
+
+/**
+ * Keeps cold objects under the same key in a second storage backend, such as
+ * another bucket or a local directory on cheaper disks
+ */
+export class BackendColdStorage implements ColdStorage {
+  constructor(
+    private readonly hot: StorageProvider,
+    private readonly cold: StorageProvider,
+    readonly target: string,
+  ) {}
+
+  async moveToCold(key: string, size: number): Promise<void> {
+    await this.copy(this.hot, this.cold, key, size);
+    await this.hot.deleteObject(key);
+  }
+
+  async prepareRestore(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+
+  async moveToHot(key: string, size: number): Promise<void> {
+    await this.copy(this.cold, this.hot, key, size);
+    await this.cold.deleteObject(key);
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.cold.deleteObject(key);
+  }
+
+  /**
+   * Stream an object between backends. The source is only deleted by the
+   * caller once the copy is confirmed complete.
+   */
+  private async copy(
+    from: StorageProvider,
+    to: StorageProvider,
+    key: string,
+    size: number,
+  ): Promise<void> {
+    const head = await from.headObject(key);
+    if (!head) {
+      // A retry after the source was already deleted
+      const copied = await to.headObject(key);
+      if (copied?.contentLength === size) {
+        return;
+      }
+      throw new Error(`Object ${key} not found in either storage backend`);
+    }
+
+    await to.uploadStream(
+      key,
+      await from.getObjectStream(key),
+      head.contentType ?? 'application/octet-stream',
+      head.metadata,
+    );
+
+    const copied = await to.headObject(key);
+    if (copied?.contentLength !== head.contentLength) {
+      throw new Error(
+        `Copy of ${key} is incomplete: expected ${head.contentLength} bytes, got ${copied?.contentLength ?? 0}`,
+      );
+    }
+  }
+}
+
+/**
+ * Build the cold storage selected by COLD_STORAGE_TARGET
+ * @param hot - The primary storage provider
+ * @returns The cold storage, or null when tiering is disabled
+ */
+export function createColdStorage(
+  configService: ConfigService,
+  hot: StorageProvider,
+): ColdStorage | null {
+  const target = configService.get<string>('COLD_STORAGE_TARGET', 'none');
+
+  if (target === 'storage-class') {
+    if (!(hot instanceof S3Service)) {
+      throw new Error(
+        'COLD_STORAGE_TARGET=storage-class requires STORAGE_DRIVER=s3',
+      );
+    }
+
+    const storageClass = configService.get<string>(
+      'COLD_STORAGE_CLASS',
+      StorageClass.GLACIER,
+    ) as StorageClass;
+    if (!Object.values(StorageClass).includes(storageClass)) {
+      throw new Error(`Unknown COLD_STORAGE_CLASS ${storageClass}`);
+    }
+
+    const restoreTier = configService.get<string>(
+      'COLD_RESTORE_TIER',
+      Tier.Standard,
+    ) as Tier;
+    if (!Object.values(Tier).includes(restoreTier)) {
+      throw new Error(`Unknown COLD_RESTORE_TIER ${restoreTier}`);
+    }
+
+    return new StorageClassColdStorage(
+      hot,
+      storageClass,
+      restoreTier,
+      Number(configService.get<number>('COLD_RESTORE_DAYS', 1)),
+    );
+  }
+
+  if (target === 'backend') {
+    const driver = configService.get<string>('COLD_STORAGE_DRIVER', 's3');
+
+    if (driver === 'local') {
+      const root = configService.get<string>('COLD_LOCAL_STORAGE_PATH');
+      if (!root) {
+        throw new Error(
+          'COLD_STORAGE_DRIVER=local requires COLD_LOCAL_STORAGE_PATH',
+        );
+      }
+      return new BackendColdStorage(
+        hot,
+        new LocalStorageService(configService, { root }),
+        `local:${root}`,
+      );
+    }
+
+    const bucketName = configService.get<string>('COLD_S3_BUCKET_NAME');
+    if (!bucketName) {
+      throw new Error('COLD_STORAGE_DRIVER=s3 requires COLD_S3_BUCKET_NAME');
+    }
+    return new BackendColdStorage(
+      hot,
+      new S3Service(configService, { bucketName }),
+      `s3:${bucketName}`,
+    );
+  }
+
+  if (!(COLD_STORAGE_TARGETS as readonly string[]).includes(target)) {
+    throw new Error(
+      `Unknown COLD_STORAGE_TARGET "${target}", expected one of: ${COLD_STORAGE_TARGETS.join(', ')}`,
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as sharp from 'sharp';
+import {
+  ContentSnifferService,
+  UNKNOWN_CONTENT_TYPE,
+} from './content-sniffer.service';
+
+describe('ContentSnifferService', () => {
+  let service: ContentSnifferService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ContentSnifferService],
+    }).compile();
+
+    service = module.get<ContentSnifferService>(ContentSnifferService);
+  });
+
+  const createImage = (format: 'jpeg' | 'png' | 'webp' | 'gif') =>
+    sharp({
+      create: {
+        width: 10,
+        height: 10,
+        channels: 3,
+        background: { r: 255, g: 0, b: 0 },
+      },
+    })
+      .toFormat(format)
+      .toBuffer();
+
+  it('should detect images from their signatures', async () => {
+    expect(service.detect(await createImage('jpeg')).mime).toBe('image/jpeg');
+    expect(service.detect(await createImage('png')).mime).toBe('image/png');
+    expect(service.detect(await createImage('webp')).mime).toBe('image/webp');
+    expect(service.detect(await createImage('gif')).mime).toBe('image/gif');
+  });
+
+  it('should detect PDF documents', () => {
+    const pdf = Buffer.from('%PDF-1.7\n%âãÏÓ\n1 0 obj\n');
+    expect(service.detect(pdf)).toEqual({
+      mime: 'application/pdf',
+      extension: 'pdf',
+    });
+  });
+
+  it('should detect DOCX packages inside ZIP containers', () => {
+    const docx = Buffer.concat([
+      Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+      Buffer.alloc(26),
+      Buffer.from('[Content_Types].xml'),
+      Buffer.alloc(64),
+      Buffer.from('word/document.xml'),
+    ]);
+    expect(service.detect(docx).extension).toBe('docx');
+
+    const zip = Buffer.concat([
+      Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+      Buffer.alloc(26),
+      Buffer.from('photos/IMG_0001.jpg'),
+    ]);
+    expect(service.detect(zip).mime).toBe('application/zip');
+  });
+
+  it('should detect plain text and reject binary data', () => {
+    expect(service.detect(Buffer.from('Hello, world!\nSecond line')).mime).toBe(
+      'text/plain',
+    );
+    expect(service.detect(Buffer.from('MZ is also a word')).mime).toBe(
+      'text/plain',
+    );
+    expect(service.detect(Buffer.from([0x01, 0x00, 0x02, 0x03])).mime).toBe(
+      UNKNOWN_CONTENT_TYPE,
+    );
+  });
+
+  it('should flag spoofed content types', async () => {
+    const png = service.detect(await createImage('png'));
+    expect(service.matchesDeclaredType('image/png', png)).toBe(true);
+    expect(service.matchesDeclaredType('image/jpeg', png)).toBe(false);
+    expect(service.matchesDeclaredType('application/pdf', png)).toBe(false);
+
+    const executable = service.detect(
+      Buffer.concat([Buffer.from('MZ'), Buffer.alloc(62)]),
+    );
+    expect(executable.mime).toBe('application/x-msdownload');
+    expect(service.matchesDeclaredType('image/jpeg', executable)).toBe(false);
+  });
+
+  it('should accept compatible declared types', () => {
+    const text = service.detect(Buffer.from('name,age\nalice,30\n'));
+    expect(service.matchesDeclaredType('text/csv', text)).toBe(true);
+    expect(service.matchesDeclaredType('text/plain; charset=utf-8', text)).toBe(
+      true,
+    );
+
+    const unknown = { mime: UNKNOWN_CONTENT_TYPE };
+    expect(service.matchesDeclaredType('application/x-custom', unknown)).toBe(
+      true,
+    );
+    expect(service.matchesDeclaredType('image/png', unknown)).toBe(false);
+  });
+
+  it('should only treat declared ZIP uploads as archives', () => {
+    const docx = service.detect(
+      Buffer.concat([
+        Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+        Buffer.alloc(26),
+        Buffer.from('[Content_Types].xml'),
+      ]),
+    );
+    const docxType =
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+    // Folder names past the sniffed bytes leave a DOCX looking like a ZIP
+    expect(docx.mime).toBe('application/zip');
+    expect(service.matchesDeclaredType(docxType, docx)).toBe(true);
+    expect(service.isArchive(docxType, docx)).toBe(false);
+    expect(service.isArchive('application/zip', docx)).toBe(true);
+    expect(service.isArchive('application/zip', { mime: 'image/png' })).toBe(
+      false,
+    );
+  });
+});
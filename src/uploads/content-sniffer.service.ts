@@ -0,0 +1,318 @@
+import { Injectable } from '@nestjs/common';
+
+export interface DetectedContentType {
+  mime: string;
+  extension?: string;
+}
+
+interface FileSignature {
+  mime: string;
+  extension: string;
+  offset: number;
+  bytes: number[];
+}
+
+// Number of leading bytes needed to detect every supported type
+export const CONTENT_SNIFF_BYTES = 4100;
+
+export const UNKNOWN_CONTENT_TYPE = 'application/octet-stream';
+
+export const ZIP_CONTENT_TYPE = 'application/zip';
+
+const ascii = (value: string): number[] =>
+  Array.from(value, (char) => char.charCodeAt(0));
+
+const SIGNATURES: FileSignature[] = [
+  {
+    mime: 'image/jpeg',
+    extension: 'jpg',
+    offset: 0,
+    bytes: [0xff, 0xd8, 0xff],
+  },
+  {
+    mime: 'image/png',
+    extension: 'png',
+    offset: 0,
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  { mime: 'image/gif', extension: 'gif', offset: 0, bytes: ascii('GIF87a') },
+  { mime: 'image/gif', extension: 'gif', offset: 0, bytes: ascii('GIF89a') },
+  {
+    mime: 'image/tiff',
+    extension: 'tif',
+    offset: 0,
+    bytes: [0x49, 0x49, 0x2a, 0x00],
+  },
+  {
+    mime: 'image/tiff',
+    extension: 'tif',
+    offset: 0,
+    bytes: [0x4d, 0x4d, 0x00, 0x2a],
+  },
+  {
+    mime: 'application/pdf',
+    extension: 'pdf',
+    offset: 0,
+    bytes: ascii('%PDF-'),
+  },
+  {
+    // OLE2 compound file, used by legacy Office formats
+    mime: 'application/msword',
+    extension: 'doc',
+    offset: 0,
+    bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+  },
+  {
+    mime: ZIP_CONTENT_TYPE,
+    extension: 'zip',
+    offset: 0,
+    bytes: [0x50, 0x4b, 0x03, 0x04],
+  },
+  {
+    mime: ZIP_CONTENT_TYPE,
+    extension: 'zip',
+    offset: 0,
+    bytes: [0x50, 0x4b, 0x05, 0x06],
+  },
+  {
+    mime: 'application/gzip',
+    extension: 'gz',
+    offset: 0,
+    bytes: [0x1f, 0x8b],
+  },
+  {
+    mime: 'application/x-7z-compressed',
+    extension: '7z',
+    offset: 0,
+    bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c],
+  },
+  {
+    mime: 'application/x-rar-compressed',
+    extension: 'rar',
+    offset: 0,
+    bytes: ascii('Rar!'),
+  },
+  {
+    mime: 'application/x-msdownload',
+    extension: 'exe',
+    offset: 0,
+    bytes: ascii('MZ'),
+  },
+  {
+    mime: 'application/x-executable',
+    extension: 'elf',
+    offset: 0,
+    bytes: [0x7f, 0x45, 0x4c, 0x46],
+  },
+];
+
+// ISO base media brands (the "ftyp" box) mapped to content types
+const FTYP_BRANDS: Record<string, DetectedContentType> = {
+  avif: { mime: 'image/avif', extension: 'avif' },
+  heic: { mime: 'image/heic', extension: 'heic' },
+  heix: { mime: 'image/heic', extension: 'heic' },
+  mif1: { mime: 'image/heif', extension: 'heif' },
+  msf1: { mime: 'image/heif', extension: 'heif' },
+  qt: { mime: 'video/quicktime', extension: 'mov' },
+  M4A: { mime: 'audio/mp4', extension: 'm4a' },
+};
+
+// Office Open XML packages are ZIP files identified by their top-level folder
+const OOXML_TYPES: Array<{ folder: string; type: DetectedContentType }> = [
+  {
+    folder: 'word/',
+    type: {
+      mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      extension: 'docx',
+    },
+  },
+  {
+    folder: 'xl/',
+    type: {
+      mime: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      extension: 'xlsx',
+    },
+  },
+  {
+    folder: 'ppt/',
+    type: {
+      mime: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      extension: 'pptx',
+    },
+  },
+];
+
+@Injectable()
+export class ContentSnifferService {
+  /**
+   * Detect the real content type of a file from its leading bytes
+   * @param buffer - At least the first CONTENT_SNIFF_BYTES bytes of the file
+   * @returns DetectedContentType - application/octet-stream when unknown
+   */
+  detect(buffer: Buffer): DetectedContentType {
+    if (buffer.length === 0) {
+      return { mime: UNKNOWN_CONTENT_TYPE };
+    }
+
+    const riff = this.detectRiff(buffer);
+    if (riff) {
+      return riff;
+    }
+
+    const isoMedia = this.detectIsoMedia(buffer);
+    if (isoMedia) {
+      return isoMedia;
+    }
+
+    const signature = SIGNATURES.find((candidate) =>
+      this.startsWith(buffer, candidate.bytes, candidate.offset),
+    );
+
+    if (signature) {
+      if (signature.mime === ZIP_CONTENT_TYPE) {
+        return this.detectZipPackage(buffer);
+      }
+      // "MZ" is short enough to start a plain text file
+      if (signature.extension !== 'exe' || !this.looksLikeText(buffer)) {
+        return { mime: signature.mime, extension: signature.extension };
+      }
+    }
+
+    if (this.looksLikeText(buffer)) {
+      return { mime: 'text/plain', extension: 'txt' };
+    }
+
+    return { mime: UNKNOWN_CONTENT_TYPE };
+  }
+
+  /**
+   * Check whether the detected type is consistent with the declared one
+   */
+  matchesDeclaredType(
+    declaredType: string,
+    detected: DetectedContentType,
+  ): boolean {
+    const declared = declaredType.split(';')[0].trim().toLowerCase();
+
+    if (declared === detected.mime) {
+      return true;
+    }
+
+    // Text formats (CSV, Markdown...) have no signature of their own
+    if (declared.startsWith('text/') && detected.mime === 'text/plain') {
+      return true;
+    }
+
+    // OOXML packages whose folders fall outside the sniffed bytes
+    if (
+      detected.mime === ZIP_CONTENT_TYPE &&
+      OOXML_TYPES.some(({ type }) => type.mime === declared)
+    ) {
+      return true;
+    }
+
+    // Types we cannot recognise cannot be judged
+    if (detected.mime === UNKNOWN_CONTENT_TYPE) {
+      return !this.isDetectableType(declared);
+    }
+
+    return false;
+  }
+
+  /**
+   * Check whether an upload should be expanded as an archive. Office
+   * documents are ZIP packages too, so the declared type has to say ZIP.
+   */
+  isArchive(declaredType: string, detected: DetectedContentType): boolean {
+    const declared = declaredType.split(';')[0].trim().toLowerCase();
+    return declared === ZIP_CONTENT_TYPE && detected.mime === ZIP_CONTENT_TYPE;
+  }
+
+  private isDetectableType(mime: string): boolean {
+    return (
+      mime.startsWith('text/') ||
+      SIGNATURES.some((signature) => signature.mime === mime) ||
+      Object.values(FTYP_BRANDS).some((type) => type.mime === mime) ||
+      OOXML_TYPES.some(({ type }) => type.mime === mime) ||
+      ['image/webp', 'audio/wav', 'video/x-msvideo', 'video/mp4'].includes(mime)
+    );
+  }
+
+  private detectRiff(buffer: Buffer): DetectedContentType | null {
+    if (!this.startsWith(buffer, ascii('RIFF'))) {
+      return null;
+    }
+
+    if (this.startsWith(buffer, ascii('WEBP'), 8)) {
+      return { mime: 'image/webp', extension: 'webp' };
+    }
+    if (this.startsWith(buffer, ascii('WAVE'), 8)) {
+      return { mime: 'audio/wav', extension: 'wav' };
+    }
+    if (this.startsWith(buffer, ascii('AVI '), 8)) {
+      return { mime: 'video/x-msvideo', extension: 'avi' };
+    }
+    return null;
+  }
+
+  private detectIsoMedia(buffer: Buffer): DetectedContentType | null {
+    if (!this.startsWith(buffer, ascii('ftyp'), 4) || buffer.length < 12) {
+      return null;
+    }
+
+    const brand = buffer.toString('latin1', 8, 12).replace(/\0/g, '').trim();
+    return FTYP_BRANDS[brand] ?? { mime: 'video/mp4', extension: 'mp4' };
+  }
+
+  private detectZipPackage(buffer: Buffer): DetectedContentType {
+    // Entry names are stored uncompressed in the local file headers
+    const names = buffer.toString('latin1');
+
+    if (names.includes('[Content_Types].xml')) {
+      const match = OOXML_TYPES.find(({ folder }) => names.includes(folder));
+      if (match) {
+        return match.type;
+      }
+    }
+
+    return { mime: ZIP_CONTENT_TYPE, extension: 'zip' };
+  }
+
+  private looksLikeText(buffer: Buffer): boolean {
+    // UTF-8/UTF-16 byte order marks
+    if (
+      this.startsWith(buffer, [0xef, 0xbb, 0xbf]) ||
+      this.startsWith(buffer, [0xff, 0xfe]) ||
+      this.startsWith(buffer, [0xfe, 0xff])
+    ) {
+      return true;
+    }
+
+    let controlBytes = 0;
+    for (const byte of buffer) {
+      if (byte === 0x00) {
+        return false;
+      }
+      // Control characters other than tab, newline, form feed, carriage return and escape
+      if (
+        byte < 0x20 &&
+        byte !== 0x09 &&
+        byte !== 0x0a &&
+        byte !== 0x0c &&
+        byte !== 0x0d &&
+        byte !== 0x1b
+      ) {
+        controlBytes++;
+      }
+    }
+
+    return controlBytes / buffer.length < 0.01;
+  }
+
+  private startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+    if (buffer.length < offset + bytes.length) {
+      return false;
+    }
+    return bytes.every((byte, index) => buffer[offset + index] === byte);
+  }
+}
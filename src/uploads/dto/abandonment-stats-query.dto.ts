@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsOptional, IsInt, Min, Max } from 'class-validator';
+
+export class AbandonmentStatsQueryDto {
+  @ApiProperty({
+    description: 'Only count uploads presigned in this many past days',
+    example: 7,
+    minimum: 1,
+    maximum: 30,
+    default: 7,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  days?: number = 7;
+}
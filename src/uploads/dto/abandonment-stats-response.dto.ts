@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ClientAbandonmentStatsDto {
+  @ApiProperty({
+    description:
+      'User-Agent the uploads were presigned with, or "unknown" when none was sent',
+    example: 'MediaInbox-iOS/2.4.0',
+  })
+  client: string;
+
+  @ApiProperty({
+    description: 'Uploads presigned in the period',
+    example: 120,
+  })
+  started: number;
+
+  @ApiProperty({
+    description: 'Uploads completed',
+    example: 108,
+  })
+  completed: number;
+
+  @ApiProperty({
+    description: 'Uploads aborted or never completed before they expired',
+    example: 9,
+  })
+  abandoned: number;
+
+  @ApiProperty({
+    description: 'Uploads that have neither completed nor expired yet',
+    example: 3,
+  })
+  inProgress: number;
+
+  @ApiProperty({
+    description:
+      'Share of finished uploads that were abandoned, between 0 and 1; null when none finished',
+    example: 0.077,
+    nullable: true,
+    type: Number,
+  })
+  abandonmentRate: number | null;
+}
+
+export class AbandonmentStatsResponseDto {
+  @ApiProperty({
+    description: 'Start of the period',
+    example: '2025-08-18T10:00:00.000Z',
+  })
+  since: string;
+
+  @ApiProperty({
+    description: 'Stats per client, most uploads first',
+    type: [ClientAbandonmentStatsDto],
+  })
+  clients: ClientAbandonmentStatsDto[];
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class BatchItemErrorDto {
+  @ApiProperty({
+    description: 'HTTP status the item would have failed with on its own',
+    example: 400,
+  })
+  statusCode: number;
+
+  @ApiProperty({
+    description: 'Why the item failed',
+    example: 'Invalid file size',
+  })
+  message: string;
+}
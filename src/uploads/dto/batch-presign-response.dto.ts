@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PresignResponseDto } from './presign-response.dto';
+import { BatchItemErrorDto } from './batch-item-error.dto';
+
+export class BatchPresignItemResultDto {
+  @ApiProperty({
+    description: 'Position of the item in the request',
+    example: 0,
+  })
+  index: number;
+
+  @ApiProperty({
+    description: 'Presign result, when the item succeeded',
+    type: PresignResponseDto,
+    required: false,
+  })
+  result?: PresignResponseDto;
+
+  @ApiProperty({
+    description: 'Error, when the item failed',
+    type: BatchItemErrorDto,
+    required: false,
+  })
+  error?: BatchItemErrorDto;
+}
+
+export class BatchPresignResponseDto {
+  @ApiProperty({
+    description: 'One entry per requested file, in request order',
+    type: [BatchPresignItemResultDto],
+  })
+  items: BatchPresignItemResultDto[];
+
+  @ApiProperty({
+    description: 'Number of items that succeeded',
+    example: 199,
+  })
+  succeeded: number;
+
+  @ApiProperty({
+    description: 'Number of items that failed',
+    example: 1,
+  })
+  failed: number;
+}
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, ArrayMinSize, ArrayMaxSize, IsObject } from 'class-validator';
+import { PresignUploadDto } from './presign-upload.dto';
+import { MAX_BATCH_UPLOAD_ITEMS } from '../uploads.constants';
+
+export class BatchPresignUploadDto {
+  @ApiProperty({
+    description:
+      'Files to presign. Each item is validated on its own, so one invalid file does not fail the batch',
+    type: [PresignUploadDto],
+    minItems: 1,
+    maxItems: MAX_BATCH_UPLOAD_ITEMS,
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BATCH_UPLOAD_ITEMS)
+  @IsObject({ each: true })
+  items: object[];
+}
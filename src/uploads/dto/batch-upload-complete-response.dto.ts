@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UploadCompleteResponseDto } from './upload-complete-response.dto';
+import { BatchItemErrorDto } from './batch-item-error.dto';
+
+export class BatchUploadCompleteItemResultDto {
+  @ApiProperty({
+    description: 'Position of the item in the request',
+    example: 0,
+  })
+  index: number;
+
+  @ApiProperty({
+    description: 'Created asset, when the item succeeded',
+    type: UploadCompleteResponseDto,
+    required: false,
+  })
+  result?: UploadCompleteResponseDto;
+
+  @ApiProperty({
+    description: 'Error, when the item failed',
+    type: BatchItemErrorDto,
+    required: false,
+  })
+  error?: BatchItemErrorDto;
+}
+
+export class BatchUploadCompleteResponseDto {
+  @ApiProperty({
+    description: 'One entry per requested upload, in request order',
+    type: [BatchUploadCompleteItemResultDto],
+  })
+  items: BatchUploadCompleteItemResultDto[];
+
+  @ApiProperty({
+    description: 'Number of items that succeeded',
+    example: 199,
+  })
+  succeeded: number;
+
+  @ApiProperty({
+    description: 'Number of items that failed',
+    example: 1,
+  })
+  failed: number;
+}
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, ArrayMinSize, ArrayMaxSize, IsObject } from 'class-validator';
+import { UploadCompleteDto } from './upload-complete.dto';
+import { MAX_BATCH_UPLOAD_ITEMS } from '../uploads.constants';
+
+export class BatchUploadCompleteDto {
+  @ApiProperty({
+    description:
+      'Uploads to complete. Each item is validated on its own, so one invalid upload does not fail the batch',
+    type: [UploadCompleteDto],
+    minItems: 1,
+    maxItems: MAX_BATCH_UPLOAD_ITEMS,
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BATCH_UPLOAD_ITEMS)
+  @IsObject({ each: true })
+  items: object[];
+}
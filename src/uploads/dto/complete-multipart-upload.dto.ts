@@ -0,0 +1,113 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsInt,
+  IsOptional,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  Min,
+  Max,
+  Matches,
+} from 'class-validator';
+import {
+  MAX_MULTIPART_UPLOAD_SIZE,
+  MAX_MULTIPART_PARTS,
+} from '../uploads.constants';
+
+export class CompletedPartDto {
+  @ApiProperty({
+    description: 'Part number',
+    example: 1,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(MAX_MULTIPART_PARTS)
+  partNumber: number;
+
+  @ApiProperty({
+    description: 'ETag header returned by S3 when the part was uploaded',
+    example: '"d41d8cd98f00b204e9800998ecf8427e"',
+  })
+  @IsString()
+  @IsNotEmpty()
+  etag: string;
+}
+
+export class CompleteMultipartUploadDto {
+  @ApiProperty({
+    description: 'Object key returned from the initiate endpoint',
+    example: 'uploads/2025/08/25/uuid-holiday-video.mp4',
+  })
+  @IsString()
+  @IsNotEmpty()
+  objectKey: string;
+
+  @ApiProperty({
+    description: 'Multipart upload ID returned from the initiate endpoint',
+    example: 'VXBsb2FkIElEIGZvciBlbHZpbmcncyBteS1tb3ZpZS5tMnRzIHVwbG9hZA',
+  })
+  @IsString()
+  @IsNotEmpty()
+  uploadId: string;
+
+  @ApiProperty({
+    description: 'Original filename of the uploaded file',
+    example: 'holiday-video.mp4',
+  })
+  @IsString()
+  @IsNotEmpty()
+  filename: string;
+
+  @ApiProperty({
+    description: 'MIME type of the uploaded file',
+    example: 'application/pdf',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^[a-zA-Z0-9]+\/[a-zA-Z0-9\-.+]+$/, {
+    message: 'Invalid MIME type format',
+  })
+  contentType: string;
+
+  @ApiProperty({
+    description: 'File size in bytes',
+    example: 4294967296,
+    minimum: 1,
+    maximum: MAX_MULTIPART_UPLOAD_SIZE,
+  })
+  @IsNumber()
+  @Min(1)
+  @Max(MAX_MULTIPART_UPLOAD_SIZE)
+  fileSize: number;
+
+  @ApiProperty({
+    description:
+      'Uploaded parts with their ETags. When omitted, the parts are listed from S3',
+    type: [CompletedPartDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_MULTIPART_PARTS)
+  @ValidateNested({ each: true })
+  @Type(() => CompletedPartDto)
+  parts?: CompletedPartDto[];
+
+  @ApiProperty({
+    description: 'Optional SHA-256 hash of the uploaded file for validation',
+    example: 'a1b2c3d4e5f6...',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-fA-F0-9]{64}$/, {
+    message: 'SHA-256 hash must be 64 hexadecimal characters',
+  })
+  sha256Hash?: string;
+}
@@ -0,0 +1,97 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  ArrayMinSize,
+  IsInt,
+  Min,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { UserRole } from '@prisma/client';
+
+// A MIME type where the type, the subtype or both may be "*"
+export const CONTENT_TYPE_PATTERN =
+  /^(\*|[a-zA-Z0-9]+)\/(\*|[a-zA-Z0-9\-.+]+)$/;
+
+export class CreateUploadPolicyDto {
+  @ApiProperty({
+    description: 'Unique policy name',
+    example: 'photographers',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Role the policy applies to. Set either role or userId',
+    enum: UserRole,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(UserRole)
+  role?: UserRole;
+
+  @ApiProperty({
+    description:
+      'User the policy applies to, overriding the policy for their role. Set either role or userId',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  userId?: string;
+
+  @ApiProperty({
+    description:
+      'Allowed content types. Wildcards such as image/* are supported',
+    example: ['image/*', 'application/pdf'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @Matches(CONTENT_TYPE_PATTERN, {
+    each: true,
+    message:
+      'Each allowed type must be a MIME type such as image/png or image/*',
+  })
+  allowedTypes: string[];
+
+  @ApiProperty({
+    description:
+      'Largest file in bytes. Uploads are also bounded by the limit of the upload method',
+    example: 52428800,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxFileSize?: number;
+
+  @ApiProperty({
+    description: 'Files a user may upload per day (UTC)',
+    example: 500,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  dailyUploadCount?: number;
+
+  @ApiProperty({
+    description: 'Bytes a user may upload per day (UTC)',
+    example: 10737418240,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  dailyUploadBytes?: number;
+}
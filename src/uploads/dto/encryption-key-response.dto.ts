@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class EncryptionKeyResponseDto {
+  @ApiProperty({
+    description: 'Version of the current key encryption key',
+    example: 2,
+  })
+  version: number;
+
+  @ApiProperty({
+    description: 'When the current version was created',
+    example: '2025-09-29T09:00:00.000Z',
+  })
+  createdAt: string;
+
+  @ApiProperty({
+    description:
+      'Data keys still wrapped by an earlier version, re-wrapped in the background after a rotation',
+    example: 0,
+  })
+  pendingRewrap: number;
+}
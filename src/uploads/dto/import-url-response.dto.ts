@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ImportUrlResponseDto {
+  @ApiProperty({
+    description: 'Asset created for the imported file',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+  })
+  assetId: string;
+
+  @ApiProperty({
+    description:
+      'Queue job fetching the URL. Its progress is available from the jobs API',
+    example: 'import-cmeq1wmrw0001z97fu028bcd5',
+  })
+  jobId: string;
+
+  @ApiProperty({
+    description: 'Object key the file will be stored under',
+    example: 'uploads/2025/08/25/uuid-sunset.jpg',
+  })
+  objectKey: string;
+
+  @ApiProperty({
+    description: 'Current status of the asset',
+    example: 'PENDING',
+    enum: ['PENDING', 'PROCESSING', 'READY', 'FAILED', 'QUARANTINED'],
+    enumName: 'AssetStatus',
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'Message describing the next step',
+    example: 'Import queued, the file will be fetched in the background',
+  })
+  message: string;
+}
@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+
+export class ImportUrlDto {
+  @ApiProperty({
+    description: 'http(s) URL of the file to import',
+    example: 'https://example.com/photos/sunset.jpg',
+    maxLength: 2048,
+  })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  @MaxLength(2048)
+  url: string;
+
+  @ApiProperty({
+    description:
+      'Filename to store the file under. Defaults to the last segment of the URL path',
+    example: 'sunset.jpg',
+    required: false,
+    maxLength: 255,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  filename?: string;
+}
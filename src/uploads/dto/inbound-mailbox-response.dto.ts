@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class InboundMailboxResponseDto {
+  @ApiProperty({
+    description: 'Address to send attachments to',
+    example: '3f9a1c07b2e4d586@inbox.example.com',
+  })
+  address: string;
+
+  @ApiProperty({
+    description:
+      'Senders accepted besides the account email. Entries starting with @ accept a whole domain',
+    example: ['scanner@office.example.com', '@family.example.com'],
+    type: [String],
+  })
+  allowedSenders: string[];
+}
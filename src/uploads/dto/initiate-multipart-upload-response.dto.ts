@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class InitiateMultipartUploadResponseDto {
+  @ApiProperty({
+    description: 'S3 multipart upload ID',
+    example: 'VXBsb2FkIElEIGZvciBlbHZpbmcncyBteS1tb3ZpZS5tMnRzIHVwbG9hZA',
+  })
+  uploadId: string;
+
+  @ApiProperty({
+    description: 'Object key the parts are uploaded to',
+    example: 'uploads/2025/08/25/uuid-holiday-video.mp4',
+  })
+  objectKey: string;
+
+  @ApiProperty({
+    description: 'Size of every part except the last one, in bytes',
+    example: 16777216,
+  })
+  partSize: number;
+
+  @ApiProperty({
+    description: 'Number of parts the file must be split into',
+    example: 256,
+  })
+  partCount: number;
+
+  @ApiProperty({
+    description: 'Expiration time of presigned part URLs in seconds',
+    example: 3600,
+  })
+  expiresIn: number;
+}
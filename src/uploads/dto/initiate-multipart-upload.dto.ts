@@ -0,0 +1,76 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
+  Matches,
+} from 'class-validator';
+import {
+  MAX_MULTIPART_UPLOAD_SIZE,
+  MIN_MULTIPART_PART_SIZE,
+  MAX_MULTIPART_PART_SIZE,
+} from '../uploads.constants';
+
+export class InitiateMultipartUploadDto {
+  @ApiProperty({
+    description: 'Original filename of the file to upload',
+    example: 'holiday-video.mp4',
+    minLength: 1,
+    maxLength: 255,
+  })
+  @IsString()
+  @IsNotEmpty()
+  filename: string;
+
+  @ApiProperty({
+    description: 'MIME type of the file',
+    example: 'application/pdf',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^[a-zA-Z0-9]+\/[a-zA-Z0-9\-.+]+$/, {
+    message: 'Invalid MIME type format',
+  })
+  contentType: string;
+
+  @ApiProperty({
+    description: 'File size in bytes',
+    example: 4294967296,
+    minimum: 1,
+    maximum: MAX_MULTIPART_UPLOAD_SIZE,
+  })
+  @IsNumber()
+  @Min(1)
+  @Max(MAX_MULTIPART_UPLOAD_SIZE)
+  fileSize: number;
+
+  @ApiProperty({
+    description:
+      'Preferred part size in bytes. The server may raise it so the upload fits in 10000 parts',
+    example: 16777216,
+    minimum: MIN_MULTIPART_PART_SIZE,
+    maximum: MAX_MULTIPART_PART_SIZE,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(MIN_MULTIPART_PART_SIZE)
+  @Max(MAX_MULTIPART_PART_SIZE)
+  partSize?: number;
+
+  @ApiProperty({
+    description: 'Optional SHA-256 hash of the file for validation',
+    example: 'a1b2c3d4e5f6...',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-fA-F0-9]{64}$/, {
+    message: 'SHA-256 hash must be 64 hexadecimal characters',
+  })
+  sha256Hash?: string;
+}
@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class LifecycleRuleResponseDto {
+  @ApiProperty({
+    description: 'Rule ID',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Unique rule name',
+    example: 'old-photos',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Content types the rule applies to; empty means all types',
+    example: ['image/*'],
+    type: [String],
+  })
+  contentTypes: string[];
+
+  @ApiProperty({
+    description:
+      'Days without a download before originals move to cold storage',
+    example: 180,
+  })
+  daysWithoutAccess: number;
+
+  @ApiProperty({
+    description: 'Smallest original the rule moves, in bytes',
+    example: 1048576,
+    nullable: true,
+  })
+  minSize: number | null;
+
+  @ApiProperty({
+    description: 'Whether the scheduled lifecycle job applies the rule',
+    example: true,
+  })
+  enabled: boolean;
+
+  @ApiProperty({
+    description: 'When the rule was created',
+    example: '2025-09-25T10:00:00.000Z',
+  })
+  createdAt: string;
+
+  @ApiProperty({
+    description: 'When the rule was last changed',
+    example: '2025-09-25T10:00:00.000Z',
+  })
+  updatedAt: string;
+}
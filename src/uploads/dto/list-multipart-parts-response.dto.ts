@@ -0,0 +1,50 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UploadedPartDto {
+  @ApiProperty({
+    description: 'Part number',
+    example: 1,
+  })
+  partNumber: number;
+
+  @ApiProperty({
+    description: 'ETag returned by S3 for the part',
+    example: '"d41d8cd98f00b204e9800998ecf8427e"',
+  })
+  etag: string;
+
+  @ApiProperty({
+    description: 'Part size in bytes',
+    example: 16777216,
+    required: false,
+  })
+  size?: number;
+
+  @ApiProperty({
+    description: 'When the part was uploaded',
+    example: '2025-08-24T18:58:05.517Z',
+    format: 'date-time',
+    required: false,
+  })
+  lastModified?: string;
+}
+
+export class ListMultipartPartsResponseDto {
+  @ApiProperty({
+    description: 'Object key of the multipart upload',
+    example: 'uploads/2025/08/25/uuid-holiday-video.mp4',
+  })
+  objectKey: string;
+
+  @ApiProperty({
+    description: 'Multipart upload ID',
+    example: 'VXBsb2FkIElEIGZvciBlbHZpbmcncyBteS1tb3ZpZS5tMnRzIHVwbG9hZA',
+  })
+  uploadId: string;
+
+  @ApiProperty({
+    description: 'Parts uploaded so far, ordered by part number',
+    type: [UploadedPartDto],
+  })
+  parts: UploadedPartDto[];
+}
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { MetadataCategory } from '@prisma/client';
+
+export class MetadataPrivacyResponseDto {
+  @ApiProperty({
+    description: 'Photo metadata copied into renditions',
+    enum: MetadataCategory,
+    enumName: 'MetadataCategory',
+    isArray: true,
+    example: ['CAMERA', 'CAPTURE', 'DESCRIPTION'],
+  })
+  keptMetadata: MetadataCategory[];
+
+  @ApiProperty({
+    description: 'Photo metadata stripped from renditions',
+    enum: MetadataCategory,
+    enumName: 'MetadataCategory',
+    isArray: true,
+    example: ['LOCATION', 'DEVICE'],
+  })
+  strippedMetadata: MetadataCategory[];
+}
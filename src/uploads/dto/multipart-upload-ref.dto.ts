@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class MultipartUploadRefDto {
+  @ApiProperty({
+    description: 'Object key returned from the initiate endpoint',
+    example: 'uploads/2025/08/25/uuid-holiday-video.mp4',
+  })
+  @IsString()
+  @IsNotEmpty()
+  objectKey: string;
+
+  @ApiProperty({
+    description: 'Multipart upload ID returned from the initiate endpoint',
+    example: 'VXBsb2FkIElEIGZvciBlbHZpbmcncyBteS1tb3ZpZS5tMnRzIHVwbG9hZA',
+  })
+  @IsString()
+  @IsNotEmpty()
+  uploadId: string;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ObjectKeyLayoutResponseDto {
+  @ApiProperty({
+    description:
+      'Key of uploaded originals. Placeholders: {userId}, {assetId}, {yyyy}, {mm}, {dd}, {hash}, {name}, {ext}',
+    example: 'uploads/{yyyy}/{mm}/{dd}/{assetId}-{name}{ext}',
+  })
+  objectKeyTemplate: string;
+
+  @ApiProperty({
+    description:
+      'Key of files generated from an original, such as thumbnails. Placeholders: {userId}, {assetId}, {variant}, {ext}',
+    example: 'derived/{assetId}/{variant}{ext}',
+  })
+  derivedKeyTemplate: string;
+}
@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PresignedPartDto {
+  @ApiProperty({
+    description: 'Part number',
+    example: 1,
+  })
+  partNumber: number;
+
+  @ApiProperty({
+    description: 'Presigned PUT URL for uploading the part',
+    example:
+      'http://localhost:9000/media-inbox/uploads/2025/08/25/uuid-holiday-video.mp4?partNumber=1&uploadId=...',
+  })
+  uploadUrl: string;
+}
+
+export class PresignMultipartPartsResponseDto {
+  @ApiProperty({
+    description: 'Presigned URLs for the requested parts',
+    type: [PresignedPartDto],
+  })
+  parts: PresignedPartDto[];
+
+  @ApiProperty({
+    description: 'Expiration time of the presigned URLs in seconds',
+    example: 3600,
+  })
+  expiresIn: number;
+}
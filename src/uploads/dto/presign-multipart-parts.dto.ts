@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsArray,
+  IsInt,
+  Min,
+  Max,
+  ArrayMinSize,
+  ArrayMaxSize,
+} from 'class-validator';
+import { MAX_MULTIPART_PARTS } from '../uploads.constants';
+
+export class PresignMultipartPartsDto {
+  @ApiProperty({
+    description: 'Object key returned from the initiate endpoint',
+    example: 'uploads/2025/08/25/uuid-holiday-video.mp4',
+  })
+  @IsString()
+  @IsNotEmpty()
+  objectKey: string;
+
+  @ApiProperty({
+    description: 'Multipart upload ID returned from the initiate endpoint',
+    example: 'VXBsb2FkIElEIGZvciBlbHZpbmcncyBteS1tb3ZpZS5tMnRzIHVwbG9hZA',
+  })
+  @IsString()
+  @IsNotEmpty()
+  uploadId: string;
+
+  @ApiProperty({
+    description:
+      'Part numbers to presign (max 100 per request). Request a part again to retry it',
+    example: [1, 2, 3],
+    type: [Number],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(MAX_MULTIPART_PARTS, { each: true })
+  partNumbers: number[];
+}
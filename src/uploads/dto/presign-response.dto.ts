@@ -1,13 +1,35 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { UploadCompleteResponseDto } from './upload-complete-response.dto';
+import {
+  PRESIGN_UPLOAD_METHODS,
+  PresignUploadMethod,
+} from '../uploads.constants';
 
 export class PresignResponseDto {
   @ApiProperty({
-    description: 'Presigned PUT URL for uploading the file',
+    description:
+      'Whether the file already exists. When true, no upload is needed and the asset is returned instead of an upload URL',
+    example: false,
+  })
+  duplicate: boolean;
+
+  @ApiProperty({
+    description:
+      'How to upload the file: PUT the body to uploadUrl with headers, or POST a multipart form with fields and the file to uploadUrl',
+    enum: PRESIGN_UPLOAD_METHODS,
+    example: 'PUT',
+    required: false,
+  })
+  method?: PresignUploadMethod;
+
+  @ApiProperty({
+    description: 'Presigned PUT URL, or the form action URL for POST uploads',
     example:
       'http://localhost:9000/media-inbox/uploads/2025/08/25/uuid-filename.pdf?X-Amz-Algorithm=AWS4-HMAC-SHA256&X-Amz-Credential=...',
     minLength: 1,
+    required: false,
   })
-  uploadUrl: string;
+  uploadUrl?: string;
 
   @ApiProperty({
     description: 'Object key to use when uploading',
@@ -18,15 +40,41 @@ export class PresignResponseDto {
   @ApiProperty({
     description: 'Expiration time of the presigned URL in seconds',
     example: 3600,
+    required: false,
+  })
+  expiresIn?: number;
+
+  @ApiProperty({
+    description:
+      'Required headers for the upload request. Includes x-amz-checksum-sha256 when a SHA-256 hash was provided',
+    example: {
+      'Content-Type': 'application/pdf',
+      'x-amz-meta-original-filename': 'document.pdf',
+      'x-amz-checksum-sha256': 'obLD1OX1DsUtBp2Ujl8uWAJHG3sRHHR8cF8/Tm4RoCA=',
+    },
+    required: false,
   })
-  expiresIn: number;
+  headers?: Record<string, string>;
 
   @ApiProperty({
-    description: 'Required headers for the upload request',
+    description:
+      'Form fields for POST uploads, sent before the file field. The signed policy limits the body to the declared size and content type',
     example: {
+      key: 'uploads/2024/01/15/uuid-filename.pdf',
       'Content-Type': 'application/pdf',
       'x-amz-meta-original-filename': 'document.pdf',
+      Policy: 'eyJleHBpcmF0aW9uIjoi...',
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Signature': '...',
     },
+    required: false,
+  })
+  fields?: Record<string, string>;
+
+  @ApiProperty({
+    description: 'The existing asset with the same content (duplicates only)',
+    type: UploadCompleteResponseDto,
+    required: false,
   })
-  headers: Record<string, string>;
+  asset?: UploadCompleteResponseDto;
 }
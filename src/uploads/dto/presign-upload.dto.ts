@@ -5,9 +5,13 @@ import {
   IsOptional,
   IsNumber,
   Min,
-  Max,
   Matches,
+  IsIn,
 } from 'class-validator';
+import {
+  PRESIGN_UPLOAD_METHODS,
+  PresignUploadMethod,
+} from '../uploads.constants';
 
 export class PresignUploadDto {
   @ApiProperty({
@@ -32,18 +36,18 @@ export class PresignUploadDto {
   contentType: string;
 
   @ApiProperty({
-    description: 'File size in bytes',
+    description:
+      'File size in bytes. The maximum is set by the upload policy that applies to the user',
     example: 1048576,
     minimum: 1,
-    maximum: 104857600,
   })
   @IsNumber()
   @Min(1)
-  @Max(104857600) // 100MB max
   fileSize: number;
 
   @ApiProperty({
-    description: 'Optional SHA-256 hash of the file for validation',
+    description:
+      'Optional SHA-256 hash of the file. S3 rejects uploads that do not match it, and processing verifies it again',
     example: 'a1b2c3d4e5f6...',
     required: false,
   })
@@ -53,4 +57,15 @@ export class PresignUploadDto {
     message: 'SHA-256 hash must be 64 hexadecimal characters',
   })
   sha256Hash?: string;
+
+  @ApiProperty({
+    description:
+      'Upload method. POST returns a form policy that makes S3 enforce the declared size and content type',
+    enum: PRESIGN_UPLOAD_METHODS,
+    default: 'PUT',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(PRESIGN_UPLOAD_METHODS)
+  method?: PresignUploadMethod;
 }
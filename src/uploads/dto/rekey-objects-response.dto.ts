@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RekeyObjectsResponseDto {
+  @ApiProperty({
+    description: 'ID of the queued re-key job',
+    example: '42',
+  })
+  jobId: string;
+
+  @ApiProperty({
+    description: 'Status message',
+    example: 'Re-key queued, objects are moved in the background',
+  })
+  message: string;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+export class SetStorageQuotaDto {
+  @ApiProperty({
+    description:
+      'Storage quota in bytes. Null falls back to the default quota, which may be unlimited',
+    example: 10737418240,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  quotaBytes: number | null;
+}
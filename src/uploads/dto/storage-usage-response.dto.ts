@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class StorageUsageResponseDto {
+  @ApiProperty({
+    description: 'User the figures belong to',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Bytes stored, counting originals, thumbnails and renditions',
+    example: 734003200,
+  })
+  usedBytes: number;
+
+  @ApiProperty({
+    description: 'Storage quota in bytes, or null when unlimited',
+    example: 10737418240,
+    nullable: true,
+  })
+  quotaBytes: number | null;
+
+  @ApiProperty({
+    description:
+      'Bytes left before the quota is reached, or null when unlimited',
+    example: 10003415040,
+    nullable: true,
+  })
+  availableBytes: number | null;
+
+  @ApiProperty({
+    description: 'Number of assets owned by the user',
+    example: 128,
+  })
+  assetCount: number;
+}
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, ArrayMaxSize, IsString, Matches } from 'class-validator';
+
+// An email address, or @domain to accept every sender of a domain
+export const ALLOWED_SENDER_PATTERN = /^([^\s@]+)?@[^\s@]+\.[^\s@]+$/;
+
+export class UpdateAllowedSendersDto {
+  @ApiProperty({
+    description:
+      'Senders accepted besides the account email, replacing the current list. Entries starting with @ accept a whole domain',
+    example: ['scanner@office.example.com', '@family.example.com'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  @Matches(ALLOWED_SENDER_PATTERN, {
+    each: true,
+    message:
+      'Each allowed sender must be an email address or a domain such as @example.com',
+  })
+  allowedSenders: string[];
+}
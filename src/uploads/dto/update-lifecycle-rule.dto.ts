@@ -0,0 +1,77 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  Min,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { CONTENT_TYPE_PATTERN } from './create-upload-policy.dto';
+
+export class UpdateLifecycleRuleDto {
+  @ApiProperty({
+    description: 'Unique rule name',
+    example: 'old-photos',
+    maxLength: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({
+    description:
+      'Content types the rule applies to. Wildcards such as image/* are supported; empty means all types',
+    example: ['image/*'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Matches(CONTENT_TYPE_PATTERN, {
+    each: true,
+    message:
+      'Each content type must be a MIME type such as image/png or image/*',
+  })
+  contentTypes?: string[];
+
+  @ApiProperty({
+    description:
+      'Move originals to cold storage after this many days without a download',
+    example: 180,
+    minimum: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  daysWithoutAccess?: number;
+
+  @ApiProperty({
+    description:
+      'Only move originals of at least this many bytes, or null for any size',
+    example: 1048576,
+    nullable: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minSize?: number | null;
+
+  @ApiProperty({
+    description: 'Whether the scheduled lifecycle job applies the rule',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsEnum } from 'class-validator';
+import { MetadataCategory } from '@prisma/client';
+
+export class UpdateMetadataPrivacyDto {
+  @ApiProperty({
+    description:
+      'Photo metadata copied into renditions, replacing the current list. LOCATION is GPS position, DEVICE is camera and lens serial numbers and the owner name, CAMERA is make, model and lens, CAPTURE is capture time and exposure settings, DESCRIPTION is title, caption, keywords, creator and copyright',
+    enum: MetadataCategory,
+    enumName: 'MetadataCategory',
+    isArray: true,
+    example: ['CAMERA', 'CAPTURE', 'DESCRIPTION'],
+  })
+  @IsArray()
+  @IsEnum(MetadataCategory, { each: true })
+  keptMetadata: MetadataCategory[];
+}
@@ -0,0 +1,101 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  ArrayMinSize,
+  IsInt,
+  Min,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { UserRole } from '@prisma/client';
+import { CONTENT_TYPE_PATTERN } from './create-upload-policy.dto';
+
+export class UpdateUploadPolicyDto {
+  @ApiProperty({
+    description: 'Unique policy name',
+    example: 'photographers',
+    maxLength: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({
+    description:
+      'Move the policy to this role. Setting role or userId replaces the current assignment',
+    enum: UserRole,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(UserRole)
+  role?: UserRole;
+
+  @ApiProperty({
+    description:
+      'Move the policy to this user. Setting role or userId replaces the current assignment',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  userId?: string;
+
+  @ApiProperty({
+    description:
+      'Allowed content types. Wildcards such as image/* are supported',
+    example: ['image/*', 'application/pdf'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @Matches(CONTENT_TYPE_PATTERN, {
+    each: true,
+    message:
+      'Each allowed type must be a MIME type such as image/png or image/*',
+  })
+  allowedTypes?: string[];
+
+  @ApiProperty({
+    description: 'Largest file in bytes, or null to remove the limit',
+    example: 52428800,
+    nullable: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxFileSize?: number | null;
+
+  @ApiProperty({
+    description: 'Files per day (UTC), or null to remove the limit',
+    example: 500,
+    nullable: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  dailyUploadCount?: number | null;
+
+  @ApiProperty({
+    description: 'Bytes per day (UTC), or null to remove the limit',
+    example: 10737418240,
+    nullable: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  dailyUploadBytes?: number | null;
+}
@@ -17,7 +17,7 @@ export class UploadCompleteResponseDto {
   @ApiProperty({
     description: 'Current status of the asset',
     example: 'PENDING',
-    enum: ['PENDING', 'PROCESSING', 'READY', 'FAILED'],
+    enum: ['PENDING', 'PROCESSING', 'READY', 'FAILED', 'QUARANTINED'],
     enumName: 'AssetStatus',
   })
   status: string;
@@ -4,7 +4,6 @@ import {
   IsNotEmpty,
   IsNumber,
   Min,
-  Max,
   IsOptional,
   Matches,
 } from 'class-validator';
@@ -40,14 +39,13 @@ export class UploadCompleteDto {
   contentType: string;
 
   @ApiProperty({
-    description: 'File size in bytes',
+    description:
+      'File size in bytes. The maximum is set by the upload policy that applies to the user',
     example: 1048576,
     minimum: 1,
-    maximum: 104857600,
   })
   @IsNumber()
   @Min(1)
-  @Max(104857600) // 100MB max
   fileSize: number;
 
   @ApiProperty({
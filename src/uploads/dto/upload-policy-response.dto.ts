@@ -0,0 +1,70 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+export class UploadPolicyResponseDto {
+  @ApiProperty({
+    description: 'Policy ID',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Unique policy name',
+    example: 'photographers',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Role the policy applies to',
+    enum: UserRole,
+    nullable: true,
+  })
+  role: UserRole | null;
+
+  @ApiProperty({
+    description: 'User the policy applies to',
+    example: null,
+    nullable: true,
+  })
+  userId: string | null;
+
+  @ApiProperty({
+    description: 'Allowed content types, possibly with wildcards',
+    example: ['image/*', 'application/pdf'],
+    type: [String],
+  })
+  allowedTypes: string[];
+
+  @ApiProperty({
+    description: 'Largest file in bytes',
+    example: 52428800,
+    nullable: true,
+  })
+  maxFileSize: number | null;
+
+  @ApiProperty({
+    description: 'Files per day (UTC)',
+    example: 500,
+    nullable: true,
+  })
+  dailyUploadCount: number | null;
+
+  @ApiProperty({
+    description: 'Bytes per day (UTC)',
+    example: 10737418240,
+    nullable: true,
+  })
+  dailyUploadBytes: number | null;
+
+  @ApiProperty({
+    description: 'When the policy was created',
+    example: '2025-09-15T10:00:00.000Z',
+  })
+  createdAt: string;
+
+  @ApiProperty({
+    description: 'When the policy was last changed',
+    example: '2025-09-15T10:00:00.000Z',
+  })
+  updatedAt: string;
+}
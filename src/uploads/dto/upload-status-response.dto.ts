@@ -0,0 +1,78 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UploadState } from '@prisma/client';
+
+export class UploadStatusResponseDto {
+  @ApiProperty({
+    description: 'Object key returned when the upload was presigned',
+    example: 'uploads/2025/08/25/cmeq1wmrw0001z97fu028bcd5-sunset.jpg',
+  })
+  objectKey: string;
+
+  @ApiProperty({
+    description:
+      'PRESIGNED until storage has received data, UPLOADING while parts arrive, UPLOADED once the whole ' +
+      'file is stored, then COMPLETED when the asset is created, or ABANDONED when the upload was aborted ' +
+      'or not completed before it expired',
+    enum: UploadState,
+    enumName: 'UploadState',
+    example: 'UPLOADED',
+  })
+  state: UploadState;
+
+  @ApiProperty({
+    description: 'Original filename',
+    example: 'sunset.jpg',
+  })
+  filename: string;
+
+  @ApiProperty({
+    description: 'Declared content type',
+    example: 'image/jpeg',
+  })
+  contentType: string;
+
+  @ApiProperty({
+    description: 'Declared file size in bytes',
+    example: 2048576,
+  })
+  fileSize: number;
+
+  @ApiProperty({
+    description: 'Whether this is a multipart (or tus) upload',
+    example: false,
+  })
+  multipart: boolean;
+
+  @ApiProperty({
+    description: 'Asset created for the upload, once completed',
+    example: 'cmeq1wmrw0001z97fu028bcd5',
+    required: false,
+  })
+  assetId?: string;
+
+  @ApiProperty({
+    description: 'When the upload was presigned',
+    example: '2025-08-25T10:00:00.000Z',
+  })
+  presignedAt: string;
+
+  @ApiProperty({
+    description: 'When the upload expires unless completed',
+    example: '2025-08-26T10:00:00.000Z',
+  })
+  expiresAt: string;
+
+  @ApiProperty({
+    description: 'When the upload was completed',
+    example: '2025-08-25T10:05:00.000Z',
+    required: false,
+  })
+  completedAt?: string;
+
+  @ApiProperty({
+    description: 'When the upload was marked as abandoned',
+    example: '2025-08-26T10:15:00.000Z',
+    required: false,
+  })
+  abandonedAt?: string;
+}
@@ -0,0 +1,90 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { Request as TypedRequest } from 'src/types';
+import { EncryptionKeysService } from './encryption-keys.service';
+import { EncryptionKeyResponseDto } from './dto/encryption-key-response.dto';
+
+@ApiTags('Encryption')
+@Controller()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class EncryptionKeysController {
+  constructor(private readonly encryptionKeysService: EncryptionKeysService) {}
+
+  @Get('me/encryption-key')
+  @ApiOperation({
+    summary: 'Get my encryption key',
+    description:
+      'The key that wraps the data keys of your encrypted originals. The key itself is never returned',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Key retrieved successfully',
+    type: EncryptionKeyResponseDto,
+  })
+  @ApiResponse({ status: 503, description: 'Encryption is not configured' })
+  async getMyKey(
+    @Request() req: TypedRequest,
+  ): Promise<EncryptionKeyResponseDto> {
+    return this.encryptionKeysService.getKeyStatus(req.user.id);
+  }
+
+  @Post('me/encryption-key/rotate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rotate my encryption key',
+    description:
+      'Create a new key version. Data keys are re-wrapped with it in the background; files are not re-uploaded',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Key rotated successfully',
+    type: EncryptionKeyResponseDto,
+  })
+  @ApiResponse({ status: 409, description: 'Rotation already in progress' })
+  @ApiResponse({ status: 503, description: 'Encryption is not configured' })
+  async rotateMyKey(
+    @Request() req: TypedRequest,
+  ): Promise<EncryptionKeyResponseDto> {
+    return this.encryptionKeysService.rotateKey(req.user.id, req.user.id);
+  }
+
+  @Post('users/:userId/encryption-key/rotate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Rotate a user's encryption key" })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Key rotated successfully',
+    type: EncryptionKeyResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 409, description: 'Rotation already in progress' })
+  @ApiResponse({ status: 503, description: 'Encryption is not configured' })
+  @Roles(UserRole.ADMIN)
+  async rotateUserKey(
+    @Param('userId') userId: string,
+    @Request() req: TypedRequest,
+  ): Promise<EncryptionKeyResponseDto> {
+    return this.encryptionKeysService.rotateKey(userId, req.user.id);
+  }
+}
@@ -0,0 +1,298 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  ConflictException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Prisma, UserEncryptionKey } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditService } from 'src/common/services/audit.service';
+import { JobsService } from 'src/jobs/jobs.service';
+import { KEY_PROVIDER, KeyProvider } from './key-provider';
+import { EncryptionKeyResponseDto } from './dto/encryption-key-response.dto';
+
+/**
+ * A data key wrapped by its owner's key encryption key, as stored on the
+ * asset
+ */
+export interface WrappedDataKey {
+  dataKey: Buffer;
+  dataKeyId: string;
+}
+
+/**
+ * Manages the per-user key encryption keys (KEKs) that wrap the data keys of
+ * encrypted originals. Rotating a user's KEK only re-wraps their data keys;
+ * the objects themselves are never re-encrypted.
+ */
+@Injectable()
+export class EncryptionKeysService {
+  private readonly logger = new Logger(EncryptionKeysService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(KEY_PROVIDER) private readonly keyProvider: KeyProvider | null,
+    private readonly auditService: AuditService,
+    private readonly jobsService: JobsService,
+  ) {}
+
+  /**
+   * Whether new originals are encrypted
+   */
+  isEnabled(): boolean {
+    return this.keyProvider !== null;
+  }
+
+  /**
+   * Wrap a data key with the user's current KEK, creating their first KEK
+   * if needed
+   */
+  async wrapDataKey(userId: string, dataKey: Buffer): Promise<WrappedDataKey> {
+    const key = await this.getActiveKey(userId);
+    return {
+      dataKey: await this.provider().wrapKey(key.providerKeyId, dataKey),
+      dataKeyId: key.id,
+    };
+  }
+
+  async unwrapDataKey(dataKeyId: string, dataKey: Uint8Array): Promise<Buffer> {
+    const key = await this.prisma.userEncryptionKey.findUnique({
+      where: { id: dataKeyId },
+    });
+
+    if (!key || key.status === 'DESTROYED') {
+      throw new Error(`Encryption key ${dataKeyId} is no longer available`);
+    }
+
+    return this.provider().unwrapKey(key.providerKeyId, Buffer.from(dataKey));
+  }
+
+  async getKeyStatus(userId: string): Promise<EncryptionKeyResponseDto> {
+    return this.toResponse(await this.getActiveKey(userId));
+  }
+
+  /**
+   * Replace the user's KEK with a new version. Data keys wrapped by the old
+   * version are re-wrapped in the background, after which it is destroyed.
+   */
+  async rotateKey(
+    userId: string,
+    actorId: string,
+  ): Promise<EncryptionKeyResponseDto> {
+    const current = await this.getActiveKey(userId);
+    const providerKeyId = await this.provider().createKey();
+
+    let key: UserEncryptionKey;
+    try {
+      key = await this.prisma.$transaction(async (tx) => {
+        await tx.userEncryptionKey.update({
+          where: { id: current.id },
+          data: { status: 'RETIRED', retiredAt: new Date() },
+        });
+        return tx.userEncryptionKey.create({
+          data: { userId, version: current.version + 1, providerKeyId },
+        });
+      });
+    } catch (error) {
+      await this.provider().destroyKey(providerKeyId);
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('The key is already being rotated');
+      }
+      throw error;
+    }
+
+    await this.auditService.logAdminEvent(
+      actorId,
+      'SYSTEM_CONFIG',
+      `encryption-key:${userId}`,
+      {
+        oldValue: { version: current.version },
+        newValue: { version: key.version },
+      },
+    );
+
+    await this.jobsService.addRewrapJob();
+
+    this.logger.log(
+      `Encryption key of user ${userId} rotated to version ${key.version} by ${actorId}`,
+    );
+    return this.toResponse(key);
+  }
+
+  /**
+   * Re-wrap the data keys still wrapped by retired KEKs with their owner's
+   * current KEK, and destroy retired KEKs nothing depends on anymore
+   */
+  async rewrapDataKeys(
+    batchSize: number = 100,
+  ): Promise<{ rewrapped: number; failed: number; destroyed: number }> {
+    const result = { rewrapped: 0, failed: 0, destroyed: 0 };
+
+    if (!this.keyProvider) {
+      return result;
+    }
+
+    const retiredKeys = await this.prisma.userEncryptionKey.findMany({
+      where: { status: 'RETIRED' },
+    });
+
+    for (const retired of retiredKeys) {
+      const active = await this.getActiveKey(retired.userId);
+      const failedIds: string[] = [];
+
+      for (;;) {
+        const assets = await this.prisma.asset.findMany({
+          where: { dataKeyId: retired.id, id: { notIn: failedIds } },
+          select: { id: true, dataKey: true },
+          take: batchSize,
+        });
+
+        for (const asset of assets) {
+          try {
+            const dataKey = await this.keyProvider.unwrapKey(
+              retired.providerKeyId,
+              Buffer.from(asset.dataKey!),
+            );
+            await this.prisma.asset.updateMany({
+              where: { id: asset.id, dataKeyId: retired.id },
+              data: {
+                dataKey: await this.keyProvider.wrapKey(
+                  active.providerKeyId,
+                  dataKey,
+                ),
+                dataKeyId: active.id,
+              },
+            });
+            result.rewrapped++;
+          } catch (error) {
+            this.logger.error(
+              `Failed to re-wrap the data key of asset ${asset.id}: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            );
+            failedIds.push(asset.id);
+            result.failed++;
+          }
+        }
+
+        if (assets.length < batchSize) {
+          break;
+        }
+      }
+
+      if (failedIds.length === 0 && (await this.destroyRetiredKey(retired))) {
+        result.destroyed++;
+      }
+    }
+
+    if (result.rewrapped > 0 || result.failed > 0) {
+      this.logger.log(
+        `Re-wrapped ${result.rewrapped} data keys (${result.failed} failed, ${result.destroyed} retired keys destroyed)`,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Destroy a retired KEK once no data key depends on it. A data key wrapped
+   * before the rotation can still be stored after the last re-wrap batch, so
+   * the check is repeated in the transaction that marks the key destroyed.
+   * Returns false when the key is kept for the next run.
+   */
+  private async destroyRetiredKey(
+    retired: UserEncryptionKey,
+  ): Promise<boolean> {
+    const destroyed = await this.prisma.$transaction(async (tx) => {
+      const remaining = await tx.asset.count({
+        where: { dataKeyId: retired.id },
+      });
+      if (remaining > 0) {
+        return false;
+      }
+
+      await tx.userEncryptionKey.update({
+        where: { id: retired.id },
+        data: { status: 'DESTROYED', destroyedAt: new Date() },
+      });
+      // Rolls the status back when the provider refuses
+      await this.provider().destroyKey(retired.providerKeyId);
+      return true;
+    });
+
+    if (!destroyed) {
+      this.logger.warn(
+        `Kept retired key ${retired.id}: data keys were wrapped with it during the re-wrap`,
+      );
+    }
+    return destroyed;
+  }
+
+  /**
+   * The user's current KEK. The first one is created on first use.
+   */
+  private async getActiveKey(userId: string): Promise<UserEncryptionKey> {
+    const active = await this.prisma.userEncryptionKey.findFirst({
+      where: { userId, status: 'ACTIVE' },
+    });
+    if (active) {
+      return active;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const providerKeyId = await this.provider().createKey();
+    try {
+      const key = await this.prisma.userEncryptionKey.create({
+        data: { userId, version: 1, providerKeyId },
+      });
+      this.logger.log(`Created encryption key for user ${userId}`);
+      return key;
+    } catch (error) {
+      // Created by a concurrent request
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        await this.provider().destroyKey(providerKeyId);
+        return this.prisma.userEncryptionKey.findFirstOrThrow({
+          where: { userId, status: 'ACTIVE' },
+        });
+      }
+      throw error;
+    }
+  }
+
+  private provider(): KeyProvider {
+    if (!this.keyProvider) {
+      throw new ServiceUnavailableException('Encryption is not configured');
+    }
+    return this.keyProvider;
+  }
+
+  private async toResponse(
+    key: UserEncryptionKey,
+  ): Promise<EncryptionKeyResponseDto> {
+    const pendingRewrap = await this.prisma.asset.count({
+      where: {
+        encryptionKey: { userId: key.userId, status: 'RETIRED' },
+      },
+    });
+
+    return {
+      version: key.version,
+      createdAt: key.createdAt.toISOString(),
+      pendingRewrap,
+    };
+  }
+}
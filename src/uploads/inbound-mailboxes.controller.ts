@@ -0,0 +1,94 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { Request as TypedRequest } from 'src/types';
+import { InboundMailboxesService } from './inbound-mailboxes.service';
+import { InboundMailboxResponseDto } from './dto/inbound-mailbox-response.dto';
+import { UpdateAllowedSendersDto } from './dto/update-allowed-senders.dto';
+
+@ApiTags('Inbound Email')
+@Controller('me/inbound-email')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class InboundMailboxesController {
+  constructor(
+    private readonly inboundMailboxesService: InboundMailboxesService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get my inbound email address',
+    description:
+      'Attachments of mail sent to this address become assets. The address is issued on first request',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Inbound address retrieved successfully',
+    type: InboundMailboxResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - valid JWT token required',
+  })
+  async getMailbox(
+    @Request() req: TypedRequest,
+  ): Promise<InboundMailboxResponseDto> {
+    return this.inboundMailboxesService.getMailbox(req.user.id);
+  }
+
+  @Put('allowed-senders')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Set the senders allowed to email me files',
+    description: 'Mail from the account email is always accepted',
+  })
+  @ApiBody({ type: UpdateAllowedSendersDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Allowed senders updated successfully',
+    type: InboundMailboxResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid sender address' })
+  async updateAllowedSenders(
+    @Body() updateDto: UpdateAllowedSendersDto,
+    @Request() req: TypedRequest,
+  ): Promise<InboundMailboxResponseDto> {
+    return this.inboundMailboxesService.updateAllowedSenders(
+      req.user.id,
+      updateDto.allowedSenders,
+    );
+  }
+
+  @Post('rotate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replace my inbound email address',
+    description: 'Mail sent to the previous address is rejected',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'New address issued',
+    type: InboundMailboxResponseDto,
+  })
+  async rotateAddress(
+    @Request() req: TypedRequest,
+  ): Promise<InboundMailboxResponseDto> {
+    return this.inboundMailboxesService.rotateAddress(req.user.id);
+  }
+}
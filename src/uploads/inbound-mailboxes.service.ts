@@ -0,0 +1,141 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InboundMailbox } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { InboundMailboxResponseDto } from './dto/inbound-mailbox-response.dto';
+import { randomBytes } from 'crypto';
+
+export interface ResolvedMailbox {
+  mailbox: InboundMailbox;
+  accountEmail: string;
+}
+
+/**
+ * Inbound email addresses. Each user gets one random address on the
+ * INBOUND_EMAIL_DOMAIN; mail sent to it is accepted from the account email
+ * and the senders the user allows.
+ */
+@Injectable()
+export class InboundMailboxesService {
+  private readonly logger = new Logger(InboundMailboxesService.name);
+  private readonly domain: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.domain = this.configService
+      .get<string>('INBOUND_EMAIL_DOMAIN', 'localhost')
+      .toLowerCase();
+  }
+
+  /**
+   * Get the user's mailbox, issuing an address on first use
+   */
+  async getMailbox(userId: string): Promise<InboundMailboxResponseDto> {
+    const mailbox = await this.prisma.inboundMailbox.upsert({
+      where: { userId },
+      create: { userId, token: this.generateToken(), allowedSenders: [] },
+      update: {},
+    });
+
+    return this.toResponse(mailbox);
+  }
+
+  async updateAllowedSenders(
+    userId: string,
+    allowedSenders: string[],
+  ): Promise<InboundMailboxResponseDto> {
+    const normalized = [
+      ...new Set(allowedSenders.map((sender) => sender.trim().toLowerCase())),
+    ];
+
+    const mailbox = await this.prisma.inboundMailbox.upsert({
+      where: { userId },
+      create: {
+        userId,
+        token: this.generateToken(),
+        allowedSenders: normalized,
+      },
+      update: { allowedSenders: normalized },
+    });
+
+    this.logger.log(
+      `Inbound mailbox of ${userId} now allows ${normalized.length} senders`,
+    );
+    return this.toResponse(mailbox);
+  }
+
+  /**
+   * Replace the user's address, e.g. after it leaked. Mail to the old
+   * address is rejected from then on.
+   */
+  async rotateAddress(userId: string): Promise<InboundMailboxResponseDto> {
+    const mailbox = await this.prisma.inboundMailbox.upsert({
+      where: { userId },
+      create: { userId, token: this.generateToken(), allowedSenders: [] },
+      update: { token: this.generateToken() },
+    });
+
+    this.logger.log(`Inbound address of ${userId} rotated`);
+    return this.toResponse(mailbox);
+  }
+
+  /**
+   * Find the mailbox an address delivers to, or null when it is not one of
+   * ours. Plus addressing (token+anything@domain) is accepted.
+   */
+  async resolveAddress(address: string): Promise<ResolvedMailbox | null> {
+    const [localPart, domain] = this.splitAddress(address);
+    if (!localPart || domain !== this.domain) {
+      return null;
+    }
+
+    const mailbox = await this.prisma.inboundMailbox.findUnique({
+      where: { token: localPart.split('+')[0] },
+      include: { user: { select: { email: true } } },
+    });
+    if (!mailbox) {
+      return null;
+    }
+
+    const { user, ...rest } = mailbox;
+    return { mailbox: rest, accountEmail: user.email };
+  }
+
+  isSenderAllowed(resolved: ResolvedMailbox, sender: string): boolean {
+    const address = sender.trim().toLowerCase();
+    const [, domain] = this.splitAddress(address);
+
+    return (
+      address === resolved.accountEmail.toLowerCase() ||
+      resolved.mailbox.allowedSenders.some((allowed) =>
+        allowed.startsWith('@')
+          ? `@${domain}` === allowed
+          : allowed === address,
+      )
+    );
+  }
+
+  private splitAddress(address: string): [string, string] {
+    const at = address.lastIndexOf('@');
+    if (at < 0) {
+      return [address.toLowerCase(), ''];
+    }
+    return [
+      address.slice(0, at).toLowerCase(),
+      address.slice(at + 1).toLowerCase(),
+    ];
+  }
+
+  private generateToken(): string {
+    return randomBytes(8).toString('hex');
+  }
+
+  private toResponse(mailbox: InboundMailbox): InboundMailboxResponseDto {
+    return {
+      address: `${mailbox.token}@${this.domain}`,
+      allowedSenders: mailbox.allowedSenders,
+    };
+  }
+}
@@ -0,0 +1,31 @@
+// Injection token of the configured KeyProvider, or null when encryption is off
+export const KEY_PROVIDER = 'KEY_PROVIDER';
+
+// Providers selectable with ENCRYPTION_KEY_PROVIDER
+export const KEY_PROVIDERS = ['none', 'local'] as const;
+
+/**
+ * Holds the key encryption keys (KEKs) that wrap the data keys of encrypted
+ * originals. The KEKs never leave the provider; callers only see key IDs and
+ * wrapped data keys.
+ */
+export interface KeyProvider {
+  /**
+   * Create a new key encryption key
+   * @returns The ID to wrap and unwrap with
+   */
+  createKey(): Promise<string>;
+
+  wrapKey(keyId: string, dataKey: Buffer): Promise<Buffer>;
+
+  /**
+   * Throws when the wrapped key was not produced by this KEK
+   */
+  unwrapKey(keyId: string, wrappedKey: Buffer): Promise<Buffer>;
+
+  /**
+   * Permanently delete a KEK. Data keys still wrapped by it become
+   * unreadable.
+   */
+  destroyKey(keyId: string): Promise<void>;
+}
@@ -0,0 +1,129 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { Request as TypedRequest } from 'src/types';
+import { LifecycleRulesService } from './lifecycle-rules.service';
+import { CreateLifecycleRuleDto } from './dto/create-lifecycle-rule.dto';
+import { UpdateLifecycleRuleDto } from './dto/update-lifecycle-rule.dto';
+import { LifecycleRuleResponseDto } from './dto/lifecycle-rule-response.dto';
+
+@ApiTags('Lifecycle Rules')
+@Controller('lifecycle-rules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class LifecycleRulesController {
+  constructor(private readonly lifecycleRulesService: LifecycleRulesService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List lifecycle rules',
+    description:
+      'An original moves to cold storage once any enabled rule matching it has gone its number of days without a download',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rules retrieved successfully',
+    type: [LifecycleRuleResponseDto],
+  })
+  @Roles(UserRole.ADMIN)
+  async listRules(): Promise<LifecycleRuleResponseDto[]> {
+    return this.lifecycleRulesService.listRules();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a lifecycle rule' })
+  @ApiParam({ name: 'id', description: 'Rule ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rule retrieved successfully',
+    type: LifecycleRuleResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Lifecycle rule not found' })
+  @Roles(UserRole.ADMIN)
+  async getRule(@Param('id') id: string): Promise<LifecycleRuleResponseDto> {
+    return this.lifecycleRulesService.getRule(id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create a lifecycle rule',
+    description:
+      'Move originals of the given types to cold storage after a number of days without a download. Thumbnails stay in hot storage',
+  })
+  @ApiBody({ type: CreateLifecycleRuleDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Rule created successfully',
+    type: LifecycleRuleResponseDto,
+  })
+  @ApiResponse({ status: 409, description: 'Name already used' })
+  @Roles(UserRole.ADMIN)
+  async createRule(
+    @Body() createDto: CreateLifecycleRuleDto,
+    @Request() req: TypedRequest,
+  ): Promise<LifecycleRuleResponseDto> {
+    return this.lifecycleRulesService.createRule(createDto, req.user.id);
+  }
+
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Change a lifecycle rule' })
+  @ApiParam({ name: 'id', description: 'Rule ID' })
+  @ApiBody({ type: UpdateLifecycleRuleDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Rule updated successfully',
+    type: LifecycleRuleResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Lifecycle rule not found' })
+  @ApiResponse({ status: 409, description: 'Name already used' })
+  @Roles(UserRole.ADMIN)
+  async updateRule(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateLifecycleRuleDto,
+    @Request() req: TypedRequest,
+  ): Promise<LifecycleRuleResponseDto> {
+    return this.lifecycleRulesService.updateRule(id, updateDto, req.user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Delete a lifecycle rule',
+    description: 'Originals already in cold storage stay there',
+  })
+  @ApiParam({ name: 'id', description: 'Rule ID' })
+  @ApiResponse({ status: 200, description: 'Rule deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Lifecycle rule not found' })
+  @Roles(UserRole.ADMIN)
+  async deleteRule(
+    @Param('id') id: string,
+    @Request() req: TypedRequest,
+  ): Promise<{ message: string }> {
+    await this.lifecycleRulesService.deleteRule(id, req.user.id);
+    return { message: 'Lifecycle rule deleted successfully' };
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  Injectable,
+  Logger,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { LifecycleRule } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditService } from 'src/common/services/audit.service';
+import { CreateLifecycleRuleDto } from './dto/create-lifecycle-rule.dto';
+import { UpdateLifecycleRuleDto } from './dto/update-lifecycle-rule.dto';
+import { LifecycleRuleResponseDto } from './dto/lifecycle-rule-response.dto';
+
+@Injectable()
+export class LifecycleRulesService {
+  private readonly logger = new Logger(LifecycleRulesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async listRules(): Promise<LifecycleRuleResponseDto[]> {
+    const rules = await this.prisma.lifecycleRule.findMany({
+      orderBy: { name: 'asc' },
+    });
+    return rules.map((rule) => this.toResponse(rule));
+  }
+
+  async getRule(id: string): Promise<LifecycleRuleResponseDto> {
+    return this.toResponse(await this.findRule(id));
+  }
+
+  async createRule(
+    createDto: CreateLifecycleRuleDto,
+    actorId: string,
+  ): Promise<LifecycleRuleResponseDto> {
+    await this.assertNameAvailable(createDto.name);
+
+    const rule = await this.prisma.lifecycleRule.create({
+      data: {
+        name: createDto.name,
+        contentTypes: createDto.contentTypes ?? [],
+        daysWithoutAccess: createDto.daysWithoutAccess,
+        minSize: createDto.minSize ?? null,
+        enabled: createDto.enabled ?? true,
+      },
+    });
+
+    const response = this.toResponse(rule);
+    await this.auditService.logAdminEvent(
+      actorId,
+      'SYSTEM_CONFIG',
+      `lifecycle-rule:${rule.id}`,
+      { newValue: response },
+    );
+
+    this.logger.log(`Lifecycle rule ${rule.name} created by ${actorId}`);
+    return response;
+  }
+
+  async updateRule(
+    id: string,
+    updateDto: UpdateLifecycleRuleDto,
+    actorId: string,
+  ): Promise<LifecycleRuleResponseDto> {
+    const existing = await this.findRule(id);
+
+    if (updateDto.name !== undefined && updateDto.name !== existing.name) {
+      await this.assertNameAvailable(updateDto.name);
+    }
+
+    const rule = await this.prisma.lifecycleRule.update({
+      where: { id },
+      data: {
+        name: updateDto.name,
+        contentTypes: updateDto.contentTypes,
+        daysWithoutAccess: updateDto.daysWithoutAccess,
+        minSize: updateDto.minSize,
+        enabled: updateDto.enabled,
+      },
+    });
+
+    const response = this.toResponse(rule);
+    await this.auditService.logAdminEvent(
+      actorId,
+      'SYSTEM_CONFIG',
+      `lifecycle-rule:${id}`,
+      { oldValue: this.toResponse(existing), newValue: response },
+    );
+
+    this.logger.log(`Lifecycle rule ${rule.name} updated by ${actorId}`);
+    return response;
+  }
+
+  /**
+   * Objects already in cold storage stay there; their transitions keep the
+   * history but lose the link to the rule
+   */
+  async deleteRule(id: string, actorId: string): Promise<void> {
+    const existing = await this.findRule(id);
+
+    await this.prisma.lifecycleRule.delete({ where: { id } });
+
+    await this.auditService.logAdminEvent(
+      actorId,
+      'SYSTEM_CONFIG',
+      `lifecycle-rule:${id}`,
+      { oldValue: this.toResponse(existing) },
+    );
+
+    this.logger.log(`Lifecycle rule ${existing.name} deleted by ${actorId}`);
+  }
+
+  private async findRule(id: string): Promise<LifecycleRule> {
+    const rule = await this.prisma.lifecycleRule.findUnique({
+      where: { id },
+    });
+
+    if (!rule) {
+      throw new NotFoundException('Lifecycle rule not found');
+    }
+
+    return rule;
+  }
+
+  private async assertNameAvailable(name: string): Promise<void> {
+    const conflict = await this.prisma.lifecycleRule.findUnique({
+      where: { name },
+      select: { id: true },
+    });
+
+    if (conflict) {
+      throw new ConflictException(
+        `A lifecycle rule named ${name} already exists`,
+      );
+    }
+  }
+
+  private toResponse(rule: LifecycleRule): LifecycleRuleResponseDto {
+    return {
+      id: rule.id,
+      name: rule.name,
+      contentTypes: rule.contentTypes,
+      daysWithoutAccess: rule.daysWithoutAccess,
+      minSize: rule.minSize === null ? null : Number(rule.minSize),
+      enabled: rule.enabled,
+      createdAt: rule.createdAt.toISOString(),
+      updatedAt: rule.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  randomUUID,
+} from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { KeyProvider } from './key-provider';
+
+const KEY_SIZE = 32;
+const IV_SIZE = 12;
+const TAG_SIZE = 16;
+const KEY_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+interface KeyFile {
+  version: 1;
+  // The KEK sealed with the master key, base64
+  key: string;
+  createdAt: string;
+}
+
+/**
+ * AES-256-GCM with the key ID as additional data, so a wrapped key only
+ * opens under the key it was wrapped for: IV | tag | ciphertext
+ */
+function seal(key: Buffer, plaintext: Buffer, keyId: string): Buffer {
+  const iv = randomBytes(IV_SIZE);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(keyId));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer, keyId: string): Buffer {
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    key,
+    sealed.subarray(0, IV_SIZE),
+  );
+  decipher.setAAD(Buffer.from(keyId));
+  decipher.setAuthTag(sealed.subarray(IV_SIZE, IV_SIZE + TAG_SIZE));
+
+  try {
+    return Buffer.concat([
+      decipher.update(sealed.subarray(IV_SIZE + TAG_SIZE)),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new Error(`Key ${keyId} does not match the wrapped key`);
+  }
+}
+
+/**
+ * Key provider that keeps each KEK in a file under LOCAL_KEY_STORE_PATH,
+ * sealed with LOCAL_KEY_STORE_MASTER_KEY. Suitable for single-host
+ * deployments; the directory and the master key have to be backed up
+ * separately from the objects, or the objects cannot be decrypted.
+ */
+export class LocalKeyProvider implements KeyProvider {
+  private readonly root: string;
+  private readonly masterKey: Buffer;
+  private readonly keys = new Map<string, Buffer>();
+
+  constructor(configService: ConfigService) {
+    this.root = path.resolve(
+      configService.get<string>('LOCAL_KEY_STORE_PATH', './keys'),
+    );
+
+    this.masterKey = Buffer.from(
+      configService.get<string>('LOCAL_KEY_STORE_MASTER_KEY', ''),
+      'base64',
+    );
+    if (this.masterKey.length !== KEY_SIZE) {
+      throw new Error(
+        'LOCAL_KEY_STORE_MASTER_KEY must be 32 random bytes encoded as base64',
+      );
+    }
+  }
+
+  async createKey(): Promise<string> {
+    const keyId = randomUUID();
+    const key = randomBytes(KEY_SIZE);
+
+    const keyFile: KeyFile = {
+      version: 1,
+      key: seal(this.masterKey, key, keyId).toString('base64'),
+      createdAt: new Date().toISOString(),
+    };
+
+    // Written under a temporary name so a crash never leaves a partial key
+    await fs.mkdir(this.root, { recursive: true, mode: 0o700 });
+    const tmpFile = `${this.keyPath(keyId)}.tmp`;
+    await fs.writeFile(tmpFile, JSON.stringify(keyFile), { mode: 0o600 });
+    await fs.rename(tmpFile, this.keyPath(keyId));
+
+    this.keys.set(keyId, key);
+    return keyId;
+  }
+
+  async wrapKey(keyId: string, dataKey: Buffer): Promise<Buffer> {
+    return seal(await this.loadKey(keyId), dataKey, keyId);
+  }
+
+  async unwrapKey(keyId: string, wrappedKey: Buffer): Promise<Buffer> {
+    return open(await this.loadKey(keyId), wrappedKey, keyId);
+  }
+
+  async destroyKey(keyId: string): Promise<void> {
+    this.keys.delete(keyId);
+    await fs.rm(this.keyPath(keyId), { force: true });
+  }
+
+  private async loadKey(keyId: string): Promise<Buffer> {
+    const cached = this.keys.get(keyId);
+    if (cached) {
+      return cached;
+    }
+
+    let keyFile: KeyFile;
+    try {
+      keyFile = JSON.parse(
+        await fs.readFile(this.keyPath(keyId), 'utf8'),
+      ) as KeyFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Key ${keyId} not found in the local key store`);
+      }
+      throw error;
+    }
+
+    const key = open(this.masterKey, Buffer.from(keyFile.key, 'base64'), keyId);
+    this.keys.set(keyId, key);
+    return key;
+  }
+
+  private keyPath(keyId: string): string {
+    if (!KEY_ID_PATTERN.test(keyId)) {
+      throw new Error(`Invalid key ID ${keyId}`);
+    }
+    return path.join(this.root, `${keyId}.json`);
+  }
+}
@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Query,
+  Headers,
+  Inject,
+  Request,
+  Res,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  StreamableFile,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { Request as ExpressRequest, Response } from 'express';
+import { LocalStorageService } from './local-storage.service';
+import { STORAGE_PROVIDER, StorageProvider } from './storage-provider';
+
+/**
+ * Serves the signed URLs issued by the local filesystem storage driver.
+ * Requests carry no JWT: the signed token is the authorization, just like
+ * a presigned S3 URL. The routes are exempt from the global rate limit,
+ * since one page of thumbnails or one multipart upload sends many of them.
+ */
+@ApiTags('Storage')
+@Controller('storage/local')
+export class LocalStorageController {
+  constructor(
+    @Inject(STORAGE_PROVIDER) private readonly storage: StorageProvider,
+  ) {}
+
+  @Get('objects')
+  @ApiOperation({ summary: 'Download an object with a signed URL' })
+  @ApiQuery({ name: 'token', required: true })
+  @ApiResponse({ status: 200, description: 'Object content' })
+  @ApiResponse({ status: 403, description: 'Invalid or expired token' })
+  @ApiResponse({ status: 404, description: 'Object not found' })
+  async download(
+    @Query('token') token: string | undefined,
+  ): Promise<StreamableFile> {
+    const storage = this.localStorage();
+    const { key } = storage.verifyToken(token, ['get']);
+
+    const head = await storage.headObject(key);
+    if (!head) {
+      throw new NotFoundException(`Object ${key} not found`);
+    }
+
+    return new StreamableFile(await storage.getObjectStream(key), {
+      type: head.contentType ?? 'application/octet-stream',
+      length: head.contentLength,
+    });
+  }
+
+  @Put('objects')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Upload an object or a multipart part with a signed URL',
+  })
+  @ApiQuery({ name: 'token', required: true })
+  @ApiResponse({ status: 200, description: 'Stored; ETag in the header' })
+  @ApiResponse({ status: 400, description: 'Body failed the signed checks' })
+  @ApiResponse({ status: 403, description: 'Invalid or expired token' })
+  async upload(
+    @Query('token') token: string | undefined,
+    @Headers('content-type') contentType: string | undefined,
+    @Request() req: ExpressRequest,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    const storage = this.localStorage();
+    const claims = storage.verifyToken(token, ['put', 'part']);
+
+    res.setHeader(
+      'ETag',
+      await storage.receiveSignedPut(claims, req, contentType),
+    );
+  }
+
+  @Post('objects')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Upload an object with a signed form' })
+  @ApiResponse({ status: 204, description: 'Stored; ETag in the header' })
+  @ApiResponse({ status: 400, description: 'Body failed the signed checks' })
+  @ApiResponse({ status: 403, description: 'Invalid or expired token' })
+  async uploadForm(
+    @Request() req: ExpressRequest,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    res.setHeader('ETag', await this.localStorage().receiveSignedPost(req));
+  }
+
+  /**
+   * The routes only exist while the local driver is configured
+   */
+  private localStorage(): LocalStorageService {
+    if (!(this.storage instanceof LocalStorageService)) {
+      throw new NotFoundException();
+    }
+    return this.storage;
+  }
+}
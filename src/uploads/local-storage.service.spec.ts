@@ -0,0 +1,141 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { LocalStorageService } from './local-storage.service';
+
+describe('LocalStorageService', () => {
+  let root: string;
+  let storage: LocalStorageService;
+
+  const tokenOf = (url: string) => new URL(url).searchParams.get('token')!;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'local-storage-'));
+    const config: Record<string, string> = {
+      LOCAL_STORAGE_PATH: root,
+      LOCAL_STORAGE_SECRET: 'test-secret',
+    };
+    storage = new LocalStorageService({
+      get: <T>(key: string, defaultValue?: T) =>
+        (config[key] as T) ?? defaultValue,
+    } as ConfigService);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should accept its own tokens for the signed operation', async () => {
+    const token = tokenOf(
+      await storage.generatePresignedPutUrl('a/b.txt', 'text/plain'),
+    );
+
+    expect(storage.verifyToken(token, ['put'])).toMatchObject({
+      op: 'put',
+      key: 'a/b.txt',
+      contentType: 'text/plain',
+    });
+  });
+
+  it('should reject tampered tokens', async () => {
+    const [payload, signature] = tokenOf(
+      await storage.generatePresignedGetUrl('users/u1/a.jpg'),
+    ).split('.');
+    const claims = JSON.parse(
+      Buffer.from(payload, 'base64url').toString('utf8'),
+    ) as { key: string };
+    const forged = Buffer.from(
+      JSON.stringify({ ...claims, key: 'users/u2/a.jpg' }),
+    ).toString('base64url');
+
+    expect(() =>
+      storage.verifyToken(`${forged}.${signature}`, ['get']),
+    ).toThrow(ForbiddenException);
+    expect(() => storage.verifyToken(payload, ['get'])).toThrow(
+      'Missing or malformed storage token',
+    );
+    expect(() => storage.verifyToken(undefined, ['get'])).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should reject expired tokens', async () => {
+    const token = tokenOf(await storage.generatePresignedGetUrl('a.jpg', -1));
+
+    expect(() => storage.verifyToken(token, ['get'])).toThrow(
+      'Storage token has expired',
+    );
+  });
+
+  it('should reject tokens issued for another operation', async () => {
+    const token = tokenOf(await storage.generatePresignedGetUrl('a.jpg'));
+
+    expect(() => storage.verifyToken(token, ['put', 'part'])).toThrow(
+      'Storage token does not allow this operation',
+    );
+  });
+
+  it('should reject keys outside the storage directory', async () => {
+    for (const key of ['../escape.txt', 'a/../../escape.txt', 'a\0b']) {
+      await expect(
+        storage.uploadObject(key, Buffer.from('data'), 'text/plain'),
+      ).rejects.toThrow(BadRequestException);
+      await expect(storage.getObjectStream(key)).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(
+        storage.createMultipartUpload(key, 'text/plain'),
+      ).rejects.toThrow(BadRequestException);
+    }
+    await expect(fs.readdir(root)).resolves.not.toContain('escape.txt');
+  });
+
+  it('should hold signed PUTs to the signed size', async () => {
+    const claims = storage.verifyToken(
+      tokenOf(
+        await storage.generatePresignedPutUrl(
+          'sized.txt',
+          'text/plain',
+          3600,
+          undefined,
+          undefined,
+          4,
+        ),
+      ),
+      ['put'],
+    );
+
+    await expect(
+      storage.receiveSignedPut(
+        claims,
+        Readable.from([Buffer.from('toolong')]),
+        'text/plain',
+      ),
+    ).rejects.toThrow(PayloadTooLargeException);
+    await expect(
+      storage.receiveSignedPut(
+        claims,
+        Readable.from([Buffer.from('abc')]),
+        'text/plain',
+      ),
+    ).rejects.toThrow(BadRequestException);
+    expect(await storage.headObject('sized.txt')).toBeNull();
+
+    await storage.receiveSignedPut(
+      claims,
+      Readable.from([Buffer.from('four')]),
+      'text/plain',
+    );
+    expect(await storage.headObject('sized.txt')).toMatchObject({
+      contentLength: 4,
+      contentType: 'text/plain',
+    });
+  });
+});
@@ -0,0 +1,813 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  randomUUID,
+  timingSafeEqual,
+} from 'crypto';
+import { createReadStream, createWriteStream, constants, Dirent } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { IncomingHttpHeaders } from 'http';
+import * as busboy from 'busboy';
+import {
+  MAX_MULTIPART_PART_SIZE,
+  MAX_SINGLE_UPLOAD_SIZE,
+} from './uploads.constants';
+import {
+  ListedObject,
+  MultipartUploadPart,
+  ObjectHead,
+  PresignedForm,
+  StorageProvider,
+} from './storage-provider';
+
+/**
+ * What a signed URL allows. The claims are signed as a whole, so a URL for
+ * one key, operation or part cannot be reused for another.
+ */
+export interface LocalStorageClaims {
+  op: 'get' | 'put' | 'post' | 'part';
+  key: string;
+  /** Expiry as a Unix timestamp in seconds */
+  exp: number;
+  contentType?: string;
+  metadata?: Record<string, string>;
+  /** Base64 SHA-256 the body must match */
+  checksum?: string;
+  uploadId?: string;
+  partNumber?: number;
+  min?: number;
+  max?: number;
+}
+
+interface ObjectSidecar {
+  contentType: string;
+  etag: string;
+  metadata?: Record<string, string>;
+}
+
+interface PendingMultipartUpload {
+  key: string;
+  contentType: string;
+  metadata?: Record<string, string>;
+}
+
+interface WriteOptions {
+  checksum?: string;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Storage driver that keeps objects on the local filesystem, for development
+ * and deployments without an object store. Presigned URLs point at
+ * LocalStorageController and carry an HMAC-signed token instead of AWS
+ * credentials.
+ *
+ * Layout under LOCAL_STORAGE_PATH:
+ *   objects/<key>         object content
+ *   metadata/<key>.json   content type, ETag and user metadata
+ *   multipart/<uploadId>/ pending multipart upload and its parts
+ *   tmp/                  partial writes, renamed into place when complete
+ */
+@Injectable()
+export class LocalStorageService implements StorageProvider {
+  private readonly logger = new Logger(LocalStorageService.name);
+  private readonly root: string;
+  private readonly secret: string;
+  private readonly baseUrl: string;
+
+  /**
+   * @param options.root - Use this directory instead of LOCAL_STORAGE_PATH,
+   * e.g. for a secondary cold storage backend
+   */
+  constructor(
+    private configService: ConfigService,
+    options: { root?: string } = {},
+  ) {
+    this.root = path.resolve(
+      options.root ??
+        this.configService.get<string>('LOCAL_STORAGE_PATH', './storage'),
+    );
+
+    const secret = this.configService.get<string>('LOCAL_STORAGE_SECRET');
+    if (!secret && !options.root) {
+      throw new Error(
+        'Missing required local storage configuration: LOCAL_STORAGE_SECRET',
+      );
+    }
+    // A secondary backend never hands out URLs, so any key will do
+    this.secret = secret || randomBytes(32).toString('hex');
+
+    const port = this.configService.get<string>('PORT', '3000');
+    this.baseUrl = this.configService
+      .get<string>('LOCAL_STORAGE_BASE_URL', `http://localhost:${port}`)
+      .replace(/\/+$/, '');
+  }
+
+  /**
+   * The driver hashes every signed upload itself, so checksums always work
+   */
+  supportsChecksums(): boolean {
+    return true;
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      for (const dir of ['objects', 'metadata', 'multipart', 'tmp']) {
+        await fs.mkdir(path.join(this.root, dir), { recursive: true });
+      }
+      await fs.access(this.root, constants.R_OK | constants.W_OK);
+      return true;
+    } catch (error) {
+      this.logger.error(`Local storage at ${this.root} is not usable:`, error);
+      return false;
+    }
+  }
+
+  async generatePresignedPutUrl(
+    key: string,
+    contentType: string,
+    expiresIn: number = 3600,
+    metadata?: Record<string, string>,
+    checksumSha256?: string,
+    contentLength?: number,
+  ): Promise<string> {
+    return Promise.resolve(
+      this.signedUrl({
+        op: 'put',
+        key,
+        exp: this.expiry(expiresIn),
+        contentType,
+        metadata,
+        checksum: checksumSha256,
+        min: contentLength,
+        max: contentLength,
+      }),
+    );
+  }
+
+  /**
+   * The form only needs to send the token; everything it would otherwise
+   * have to match is part of the signed claims
+   */
+  async generatePresignedPost(
+    key: string,
+    contentType: string,
+    sizeRange: { min: number; max: number },
+    expiresIn: number = 3600,
+    metadata?: Record<string, string>,
+    checksumSha256?: string,
+  ): Promise<PresignedForm> {
+    const token = this.signToken({
+      op: 'post',
+      key,
+      exp: this.expiry(expiresIn),
+      contentType,
+      metadata,
+      checksum: checksumSha256,
+      min: sizeRange.min,
+      max: sizeRange.max,
+    });
+
+    return Promise.resolve({
+      url: `${this.baseUrl}/storage/local/objects`,
+      fields: { key, 'Content-Type': contentType, token },
+    });
+  }
+
+  async generatePresignedGetUrl(
+    key: string,
+    expiresIn: number = 3600,
+  ): Promise<string> {
+    return Promise.resolve(
+      this.signedUrl({ op: 'get', key, exp: this.expiry(expiresIn) }),
+    );
+  }
+
+  async headObject(key: string): Promise<ObjectHead | null> {
+    try {
+      const stats = await fs.stat(this.objectPath(key));
+      const sidecar = await this.readSidecar(key);
+
+      return {
+        contentLength: stats.size,
+        contentType: sidecar?.contentType,
+        etag: sidecar?.etag,
+        lastModified: stats.mtime,
+        metadata: sidecar?.metadata,
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      this.logger.error(`Failed to head object ${key}:`, error);
+      throw error;
+    }
+  }
+
+  async getObjectStream(
+    key: string,
+    range?: { start: number; end: number },
+  ): Promise<Readable> {
+    const filePath = this.objectPath(key);
+
+    try {
+      await fs.access(filePath, constants.R_OK);
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new NotFoundException(`Object ${key} not found`);
+      }
+      throw error;
+    }
+
+    return createReadStream(filePath, range);
+  }
+
+  async getObjectRange(
+    key: string,
+    start: number,
+    end: number,
+  ): Promise<Buffer> {
+    return this.readStream(await this.getObjectStream(key, { start, end }));
+  }
+
+  async downloadObjectAsBuffer(key: string): Promise<Buffer> {
+    return this.readStream(await this.getObjectStream(key));
+  }
+
+  async uploadObject(
+    key: string,
+    buffer: Buffer,
+    contentType: string,
+  ): Promise<void> {
+    await this.writeObject(key, Readable.from([buffer]), contentType);
+  }
+
+  async uploadStream(
+    key: string,
+    body: Readable,
+    contentType: string,
+    metadata?: Record<string, string>,
+  ): Promise<void> {
+    await this.writeObject(key, body, contentType, metadata);
+  }
+
+  /**
+   * Deleting a missing object succeeds, as it does on S3
+   */
+  async deleteObject(key: string): Promise<void> {
+    await fs.rm(this.objectPath(key), { force: true });
+    await fs.rm(this.sidecarPath(key), { force: true });
+    this.logger.log(`Object ${key} deleted successfully`);
+  }
+
+  async *listObjects(prefix: string): AsyncIterable<ListedObject> {
+    // Only walk the directory the prefix points into
+    const dirKey = prefix.substring(0, prefix.lastIndexOf('/') + 1);
+    const objectsRoot = path.join(this.root, 'objects');
+    const start = dirKey ? this.objectPath(dirKey) : objectsRoot;
+
+    for await (const filePath of this.walk(start)) {
+      const key = path
+        .relative(objectsRoot, filePath)
+        .split(path.sep)
+        .join('/');
+      if (!key.startsWith(prefix)) {
+        continue;
+      }
+
+      const stats = await fs.stat(filePath);
+      yield { key, size: stats.size, lastModified: stats.mtime };
+    }
+  }
+
+  async createMultipartUpload(
+    key: string,
+    contentType: string,
+    metadata?: Record<string, string>,
+  ): Promise<string> {
+    // Validates the key before anything is written
+    this.objectPath(key);
+
+    const uploadId = randomUUID();
+    const pending: PendingMultipartUpload = { key, contentType, metadata };
+
+    await fs.mkdir(this.multipartPath(uploadId), { recursive: true });
+    await fs.writeFile(
+      path.join(this.multipartPath(uploadId), 'upload.json'),
+      JSON.stringify(pending),
+    );
+
+    this.logger.log(`Multipart upload ${uploadId} created for object ${key}`);
+    return uploadId;
+  }
+
+  async generatePresignedUploadPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresIn: number = 3600,
+  ): Promise<string> {
+    return Promise.resolve(
+      this.signedUrl({
+        op: 'part',
+        key,
+        exp: this.expiry(expiresIn),
+        uploadId,
+        partNumber,
+      }),
+    );
+  }
+
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer,
+  ): Promise<string> {
+    return this.writePart(key, uploadId, partNumber, Readable.from([body]));
+  }
+
+  async listParts(
+    key: string,
+    uploadId: string,
+  ): Promise<MultipartUploadPart[]> {
+    await this.readPendingUpload(key, uploadId);
+
+    const dir = this.multipartPath(uploadId);
+    const parts: MultipartUploadPart[] = [];
+
+    for (const name of await fs.readdir(dir)) {
+      const match = /^(\d+)\.part$/.exec(name);
+      if (!match) {
+        continue;
+      }
+
+      const partNumber = Number(match[1]);
+      const stats = await fs.stat(path.join(dir, name));
+      const etag = await fs.readFile(path.join(dir, `${partNumber}.etag`), {
+        encoding: 'utf8',
+      });
+
+      parts.push({
+        partNumber,
+        etag,
+        size: stats.size,
+        lastModified: stats.mtime,
+      });
+    }
+
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: MultipartUploadPart[],
+  ): Promise<void> {
+    const pending = await this.readPendingUpload(key, uploadId);
+    const uploaded = new Map(
+      (await this.listParts(key, uploadId)).map((part) => [
+        part.partNumber,
+        part.etag,
+      ]),
+    );
+
+    let previous = 0;
+    for (const part of parts) {
+      if (part.partNumber <= previous) {
+        throw new BadRequestException(
+          'Parts must be listed in ascending part number order',
+        );
+      }
+      if (uploaded.get(part.partNumber) !== part.etag) {
+        throw new BadRequestException(
+          `Part ${part.partNumber} was not uploaded or its ETag does not match`,
+        );
+      }
+      previous = part.partNumber;
+    }
+
+    const dir = this.multipartPath(uploadId);
+    const files = parts.map((part) =>
+      path.join(dir, `${part.partNumber}.part`),
+    );
+
+    // Same ETag format as S3 multipart objects: MD5 of the part MD5s
+    const etagHash = createHash('md5');
+    for (const part of parts) {
+      etagHash.update(Buffer.from(part.etag.replace(/"/g, ''), 'hex'));
+    }
+
+    await this.writeObject(
+      key,
+      Readable.from(concatFiles(files)),
+      pending.contentType,
+      pending.metadata,
+      {},
+      `"${etagHash.digest('hex')}-${parts.length}"`,
+    );
+    await fs.rm(dir, { recursive: true, force: true });
+
+    this.logger.log(`Multipart upload ${uploadId} completed for ${key}`);
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await fs.rm(this.multipartPath(uploadId), { recursive: true, force: true });
+    this.logger.log(`Multipart upload ${uploadId} aborted for ${key}`);
+  }
+
+  /**
+   * Check a token from a signed URL
+   * @throws ForbiddenException if the signature is wrong, the token has
+   * expired or it was issued for a different operation
+   */
+  verifyToken(
+    token: string | undefined,
+    op: LocalStorageClaims['op'][],
+  ): LocalStorageClaims {
+    const [payload, signature] = (token ?? '').split('.');
+    if (!payload || !signature) {
+      throw new ForbiddenException('Missing or malformed storage token');
+    }
+
+    const expected = this.sign(payload);
+    const actual = Buffer.from(signature, 'base64url');
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      throw new ForbiddenException('Invalid storage token signature');
+    }
+
+    const claims = JSON.parse(
+      Buffer.from(payload, 'base64url').toString('utf8'),
+    ) as LocalStorageClaims;
+
+    if (claims.exp < Math.floor(Date.now() / 1000)) {
+      throw new ForbiddenException('Storage token has expired');
+    }
+    if (!op.includes(claims.op)) {
+      throw new ForbiddenException(
+        `Storage token does not allow this operation`,
+      );
+    }
+
+    return claims;
+  }
+
+  /**
+   * Store the body of a signed PUT, either a whole object or one part of a
+   * multipart upload
+   * @returns ETag of the stored object or part
+   */
+  async receiveSignedPut(
+    claims: LocalStorageClaims,
+    body: Readable,
+    contentType: string | undefined,
+  ): Promise<string> {
+    if (claims.op === 'part') {
+      return this.writePart(
+        claims.key,
+        claims.uploadId!,
+        claims.partNumber!,
+        body,
+      );
+    }
+
+    // The content type is signed, as it is for presigned S3 PUTs
+    if (contentType !== claims.contentType) {
+      body.resume();
+      throw new ForbiddenException(
+        `Content-Type must be ${claims.contentType}`,
+      );
+    }
+
+    // Stop reading as soon as the body outgrows the signed size
+    return this.writeObject(
+      claims.key,
+      body,
+      claims.contentType!,
+      claims.metadata,
+      {
+        checksum: claims.checksum,
+        min: claims.min,
+        max: claims.max ?? MAX_SINGLE_UPLOAD_SIZE,
+      },
+    );
+  }
+
+  /**
+   * Store the file of a browser form upload. Like an S3 POST policy, the
+   * token field has to come before the file field.
+   * @returns ETag of the stored object
+   */
+  receiveSignedPost(
+    req: Readable & { headers: IncomingHttpHeaders },
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let parser: busboy.Busboy;
+      try {
+        parser = busboy({ headers: req.headers, limits: { files: 1 } });
+      } catch {
+        reject(new BadRequestException('Expected a multipart/form-data body'));
+        return;
+      }
+
+      let token: string | undefined;
+      let stored: Promise<string> | null = null;
+
+      parser.on('field', (name, value) => {
+        if (name === 'token') {
+          token = value;
+        }
+      });
+
+      parser.on('file', (fieldName, file) => {
+        if (fieldName !== 'file' || stored) {
+          file.resume();
+          return;
+        }
+
+        try {
+          const claims = this.verifyToken(token, ['post']);
+          stored = this.writeObject(
+            claims.key,
+            file,
+            claims.contentType!,
+            claims.metadata,
+            { checksum: claims.checksum, min: claims.min, max: claims.max },
+          );
+        } catch (error) {
+          file.resume();
+          stored = Promise.reject(error as Error);
+        }
+        // Settled through the close handler
+        stored.catch(() => undefined);
+      });
+
+      parser.on('error', (error) => {
+        req.unpipe(parser);
+        reject(
+          new BadRequestException(
+            `Invalid multipart body: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          ),
+        );
+      });
+
+      parser.on('close', () => {
+        if (!stored) {
+          reject(new BadRequestException('Missing "file" field'));
+          return;
+        }
+        stored.then(resolve, reject);
+      });
+
+      req.pipe(parser);
+    });
+  }
+
+  private async writePart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Readable,
+  ): Promise<string> {
+    await this.readPendingUpload(key, uploadId);
+
+    const dir = this.multipartPath(uploadId);
+    const { etag } = await this.writeFile(
+      path.join(dir, `${partNumber}.part`),
+      body,
+      { max: MAX_MULTIPART_PART_SIZE },
+    );
+    await fs.writeFile(path.join(dir, `${partNumber}.etag`), etag);
+
+    return etag;
+  }
+
+  /**
+   * Write an object and its sidecar. The content is only visible once it
+   * has been written completely and passed the checks in options.
+   */
+  private async writeObject(
+    key: string,
+    body: Readable,
+    contentType: string,
+    metadata?: Record<string, string>,
+    options: WriteOptions = {},
+    etag?: string,
+  ): Promise<string> {
+    const target = this.objectPath(key);
+    const written = await this.writeFile(target, body, options);
+
+    const sidecar: ObjectSidecar = {
+      contentType,
+      etag: etag ?? written.etag,
+      metadata,
+    };
+    await fs.mkdir(path.dirname(this.sidecarPath(key)), { recursive: true });
+    await fs.writeFile(this.sidecarPath(key), JSON.stringify(sidecar));
+
+    this.logger.log(`Object ${key} stored (${written.size} bytes)`);
+    return sidecar.etag;
+  }
+
+  private async writeFile(
+    target: string,
+    body: Readable,
+    options: WriteOptions,
+  ): Promise<{ size: number; etag: string }> {
+    const tmpDir = path.join(this.root, 'tmp');
+    const tmpFile = path.join(tmpDir, randomUUID());
+    await fs.mkdir(tmpDir, { recursive: true });
+
+    const md5 = createHash('md5');
+    const sha256 = createHash('sha256');
+    let size = 0;
+    const max = options.max;
+
+    const hasher = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length;
+        if (max !== undefined && size > max) {
+          callback(
+            new PayloadTooLargeException(
+              `Body exceeds the maximum size of ${max} bytes`,
+            ),
+          );
+          return;
+        }
+        md5.update(chunk);
+        sha256.update(chunk);
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(body, hasher, createWriteStream(tmpFile));
+
+      if (options.min !== undefined && size < options.min) {
+        throw new BadRequestException(
+          `Body is smaller than the minimum size of ${options.min} bytes`,
+        );
+      }
+      if (options.checksum && sha256.digest('base64') !== options.checksum) {
+        throw new BadRequestException(
+          'Body does not match the signed SHA-256 checksum',
+        );
+      }
+
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.rename(tmpFile, target);
+    } catch (error) {
+      await fs.rm(tmpFile, { force: true });
+      throw error;
+    }
+
+    return { size, etag: `"${md5.digest('hex')}"` };
+  }
+
+  private async readPendingUpload(
+    key: string,
+    uploadId: string,
+  ): Promise<PendingMultipartUpload> {
+    try {
+      const pending = JSON.parse(
+        await fs.readFile(
+          path.join(this.multipartPath(uploadId), 'upload.json'),
+          { encoding: 'utf8' },
+        ),
+      ) as PendingMultipartUpload;
+
+      if (pending.key === key) {
+        return pending;
+      }
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+
+    throw new NotFoundException(
+      `Multipart upload ${uploadId} does not exist for ${key}`,
+    );
+  }
+
+  private async readSidecar(key: string): Promise<ObjectSidecar | null> {
+    try {
+      return JSON.parse(
+        await fs.readFile(this.sidecarPath(key), { encoding: 'utf8' }),
+      ) as ObjectSidecar;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Yield the files under dir in key order. Directories sort as if their
+   * name ended in "/", which matches the lexicographic order of the keys.
+   */
+  private async *walk(dir: string): AsyncGenerator<string> {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if (isNotFound(error)) {
+        return;
+      }
+      throw error;
+    }
+
+    const sortName = (entry: Dirent) =>
+      entry.isDirectory() ? `${entry.name}/` : entry.name;
+    entries.sort((a, b) => (sortName(a) < sortName(b) ? -1 : 1));
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        yield* this.walk(entryPath);
+      } else if (entry.isFile()) {
+        yield entryPath;
+      }
+    }
+  }
+
+  private async readStream(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private objectPath(key: string): string {
+    return this.resolveWithin(path.join(this.root, 'objects'), key);
+  }
+
+  private sidecarPath(key: string): string {
+    return this.resolveWithin(path.join(this.root, 'metadata'), `${key}.json`);
+  }
+
+  private multipartPath(uploadId: string): string {
+    return this.resolveWithin(path.join(this.root, 'multipart'), uploadId);
+  }
+
+  /**
+   * Resolve a key below base, rejecting keys that would escape it
+   */
+  private resolveWithin(base: string, key: string): string {
+    const resolved = path.resolve(base, key);
+    if (key.includes('\0') || !resolved.startsWith(base + path.sep)) {
+      throw new BadRequestException(`Invalid object key ${key}`);
+    }
+    return resolved;
+  }
+
+  private signedUrl(claims: LocalStorageClaims): string {
+    return `${this.baseUrl}/storage/local/objects?token=${this.signToken(claims)}`;
+  }
+
+  private signToken(claims: LocalStorageClaims): string {
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${payload}.${this.sign(payload).toString('base64url')}`;
+  }
+
+  private sign(payload: string): Buffer {
+    return createHmac('sha256', this.secret).update(payload).digest();
+  }
+
+  private expiry(expiresIn: number): number {
+    return Math.floor(Date.now() / 1000) + expiresIn;
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+async function* concatFiles(files: string[]): AsyncGenerator<Buffer> {
+  for (const file of files) {
+    for await (const chunk of createReadStream(file)) {
+      yield chunk as Buffer;
+    }
+  }
+}
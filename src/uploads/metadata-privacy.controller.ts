@@ -0,0 +1,77 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { Request as TypedRequest } from 'src/types';
+import { MetadataPrivacyService } from './metadata-privacy.service';
+import { MetadataPrivacyResponseDto } from './dto/metadata-privacy-response.dto';
+import { UpdateMetadataPrivacyDto } from './dto/update-metadata-privacy.dto';
+
+@ApiTags('Metadata Privacy')
+@Controller('me/metadata-privacy')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class MetadataPrivacyController {
+  constructor(
+    private readonly metadataPrivacyService: MetadataPrivacyService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get the photo metadata kept in my renditions',
+    description:
+      'Location and device serial numbers are stripped by default. Originals always keep all of their metadata',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Metadata privacy settings retrieved successfully',
+    type: MetadataPrivacyResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - valid JWT token required',
+  })
+  async getSettings(
+    @Request() req: TypedRequest,
+  ): Promise<MetadataPrivacyResponseDto> {
+    return this.metadataPrivacyService.getSettings(req.user.id);
+  }
+
+  @Put()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Set the photo metadata kept in my renditions',
+    description:
+      'Applies to renditions generated from then on; existing renditions are unchanged until the asset is processed again',
+  })
+  @ApiBody({ type: UpdateMetadataPrivacyDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Metadata privacy settings updated successfully',
+    type: MetadataPrivacyResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Unknown metadata category' })
+  async updateSettings(
+    @Body() updateDto: UpdateMetadataPrivacyDto,
+    @Request() req: TypedRequest,
+  ): Promise<MetadataPrivacyResponseDto> {
+    return this.metadataPrivacyService.updateSettings(
+      req.user.id,
+      updateDto.keptMetadata,
+    );
+  }
+}
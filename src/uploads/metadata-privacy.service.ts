@@ -0,0 +1,55 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { MetadataCategory } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { MetadataPrivacyResponseDto } from './dto/metadata-privacy-response.dto';
+
+/**
+ * Which photo metadata each user keeps in renditions. Originals are stored
+ * untouched; the setting applies to renditions generated after a change.
+ */
+@Injectable()
+export class MetadataPrivacyService {
+  private readonly logger = new Logger(MetadataPrivacyService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getSettings(userId: string): Promise<MetadataPrivacyResponseDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { keptMetadata: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return this.toResponse(user.keptMetadata);
+  }
+
+  async updateSettings(
+    userId: string,
+    keptMetadata: MetadataCategory[],
+  ): Promise<MetadataPrivacyResponseDto> {
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { keptMetadata: [...new Set(keptMetadata)] },
+      select: { keptMetadata: true },
+    });
+
+    this.logger.log(
+      `Renditions of ${userId} now keep ${user.keptMetadata.join(', ') || 'no metadata'}`,
+    );
+    return this.toResponse(user.keptMetadata);
+  }
+
+  private toResponse(
+    keptMetadata: MetadataCategory[],
+  ): MetadataPrivacyResponseDto {
+    return {
+      keptMetadata,
+      strippedMetadata: Object.values(MetadataCategory).filter(
+        (category) => !keptMetadata.includes(category),
+      ),
+    };
+  }
+}
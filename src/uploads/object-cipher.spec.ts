@@ -0,0 +1,107 @@
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import {
+  CHUNK_SIZE,
+  HEADER_SIZE,
+  createDecryptStream,
+  createEncryptStream,
+  encryptedSize,
+  generateDataKey,
+  parseHeader,
+  planDecryption,
+} from './object-cipher';
+
+describe('object cipher', () => {
+  const collect = async (stream: Readable): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  const encrypt = (dataKey: Buffer, plaintext: Buffer) =>
+    collect(Readable.from([plaintext]).pipe(createEncryptStream(dataKey)));
+
+  const decrypt = (
+    dataKey: Buffer,
+    stored: Buffer,
+    plainSize: number,
+    range?: { start: number; end: number },
+  ) => {
+    const plan = planDecryption(plainSize, range);
+    const prefix =
+      plan.firstChunk === 0
+        ? undefined
+        : parseHeader(stored.subarray(0, HEADER_SIZE));
+    const input = prefix
+      ? stored.subarray(plan.start, plan.end + 1)
+      : stored.subarray(0, plan.end + 1);
+    return collect(
+      Readable.from([input]).pipe(createDecryptStream(dataKey, plan, prefix)),
+    );
+  };
+
+  it.each([0, 1, CHUNK_SIZE - 1, CHUNK_SIZE, CHUNK_SIZE * 2 + 5])(
+    'should round-trip %i bytes',
+    async (size) => {
+      const dataKey = generateDataKey();
+      const plaintext = randomBytes(size);
+
+      const stored = await encrypt(dataKey, plaintext);
+
+      expect(stored.length).toBe(encryptedSize(size));
+      expect(await decrypt(dataKey, stored, size)).toEqual(plaintext);
+    },
+  );
+
+  it('should decrypt byte ranges across chunk boundaries', async () => {
+    const dataKey = generateDataKey();
+    const plaintext = randomBytes(CHUNK_SIZE * 3 + 100);
+    const stored = await encrypt(dataKey, plaintext);
+
+    for (const [start, end] of [
+      [0, 9],
+      [CHUNK_SIZE - 5, CHUNK_SIZE + 5],
+      [CHUNK_SIZE * 2, CHUNK_SIZE * 3 - 1],
+      [CHUNK_SIZE * 3 + 50, CHUNK_SIZE * 3 + 99],
+    ]) {
+      expect(
+        await decrypt(dataKey, stored, plaintext.length, { start, end }),
+      ).toEqual(plaintext.subarray(start, end + 1));
+    }
+  });
+
+  it('should reject tampered objects and the wrong key', async () => {
+    const dataKey = generateDataKey();
+    const plaintext = randomBytes(CHUNK_SIZE + 10);
+    const stored = await encrypt(dataKey, plaintext);
+
+    const tampered = Buffer.from(stored);
+    tampered[HEADER_SIZE + 3] ^= 1;
+
+    await expect(decrypt(dataKey, tampered, plaintext.length)).rejects.toThrow(
+      'failed authentication',
+    );
+    await expect(
+      decrypt(generateDataKey(), stored, plaintext.length),
+    ).rejects.toThrow('failed authentication');
+  });
+
+  it('should detect a truncated object', async () => {
+    const dataKey = generateDataKey();
+    const plaintext = randomBytes(CHUNK_SIZE * 2 + 10);
+    const stored = await encrypt(dataKey, plaintext);
+
+    // Dropping the last chunk leaves a valid-looking but non-final chunk
+    const truncated = stored.subarray(0, HEADER_SIZE + (CHUNK_SIZE + 16) * 2);
+
+    await expect(
+      collect(
+        Readable.from([truncated]).pipe(
+          createDecryptStream(dataKey, planDecryption(plaintext.length)),
+        ),
+      ),
+    ).rejects.toThrow();
+  });
+});
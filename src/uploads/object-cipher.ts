@@ -0,0 +1,292 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+
+/**
+ * Format of encrypted originals. The plaintext is split into chunks that are
+ * sealed separately with AES-256-GCM, so a byte range can be decrypted
+ * without reading the whole object:
+ *
+ *   header: magic (4 bytes) | nonce prefix (7 bytes)
+ *   chunks: ciphertext (up to CHUNK_SIZE bytes) | tag (16 bytes)
+ *
+ * Each chunk's nonce is the prefix, its index and a flag set only on the
+ * last chunk, so chunks cannot be reordered and truncation is detected.
+ */
+const MAGIC = Buffer.from('MIE1');
+const NONCE_PREFIX_SIZE = 7;
+const TAG_SIZE = 16;
+
+export const DATA_KEY_SIZE = 32;
+export const CHUNK_SIZE = 64 * 1024;
+export const HEADER_SIZE = MAGIC.length + NONCE_PREFIX_SIZE;
+
+const SEALED_CHUNK_SIZE = CHUNK_SIZE + TAG_SIZE;
+
+/**
+ * Which stored bytes to fetch to decrypt a plaintext range, and how to cut
+ * the decrypted chunks down to it
+ */
+export interface DecryptionPlan {
+  // Stored byte range, inclusive, starting at a chunk boundary
+  start: number;
+  end: number;
+  firstChunk: number;
+  lastChunk: number;
+  // Index of the object's last chunk, sealed with the final flag
+  finalChunk: number;
+  // Plaintext bytes to drop from the first chunk, and to return
+  skip: number;
+  length: number;
+}
+
+export function generateDataKey(): Buffer {
+  return randomBytes(DATA_KEY_SIZE);
+}
+
+function chunkCount(plainSize: number): number {
+  return Math.max(1, Math.ceil(plainSize / CHUNK_SIZE));
+}
+
+/**
+ * Stored size of an object encrypted from plainSize bytes
+ */
+export function encryptedSize(plainSize: number): number {
+  return HEADER_SIZE + plainSize + chunkCount(plainSize) * TAG_SIZE;
+}
+
+/**
+ * @param plainSize - Size of the object before encryption
+ * @param range - Inclusive plaintext range; the whole object when omitted
+ */
+export function planDecryption(
+  plainSize: number,
+  range?: { start: number; end: number },
+): DecryptionPlan {
+  const finalChunk = chunkCount(plainSize) - 1;
+  const start = range?.start ?? 0;
+  const end = Math.min(range?.end ?? plainSize - 1, plainSize - 1);
+
+  if (plainSize === 0 || end < start) {
+    return {
+      start: HEADER_SIZE + finalChunk * SEALED_CHUNK_SIZE,
+      end: encryptedSize(plainSize) - 1,
+      firstChunk: finalChunk,
+      lastChunk: finalChunk,
+      finalChunk,
+      skip: 0,
+      length: 0,
+    };
+  }
+
+  const firstChunk = Math.floor(start / CHUNK_SIZE);
+  const lastChunk = Math.floor(end / CHUNK_SIZE);
+
+  return {
+    start: HEADER_SIZE + firstChunk * SEALED_CHUNK_SIZE,
+    end:
+      Math.min(
+        HEADER_SIZE + (lastChunk + 1) * SEALED_CHUNK_SIZE,
+        encryptedSize(plainSize),
+      ) - 1,
+    firstChunk,
+    lastChunk,
+    finalChunk,
+    skip: start - firstChunk * CHUNK_SIZE,
+    length: end - start + 1,
+  };
+}
+
+/**
+ * Read the nonce prefix from the header of an encrypted object
+ */
+export function parseHeader(header: Buffer): Buffer {
+  if (
+    header.length < HEADER_SIZE ||
+    !header.subarray(0, MAGIC.length).equals(MAGIC)
+  ) {
+    throw new Error('Object is not in the encrypted format');
+  }
+  return header.subarray(MAGIC.length, HEADER_SIZE);
+}
+
+function chunkNonce(prefix: Buffer, index: number, final: boolean): Buffer {
+  const nonce = Buffer.alloc(12);
+  prefix.copy(nonce, 0);
+  nonce.writeUInt32BE(index, NONCE_PREFIX_SIZE);
+  nonce[11] = final ? 1 : 0;
+  return nonce;
+}
+
+function sealChunk(
+  dataKey: Buffer,
+  prefix: Buffer,
+  index: number,
+  plaintext: Buffer,
+  final: boolean,
+): Buffer {
+  const cipher = createCipheriv(
+    'aes-256-gcm',
+    dataKey,
+    chunkNonce(prefix, index, final),
+  );
+  return Buffer.concat([
+    cipher.update(plaintext),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+}
+
+function openChunk(
+  dataKey: Buffer,
+  prefix: Buffer,
+  index: number,
+  sealed: Buffer,
+  final: boolean,
+): Buffer {
+  if (sealed.length < TAG_SIZE) {
+    throw new Error(`Encrypted chunk ${index} is truncated`);
+  }
+
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    dataKey,
+    chunkNonce(prefix, index, final),
+  );
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_SIZE));
+
+  try {
+    return Buffer.concat([
+      decipher.update(sealed.subarray(0, sealed.length - TAG_SIZE)),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new Error(`Encrypted chunk ${index} failed authentication`);
+  }
+}
+
+/**
+ * Encrypt a plaintext stream into the format above
+ */
+export function createEncryptStream(dataKey: Buffer): Transform {
+  const prefix = randomBytes(NONCE_PREFIX_SIZE);
+  let pending = Buffer.alloc(0);
+  let index = 0;
+
+  return new Transform({
+    construct(callback: (error?: Error | null) => void) {
+      this.push(Buffer.concat([MAGIC, prefix]));
+      callback();
+    },
+
+    transform(chunk: Buffer, _encoding, callback: TransformCallback) {
+      pending = Buffer.concat([pending, chunk]);
+
+      // Hold back a full chunk: only the end of the input shows which chunk
+      // gets the final flag
+      while (pending.length > CHUNK_SIZE) {
+        this.push(
+          sealChunk(
+            dataKey,
+            prefix,
+            index++,
+            pending.subarray(0, CHUNK_SIZE),
+            false,
+          ),
+        );
+        pending = pending.subarray(CHUNK_SIZE);
+      }
+      callback();
+    },
+
+    flush(callback: TransformCallback) {
+      this.push(sealChunk(dataKey, prefix, index, pending, true));
+      callback();
+    },
+  });
+}
+
+/**
+ * Decrypt the stored bytes selected by a plan, emitting only the plaintext
+ * range it was made for
+ * @param prefix - Nonce prefix from the header; when omitted the input
+ *   starts with the header
+ */
+export function createDecryptStream(
+  dataKey: Buffer,
+  plan: DecryptionPlan,
+  prefix?: Buffer,
+): Transform {
+  let noncePrefix = prefix;
+  let pending = Buffer.alloc(0);
+  let index = plan.firstChunk;
+  let skip = plan.skip;
+  let remaining = plan.length;
+
+  const emit = (stream: Transform, plaintext: Buffer) => {
+    const part = plaintext.subarray(skip, skip + remaining);
+    skip = Math.max(0, skip - plaintext.length);
+    remaining -= part.length;
+    if (part.length > 0) {
+      stream.push(part);
+    }
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback: TransformCallback) {
+      pending = Buffer.concat([pending, chunk]);
+
+      try {
+        if (!noncePrefix) {
+          if (pending.length < HEADER_SIZE) {
+            return callback();
+          }
+          noncePrefix = Buffer.from(parseHeader(pending));
+          pending = pending.subarray(HEADER_SIZE);
+        }
+
+        // The final chunk may be full too, so it is only opened in flush
+        while (
+          pending.length > SEALED_CHUNK_SIZE ||
+          (pending.length === SEALED_CHUNK_SIZE && index < plan.lastChunk)
+        ) {
+          emit(
+            this,
+            openChunk(
+              dataKey,
+              noncePrefix,
+              index,
+              pending.subarray(0, SEALED_CHUNK_SIZE),
+              index === plan.finalChunk,
+            ),
+          );
+          pending = pending.subarray(SEALED_CHUNK_SIZE);
+          index++;
+        }
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+
+    flush(callback: TransformCallback) {
+      try {
+        if (!noncePrefix || index !== plan.lastChunk) {
+          throw new Error('Encrypted object is truncated');
+        }
+        emit(
+          this,
+          openChunk(
+            dataKey,
+            noncePrefix,
+            index,
+            pending,
+            index === plan.finalChunk,
+          ),
+        );
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+}
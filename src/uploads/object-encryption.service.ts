@@ -0,0 +1,302 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { Asset } from '@prisma/client';
+import { Readable } from 'stream';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { STORAGE_PROVIDER, StorageProvider } from './storage-provider';
+import { pipeThrough } from './pipe-through';
+import {
+  EncryptionKeysService,
+  WrappedDataKey,
+} from './encryption-keys.service';
+import {
+  HEADER_SIZE,
+  CHUNK_SIZE,
+  createDecryptStream,
+  createEncryptStream,
+  encryptedSize,
+  generateDataKey,
+  parseHeader,
+  planDecryption,
+} from './object-cipher';
+
+/**
+ * The asset fields needed to read its original
+ */
+export type StoredOriginal = Pick<
+  Asset,
+  'objectKey' | 'size' | 'dataKey' | 'dataKeyId' | 'encryptedAt'
+>;
+
+export const STORED_ORIGINAL_SELECT = {
+  objectKey: true,
+  size: true,
+  dataKey: true,
+  dataKeyId: true,
+  encryptedAt: true,
+} as const;
+
+/**
+ * Envelope encryption of originals. Each object is encrypted with a random
+ * data key; every asset pointing at the object keeps that data key wrapped
+ * by its owner's key encryption key. Thumbnails are not encrypted.
+ *
+ * Originals are uploaded in plaintext, often straight to storage, and
+ * encrypted in place by the media processor. Reads go through this service,
+ * which decrypts encrypted originals and passes others through unchanged.
+ */
+@Injectable()
+export class ObjectEncryptionService {
+  private readonly logger = new Logger(ObjectEncryptionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(STORAGE_PROVIDER) private readonly storage: StorageProvider,
+    private readonly encryptionKeysService: EncryptionKeysService,
+  ) {}
+
+  /**
+   * Encrypt an uploaded original in place. Does nothing when encryption is
+   * not configured or the object is already encrypted, and can be retried
+   * after failing at any point.
+   */
+  async encryptObject(objectKey: string): Promise<void> {
+    if (!this.encryptionKeysService.isEnabled()) {
+      return;
+    }
+
+    const assets = await this.prisma.asset.findMany({
+      where: { objectKey },
+      select: { id: true, ownerId: true, ...STORED_ORIGINAL_SELECT },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (assets.length === 0) {
+      return;
+    }
+
+    const size = Number(assets[0].size);
+    const encrypted = assets.find((asset) => asset.encryptedAt);
+    if (encrypted) {
+      await this.markEncrypted(objectKey, await this.unwrap(encrypted));
+      return;
+    }
+
+    // The data key is stored before the object is replaced, so it is never
+    // lost when a later step fails
+    let dataKey: Buffer;
+    const pending = assets.find((asset) => asset.dataKey);
+    if (pending) {
+      dataKey = await this.unwrap(pending);
+      if (await this.isEncryptedWith(objectKey, size, dataKey)) {
+        await this.markEncrypted(objectKey, dataKey);
+        return;
+      }
+    } else {
+      dataKey = generateDataKey();
+      await this.storeDataKey(objectKey, dataKey, null);
+    }
+
+    const head = await this.storage.headObject(objectKey);
+    if (!head) {
+      throw new Error(`Object ${objectKey} not found in storage`);
+    }
+
+    const body = await this.storage.getObjectStream(objectKey);
+    const encryptStream = createEncryptStream(dataKey);
+    await this.storage.uploadStream(
+      objectKey,
+      pipeThrough(body, encryptStream),
+      head.contentType ?? 'application/octet-stream',
+      head.metadata,
+    );
+
+    const stored = await this.storage.headObject(objectKey);
+    if (stored?.contentLength !== encryptedSize(size)) {
+      throw new Error(
+        `Encrypted copy of ${objectKey} has ${stored?.contentLength ?? 0} bytes, expected ${encryptedSize(size)}`,
+      );
+    }
+
+    await this.markEncrypted(objectKey, dataKey);
+    this.logger.log(`Object ${objectKey} encrypted`);
+  }
+
+  /**
+   * Wrap the data key of an encrypted original for another user, to store
+   * on an asset that shares the object. Returns nothing for plaintext
+   * originals.
+   */
+  async shareDataKey(
+    original: StoredOriginal,
+    userId: string,
+  ): Promise<(WrappedDataKey & { encryptedAt: Date }) | Record<string, never>> {
+    if (!original.encryptedAt) {
+      return {};
+    }
+
+    return {
+      ...(await this.encryptionKeysService.wrapDataKey(
+        userId,
+        await this.unwrap(original),
+      )),
+      encryptedAt: original.encryptedAt,
+    };
+  }
+
+  /**
+   * Stream an original, decrypted when it is encrypted
+   * @param range - Inclusive plaintext byte range
+   */
+  async getObjectStream(
+    original: StoredOriginal,
+    range?: { start: number; end: number },
+  ): Promise<Readable> {
+    if (!original.encryptedAt) {
+      return this.storage.getObjectStream(original.objectKey, range);
+    }
+
+    const dataKey = await this.unwrap(original);
+    const plan = planDecryption(Number(original.size), range);
+
+    // Reads from the first chunk include the header; others fetch it apart
+    let prefix: Buffer | undefined;
+    let body: Readable;
+    if (plan.firstChunk === 0) {
+      body = await this.storage.getObjectStream(
+        original.objectKey,
+        range ? { start: 0, end: plan.end } : undefined,
+      );
+    } else {
+      prefix = parseHeader(
+        await this.storage.getObjectRange(
+          original.objectKey,
+          0,
+          HEADER_SIZE - 1,
+        ),
+      );
+      body = await this.storage.getObjectStream(original.objectKey, {
+        start: plan.start,
+        end: plan.end,
+      });
+    }
+
+    return pipeThrough(body, createDecryptStream(dataKey, plan, prefix));
+  }
+
+  /**
+   * @param start - First byte (inclusive)
+   * @param end - Last byte (inclusive)
+   */
+  async getObjectRange(
+    original: StoredOriginal,
+    start: number,
+    end: number,
+  ): Promise<Buffer> {
+    return this.collect(await this.getObjectStream(original, { start, end }));
+  }
+
+  async downloadObjectAsBuffer(original: StoredOriginal): Promise<Buffer> {
+    return this.collect(await this.getObjectStream(original));
+  }
+
+  /**
+   * Bytes the original takes up in storage
+   */
+  storedSize(original: Pick<StoredOriginal, 'size' | 'encryptedAt'>): number {
+    return original.encryptedAt
+      ? encryptedSize(Number(original.size))
+      : Number(original.size);
+  }
+
+  private async unwrap(original: StoredOriginal): Promise<Buffer> {
+    if (!original.dataKey || !original.dataKeyId) {
+      throw new Error(`No data key stored for ${original.objectKey}`);
+    }
+    return this.encryptionKeysService.unwrapDataKey(
+      original.dataKeyId,
+      original.dataKey,
+    );
+  }
+
+  /**
+   * Whether an interrupted attempt already replaced the object: only the
+   * encrypted copy opens with the data key
+   */
+  private async isEncryptedWith(
+    objectKey: string,
+    size: number,
+    dataKey: Buffer,
+  ): Promise<boolean> {
+    const head = await this.storage.headObject(objectKey);
+    if (head?.contentLength !== encryptedSize(size)) {
+      return false;
+    }
+
+    const plan = planDecryption(size, {
+      start: 0,
+      end: Math.min(size, CHUNK_SIZE) - 1,
+    });
+    try {
+      const body = await this.storage.getObjectStream(objectKey, {
+        start: 0,
+        end: plan.end,
+      });
+      await this.collect(pipeThrough(body, createDecryptStream(dataKey, plan)));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Store the data key, wrapped for its owner, on every asset of the object
+   * that has none yet
+   */
+  private async storeDataKey(
+    objectKey: string,
+    dataKey: Buffer,
+    encryptedAt: Date | null,
+  ): Promise<void> {
+    const assets = await this.prisma.asset.findMany({
+      where: { objectKey, dataKey: null },
+      select: { id: true, ownerId: true },
+    });
+
+    const wrappedByOwner = new Map<string, WrappedDataKey>();
+    for (const asset of assets) {
+      let wrapped = wrappedByOwner.get(asset.ownerId);
+      if (!wrapped) {
+        wrapped = await this.encryptionKeysService.wrapDataKey(
+          asset.ownerId,
+          dataKey,
+        );
+        wrappedByOwner.set(asset.ownerId, wrapped);
+      }
+
+      await this.prisma.asset.updateMany({
+        where: { id: asset.id, dataKey: null },
+        data: { ...wrapped, encryptedAt },
+      });
+    }
+  }
+
+  private async markEncrypted(
+    objectKey: string,
+    dataKey: Buffer,
+  ): Promise<void> {
+    const encryptedAt = new Date();
+    // Assets that started sharing the object meanwhile need the key too
+    await this.storeDataKey(objectKey, dataKey, encryptedAt);
+    await this.prisma.asset.updateMany({
+      where: { objectKey, encryptedAt: null },
+      data: { encryptedAt },
+    });
+  }
+
+  private async collect(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,103 @@
+import {
+  DEFAULT_DERIVED_KEY_TEMPLATE,
+  DEFAULT_OBJECT_KEY_TEMPLATE,
+  UNKNOWN_HASH,
+  parseDerivedKeyTemplate,
+  parseObjectKeyTemplate,
+  renderDerivedKey,
+  renderObjectKey,
+} from './object-key-template';
+
+describe('object key templates', () => {
+  const fields = {
+    userId: 'user1',
+    assetId: 'asset1',
+    filename: 'Holiday photo (1).JPG',
+    createdAt: new Date('2025-01-05T12:00:00Z'),
+    sha256: 'AB12',
+  };
+
+  it('renders the default layout', () => {
+    expect(renderObjectKey(DEFAULT_OBJECT_KEY_TEMPLATE, fields)).toBe(
+      'uploads/2025/01/05/asset1-Holiday_photo__1_.JPG',
+    );
+  });
+
+  it('fills every placeholder', () => {
+    expect(
+      renderObjectKey('{userId}/{yyyy}{mm}{dd}/{hash}/{assetId}{ext}', fields),
+    ).toBe('user1/20250105/ab12/asset1.JPG');
+  });
+
+  it('dates keys in UTC', () => {
+    expect(
+      renderObjectKey('{yyyy}/{mm}/{dd}/{assetId}', {
+        ...fields,
+        createdAt: new Date('2024-12-31T23:30:00-05:00'),
+      }),
+    ).toBe('2025/01/01/asset1');
+  });
+
+  it('handles files without a hash, name or extension', () => {
+    expect(
+      renderObjectKey('{hash}/{assetId}/{name}{ext}', {
+        ...fields,
+        filename: '',
+        sha256: null,
+      }),
+    ).toBe(`${UNKNOWN_HASH}/asset1/file`);
+  });
+
+  it('renders derived keys with or without a leading dot', () => {
+    const derived = { userId: 'user1', assetId: 'asset1', variant: 'thumb' };
+
+    expect(
+      renderDerivedKey(DEFAULT_DERIVED_KEY_TEMPLATE, {
+        ...derived,
+        format: 'jpeg',
+      }),
+    ).toBe('derived/asset1/thumb.jpeg');
+    expect(
+      renderDerivedKey('{userId}/{assetId}_{variant}{ext}', {
+        ...derived,
+        format: '.webp',
+      }),
+    ).toBe('user1/asset1_thumb.webp');
+  });
+
+  it('accepts the defaults', () => {
+    expect(parseObjectKeyTemplate(DEFAULT_OBJECT_KEY_TEMPLATE)).toBe(
+      DEFAULT_OBJECT_KEY_TEMPLATE,
+    );
+    expect(parseDerivedKeyTemplate(DEFAULT_DERIVED_KEY_TEMPLATE)).toBe(
+      DEFAULT_DERIVED_KEY_TEMPLATE,
+    );
+  });
+
+  it('rejects templates that would not give each object its own key', () => {
+    expect(() => parseObjectKeyTemplate('uploads/{hash}{ext}')).toThrow(
+      '{assetId}',
+    );
+    expect(() => parseDerivedKeyTemplate('derived/{assetId}{ext}')).toThrow(
+      '{variant}',
+    );
+  });
+
+  it('rejects unknown placeholders and malformed paths', () => {
+    expect(() => parseObjectKeyTemplate('{assetId}/{uuid}')).toThrow(
+      'Unknown placeholder {uuid}',
+    );
+    expect(() => parseObjectKeyTemplate('{assetId}/{name')).toThrow(
+      'Unbalanced',
+    );
+    expect(() => parseObjectKeyTemplate('/uploads/{assetId}')).toThrow(
+      'relative path',
+    );
+    expect(() => parseObjectKeyTemplate('uploads//{assetId}')).toThrow(
+      'relative path',
+    );
+    expect(() => parseObjectKeyTemplate('../{assetId}')).toThrow(
+      'relative path',
+    );
+  });
+});
@@ -0,0 +1,165 @@
+import * as path from 'path';
+
+/**
+ * Object key layouts. A template is a key with {placeholder} segments that
+ * are filled in for each asset, e.g. "uploads/{userId}/{assetId}{ext}".
+ *
+ * Keys are rendered only from what is stored on the asset, so rendering the
+ * same asset again yields the same key. That is what lets the re-key job
+ * tell which objects were stored under an older template.
+ */
+
+export const OBJECT_KEY_PLACEHOLDERS = [
+  'userId',
+  'assetId',
+  'yyyy',
+  'mm',
+  'dd',
+  'hash',
+  'name',
+  'ext',
+] as const;
+
+// Placeholders of keys derived from an original, such as its thumbnail
+export const DERIVED_KEY_PLACEHOLDERS = [
+  'userId',
+  'assetId',
+  'variant',
+  'ext',
+] as const;
+
+export type ObjectKeyPlaceholder = (typeof OBJECT_KEY_PLACEHOLDERS)[number];
+export type DerivedKeyPlaceholder = (typeof DERIVED_KEY_PLACEHOLDERS)[number];
+
+export const DEFAULT_OBJECT_KEY_TEMPLATE =
+  'uploads/{yyyy}/{mm}/{dd}/{assetId}-{name}{ext}';
+export const DEFAULT_DERIVED_KEY_TEMPLATE = 'derived/{assetId}/{variant}{ext}';
+
+// Stands in for {hash} when no SHA-256 is known yet
+export const UNKNOWN_HASH = 'unhashed';
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+
+export interface ObjectKeyFields {
+  userId: string;
+  assetId: string;
+  filename: string;
+  createdAt: Date;
+  sha256?: string | null;
+}
+
+export interface DerivedKeyFields {
+  userId: string;
+  assetId: string;
+  variant: string;
+  // Format of the derived file, with or without the leading dot
+  format: string;
+}
+
+/**
+ * Check a template and return it. Each object needs a key of its own, so
+ * {assetId} is required, and derived keys also need their {variant}.
+ */
+export function parseObjectKeyTemplate(template: string): string {
+  return parseTemplate(template, OBJECT_KEY_PLACEHOLDERS, ['assetId']);
+}
+
+export function parseDerivedKeyTemplate(template: string): string {
+  return parseTemplate(template, DERIVED_KEY_PLACEHOLDERS, [
+    'assetId',
+    'variant',
+  ]);
+}
+
+export function renderObjectKey(
+  template: string,
+  fields: ObjectKeyFields,
+): string {
+  const ext = path.extname(fields.filename);
+  const values: Record<ObjectKeyPlaceholder, string> = {
+    userId: sanitize(fields.userId),
+    assetId: sanitize(fields.assetId),
+    yyyy: String(fields.createdAt.getUTCFullYear()),
+    mm: String(fields.createdAt.getUTCMonth() + 1).padStart(2, '0'),
+    dd: String(fields.createdAt.getUTCDate()).padStart(2, '0'),
+    hash: fields.sha256 ? sanitize(fields.sha256.toLowerCase()) : UNKNOWN_HASH,
+    name: sanitize(path.basename(fields.filename, ext)) || 'file',
+    ext: formatExtension(ext),
+  };
+
+  return fillTemplate(template, values);
+}
+
+export function renderDerivedKey(
+  template: string,
+  fields: DerivedKeyFields,
+): string {
+  const values: Record<DerivedKeyPlaceholder, string> = {
+    userId: sanitize(fields.userId),
+    assetId: sanitize(fields.assetId),
+    variant: sanitize(fields.variant),
+    ext: formatExtension(fields.format),
+  };
+
+  return fillTemplate(template, values);
+}
+
+function parseTemplate(
+  template: string,
+  allowed: readonly string[],
+  required: readonly string[],
+): string {
+  const used = new Set<string>();
+  for (const [, name] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!allowed.includes(name)) {
+      throw new Error(
+        `Unknown placeholder {${name}} in key template "${template}", expected one of: ${allowed.join(', ')}`,
+      );
+    }
+    used.add(name);
+  }
+
+  const missing = required.filter((name) => !used.has(name));
+  if (missing.length > 0) {
+    throw new Error(
+      `Key template "${template}" must contain ${missing.map((name) => `{${name}}`).join(' and ')}`,
+    );
+  }
+
+  const literal = template.replace(PLACEHOLDER_PATTERN, '');
+  if (/[{}]/.test(literal)) {
+    throw new Error(`Unbalanced braces in key template "${template}"`);
+  }
+  if (
+    template.startsWith('/') ||
+    template
+      .split('/')
+      .some((segment) => segment === '' || segment === '.' || segment === '..')
+  ) {
+    throw new Error(
+      `Key template "${template}" must be a relative path without empty, "." or ".." segments`,
+    );
+  }
+
+  return template;
+}
+
+function fillTemplate(
+  template: string,
+  values: Record<string, string>,
+): string {
+  return template.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name: string) => values[name] ?? placeholder,
+  );
+}
+
+// Keep keys to characters that are safe in every storage backend
+function sanitize(value: string): string {
+  return value.replace(/[^a-zA-Z0-9\-_]/g, '_');
+}
+
+function formatExtension(ext: string): string {
+  const bare = ext.replace(/^\./, '');
+  return bare ? `.${sanitize(bare)}` : '';
+}
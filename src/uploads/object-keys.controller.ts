@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  Post,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { Request as TypedRequest } from 'src/types';
+import { ObjectKeysService } from './object-keys.service';
+import { ObjectKeyLayoutResponseDto } from './dto/object-key-layout-response.dto';
+import { RekeyObjectsResponseDto } from './dto/rekey-objects-response.dto';
+
+@ApiTags('Object Keys')
+@Controller('object-keys')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class ObjectKeysController {
+  constructor(private readonly objectKeysService: ObjectKeysService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get the object key layout',
+    description:
+      'The templates new objects are stored under, set with OBJECT_KEY_TEMPLATE and DERIVED_KEY_TEMPLATE',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Layout retrieved successfully',
+    type: ObjectKeyLayoutResponseDto,
+  })
+  @Roles(UserRole.ADMIN)
+  getLayout(): ObjectKeyLayoutResponseDto {
+    return this.objectKeysService.getLayout();
+  }
+
+  @Post('rekey')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Re-key stored objects',
+    description:
+      'Move existing originals and thumbnails to the keys of the current templates. ' +
+      'Objects in cold storage or still being processed are skipped; run it again to pick them up',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Re-key queued',
+    type: RekeyObjectsResponseDto,
+  })
+  @Roles(UserRole.ADMIN)
+  async rekey(@Request() req: TypedRequest): Promise<RekeyObjectsResponseDto> {
+    return this.objectKeysService.requestRekey(req.user.id);
+  }
+}
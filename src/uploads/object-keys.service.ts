@@ -0,0 +1,375 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { createId } from '@paralleldrive/cuid2';
+import * as path from 'path';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditService } from 'src/common/services/audit.service';
+import { CacheService } from 'src/common/cache/cache.service';
+import { JobsService } from 'src/jobs/jobs.service';
+import { renditionVariant } from 'src/jobs/pipeline/rendition-profiles';
+import { STORAGE_PROVIDER, StorageProvider } from './storage-provider';
+import {
+  DEFAULT_DERIVED_KEY_TEMPLATE,
+  DEFAULT_OBJECT_KEY_TEMPLATE,
+  DerivedKeyFields,
+  ObjectKeyFields,
+  parseDerivedKeyTemplate,
+  parseObjectKeyTemplate,
+  renderDerivedKey,
+  renderObjectKey,
+} from './object-key-template';
+import { ObjectKeyLayoutResponseDto } from './dto/object-key-layout-response.dto';
+import { RekeyObjectsResponseDto } from './dto/rekey-objects-response.dto';
+
+type RekeyOutcome = 'moved' | 'unchanged' | 'skipped';
+
+/**
+ * A thumbnail or rendition of one asset to move under a new key
+ */
+interface DerivedMove {
+  assetId: string;
+  kind: 'thumb' | 'rendition';
+  key: string;
+  targetKey: string;
+}
+
+/**
+ * Names objects in storage after the OBJECT_KEY_TEMPLATE and
+ * DERIVED_KEY_TEMPLATE layouts.
+ *
+ * Asset IDs are generated before the upload starts so the original can be
+ * stored under its final key right away. Objects shared through
+ * deduplication are named after the asset that uploaded them, which is the
+ * oldest asset pointing at them. Thumbnails and renditions belong to each
+ * asset and are named after it.
+ */
+@Injectable()
+export class ObjectKeysService {
+  private readonly logger = new Logger(ObjectKeysService.name);
+  private readonly objectKeyTemplate: string;
+  private readonly derivedKeyTemplate: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    @Inject(STORAGE_PROVIDER) private readonly storage: StorageProvider,
+    private readonly auditService: AuditService,
+    private readonly jobsService: JobsService,
+    private readonly cacheService: CacheService,
+  ) {
+    this.objectKeyTemplate = parseObjectKeyTemplate(
+      this.configService.get<string>(
+        'OBJECT_KEY_TEMPLATE',
+        DEFAULT_OBJECT_KEY_TEMPLATE,
+      ),
+    );
+    this.derivedKeyTemplate = parseDerivedKeyTemplate(
+      this.configService.get<string>(
+        'DERIVED_KEY_TEMPLATE',
+        DEFAULT_DERIVED_KEY_TEMPLATE,
+      ),
+    );
+  }
+
+  /**
+   * ID for an asset that is about to be uploaded
+   */
+  generateAssetId(): string {
+    return createId();
+  }
+
+  objectKey(fields: ObjectKeyFields): string {
+    return renderObjectKey(this.objectKeyTemplate, fields);
+  }
+
+  /**
+   * Key of a file generated from an original, such as its thumbnail
+   */
+  derivedKey(fields: DerivedKeyFields): string {
+    return renderDerivedKey(this.derivedKeyTemplate, fields);
+  }
+
+  getLayout(): ObjectKeyLayoutResponseDto {
+    return {
+      objectKeyTemplate: this.objectKeyTemplate,
+      derivedKeyTemplate: this.derivedKeyTemplate,
+    };
+  }
+
+  /**
+   * Queue a re-key of every stored object, after the templates changed
+   */
+  async requestRekey(actorId: string): Promise<RekeyObjectsResponseDto> {
+    const jobId = await this.jobsService.addRekeyJob();
+
+    await this.auditService.logAdminEvent(
+      actorId,
+      'SYSTEM_CONFIG',
+      'object-keys',
+      { newValue: { ...this.getLayout(), jobId } },
+    );
+
+    return {
+      jobId,
+      message: 'Re-key queued, objects are moved in the background',
+    };
+  }
+
+  /**
+   * Move every object whose key does not match the current templates. Each
+   * object is copied to its new key, the assets are pointed at the copy and
+   * only then is the old object deleted, so an interrupted run can simply
+   * be repeated.
+   *
+   * Objects in cold storage or still being uploaded or processed are
+   * skipped and picked up by a later run.
+   */
+  async rekeyObjects(
+    batchSize: number = 100,
+  ): Promise<{ moved: number; skipped: number; failed: number }> {
+    const result = { moved: 0, skipped: 0, failed: 0 };
+    let cursor: string | undefined;
+
+    for (;;) {
+      const assets = await this.prisma.asset.findMany({
+        where: cursor ? { id: { gt: cursor } } : undefined,
+        select: { id: true, objectKey: true },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+      });
+
+      for (const { objectKey } of assets) {
+        try {
+          const outcome = await this.rekeyObject(objectKey);
+          if (outcome === 'moved') {
+            result.moved++;
+          } else if (outcome === 'skipped') {
+            result.skipped++;
+          }
+        } catch (error) {
+          this.logger.error(
+            `Failed to re-key ${objectKey}: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          );
+          result.failed++;
+        }
+      }
+
+      if (assets.length < batchSize) {
+        break;
+      }
+      cursor = assets[assets.length - 1].id;
+    }
+
+    this.logger.log(
+      `Re-keyed ${result.moved} objects (${result.skipped} skipped, ${result.failed} failed)`,
+    );
+    return result;
+  }
+
+  private async rekeyObject(objectKey: string): Promise<RekeyOutcome> {
+    const assets = await this.prisma.asset.findMany({
+      where: { objectKey },
+      select: {
+        id: true,
+        ownerId: true,
+        createdAt: true,
+        meta: true,
+        thumbKey: true,
+        status: true,
+        storageTier: true,
+        restoreRequestedAt: true,
+        renditions: { select: { name: true, format: true, key: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Already moved while visiting another asset sharing the object
+    if (assets.length === 0) {
+      return 'unchanged';
+    }
+
+    const [uploader] = assets;
+    const meta = this.toMetaObject(uploader.meta);
+    const targetKey = this.objectKey({
+      userId: uploader.ownerId,
+      assetId: uploader.id,
+      filename:
+        typeof meta.originalFilename === 'string' ? meta.originalFilename : '',
+      createdAt: uploader.createdAt,
+      // The hash the key was rendered with, not the one verified later
+      sha256: typeof meta.keyHash === 'string' ? meta.keyHash : null,
+    });
+    const derivedMoves = assets.flatMap((asset) => this.derivedMoves(asset));
+
+    if (targetKey === objectKey && derivedMoves.length === 0) {
+      return 'unchanged';
+    }
+
+    if (
+      assets.some(
+        (asset) =>
+          asset.status === 'PENDING' ||
+          asset.status === 'PROCESSING' ||
+          asset.storageTier === 'COLD' ||
+          asset.restoreRequestedAt,
+      )
+    ) {
+      return 'skipped';
+    }
+
+    if (targetKey !== objectKey) {
+      await this.copyObject(objectKey, targetKey);
+    }
+    for (const move of derivedMoves) {
+      await this.copyObject(move.key, move.targetKey);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.asset.updateMany({
+        where: { objectKey },
+        data: { objectKey: targetKey },
+      });
+      for (const move of derivedMoves) {
+        if (move.kind === 'thumb') {
+          await tx.asset.updateMany({
+            where: { id: move.assetId, thumbKey: move.key },
+            data: { thumbKey: move.targetKey },
+          });
+        } else {
+          await tx.rendition.updateMany({
+            where: { assetId: move.assetId, key: move.key },
+            data: { key: move.targetKey },
+          });
+        }
+      }
+      await tx.storedObject.updateMany({
+        where: { objectKey },
+        data: { objectKey: targetKey },
+      });
+    });
+
+    // Cached assets still carry the old keys
+    for (const asset of assets) {
+      await this.cacheService.invalidateAsset(asset.id);
+      await this.cacheService.invalidateUserAssets(asset.ownerId);
+    }
+
+    if (targetKey !== objectKey) {
+      await this.deleteUnlessShared(objectKey, { objectKey });
+    }
+    // Thumbnails from before each asset had its own may be shared
+    const movedKeys = new Set<string>();
+    for (const { kind, key } of derivedMoves) {
+      if (movedKeys.has(key)) {
+        continue;
+      }
+      movedKeys.add(key);
+      await this.deleteUnlessShared(
+        key,
+        kind === 'thumb'
+          ? { thumbKey: key }
+          : { renditions: { some: { key } } },
+      );
+    }
+
+    this.logger.debug(`Re-keyed ${objectKey} -> ${targetKey}`);
+    return 'moved';
+  }
+
+  /**
+   * Thumbnail and rendition moves of one asset sharing the object. Each
+   * asset has derived files of its own, named after its id.
+   */
+  private derivedMoves(asset: {
+    id: string;
+    ownerId: string;
+    thumbKey: string | null;
+    renditions: { name: string; format: string; key: string }[];
+  }): DerivedMove[] {
+    const moves: DerivedMove[] = [];
+
+    if (asset.thumbKey) {
+      moves.push({
+        assetId: asset.id,
+        kind: 'thumb',
+        key: asset.thumbKey,
+        targetKey: this.derivedKey({
+          userId: asset.ownerId,
+          assetId: asset.id,
+          variant: 'thumb',
+          format: path.extname(asset.thumbKey),
+        }),
+      });
+    }
+
+    for (const { name, format, key } of asset.renditions) {
+      moves.push({
+        assetId: asset.id,
+        kind: 'rendition',
+        key,
+        targetKey: this.derivedKey({
+          userId: asset.ownerId,
+          assetId: asset.id,
+          variant: renditionVariant(name, format),
+          format,
+        }),
+      });
+    }
+
+    return moves.filter(({ key, targetKey }) => key !== targetKey);
+  }
+
+  /**
+   * Copy an object byte for byte. Encrypted originals stay valid since their
+   * encryption does not depend on the key they are stored under.
+   */
+  private async copyObject(
+    sourceKey: string,
+    targetKey: string,
+  ): Promise<void> {
+    const head = await this.storage.headObject(sourceKey);
+    if (!head) {
+      throw new Error(`Object ${sourceKey} not found in storage`);
+    }
+
+    await this.storage.uploadStream(
+      targetKey,
+      await this.storage.getObjectStream(sourceKey),
+      head.contentType ?? 'application/octet-stream',
+      head.metadata,
+    );
+
+    const copied = await this.storage.headObject(targetKey);
+    if (copied?.contentLength !== head.contentLength) {
+      throw new Error(
+        `Copy of ${sourceKey} at ${targetKey} has ${copied?.contentLength ?? 0} bytes, expected ${head.contentLength}`,
+      );
+    }
+  }
+
+  /**
+   * Delete a moved object, unless an asset that started sharing it during
+   * the re-key still points at it. A later run moves that asset too.
+   */
+  private async deleteUnlessShared(
+    key: string,
+    where: Prisma.AssetWhereInput,
+  ): Promise<void> {
+    const latecomers = await this.prisma.asset.count({ where });
+    if (latecomers > 0) {
+      this.logger.warn(
+        `Kept ${key} for ${latecomers} assets created during the re-key`,
+      );
+      return;
+    }
+
+    await this.storage.deleteObject(key);
+  }
+
+  private toMetaObject(meta: Prisma.JsonValue): Prisma.JsonObject {
+    return meta && typeof meta === 'object' && !Array.isArray(meta) ? meta : {};
+  }
+}
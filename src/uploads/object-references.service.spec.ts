@@ -0,0 +1,81 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma, StoredObject } from '@prisma/client';
+import { ObjectReferencesService } from './object-references.service';
+
+describe('ObjectReferencesService', () => {
+  let service: ObjectReferencesService;
+
+  const prisma = {
+    storedObject: {
+      upsert: jest.fn(),
+      findUnique: jest.fn<Promise<Partial<StoredObject> | null>, []>(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  };
+  const tx = prisma as unknown as Prisma.TransactionClient;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ObjectReferencesService],
+    }).compile();
+
+    service = module.get<ObjectReferencesService>(ObjectReferencesService);
+  });
+
+  it('should count the uploader when adding the first shared reference', async () => {
+    await service.addReference(tx, 'users/u1/a.jpg');
+
+    expect(prisma.storedObject.upsert).toHaveBeenCalledWith({
+      where: { objectKey: 'users/u1/a.jpg' },
+      create: { objectKey: 'users/u1/a.jpg', refCount: 2 },
+      update: { refCount: { increment: 1 } },
+    });
+  });
+
+  it('should release the only reference of an unshared object', async () => {
+    prisma.storedObject.findUnique.mockResolvedValue(null);
+
+    await expect(service.releaseReference(tx, 'users/u1/a.jpg')).resolves.toBe(
+      true,
+    );
+    expect(prisma.storedObject.update).not.toHaveBeenCalled();
+    expect(prisma.storedObject.delete).not.toHaveBeenCalled();
+  });
+
+  it('should keep shared objects until their last reference is released', async () => {
+    prisma.storedObject.findUnique.mockResolvedValue({ refCount: 2 });
+
+    await expect(service.releaseReference(tx, 'users/u1/a.jpg')).resolves.toBe(
+      false,
+    );
+    expect(prisma.storedObject.update).toHaveBeenCalledWith({
+      where: { objectKey: 'users/u1/a.jpg' },
+      data: { refCount: { decrement: 1 } },
+    });
+
+    prisma.storedObject.findUnique.mockResolvedValue({ refCount: 1 });
+
+    await expect(service.releaseReference(tx, 'users/u1/a.jpg')).resolves.toBe(
+      true,
+    );
+    expect(prisma.storedObject.delete).toHaveBeenCalledWith({
+      where: { objectKey: 'users/u1/a.jpg' },
+    });
+  });
+
+  it('should lock the assets of every object in one statement', async () => {
+    await service.lockObjects(tx, ['users/u1/a.jpg', 'users/u2/b.jpg']);
+
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    const [sql, ...values] = prisma.$queryRaw.mock.calls[0] as [
+      TemplateStringsArray,
+      Prisma.Sql,
+    ];
+    expect(sql.join('?')).toMatch(/FOR UPDATE$/);
+    expect(values[0].values).toEqual(['users/u1/a.jpg', 'users/u2/b.jpg']);
+  });
+});
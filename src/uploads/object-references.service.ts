@@ -0,0 +1,65 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+/**
+ * Reference counting for objects shared by several assets through
+ * deduplication. Objects without a row have a single implicit reference.
+ */
+@Injectable()
+export class ObjectReferencesService {
+  /**
+   * Lock the assets pointing at objects until the transaction ends. Adding
+   * and releasing references both take the lock, so an object can't be
+   * released while another asset is moved onto it.
+   */
+  async lockObjects(
+    tx: Prisma.TransactionClient,
+    objectKeys: string[],
+  ): Promise<void> {
+    // Rows are locked in id order, so overlapping locks can't deadlock
+    await tx.$queryRaw`SELECT id FROM "public"."assets" WHERE object_key IN (${Prisma.join(objectKeys)}) ORDER BY id FOR UPDATE`;
+  }
+
+  /**
+   * Record one more asset pointing at an object
+   */
+  async addReference(
+    tx: Prisma.TransactionClient,
+    objectKey: string,
+  ): Promise<void> {
+    await tx.storedObject.upsert({
+      where: { objectKey },
+      // The asset that uploaded the object holds the first reference
+      create: { objectKey, refCount: 2 },
+      update: { refCount: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Drop one reference to an object.
+   * Returns true when it was the last one and the object can be deleted.
+   */
+  async releaseReference(
+    tx: Prisma.TransactionClient,
+    objectKey: string,
+  ): Promise<boolean> {
+    const storedObject = await tx.storedObject.findUnique({
+      where: { objectKey },
+    });
+
+    if (!storedObject) {
+      return true;
+    }
+
+    if (storedObject.refCount <= 1) {
+      await tx.storedObject.delete({ where: { objectKey } });
+      return true;
+    }
+
+    await tx.storedObject.update({
+      where: { objectKey },
+      data: { refCount: { decrement: 1 } },
+    });
+    return false;
+  }
+}
@@ -0,0 +1,17 @@
+import { Duplex, Readable, pipeline } from 'stream';
+
+/**
+ * Pipe source into a transform and return the transform, for a consumer
+ * such as a storage upload to read. When either stream fails, pipeline
+ * destroys the transform with the error, so the consumer sees it and the
+ * pipeline callback has nothing left to do.
+ */
+export function pipeThrough<T extends Duplex>(
+  source: Readable,
+  transform: T,
+): T {
+  pipeline(source, transform, () => {
+    // Errors reach the consumer through the destroyed transform
+  });
+  return transform;
+}
@@ -4,22 +4,68 @@ import {
   S3Client,
   CreateBucketCommand,
   HeadBucketCommand,
+  HeadObjectCommand,
   PutObjectCommand,
   GetObjectCommand,
   DeleteObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  CopyObjectCommand,
+  UploadPartCopyCommand,
+  RestoreObjectCommand,
+  StorageClass,
+  Tier,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Upload } from '@aws-sdk/lib-storage';
+import {
+  createPresignedPost,
+  PresignedPostOptions,
+} from '@aws-sdk/s3-presigned-post';
 import { Readable } from 'stream';
+import {
+  MAX_MULTIPART_PART_SIZE,
+  MAX_MULTIPART_PARTS,
+  MIN_MULTIPART_PART_SIZE,
+} from './uploads.constants';
+import {
+  ListedObject,
+  MultipartUploadPart,
+  ObjectHead,
+  PresignedForm,
+  StorageProvider,
+} from './storage-provider';
 
+/**
+ * Storage driver for AWS S3 and S3-compatible services such as MinIO
+ */
 @Injectable()
-export class S3Service {
+export class S3Service implements StorageProvider {
   private readonly logger = new Logger(S3Service.name);
   private readonly s3Client: S3Client;
   private readonly bucketName: string;
+  private readonly checksumEnabled: boolean;
 
-  constructor(private configService: ConfigService) {
+  /**
+   * @param options.bucketName - Use this bucket instead of S3_BUCKET_NAME,
+   * e.g. for a secondary cold storage bucket
+   */
+  constructor(
+    private configService: ConfigService,
+    options: { bucketName?: string } = {},
+  ) {
     this.bucketName =
-      this.configService.get<string>('S3_BUCKET_NAME') || 'media-inbox';
+      options.bucketName ||
+      this.configService.get<string>('S3_BUCKET_NAME') ||
+      'media-inbox';
+
+    // Set to false for S3-compatible backends without x-amz-checksum-* support
+    this.checksumEnabled =
+      this.configService.get<string>('S3_CHECKSUM_ENABLED', 'true') !== 'false';
 
     const endpoint = this.configService.get<string>('S3_ENDPOINT');
     const accessKey = this.configService.get<string>('AWS_ACCESS_KEY_ID');
@@ -77,20 +123,85 @@ export class S3Service {
     }
   }
 
+  /**
+   * Whether presigned uploads can require an x-amz-checksum-sha256 header
+   */
+  supportsChecksums(): boolean {
+    return this.checksumEnabled;
+  }
+
   async generatePresignedPutUrl(
     key: string,
     contentType: string,
     expiresIn: number = 3600,
     metadata?: Record<string, string>,
+    checksumSha256?: string,
+    contentLength?: number,
   ): Promise<string> {
+    // A signed Content-Length makes S3 reject bodies of any other size
     const command = new PutObjectCommand({
       Bucket: this.bucketName,
       Key: key,
       ContentType: contentType,
+      ContentLength: contentLength,
       Metadata: metadata,
+      ChecksumSHA256: checksumSha256,
     });
 
-    return getSignedUrl(this.s3Client, command, { expiresIn });
+    // Keep the checksum as a signed header so S3 rejects bodies that don't match it
+    return getSignedUrl(this.s3Client, command, {
+      expiresIn,
+      unhoistableHeaders: checksumSha256
+        ? new Set(['x-amz-checksum-sha256'])
+        : undefined,
+    });
+  }
+
+  /**
+   * Generate a presigned POST policy for a browser form upload. Unlike a
+   * presigned PUT, the policy lets S3 itself reject bodies outside the size
+   * range, a different Content-Type, or a key outside the expected prefix.
+   * @param key - S3 object key
+   * @param contentType - Content-Type the form must send
+   * @param sizeRange - Minimum and maximum accepted body size in bytes
+   * @param expiresIn - Policy expiration in seconds
+   * @param metadata - x-amz-meta-* fields the form must send
+   * @param checksumSha256 - Base64 SHA-256 the body must match
+   * @returns Promise<PresignedForm> - Form action URL and fields
+   */
+  async generatePresignedPost(
+    key: string,
+    contentType: string,
+    sizeRange: { min: number; max: number },
+    expiresIn: number = 3600,
+    metadata?: Record<string, string>,
+    checksumSha256?: string,
+  ): Promise<PresignedForm> {
+    const keyPrefix = key.substring(0, key.lastIndexOf('/') + 1);
+
+    // Every field is also added to the policy as an exact-match condition
+    const fields: Record<string, string> = {
+      'Content-Type': contentType,
+      ...metadata,
+      ...(checksumSha256 && {
+        'x-amz-checksum-algorithm': 'SHA256',
+        'x-amz-checksum-sha256': checksumSha256,
+      }),
+    };
+
+    const conditions: PresignedPostOptions['Conditions'] = [
+      ['content-length-range', sizeRange.min, sizeRange.max],
+      ['eq', '$Content-Type', contentType],
+      ['starts-with', '$key', keyPrefix],
+    ];
+
+    return createPresignedPost(this.s3Client, {
+      Bucket: this.bucketName,
+      Key: key,
+      Conditions: conditions,
+      Fields: fields,
+      Expires: expiresIn,
+    });
   }
 
   async generatePresignedGetUrl(
@@ -105,6 +216,44 @@ export class S3Service {
     return getSignedUrl(this.s3Client, command, { expiresIn });
   }
 
+  /**
+   * Fetch an object's metadata without downloading it
+   * @param key - S3 object key
+   * @returns Promise<ObjectHead | null> - Object metadata, or null if the object does not exist
+   */
+  async headObject(key: string): Promise<ObjectHead | null> {
+    try {
+      const response = await this.s3Client.send(
+        new HeadObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+        }),
+      );
+
+      return {
+        contentLength: response.ContentLength ?? 0,
+        contentType: response.ContentType,
+        etag: response.ETag,
+        lastModified: response.LastModified,
+        metadata: response.Metadata,
+        storageClass: response.StorageClass,
+        restore: response.Restore
+          ? this.parseRestoreHeader(response.Restore)
+          : undefined,
+      };
+    } catch (error) {
+      const { name, $metadata } = error as {
+        name?: string;
+        $metadata?: { httpStatusCode?: number };
+      };
+      if (name === 'NotFound' || $metadata?.httpStatusCode === 404) {
+        return null;
+      }
+      this.logger.error(`Failed to head object ${key}:`, error);
+      throw error;
+    }
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       await this.ensureBucketExists();
@@ -130,6 +279,38 @@ export class S3Service {
     }
   }
 
+  /**
+   * List the objects under a prefix, fetching 1000 keys per request
+   * @param prefix - Key prefix, e.g. uploads/2025/
+   */
+  async *listObjects(prefix: string): AsyncIterable<ListedObject> {
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+
+      for (const object of response.Contents ?? []) {
+        if (object.Key) {
+          yield {
+            key: object.Key,
+            size: object.Size ?? 0,
+            lastModified: object.LastModified,
+          };
+        }
+      }
+
+      continuationToken = response.IsTruncated
+        ? response.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+  }
+
   // New methods for thumbnail generation
 
   /**
@@ -167,6 +348,41 @@ export class S3Service {
     }
   }
 
+  /**
+   * Download a byte range of an object, e.g. the header used for content sniffing
+   * @param key - The S3 object key
+   * @param start - First byte (inclusive)
+   * @param end - Last byte (inclusive)
+   */
+  async getObjectRange(
+    key: string,
+    start: number,
+    end: number,
+  ): Promise<Buffer> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        Range: `bytes=${start}-${end}`,
+      });
+
+      const response = await this.s3Client.send(command);
+
+      if (!response.Body) {
+        throw new Error(`No body returned for object ${key}`);
+      }
+
+      const bytes = await response.Body.transformToByteArray();
+      return Buffer.from(bytes);
+    } catch (error) {
+      this.logger.error(
+        `Failed to read bytes ${start}-${end} of object ${key}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Upload a buffer to S3 as an object
    * @param key - S3 object key
@@ -198,18 +414,62 @@ export class S3Service {
     }
   }
 
+  /**
+   * Stream a body of unknown length to S3. The body is sent in multipart
+   * chunks, so only a few parts are held in memory at a time.
+   * @param key - S3 object key
+   * @param body - Readable stream with the object content
+   * @param contentType - MIME type of the object
+   * @param metadata - Optional user metadata
+   */
+  async uploadStream(
+    key: string,
+    body: Readable,
+    contentType: string,
+    metadata?: Record<string, string>,
+  ): Promise<void> {
+    try {
+      this.logger.debug(`Streaming object ${key} to S3`);
+
+      const upload = new Upload({
+        client: this.s3Client,
+        params: {
+          Bucket: this.bucketName,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          Metadata: metadata,
+        },
+        queueSize: 4,
+        partSize: MIN_MULTIPART_PART_SIZE,
+        leavePartsOnError: false,
+      });
+
+      await upload.done();
+      this.logger.log(`Object ${key} streamed successfully`);
+    } catch (error) {
+      this.logger.error(`Failed to stream object ${key}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get an object from S3 as a readable stream
    * @param key - S3 object key
+   * @param range - Optional byte range, both ends inclusive
    * @returns Promise<Readable> - The file content as a readable stream
    */
-  async getObjectStream(key: string): Promise<Readable> {
+  async getObjectStream(
+    key: string,
+    range?: { start: number; end: number },
+  ): Promise<Readable> {
     try {
       this.logger.debug(`Getting object ${key} as stream`);
 
       const command = new GetObjectCommand({
         Bucket: this.bucketName,
         Key: key,
+        Range: range && `bytes=${range.start}-${range.end}`,
       });
 
       const response = await this.s3Client.send(command);
@@ -224,4 +484,360 @@ export class S3Service {
       throw error;
     }
   }
+
+  // Multipart upload methods for large files
+
+  /**
+   * Start a multipart upload for an object
+   * @param key - S3 object key
+   * @param contentType - MIME type of the final object
+   * @param metadata - Optional user metadata stored with the object
+   * @returns Promise<string> - The S3 upload ID
+   */
+  async createMultipartUpload(
+    key: string,
+    contentType: string,
+    metadata?: Record<string, string>,
+  ): Promise<string> {
+    try {
+      const response = await this.s3Client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          ContentType: contentType,
+          Metadata: metadata,
+        }),
+      );
+
+      if (!response.UploadId) {
+        throw new Error(`No upload ID returned for object ${key}`);
+      }
+
+      this.logger.log(
+        `Multipart upload ${response.UploadId} created for object ${key}`,
+      );
+      return response.UploadId;
+    } catch (error) {
+      this.logger.error(
+        `Failed to create multipart upload for object ${key}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Generate a presigned URL for uploading a single part
+   * @param key - S3 object key
+   * @param uploadId - S3 upload ID
+   * @param partNumber - Part number (1-10000)
+   * @param expiresIn - URL expiration in seconds
+   * @returns Promise<string> - The presigned PUT URL for the part
+   */
+  async generatePresignedUploadPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresIn: number = 3600,
+  ): Promise<string> {
+    const command = new UploadPartCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+
+    return getSignedUrl(this.s3Client, command, { expiresIn });
+  }
+
+  /**
+   * Upload a single part from the server, e.g. a buffered tus chunk
+   * @param key - S3 object key
+   * @param uploadId - S3 upload ID
+   * @param partNumber - Part number (1-10000)
+   * @param body - Part content
+   * @returns Promise<string> - ETag of the uploaded part
+   */
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer,
+  ): Promise<string> {
+    try {
+      const response = await this.s3Client.send(
+        new UploadPartCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+          Body: body,
+          ContentLength: body.length,
+        }),
+      );
+
+      if (!response.ETag) {
+        throw new Error(`No ETag returned for part ${partNumber} of ${key}`);
+      }
+
+      return response.ETag;
+    } catch (error) {
+      this.logger.error(
+        `Failed to upload part ${partNumber} of object ${key}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * List the parts uploaded so far for a multipart upload
+   * @param key - S3 object key
+   * @param uploadId - S3 upload ID
+   * @returns Promise<MultipartUploadPart[]> - Uploaded parts ordered by part number
+   */
+  async listParts(
+    key: string,
+    uploadId: string,
+  ): Promise<MultipartUploadPart[]> {
+    try {
+      const parts: MultipartUploadPart[] = [];
+      let partNumberMarker: string | undefined;
+
+      // ListParts returns at most 1000 parts per call
+      do {
+        const response = await this.s3Client.send(
+          new ListPartsCommand({
+            Bucket: this.bucketName,
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: partNumberMarker,
+          }),
+        );
+
+        for (const part of response.Parts ?? []) {
+          if (part.PartNumber === undefined || !part.ETag) {
+            continue;
+          }
+          parts.push({
+            partNumber: part.PartNumber,
+            etag: part.ETag,
+            size: part.Size,
+            lastModified: part.LastModified,
+          });
+        }
+
+        partNumberMarker = response.IsTruncated
+          ? response.NextPartNumberMarker
+          : undefined;
+      } while (partNumberMarker);
+
+      return parts.sort((a, b) => a.partNumber - b.partNumber);
+    } catch (error) {
+      this.logger.error(
+        `Failed to list parts of multipart upload ${uploadId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Finalize a multipart upload by assembling its parts
+   * @param key - S3 object key
+   * @param uploadId - S3 upload ID
+   * @param parts - Parts to assemble, in ascending part number order
+   * @returns Promise<void>
+   */
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: MultipartUploadPart[],
+  ): Promise<void> {
+    try {
+      await this.s3Client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: {
+            Parts: parts.map((part) => ({
+              PartNumber: part.partNumber,
+              ETag: part.etag,
+            })),
+          },
+        }),
+      );
+      this.logger.log(`Multipart upload ${uploadId} completed for ${key}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to complete multipart upload ${uploadId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Abort a multipart upload and discard its uploaded parts
+   * @param key - S3 object key
+   * @param uploadId - S3 upload ID
+   * @returns Promise<void>
+   */
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    try {
+      await this.s3Client.send(
+        new AbortMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId: uploadId,
+        }),
+      );
+      this.logger.log(`Multipart upload ${uploadId} aborted for ${key}`);
+    } catch (error) {
+      this.logger.error(`Failed to abort multipart upload ${uploadId}:`, error);
+      throw error;
+    }
+  }
+
+  // Storage class transitions for cold storage
+
+  /**
+   * Move an object to another storage class by copying it onto itself.
+   * Objects above the 5GB CopyObject limit are copied part by part.
+   * @param key - S3 object key
+   * @param storageClass - Target storage class
+   * @param size - Object size in bytes
+   */
+  async changeStorageClass(
+    key: string,
+    storageClass: StorageClass,
+    size: number,
+  ): Promise<void> {
+    const copySource = `${this.bucketName}/${encodeURIComponent(key)}`;
+
+    try {
+      if (size <= MAX_MULTIPART_PART_SIZE) {
+        await this.s3Client.send(
+          new CopyObjectCommand({
+            Bucket: this.bucketName,
+            Key: key,
+            CopySource: copySource,
+            MetadataDirective: 'COPY',
+            StorageClass: storageClass,
+          }),
+        );
+      } else {
+        await this.copyInParts(key, copySource, storageClass, size);
+      }
+
+      this.logger.log(`Object ${key} moved to storage class ${storageClass}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to move object ${key} to storage class ${storageClass}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Ask S3 to make a temporary copy of an archived (GLACIER or DEEP_ARCHIVE)
+   * object readable. A restore that is already running is not an error.
+   * @param key - S3 object key
+   * @param days - How long the restored copy stays readable
+   * @param tier - Retrieval tier, trading speed for cost
+   */
+  async restoreObject(key: string, days: number, tier: Tier): Promise<void> {
+    try {
+      await this.s3Client.send(
+        new RestoreObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          RestoreRequest: {
+            Days: days,
+            GlacierJobParameters: { Tier: tier },
+          },
+        }),
+      );
+      this.logger.log(`Restore of object ${key} requested (${tier})`);
+    } catch (error) {
+      if ((error as { name?: string }).name === 'RestoreAlreadyInProgress') {
+        return;
+      }
+      this.logger.error(`Failed to request restore of object ${key}:`, error);
+      throw error;
+    }
+  }
+
+  private async copyInParts(
+    key: string,
+    copySource: string,
+    storageClass: StorageClass,
+    size: number,
+  ): Promise<void> {
+    const head = await this.headObject(key);
+    const { UploadId: uploadId } = await this.s3Client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        ContentType: head?.contentType,
+        Metadata: head?.metadata,
+        StorageClass: storageClass,
+      }),
+    );
+
+    if (!uploadId) {
+      throw new Error(`No upload ID returned for object ${key}`);
+    }
+
+    try {
+      const parts: MultipartUploadPart[] = [];
+      // Large parts keep the copy well below the part limit
+      const partSize = Math.max(
+        512 * 1024 * 1024,
+        Math.ceil(size / MAX_MULTIPART_PARTS),
+      );
+
+      for (let start = 0; start < size; start += partSize) {
+        const end = Math.min(start + partSize, size) - 1;
+        const partNumber = parts.length + 1;
+        const response = await this.s3Client.send(
+          new UploadPartCopyCommand({
+            Bucket: this.bucketName,
+            Key: key,
+            UploadId: uploadId,
+            PartNumber: partNumber,
+            CopySource: copySource,
+            CopySourceRange: `bytes=${start}-${end}`,
+          }),
+        );
+
+        if (!response.CopyPartResult?.ETag) {
+          throw new Error(`No ETag returned for part ${partNumber} of ${key}`);
+        }
+        parts.push({ partNumber, etag: response.CopyPartResult.ETag });
+      }
+
+      await this.completeMultipartUpload(key, uploadId, parts);
+    } catch (error) {
+      await this.abortMultipartUpload(key, uploadId).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Parse an x-amz-restore header such as
+   * ongoing-request="false", expiry-date="Fri, 21 Dec 2012 00:00:00 GMT"
+   */
+  private parseRestoreHeader(header: string): {
+    inProgress: boolean;
+    expiresAt?: Date;
+  } {
+    const expiry = /expiry-date="([^"]+)"/.exec(header);
+    return {
+      inProgress: /ongoing-request="true"/.test(header),
+      expiresAt: expiry ? new Date(expiry[1]) : undefined,
+    };
+  }
 }
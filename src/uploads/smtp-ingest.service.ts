@@ -0,0 +1,302 @@
+import {
+  Injectable,
+  Logger,
+  HttpException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Attachment, simpleParser } from 'mailparser';
+import {
+  SMTPServer,
+  SMTPServerAddress,
+  SMTPServerDataStream,
+  SMTPServerSession,
+} from 'smtp-server';
+import { Transform } from 'stream';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditService } from 'src/common/services/audit.service';
+import { InboundMailboxesService } from './inbound-mailboxes.service';
+import { UploadsService } from './uploads.service';
+
+// Default largest message accepted, in bytes
+const DEFAULT_MAX_MESSAGE_SIZE = 25 * 1024 * 1024;
+
+/**
+ * An SMTP reply for a refused recipient or message
+ */
+class SmtpError extends Error {
+  constructor(
+    message: string,
+    readonly responseCode: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Embedded SMTP listener that turns the attachments of received mail into
+ * assets of the mailbox owner. Enabled with SMTP_INGEST_ENABLED=true; TLS and
+ * spam filtering are left to an MTA relaying to it.
+ */
+@Injectable()
+export class SmtpIngestService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SmtpIngestService.name);
+  private readonly maxMessageSize: number;
+  private server: SMTPServer | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly inboundMailboxesService: InboundMailboxesService,
+    private readonly uploadsService: UploadsService,
+    private readonly auditService: AuditService,
+  ) {
+    this.maxMessageSize = Number(
+      this.configService.get<number>(
+        'SMTP_MAX_MESSAGE_SIZE',
+        DEFAULT_MAX_MESSAGE_SIZE,
+      ),
+    );
+  }
+
+  async onModuleInit(): Promise<void> {
+    if (this.configService.get<string>('SMTP_INGEST_ENABLED') !== 'true') {
+      return;
+    }
+
+    const port = Number(this.configService.get<number>('SMTP_PORT', 2525));
+    const host = this.configService.get<string>('SMTP_HOST', '0.0.0.0');
+
+    this.server = new SMTPServer({
+      banner: 'Media Inbox',
+      authOptional: true,
+      disabledCommands: ['AUTH', 'STARTTLS'],
+      size: this.maxMessageSize,
+      maxClients: 20,
+      logger: false,
+      onRcptTo: (address, session, callback) => {
+        this.acceptRecipient(address, session).then(
+          () => callback(),
+          (error: Error) => callback(error),
+        );
+      },
+      onData: (stream, session, callback) => {
+        this.receiveMessage(stream, session).then(
+          (reply) => callback(null, reply),
+          (error: Error) => callback(error),
+        );
+      },
+    });
+
+    this.server.on('error', (error) => {
+      this.logger.error('SMTP listener error:', error);
+    });
+
+    await new Promise<void>((resolve) => {
+      this.server!.listen(port, host, () => resolve());
+    });
+    this.logger.log(`SMTP ingestion listening on ${host}:${port}`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    this.logger.log('SMTP ingestion stopped');
+  }
+
+  /**
+   * Refuse unknown mailboxes and senders outside the mailbox allowlist
+   * before the message body is transferred
+   */
+  private async acceptRecipient(
+    address: SMTPServerAddress,
+    session: SMTPServerSession,
+  ): Promise<void> {
+    const resolved = await this.inboundMailboxesService.resolveAddress(
+      address.address,
+    );
+    if (!resolved) {
+      throw new SmtpError('No such mailbox', 550);
+    }
+
+    const sender = this.senderOf(session);
+    if (!this.inboundMailboxesService.isSenderAllowed(resolved, sender)) {
+      throw new SmtpError(
+        `Sender ${sender || '<>'} is not allowed to deliver to this mailbox`,
+        550,
+      );
+    }
+  }
+
+  private async receiveMessage(
+    stream: SMTPServerDataStream,
+    session: SMTPServerSession,
+  ): Promise<string> {
+    // Drop everything past the limit so an oversized message is not parsed
+    // into memory; it is refused once the stream ends
+    let received = 0;
+    const limit = this.maxMessageSize;
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        callback(null, received > limit ? undefined : chunk);
+      },
+    });
+
+    const mail = await simpleParser(stream.pipe(limiter));
+    if (stream.sizeExceeded || received > limit) {
+      throw new SmtpError(
+        `Message exceeds the maximum size of ${limit} bytes`,
+        552,
+      );
+    }
+
+    // Images embedded in the HTML body, such as signature logos, are skipped
+    const attachments = mail.attachments.filter(
+      (attachment) => !attachment.related,
+    );
+    if (attachments.length === 0) {
+      throw new SmtpError('Message has no attachments', 550);
+    }
+
+    const sender = this.senderOf(session);
+    const meta = {
+      source: 'email',
+      sender,
+      subject: mail.subject ?? null,
+      messageId: mail.messageId ?? null,
+      receivedAt: new Date().toISOString(),
+    };
+
+    let stored = 0;
+    let attempted = 0;
+    let transientFailure = false;
+    let firstFailure: string | null = null;
+
+    for (const recipient of session.envelope.rcptTo) {
+      const resolved = await this.inboundMailboxesService.resolveAddress(
+        recipient.address,
+      );
+      if (!resolved) {
+        continue;
+      }
+
+      const alreadyStored = await this.getStoredAttachments(
+        resolved.mailbox.userId,
+        meta.messageId,
+      );
+
+      for (const [index, attachment] of attachments.entries()) {
+        attempted++;
+        if (alreadyStored.has(index)) {
+          stored++;
+          continue;
+        }
+
+        try {
+          await this.ingestAttachment(attachment, resolved.mailbox.userId, {
+            ...meta,
+            attachmentIndex: index,
+          });
+          stored++;
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          firstFailure ??= message;
+          transientFailure ||= !(error instanceof HttpException);
+
+          this.logger.warn(
+            `Attachment ${attachment.filename ?? '(unnamed)'} from ${sender} rejected: ${message}`,
+          );
+          await this.auditService.logFileEvent(
+            resolved.mailbox.userId,
+            'UPLOAD_FAILED',
+            attachment.filename ?? 'attachment',
+            {
+              filename: attachment.filename,
+              mimeType: attachment.contentType,
+              fileSize: attachment.size,
+            },
+          );
+        }
+      }
+    }
+
+    // Let the sending server retry when storage was unavailable. Attachments
+    // stored this time are skipped when the message is delivered again.
+    if (transientFailure) {
+      throw new SmtpError(
+        'Attachments could not be stored, try again later',
+        451,
+      );
+    }
+    if (stored === 0) {
+      throw new SmtpError(`No attachment was accepted: ${firstFailure}`, 550);
+    }
+
+    this.logger.log(
+      `Message ${session.id} from ${sender}: stored ${stored} of ${attempted} attachments`,
+    );
+    return `Stored ${stored} of ${attempted} attachments`;
+  }
+
+  /**
+   * Positions of the attachments of a message that an earlier delivery
+   * already stored for the user
+   */
+  private async getStoredAttachments(
+    userId: string,
+    messageId: string | null,
+  ): Promise<Set<number>> {
+    if (!messageId) {
+      return new Set();
+    }
+
+    const assets = await this.prisma.asset.findMany({
+      where: {
+        ownerId: userId,
+        meta: { path: ['messageId'], equals: messageId },
+      },
+      select: { meta: true },
+    });
+
+    return new Set(
+      assets
+        .map(({ meta }) =>
+          meta && typeof meta === 'object' && !Array.isArray(meta)
+            ? meta.attachmentIndex
+            : undefined,
+        )
+        .filter((index): index is number => typeof index === 'number'),
+    );
+  }
+
+  private async ingestAttachment(
+    attachment: Attachment,
+    userId: string,
+    meta: Record<string, string | number | null>,
+  ): Promise<void> {
+    await this.uploadsService.ingestFile(
+      {
+        filename: attachment.filename ?? 'attachment',
+        contentType: attachment.contentType,
+        content: attachment.content,
+        fileSize: attachment.content.length,
+      },
+      userId,
+      meta,
+    );
+  }
+
+  private senderOf(session: SMTPServerSession): string {
+    return session.envelope.mailFrom
+      ? session.envelope.mailFrom.address.toLowerCase()
+      : '';
+  }
+}
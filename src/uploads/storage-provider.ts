@@ -0,0 +1,165 @@
+import { Readable } from 'stream';
+
+// Injection token of the configured StorageProvider
+export const STORAGE_PROVIDER = 'STORAGE_PROVIDER';
+
+// Drivers selectable with STORAGE_DRIVER
+export const STORAGE_DRIVERS = ['s3', 'local'] as const;
+export type StorageDriver = (typeof STORAGE_DRIVERS)[number];
+
+export interface ObjectHead {
+  contentLength: number;
+  contentType?: string;
+  etag?: string;
+  lastModified?: Date;
+  metadata?: Record<string, string>;
+  /** S3 storage class; absent for STANDARD and for other drivers */
+  storageClass?: string;
+  /** State of an S3 restore from an archive storage class */
+  restore?: { inProgress: boolean; expiresAt?: Date };
+}
+
+export interface MultipartUploadPart {
+  partNumber: number;
+  etag: string;
+  size?: number;
+  lastModified?: Date;
+}
+
+export interface ListedObject {
+  key: string;
+  size: number;
+  lastModified?: Date;
+}
+
+/**
+ * A browser form upload: the form posts the fields, then the file, to url
+ */
+export interface PresignedForm {
+  url: string;
+  fields: Record<string, string>;
+}
+
+/**
+ * Object storage used for uploads, originals and thumbnails. Presigned URLs
+ * let clients transfer files without going through the API.
+ */
+export interface StorageProvider {
+  /**
+   * Whether presigned uploads can require an x-amz-checksum-sha256 header
+   */
+  supportsChecksums(): boolean;
+
+  testConnection(): Promise<boolean>;
+
+  /**
+   * @param checksumSha256 - Base64 SHA-256 the body must match
+   * @param contentLength - Size in bytes the body must have
+   */
+  generatePresignedPutUrl(
+    key: string,
+    contentType: string,
+    expiresIn?: number,
+    metadata?: Record<string, string>,
+    checksumSha256?: string,
+    contentLength?: number,
+  ): Promise<string>;
+
+  /**
+   * Sign a form upload that only accepts the given content type and a body
+   * size within sizeRange
+   */
+  generatePresignedPost(
+    key: string,
+    contentType: string,
+    sizeRange: { min: number; max: number },
+    expiresIn?: number,
+    metadata?: Record<string, string>,
+    checksumSha256?: string,
+  ): Promise<PresignedForm>;
+
+  generatePresignedGetUrl(key: string, expiresIn?: number): Promise<string>;
+
+  /**
+   * @returns Object metadata, or null if the object does not exist
+   */
+  headObject(key: string): Promise<ObjectHead | null>;
+
+  /**
+   * @param range - Optional byte range, both ends inclusive
+   */
+  getObjectStream(
+    key: string,
+    range?: { start: number; end: number },
+  ): Promise<Readable>;
+
+  /**
+   * @param start - First byte (inclusive)
+   * @param end - Last byte (inclusive)
+   */
+  getObjectRange(key: string, start: number, end: number): Promise<Buffer>;
+
+  downloadObjectAsBuffer(key: string): Promise<Buffer>;
+
+  uploadObject(key: string, buffer: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Store a body of unknown length without holding it in memory
+   */
+  uploadStream(
+    key: string,
+    body: Readable,
+    contentType: string,
+    metadata?: Record<string, string>,
+  ): Promise<void>;
+
+  deleteObject(key: string): Promise<void>;
+
+  /**
+   * List the objects whose key starts with prefix, in key order
+   */
+  listObjects(prefix: string): AsyncIterable<ListedObject>;
+
+  /**
+   * @returns The upload ID
+   */
+  createMultipartUpload(
+    key: string,
+    contentType: string,
+    metadata?: Record<string, string>,
+  ): Promise<string>;
+
+  generatePresignedUploadPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresIn?: number,
+  ): Promise<string>;
+
+  /**
+   * Upload a single part from the server
+   * @returns ETag of the uploaded part
+   */
+  uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer,
+  ): Promise<string>;
+
+  /**
+   * @returns Uploaded parts ordered by part number
+   */
+  listParts(key: string, uploadId: string): Promise<MultipartUploadPart[]>;
+
+  /**
+   * Assemble the parts, in ascending part number order, into the object
+   */
+  completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: MultipartUploadPart[],
+  ): Promise<void>;
+
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
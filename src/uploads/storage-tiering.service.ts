@@ -0,0 +1,346 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  ConflictException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import {
+  Asset,
+  AssetTierTransition,
+  LifecycleRule,
+  Prisma,
+  TierTransitionReason,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CacheService } from 'src/common/cache/cache.service';
+import { JobsService } from 'src/jobs/jobs.service';
+import { COLD_STORAGE, ColdStorage } from './cold-storage';
+import { ObjectEncryptionService } from './object-encryption.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TransitionOutcome = 'moved' | 'skipped' | 'failed';
+
+/**
+ * Moves originals between hot and cold storage. Lifecycle rules move
+ * originals nobody has downloaded for a while to cold storage; owners move
+ * them back with a restore request. Thumbnails always stay hot.
+ *
+ * Deduplicated assets share an object, so transitions work per object key
+ * and update every asset that points at it.
+ */
+@Injectable()
+export class StorageTieringService {
+  private readonly logger = new Logger(StorageTieringService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(COLD_STORAGE) private readonly coldStorage: ColdStorage | null,
+    private readonly jobsService: JobsService,
+    private readonly cacheService: CacheService,
+    private readonly objectEncryptionService: ObjectEncryptionService,
+  ) {}
+
+  /**
+   * Move the originals matched by the enabled lifecycle rules to cold
+   * storage. Returns the number of objects moved and failed.
+   */
+  async applyLifecycleRules(
+    batchSize: number = 100,
+  ): Promise<{ moved: number; failed: number }> {
+    const result = { moved: 0, failed: 0 };
+
+    if (!this.coldStorage) {
+      return result;
+    }
+
+    const rules = await this.prisma.lifecycleRule.findMany({
+      where: { enabled: true },
+      orderBy: { daysWithoutAccess: 'asc' },
+    });
+
+    for (const rule of rules) {
+      const cutoff = new Date(Date.now() - rule.daysWithoutAccess * DAY_MS);
+      // Objects that failed or are shared with a recently used asset
+      const excludedKeys: string[] = [];
+
+      for (;;) {
+        const candidates = await this.prisma.asset.findMany({
+          where: {
+            ...this.ruleFilter(rule, cutoff),
+            objectKey: { notIn: excludedKeys },
+          },
+          select: { objectKey: true, size: true, encryptedAt: true },
+          distinct: ['objectKey'],
+          take: batchSize,
+        });
+
+        for (const candidate of candidates) {
+          const outcome = await this.moveToCold(
+            candidate.objectKey,
+            this.objectEncryptionService.storedSize(candidate),
+            rule,
+            cutoff,
+          );
+
+          if (outcome === 'moved') {
+            result.moved++;
+          } else {
+            excludedKeys.push(candidate.objectKey);
+            if (outcome === 'failed') {
+              result.failed++;
+            }
+          }
+        }
+
+        if (candidates.length < batchSize) {
+          break;
+        }
+      }
+    }
+
+    if (result.moved > 0 || result.failed > 0) {
+      this.logger.log(
+        `Lifecycle rules moved ${result.moved} objects to cold storage (${result.failed} failed)`,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Ask for a cold original to be moved back to hot storage. The move runs
+   * in the background; repeated requests are ignored.
+   */
+  async requestRestore(asset: Asset): Promise<void> {
+    if (asset.storageTier !== 'COLD') {
+      throw new ConflictException('Asset is not in cold storage');
+    }
+
+    if (!this.coldStorage) {
+      throw new ServiceUnavailableException('Cold storage is not configured');
+    }
+
+    if (asset.restoreRequestedAt) {
+      return;
+    }
+
+    await this.prisma.asset.updateMany({
+      where: { objectKey: asset.objectKey, storageTier: 'COLD' },
+      data: { restoreRequestedAt: new Date() },
+    });
+    await this.invalidateCache(asset.objectKey);
+
+    await this.jobsService.addRestoreJob(asset.objectKey);
+    this.logger.log(`Restore of ${asset.objectKey} requested`);
+  }
+
+  /**
+   * Move requested objects back to hot storage once cold storage has made
+   * them readable
+   * @param objectKey - Only check this object instead of every request
+   */
+  async completeRestores(
+    objectKey?: string,
+  ): Promise<{ restored: number; pending: number; failed: number }> {
+    const result = { restored: 0, pending: 0, failed: 0 };
+
+    if (!this.coldStorage) {
+      return result;
+    }
+
+    const requested = await this.prisma.asset.findMany({
+      where: {
+        storageTier: 'COLD',
+        restoreRequestedAt: { not: null },
+        objectKey,
+      },
+      select: { objectKey: true, size: true, encryptedAt: true },
+      distinct: ['objectKey'],
+    });
+
+    for (const { objectKey: key, ...original } of requested) {
+      try {
+        if (!(await this.coldStorage.prepareRestore(key))) {
+          result.pending++;
+          continue;
+        }
+
+        await this.coldStorage.moveToHot(
+          key,
+          this.objectEncryptionService.storedSize(original),
+        );
+        await this.recordTransition(key, 'RESTORE', null);
+        result.restored++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to restore ${key} from cold storage: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+        result.failed++;
+      }
+    }
+
+    if (result.restored > 0 || result.failed > 0) {
+      this.logger.log(
+        `Restored ${result.restored} objects from cold storage (${result.pending} pending, ${result.failed} failed)`,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Delete an original that is in cold storage
+   */
+  async deleteColdObject(objectKey: string): Promise<void> {
+    if (!this.coldStorage) {
+      throw new Error(
+        `Cannot delete ${objectKey}: cold storage is not configured`,
+      );
+    }
+    await this.coldStorage.deleteObject(objectKey);
+  }
+
+  async listTransitions(assetId: string): Promise<AssetTierTransition[]> {
+    return this.prisma.assetTierTransition.findMany({
+      where: { assetId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Hot, processed assets matched by the rule that have not been downloaded
+   * since the cutoff
+   */
+  private ruleFilter(
+    rule: LifecycleRule,
+    cutoff: Date,
+  ): Prisma.AssetWhereInput {
+    const typeConditions = rule.contentTypes
+      .filter((pattern) => pattern !== '*/*')
+      .map((pattern): Prisma.AssetWhereInput => {
+        const [type, subtype] = pattern.toLowerCase().split('/');
+        if (type === '*') {
+          return { mime: { endsWith: `/${subtype}` } };
+        }
+        if (subtype === '*') {
+          return { mime: { startsWith: `${type}/` } };
+        }
+        return { mime: pattern.toLowerCase() };
+      });
+
+    // A */* pattern matches everything, like an empty list
+    const matchesAllTypes =
+      rule.contentTypes.length === 0 || rule.contentTypes.includes('*/*');
+
+    return {
+      storageTier: 'HOT',
+      status: 'READY',
+      size: rule.minSize !== null ? { gte: rule.minSize } : undefined,
+      AND: [
+        this.idleSince(cutoff),
+        ...(matchesAllTypes ? [] : [{ OR: typeConditions }]),
+      ],
+    };
+  }
+
+  private idleSince(cutoff: Date): Prisma.AssetWhereInput {
+    return {
+      OR: [
+        { lastAccessedAt: { lt: cutoff } },
+        { lastAccessedAt: null, createdAt: { lt: cutoff } },
+      ],
+    };
+  }
+
+  private async moveToCold(
+    objectKey: string,
+    size: number,
+    rule: LifecycleRule,
+    cutoff: Date,
+  ): Promise<TransitionOutcome> {
+    // Every asset sharing the object has to be idle and processed
+    const inUse = await this.prisma.asset.count({
+      where: {
+        objectKey,
+        NOT: { AND: [{ status: 'READY' }, this.idleSince(cutoff)] },
+      },
+    });
+    if (inUse > 0) {
+      return 'skipped';
+    }
+
+    try {
+      await this.coldStorage!.moveToCold(objectKey, size);
+    } catch (error) {
+      this.logger.error(
+        `Failed to move ${objectKey} to cold storage: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+      return 'failed';
+    }
+
+    await this.recordTransition(objectKey, 'LIFECYCLE_RULE', rule.id);
+    return 'moved';
+  }
+
+  /**
+   * Switch every asset of an object to the other tier and record the
+   * transition on each of them
+   */
+  private async recordTransition(
+    objectKey: string,
+    reason: TierTransitionReason,
+    ruleId: string | null,
+  ): Promise<void> {
+    const toCold = reason === 'LIFECYCLE_RULE';
+    const now = new Date();
+
+    await this.prisma.$transaction(async (tx) => {
+      const assets = await tx.asset.findMany({
+        where: { objectKey, storageTier: toCold ? 'HOT' : 'COLD' },
+        select: { id: true },
+      });
+
+      await tx.asset.updateMany({
+        where: { id: { in: assets.map((asset) => asset.id) } },
+        data: toCold
+          ? { storageTier: 'COLD', archivedAt: now }
+          : {
+              storageTier: 'HOT',
+              archivedAt: null,
+              restoreRequestedAt: null,
+              // Restarts the idle period, so the object is not moved right back
+              lastAccessedAt: now,
+            },
+      });
+
+      await tx.assetTierTransition.createMany({
+        data: assets.map((asset) => ({
+          assetId: asset.id,
+          fromTier: toCold ? 'HOT' : 'COLD',
+          toTier: toCold ? 'COLD' : 'HOT',
+          reason,
+          target: this.coldStorage!.target,
+          ruleId,
+        })),
+      });
+    });
+
+    await this.invalidateCache(objectKey);
+  }
+
+  private async invalidateCache(objectKey: string): Promise<void> {
+    const assets = await this.prisma.asset.findMany({
+      where: { objectKey },
+      select: { id: true, ownerId: true },
+    });
+
+    for (const asset of assets) {
+      await this.cacheService.invalidateAsset(asset.id);
+      await this.cacheService.invalidateUserAssets(asset.ownerId);
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Param,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { Request as TypedRequest } from 'src/types';
+import { StorageUsageService } from './storage-usage.service';
+import { StorageUsageResponseDto } from './dto/storage-usage-response.dto';
+import { SetStorageQuotaDto } from './dto/set-storage-quota.dto';
+
+@ApiTags('Storage')
+@Controller()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class StorageUsageController {
+  constructor(private readonly storageUsageService: StorageUsageService) {}
+
+  @Get('me/usage')
+  @ApiOperation({
+    summary: 'Get my storage usage',
+    description: 'Bytes stored by the current user, counting thumbnails',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Usage retrieved successfully',
+    type: StorageUsageResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - valid JWT token required',
+  })
+  async getMyUsage(
+    @Request() req: TypedRequest,
+  ): Promise<StorageUsageResponseDto> {
+    return this.storageUsageService.getUsage(req.user.id);
+  }
+
+  @Get('users/:userId/usage')
+  @ApiOperation({ summary: "Get a user's storage usage" })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Usage retrieved successfully',
+    type: StorageUsageResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @Roles(UserRole.ADMIN)
+  async getUserUsage(
+    @Param('userId') userId: string,
+  ): Promise<StorageUsageResponseDto> {
+    return this.storageUsageService.getUsage(userId);
+  }
+
+  @Put('users/:userId/quota')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Set a user's storage quota",
+    description:
+      'Uploads that would take the user over the quota are refused. Files already stored are kept',
+  })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiBody({ type: SetStorageQuotaDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Quota updated successfully',
+    type: StorageUsageResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @Roles(UserRole.ADMIN)
+  async setQuota(
+    @Param('userId') userId: string,
+    @Body() setQuotaDto: SetStorageQuotaDto,
+    @Request() req: TypedRequest,
+  ): Promise<StorageUsageResponseDto> {
+    return this.storageUsageService.setQuota(
+      userId,
+      setQuotaDto.quotaBytes ?? null,
+      req.user.id,
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma, User } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditService } from 'src/common/services/audit.service';
+import { StorageUsageService } from './storage-usage.service';
+
+describe('StorageUsageService', () => {
+  let service: StorageUsageService;
+  let config: Record<string, string>;
+
+  const prisma = {
+    user: {
+      findUnique: jest.fn<
+        Promise<Pick<User, 'storageUsed' | 'storageQuota'> | null>,
+        []
+      >(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    asset: { aggregate: jest.fn() },
+    rendition: { aggregate: jest.fn() },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    config = {};
+    jest.clearAllMocks();
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => Promise<unknown>) => fn(prisma),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StorageUsageService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditService, useValue: { logAdminEvent: jest.fn() } },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<StorageUsageService>(StorageUsageService);
+  });
+
+  it('should refuse files that take the user over their quota', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      storageUsed: BigInt(900),
+      storageQuota: BigInt(1000),
+    });
+
+    await expect(
+      service.assertWithinQuota('user-1', 100),
+    ).resolves.toBeUndefined();
+    await expect(service.assertWithinQuota('user-1', 101)).rejects.toThrow(
+      ForbiddenException,
+    );
+    // Files accepted earlier in the same batch count too
+    await expect(service.assertWithinQuota('user-1', 60, 50)).rejects.toThrow(
+      'Storage quota exceeded: 50 bytes available, file is 60 bytes',
+    );
+  });
+
+  it('should fall back to DEFAULT_STORAGE_QUOTA', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      storageUsed: BigInt(900),
+      storageQuota: null,
+    });
+
+    await expect(service.getAvailableBytes('user-1')).resolves.toBeNull();
+    await expect(
+      service.assertWithinQuota('user-1', 10 ** 12),
+    ).resolves.toBeUndefined();
+
+    config.DEFAULT_STORAGE_QUOTA = '1000';
+    await expect(service.getAvailableBytes('user-1')).resolves.toBe(100);
+
+    // Usage over a lowered quota leaves nothing available
+    config.DEFAULT_STORAGE_QUOTA = '500';
+    await expect(service.getAvailableBytes('user-1')).resolves.toBe(0);
+  });
+
+  it('should charge and release usage', async () => {
+    const tx = prisma as unknown as Prisma.TransactionClient;
+
+    await service.adjustUsage(tx, 'user-1', -250n);
+    await service.adjustUsage(tx, 'user-1', 0);
+
+    expect(prisma.user.update).toHaveBeenCalledTimes(1);
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { storageUsed: { increment: -250n } },
+    });
+  });
+
+  it('should rebuild usage from originals, thumbnails and renditions', async () => {
+    prisma.user.findMany.mockResolvedValue([{ id: 'user-1' }]);
+    prisma.asset.aggregate.mockResolvedValue({
+      _sum: { size: BigInt(1000), thumbSize: BigInt(20) },
+    });
+    prisma.rendition.aggregate.mockResolvedValue({
+      _sum: { size: BigInt(300) },
+    });
+    prisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.recalculateUsage()).resolves.toBe(1);
+    expect(prisma.$queryRaw).toHaveBeenCalled();
+    expect(prisma.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'user-1', storageUsed: { not: BigInt(1320) } },
+      data: { storageUsed: BigInt(1320) },
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  Injectable,
+  Logger,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditService } from 'src/common/services/audit.service';
+import { StorageUsageResponseDto } from './dto/storage-usage-response.dto';
+
+/**
+ * Per-user storage accounting. Usage counts the original, thumbnail and
+ * renditions of every asset the user owns and is kept up to date in the
+ * same transactions that create, process and delete assets.
+ */
+@Injectable()
+export class StorageUsageService {
+  private readonly logger = new Logger(StorageUsageService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Add bytes to a user's usage, or release them with a negative amount.
+   * Call it after changing the assets in the same transaction.
+   */
+  async adjustUsage(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    bytes: number | bigint,
+  ): Promise<void> {
+    if (BigInt(bytes) === 0n) {
+      return;
+    }
+
+    await tx.user.update({
+      where: { id: userId },
+      data: { storageUsed: { increment: BigInt(bytes) } },
+    });
+  }
+
+  /**
+   * Refuse an upload that would take the user over their quota
+   * @param pendingBytes - Bytes accepted earlier in the same batch
+   */
+  async assertWithinQuota(
+    userId: string,
+    fileSize: number,
+    pendingBytes: number = 0,
+  ): Promise<void> {
+    const available = await this.getAvailableBytes(userId);
+
+    if (available !== null && pendingBytes + fileSize > available) {
+      throw new ForbiddenException(
+        `Storage quota exceeded: ${Math.max(available - pendingBytes, 0)} bytes available, file is ${fileSize} bytes`,
+      );
+    }
+  }
+
+  /**
+   * Bytes the user can still store, or null when their storage is unlimited
+   */
+  async getAvailableBytes(userId: string): Promise<number | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { storageUsed: true, storageQuota: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const quota = this.effectiveQuota(user.storageQuota);
+    return quota === null
+      ? null
+      : Math.max(quota - Number(user.storageUsed), 0);
+  }
+
+  async getUsage(userId: string): Promise<StorageUsageResponseDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        storageUsed: true,
+        storageQuota: true,
+        _count: { select: { assets: true } },
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const usedBytes = Number(user.storageUsed);
+    const quotaBytes = this.effectiveQuota(user.storageQuota);
+
+    return {
+      userId,
+      usedBytes,
+      quotaBytes,
+      availableBytes:
+        quotaBytes === null ? null : Math.max(quotaBytes - usedBytes, 0),
+      assetCount: user._count.assets,
+    };
+  }
+
+  /**
+   * Set a user's quota. Null falls back to DEFAULT_STORAGE_QUOTA.
+   */
+  async setQuota(
+    userId: string,
+    quotaBytes: number | null,
+    actorId: string,
+  ): Promise<StorageUsageResponseDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { storageQuota: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { storageQuota: quotaBytes },
+    });
+
+    await this.auditService.logAdminEvent(actorId, 'USER_UPDATED', userId, {
+      targetUserId: userId,
+      oldValue: { storageQuota: this.toNumber(user.storageQuota) },
+      newValue: { storageQuota: quotaBytes },
+    });
+
+    this.logger.log(
+      `Storage quota of ${userId} set to ${quotaBytes ?? 'default'} by ${actorId}`,
+    );
+
+    return this.getUsage(userId);
+  }
+
+  /**
+   * Rebuild every user's usage from the asset table, correcting any drift.
+   * Returns the number of users whose usage changed.
+   */
+  async recalculateUsage(batchSize: number = 100): Promise<number> {
+    let corrected = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const users = await this.prisma.user.findMany({
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      for (const { id } of users) {
+        const changed = await this.prisma.$transaction(async (tx) => {
+          // Asset changes take this row lock when they adjust the usage, so
+          // holding it keeps concurrent uploads out of the sum until we commit
+          await tx.$queryRaw`SELECT id FROM "public"."users" WHERE id = ${id} FOR UPDATE`;
+
+          const totals = await tx.asset.aggregate({
+            where: { ownerId: id },
+            _sum: { size: true, thumbSize: true },
+          });
+          const renditions = await tx.rendition.aggregate({
+            where: { asset: { ownerId: id } },
+            _sum: { size: true },
+          });
+          const storageUsed =
+            (totals._sum.size ?? 0n) +
+            (totals._sum.thumbSize ?? 0n) +
+            (renditions._sum.size ?? 0n);
+
+          const { count } = await tx.user.updateMany({
+            where: { id, storageUsed: { not: storageUsed } },
+            data: { storageUsed },
+          });
+          return count > 0;
+        });
+
+        if (changed) {
+          corrected++;
+        }
+      }
+
+      if (users.length < batchSize) {
+        break;
+      }
+      cursor = users[users.length - 1].id;
+    }
+
+    if (corrected > 0) {
+      this.logger.log(`Corrected storage usage of ${corrected} users`);
+    }
+    return corrected;
+  }
+
+  private effectiveQuota(storageQuota: bigint | null): number | null {
+    if (storageQuota !== null) {
+      return Number(storageQuota);
+    }
+
+    const defaultQuota = this.configService.get<string>(
+      'DEFAULT_STORAGE_QUOTA',
+    );
+    return defaultQuota ? Number(defaultQuota) : null;
+  }
+
+  private toNumber(value: bigint | null): number | null {
+    return value === null ? null : Number(value);
+  }
+}
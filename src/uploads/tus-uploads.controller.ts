@@ -0,0 +1,237 @@
+import {
+  Controller,
+  Options,
+  Post,
+  Head,
+  Patch,
+  Delete,
+  Param,
+  Headers,
+  Request,
+  Res,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+  PreconditionFailedException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { TusUpload } from '@prisma/client';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { Request as TypedRequest } from 'src/types';
+import { TusUploadsService } from './tus-uploads.service';
+import {
+  MAX_MULTIPART_UPLOAD_SIZE,
+  TUS_CONTENT_TYPE,
+  TUS_EXTENSIONS,
+  TUS_VERSION,
+} from './uploads.constants';
+
+const TUS_RESUMABLE_HEADER = {
+  name: 'Tus-Resumable',
+  description: 'tus protocol version',
+  required: true,
+  example: TUS_VERSION,
+};
+
+/**
+ * tus 1.0 resumable upload endpoint (core protocol with the creation,
+ * termination and expiration extensions)
+ */
+@ApiTags('Uploads')
+@Controller('uploads/tus')
+export class TusUploadsController {
+  constructor(private readonly tusUploadsService: TusUploadsService) {}
+
+  @Options()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'tus server capabilities',
+    description: 'Returns the supported tus versions, extensions and max size',
+  })
+  @ApiResponse({ status: 204, description: 'Capabilities in headers' })
+  getCapabilities(@Res({ passthrough: true }) res: Response): void {
+    res.setHeader('Tus-Resumable', TUS_VERSION);
+    res.setHeader('Tus-Version', TUS_VERSION);
+    res.setHeader('Tus-Extension', TUS_EXTENSIONS.join(','));
+    res.setHeader('Tus-Max-Size', MAX_MULTIPART_UPLOAD_SIZE.toString());
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create a tus upload',
+    description:
+      'Create a resumable upload. Upload-Metadata must include filename (or name) and should include filetype (or type)',
+  })
+  @ApiHeader(TUS_RESUMABLE_HEADER)
+  @ApiHeader({ name: 'Upload-Length', required: true, example: '104857600' })
+  @ApiHeader({
+    name: 'Upload-Metadata',
+    required: true,
+    example: 'filename dmlkZW8ubXA0,filetype dmlkZW8vbXA0',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Upload created, URL in the Location header',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid length or metadata' })
+  @ApiResponse({ status: 412, description: 'Unsupported tus version' })
+  async createUpload(
+    @Headers('tus-resumable') tusResumable: string | undefined,
+    @Headers('upload-length') uploadLength: string | undefined,
+    @Headers('upload-metadata') uploadMetadata: string | undefined,
+    @Request() req: TypedRequest,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    this.assertTusResumable(tusResumable, res);
+
+    if (!uploadLength || !/^\d+$/.test(uploadLength)) {
+      throw new BadRequestException(
+        'Upload-Length must be a non-negative integer (deferred length is not supported)',
+      );
+    }
+
+    const upload = await this.tusUploadsService.createUpload(
+      req.user.id,
+      Number(uploadLength),
+      uploadMetadata,
+      req.headers['user-agent'],
+    );
+
+    const basePath = req.originalUrl.split('?')[0].replace(/\/$/, '');
+    res.setHeader('Location', `${basePath}/${upload.id}`);
+    res.setHeader('Upload-Expires', upload.expiresAt.toUTCString());
+  }
+
+  @Head(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get tus upload offset',
+    description: 'Returns how many bytes were received, to resume an upload',
+  })
+  @ApiHeader(TUS_RESUMABLE_HEADER)
+  @ApiResponse({ status: 200, description: 'Offset in Upload-Offset' })
+  @ApiResponse({ status: 404, description: 'Upload not found' })
+  @ApiResponse({ status: 410, description: 'Upload has expired' })
+  async getOffset(
+    @Param('id') id: string,
+    @Headers('tus-resumable') tusResumable: string | undefined,
+    @Request() req: TypedRequest,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    this.assertTusResumable(tusResumable, res);
+
+    const upload = await this.tusUploadsService.getUpload(id, req.user.id);
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Upload-Length', upload.uploadLength.toString());
+    if (upload.metadata) {
+      res.setHeader('Upload-Metadata', upload.metadata);
+    }
+    this.setOffsetHeaders(upload, res);
+  }
+
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Upload a tus chunk',
+    description:
+      'Append the request body at Upload-Offset. The asset is created and queued for processing when the last byte arrives',
+  })
+  @ApiHeader(TUS_RESUMABLE_HEADER)
+  @ApiHeader({ name: 'Upload-Offset', required: true, example: '0' })
+  @ApiHeader({
+    name: 'Content-Type',
+    required: true,
+    example: TUS_CONTENT_TYPE,
+  })
+  @ApiResponse({ status: 204, description: 'New offset in Upload-Offset' })
+  @ApiResponse({ status: 409, description: 'Upload-Offset does not match' })
+  @ApiResponse({ status: 410, description: 'Upload has expired' })
+  @ApiResponse({ status: 415, description: 'Wrong Content-Type' })
+  async appendChunk(
+    @Param('id') id: string,
+    @Headers('tus-resumable') tusResumable: string | undefined,
+    @Headers('upload-offset') uploadOffset: string | undefined,
+    @Headers('content-type') contentType: string | undefined,
+    @Request() req: TypedRequest,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    this.assertTusResumable(tusResumable, res);
+
+    if (contentType?.split(';')[0].trim() !== TUS_CONTENT_TYPE) {
+      throw new UnsupportedMediaTypeException(
+        `Content-Type must be ${TUS_CONTENT_TYPE}`,
+      );
+    }
+
+    if (!uploadOffset || !/^\d+$/.test(uploadOffset)) {
+      throw new BadRequestException(
+        'Upload-Offset must be a non-negative integer',
+      );
+    }
+
+    const upload = await this.tusUploadsService.appendChunk(
+      id,
+      req.user.id,
+      Number(uploadOffset),
+      req,
+    );
+
+    this.setOffsetHeaders(upload, res);
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Terminate a tus upload',
+    description: 'Abort the upload and discard the received bytes',
+  })
+  @ApiHeader(TUS_RESUMABLE_HEADER)
+  @ApiResponse({ status: 204, description: 'Upload terminated' })
+  @ApiResponse({ status: 404, description: 'Upload not found' })
+  async terminateUpload(
+    @Param('id') id: string,
+    @Headers('tus-resumable') tusResumable: string | undefined,
+    @Request() req: TypedRequest,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    this.assertTusResumable(tusResumable, res);
+    await this.tusUploadsService.terminateUpload(id, req.user.id);
+  }
+
+  private assertTusResumable(version: string | undefined, res: Response) {
+    res.setHeader('Tus-Resumable', TUS_VERSION);
+
+    if (version !== TUS_VERSION) {
+      res.setHeader('Tus-Version', TUS_VERSION);
+      throw new PreconditionFailedException(
+        `Unsupported tus version, expected Tus-Resumable: ${TUS_VERSION}`,
+      );
+    }
+  }
+
+  private setOffsetHeaders(upload: TusUpload, res: Response) {
+    res.setHeader('Upload-Offset', upload.uploadOffset.toString());
+    if (!upload.completedAt) {
+      res.setHeader('Upload-Expires', upload.expiresAt.toUTCString());
+    }
+  }
+}
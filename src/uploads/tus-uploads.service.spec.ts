@@ -0,0 +1,191 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TusUpload } from '@prisma/client';
+import { Readable } from 'stream';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { STORAGE_PROVIDER } from './storage-provider';
+import { TusUploadsService } from './tus-uploads.service';
+import { UploadIntentsService } from './upload-intents.service';
+import { UploadsService } from './uploads.service';
+
+describe('TusUploadsService', () => {
+  let service: TusUploadsService;
+  let stored: Map<string, Buffer>;
+
+  const prisma = {
+    tusUpload: {
+      findUnique: jest.fn<Promise<TusUpload | null>, []>(),
+      updateMany: jest.fn<Promise<{ count: number }>, []>(),
+      update: jest.fn(
+        (args: { data: Partial<TusUpload> }): Promise<Partial<TusUpload>> =>
+          Promise.resolve(args.data),
+      ),
+    },
+  };
+  const storage = {
+    downloadObjectAsBuffer: jest.fn((key: string) =>
+      Promise.resolve(stored.get(key)!),
+    ),
+    uploadObject: jest.fn((key: string, body: Buffer) => {
+      stored.set(key, body);
+      return Promise.resolve();
+    }),
+    deleteObject: jest.fn((key: string) => {
+      stored.delete(key);
+      return Promise.resolve();
+    }),
+    uploadPart: jest.fn(
+      (_key: string, _uploadId: string, partNumber: number, body: Buffer) =>
+        Promise.resolve(`"etag-${partNumber}-${body.toString()}"`),
+    ),
+  };
+  const uploadsService = {
+    completeMultipartUpload: jest.fn(() =>
+      Promise.resolve({ assetId: 'asset-1' }),
+    ),
+  };
+  const uploadIntentsService = { markUploading: jest.fn() };
+
+  const createUpload = (overrides: Partial<TusUpload> = {}): TusUpload => ({
+    id: 'tus-1',
+    userId: 'user-1',
+    objectKey: 'uploads/asset-1-notes.txt',
+    uploadId: 'multipart-1',
+    filename: 'notes.txt',
+    contentType: 'text/plain',
+    uploadLength: BigInt(12),
+    uploadOffset: BigInt(0),
+    partSize: 5,
+    parts: [],
+    pendingSize: 0,
+    metadata: null,
+    assetId: null,
+    expiresAt: new Date(Date.now() + 3600 * 1000),
+    completedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const chunk = (...parts: string[]) =>
+    Readable.from(parts.map((part) => Buffer.from(part)));
+
+  beforeEach(async () => {
+    stored = new Map();
+    jest.clearAllMocks();
+    prisma.tusUpload.updateMany.mockResolvedValue({ count: 1 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TusUploadsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: STORAGE_PROVIDER, useValue: storage },
+        { provide: UploadsService, useValue: uploadsService },
+        { provide: UploadIntentsService, useValue: uploadIntentsService },
+      ],
+    }).compile();
+
+    service = module.get<TusUploadsService>(TusUploadsService);
+  });
+
+  it('should refuse chunks at the wrong offset', async () => {
+    prisma.tusUpload.findUnique.mockResolvedValue(
+      createUpload({ uploadOffset: BigInt(5) }),
+    );
+
+    await expect(
+      service.appendChunk('tus-1', 'user-1', 0, chunk('hello')),
+    ).rejects.toThrow(ConflictException);
+    expect(storage.uploadPart).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a chunk that lost a race with another request', async () => {
+    prisma.tusUpload.findUnique.mockResolvedValue(createUpload());
+    prisma.tusUpload.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.appendChunk('tus-1', 'user-1', 0, chunk('hel')),
+    ).rejects.toThrow('Upload was modified by another request');
+  });
+
+  it('should refuse chunks past the Upload-Length', async () => {
+    prisma.tusUpload.findUnique.mockResolvedValue(createUpload());
+
+    await expect(
+      service.appendChunk('tus-1', 'user-1', 0, chunk('hello world!!')),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should upload full parts and keep the tail pending', async () => {
+    prisma.tusUpload.findUnique.mockResolvedValue(createUpload());
+
+    const result = await service.appendChunk(
+      'tus-1',
+      'user-1',
+      0,
+      chunk('hel', 'lo w'),
+    );
+
+    expect(result.uploadOffset).toBe(BigInt(7));
+    expect(storage.uploadPart).toHaveBeenCalledTimes(1);
+    expect(stored.get('uploads/asset-1-notes.txt.part')?.toString()).toBe(' w');
+    expect(prisma.tusUpload.updateMany).toHaveBeenCalledWith({
+      where: { id: 'tus-1', uploadOffset: BigInt(0) },
+      data: {
+        uploadOffset: 7,
+        parts: [{ partNumber: 1, etag: '"etag-1-hello"', size: 5 }],
+        pendingSize: 2,
+      },
+    });
+    expect(uploadIntentsService.markUploading).toHaveBeenCalledWith(
+      'uploads/asset-1-notes.txt',
+    );
+  });
+
+  it('should finish with the pending tail and the last chunk', async () => {
+    stored.set('uploads/asset-1-notes.txt.part', Buffer.from(' w'));
+    prisma.tusUpload.findUnique.mockResolvedValue(
+      createUpload({
+        uploadOffset: BigInt(7),
+        parts: [{ partNumber: 1, etag: '"etag-1-hello"', size: 5 }],
+        pendingSize: 2,
+      }),
+    );
+
+    const result = await service.appendChunk(
+      'tus-1',
+      'user-1',
+      7,
+      chunk('orld!'),
+    );
+
+    expect(uploadsService.completeMultipartUpload).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fileSize: 12,
+        parts: [
+          { partNumber: 1, etag: '"etag-1-hello"' },
+          { partNumber: 2, etag: '"etag-2- worl"' },
+          { partNumber: 3, etag: '"etag-3-d!"' },
+        ],
+      }),
+      'user-1',
+    );
+    expect(stored.has('uploads/asset-1-notes.txt.part')).toBe(false);
+    expect(result).toMatchObject({
+      uploadOffset: BigInt(12),
+      pendingSize: 0,
+      assetId: 'asset-1',
+    });
+    expect(result.completedAt).toBeInstanceOf(Date);
+  });
+
+  it('should refuse chunks for finished uploads', async () => {
+    prisma.tusUpload.findUnique.mockResolvedValue(
+      createUpload({ uploadOffset: BigInt(12), completedAt: new Date() }),
+    );
+
+    await expect(
+      service.appendChunk('tus-1', 'user-1', 12, chunk('')),
+    ).rejects.toThrow('Upload has already been completed');
+  });
+});
@@ -0,0 +1,374 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  GoneException,
+  HttpException,
+  NotFoundException,
+  Inject,
+} from '@nestjs/common';
+import { Prisma, TusUpload } from '@prisma/client';
+import { Readable } from 'stream';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { STORAGE_PROVIDER, StorageProvider } from './storage-provider';
+import { UploadsService } from './uploads.service';
+import { UploadIntentsService } from './upload-intents.service';
+import { UPLOAD_INTENT_TTL } from './uploads.constants';
+
+// Stored in the parts column, hence a JSON object
+interface TusPart extends Prisma.JsonObject {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+@Injectable()
+export class TusUploadsService {
+  private readonly logger = new Logger(TusUploadsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(STORAGE_PROVIDER) private readonly storage: StorageProvider,
+    private readonly uploadsService: UploadsService,
+    private readonly uploadIntentsService: UploadIntentsService,
+  ) {}
+
+  /**
+   * Create a tus upload backed by an S3 multipart upload
+   * @param uploadLength - Value of the Upload-Length header
+   * @param metadataHeader - Raw Upload-Metadata header
+   * @param client - User-Agent of the request, for abandonment stats
+   */
+  async createUpload(
+    userId: string,
+    uploadLength: number,
+    metadataHeader?: string,
+    client?: string,
+  ): Promise<TusUpload> {
+    const metadata = this.parseMetadata(metadataHeader);
+    const filename = metadata.filename ?? metadata.name;
+    const contentType =
+      metadata.filetype ?? metadata.type ?? 'application/octet-stream';
+
+    if (!filename) {
+      throw new BadRequestException(
+        'Upload-Metadata must include a filename or name',
+      );
+    }
+
+    // Validation, the upload intent and the audit event are shared with
+    // regular multipart uploads
+    const { objectKey, uploadId, partSize } =
+      await this.uploadsService.initiateMultipartUpload(
+        { filename, contentType, fileSize: uploadLength },
+        userId,
+        client,
+      );
+
+    const upload = await this.prisma.tusUpload.create({
+      data: {
+        userId,
+        objectKey,
+        uploadId,
+        filename,
+        contentType,
+        uploadLength,
+        partSize,
+        metadata: metadataHeader,
+        expiresAt: new Date(Date.now() + UPLOAD_INTENT_TTL * 1000),
+      },
+    });
+
+    this.logger.log(
+      `Created tus upload ${upload.id} for ${filename} -> ${objectKey}`,
+    );
+    return upload;
+  }
+
+  /**
+   * Find a tus upload owned by the user that has not expired
+   */
+  async getUpload(id: string, userId: string): Promise<TusUpload> {
+    const upload = await this.prisma.tusUpload.findUnique({ where: { id } });
+
+    if (!upload) {
+      throw new NotFoundException('Upload not found');
+    }
+
+    if (upload.userId !== userId) {
+      throw new ForbiddenException('Upload was started by another user');
+    }
+
+    if (!upload.completedAt && upload.expiresAt <= new Date()) {
+      throw new GoneException('Upload has expired');
+    }
+
+    return upload;
+  }
+
+  /**
+   * Append a PATCH body at the given offset. Bytes are cut into S3 parts of
+   * the upload's part size; a shorter tail is kept in a pending object until
+   * the next chunk arrives. Finishing the upload creates the asset.
+   */
+  async appendChunk(
+    id: string,
+    userId: string,
+    offset: number,
+    body: Readable,
+  ): Promise<TusUpload> {
+    const upload = await this.getUpload(id, userId);
+    const currentOffset = Number(upload.uploadOffset);
+    const uploadLength = Number(upload.uploadLength);
+
+    if (upload.completedAt) {
+      throw new ConflictException('Upload has already been completed');
+    }
+
+    if (offset !== currentOffset) {
+      throw new ConflictException(
+        `Upload-Offset ${offset} does not match the current offset ${currentOffset}`,
+      );
+    }
+
+    const parts = this.toParts(upload.parts);
+    let buffered: Buffer[] = [];
+    let bufferedSize = 0;
+
+    if (upload.pendingSize > 0) {
+      const pending = await this.storage.downloadObjectAsBuffer(
+        this.pendingKey(upload),
+      );
+      buffered = [pending];
+      bufferedSize = pending.length;
+    }
+
+    const flushPart = async (size: number) => {
+      const data = Buffer.concat(buffered, bufferedSize);
+      const partNumber = parts.length + 1;
+      const etag = await this.storage.uploadPart(
+        upload.objectKey,
+        upload.uploadId,
+        partNumber,
+        data.subarray(0, size),
+      );
+      parts.push({ partNumber, etag, size });
+
+      const rest = data.subarray(size);
+      buffered = rest.length > 0 ? [rest] : [];
+      bufferedSize = rest.length;
+    };
+
+    let received = 0;
+    try {
+      for await (const chunk of body as AsyncIterable<Buffer>) {
+        if (currentOffset + received + chunk.length > uploadLength) {
+          throw new BadRequestException('Chunk exceeds the Upload-Length');
+        }
+
+        buffered.push(chunk);
+        bufferedSize += chunk.length;
+        received += chunk.length;
+
+        while (bufferedSize >= upload.partSize) {
+          await flushPart(upload.partSize);
+        }
+      }
+    } catch (error) {
+      // Keep what arrived before the client disconnected so it can resume
+      if (error instanceof HttpException || !body.destroyed) {
+        throw error;
+      }
+      this.logger.warn(
+        `Tus upload ${id} interrupted after ${received} bytes of this chunk`,
+      );
+    }
+
+    const newOffset = currentOffset + received;
+
+    if (newOffset === uploadLength) {
+      return this.finishUpload(upload, parts, buffered, bufferedSize, userId);
+    }
+
+    // Keep the tail below the part size until the next chunk
+    if (bufferedSize > 0) {
+      await this.storage.uploadObject(
+        this.pendingKey(upload),
+        Buffer.concat(buffered, bufferedSize),
+        'application/octet-stream',
+      );
+    } else if (upload.pendingSize > 0) {
+      await this.storage.deleteObject(this.pendingKey(upload));
+    }
+
+    const { count } = await this.prisma.tusUpload.updateMany({
+      where: { id, uploadOffset: upload.uploadOffset },
+      data: {
+        uploadOffset: newOffset,
+        parts,
+        pendingSize: bufferedSize,
+      },
+    });
+
+    if (count === 0) {
+      throw new ConflictException('Upload was modified by another request');
+    }
+
+    if (received > 0) {
+      await this.uploadIntentsService.markUploading(upload.objectKey);
+    }
+
+    return { ...upload, uploadOffset: BigInt(newOffset) };
+  }
+
+  /**
+   * Terminate an upload, discarding its parts. Terminating a finished upload
+   * only forgets it; the asset is kept.
+   */
+  async terminateUpload(id: string, userId: string): Promise<void> {
+    const upload = await this.getUpload(id, userId);
+
+    if (!upload.completedAt) {
+      await this.uploadsService.abortMultipartUpload(
+        { objectKey: upload.objectKey, uploadId: upload.uploadId },
+        userId,
+      );
+
+      if (upload.pendingSize > 0) {
+        await this.storage.deleteObject(this.pendingKey(upload));
+      }
+    }
+
+    await this.prisma.tusUpload.delete({ where: { id } });
+    this.logger.log(`Terminated tus upload ${id}`);
+  }
+
+  /**
+   * Remove expired tus uploads and their pending tails. The multipart upload
+   * itself is cleaned up with its upload intent.
+   */
+  async sweepExpiredUploads(batchSize: number = 100): Promise<number> {
+    let removed = 0;
+
+    for (;;) {
+      const uploads = await this.prisma.tusUpload.findMany({
+        where: { expiresAt: { lt: new Date() } },
+        orderBy: { expiresAt: 'asc' },
+        take: batchSize,
+      });
+
+      for (const upload of uploads) {
+        if (!upload.completedAt && upload.pendingSize > 0) {
+          try {
+            await this.storage.deleteObject(this.pendingKey(upload));
+          } catch (error) {
+            this.logger.warn(
+              `Failed to delete pending data for tus upload ${upload.id}:`,
+              error,
+            );
+          }
+        }
+
+        await this.prisma.tusUpload.delete({ where: { id: upload.id } });
+        removed++;
+      }
+
+      if (uploads.length < batchSize) {
+        break;
+      }
+    }
+
+    if (removed > 0) {
+      this.logger.log(`Swept ${removed} expired tus uploads`);
+    }
+    return removed;
+  }
+
+  private async finishUpload(
+    upload: TusUpload,
+    parts: TusPart[],
+    buffered: Buffer[],
+    bufferedSize: number,
+    userId: string,
+  ): Promise<TusUpload> {
+    if (bufferedSize > 0) {
+      // The last part may be smaller than the S3 minimum
+      const partNumber = parts.length + 1;
+      const etag = await this.storage.uploadPart(
+        upload.objectKey,
+        upload.uploadId,
+        partNumber,
+        Buffer.concat(buffered, bufferedSize),
+      );
+      parts.push({ partNumber, etag, size: bufferedSize });
+    }
+
+    const asset = await this.uploadsService.completeMultipartUpload(
+      {
+        objectKey: upload.objectKey,
+        uploadId: upload.uploadId,
+        filename: upload.filename,
+        contentType: upload.contentType,
+        fileSize: Number(upload.uploadLength),
+        parts: parts.map(({ partNumber, etag }) => ({ partNumber, etag })),
+      },
+      userId,
+    );
+
+    if (upload.pendingSize > 0) {
+      await this.storage.deleteObject(this.pendingKey(upload));
+    }
+
+    this.logger.log(
+      `Tus upload ${upload.id} finished as asset ${asset.assetId}`,
+    );
+
+    return this.prisma.tusUpload.update({
+      where: { id: upload.id },
+      data: {
+        uploadOffset: upload.uploadLength,
+        parts,
+        pendingSize: 0,
+        assetId: asset.assetId,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Parse "key base64value,key2 base64value2" into a plain object
+   */
+  private parseMetadata(header?: string): Record<string, string> {
+    const metadata: Record<string, string> = {};
+
+    for (const pair of (header ?? '').split(',')) {
+      const [key, value] = pair.trim().split(' ');
+      if (key) {
+        metadata[key] = value ? Buffer.from(value, 'base64').toString() : '';
+      }
+    }
+
+    return metadata;
+  }
+
+  private toParts(parts: Prisma.JsonValue): TusPart[] {
+    return Array.isArray(parts) ? parts.filter(isTusPart) : [];
+  }
+
+  private pendingKey(upload: TusUpload): string {
+    return `${upload.objectKey}.part`;
+  }
+}
+
+function isTusPart(value: Prisma.JsonValue): value is TusPart {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    typeof value.partNumber === 'number' &&
+    typeof value.etag === 'string' &&
+    typeof value.size === 'number'
+  );
+}
@@ -0,0 +1,173 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma, UploadIntent } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditService } from 'src/common/services/audit.service';
+import { STORAGE_PROVIDER } from './storage-provider';
+import { UploadIntentsService } from './upload-intents.service';
+
+describe('UploadIntentsService', () => {
+  let service: UploadIntentsService;
+
+  const prisma = {
+    uploadIntent: {
+      create: jest.fn(
+        (args: {
+          data: Partial<UploadIntent>;
+        }): Promise<Partial<UploadIntent>> =>
+          Promise.resolve({ id: 'intent-1', ...args.data }),
+      ),
+      findUnique: jest.fn<Promise<UploadIntent | null>, []>(),
+      updateMany: jest.fn<Promise<{ count: number }>, []>(),
+    },
+  };
+
+  const createIntent = (
+    overrides: Partial<UploadIntent> = {},
+  ): UploadIntent => ({
+    id: 'intent-1',
+    userId: 'user-1',
+    objectKey: 'users/user-1/asset-1-photo.jpg',
+    assetId: 'asset-1',
+    uploadId: null,
+    filename: 'photo.jpg',
+    contentType: 'image/jpeg',
+    fileSize: BigInt(1024),
+    sha256Hash: null,
+    state: 'PRESIGNED',
+    client: null,
+    expiresAt: new Date(Date.now() + 3600 * 1000),
+    consumedAt: null,
+    abandonedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UploadIntentsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: STORAGE_PROVIDER, useValue: {} },
+        { provide: AuditService, useValue: { logFileEvent: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<UploadIntentsService>(UploadIntentsService);
+  });
+
+  it('should bind the object key to the user with the key date', async () => {
+    const createdAt = new Date('2024-03-01T23:30:00Z');
+
+    await service.createIntent(
+      {
+        userId: 'user-1',
+        objectKey: 'users/user-1/asset-1-photo.jpg',
+        assetId: 'asset-1',
+        filename: 'photo.jpg',
+        contentType: 'image/jpeg',
+        fileSize: 1024,
+        sha256Hash: 'ABCDEF',
+        client: 'x'.repeat(300),
+        createdAt,
+      },
+      60,
+    );
+
+    const { data } = prisma.uploadIntent.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      userId: 'user-1',
+      objectKey: 'users/user-1/asset-1-photo.jpg',
+      assetId: 'asset-1',
+      sha256Hash: 'abcdef',
+      createdAt,
+    });
+    expect(data.client).toHaveLength(255);
+    expect(data.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should return the open intent of the user', async () => {
+    prisma.uploadIntent.findUnique.mockResolvedValue(createIntent());
+
+    await expect(
+      service.getActiveIntent('users/user-1/asset-1-photo.jpg', 'user-1'),
+    ).resolves.toMatchObject({ id: 'intent-1' });
+  });
+
+  it('should refuse object keys that were never presigned', async () => {
+    prisma.uploadIntent.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.getActiveIntent('users/user-1/unknown.jpg', 'user-1'),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should refuse intents issued to another user', async () => {
+    prisma.uploadIntent.findUnique.mockResolvedValue(createIntent());
+
+    await expect(
+      service.getActiveIntent('users/user-1/asset-1-photo.jpg', 'user-2'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should refuse a multipart upload ID other than the presigned one', async () => {
+    prisma.uploadIntent.findUnique.mockResolvedValue(
+      createIntent({ uploadId: 'multipart-1' }),
+    );
+
+    await expect(
+      service.getActiveIntent(
+        'users/user-1/asset-1-photo.jpg',
+        'user-1',
+        'multipart-2',
+      ),
+    ).rejects.toThrow('Upload ID does not match this upload');
+  });
+
+  it('should refuse consumed intents', async () => {
+    prisma.uploadIntent.findUnique.mockResolvedValue(
+      createIntent({ consumedAt: new Date(), state: 'COMPLETED' }),
+    );
+
+    await expect(
+      service.getActiveIntent('users/user-1/asset-1-photo.jpg', 'user-1'),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('should refuse expired and abandoned intents', async () => {
+    for (const intent of [
+      createIntent({ expiresAt: new Date(Date.now() - 1000) }),
+      createIntent({ abandonedAt: new Date(), state: 'ABANDONED' }),
+    ]) {
+      prisma.uploadIntent.findUnique.mockResolvedValue(intent);
+
+      await expect(
+        service.getActiveIntent('users/user-1/asset-1-photo.jpg', 'user-1'),
+      ).rejects.toThrow('Upload has expired');
+    }
+  });
+
+  it('should consume an intent only once', async () => {
+    const tx = prisma as unknown as Prisma.TransactionClient;
+    prisma.uploadIntent.updateMany.mockResolvedValueOnce({ count: 1 });
+    prisma.uploadIntent.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(
+      service.consumeIntent(tx, 'intent-1'),
+    ).resolves.toBeUndefined();
+    await expect(service.consumeIntent(tx, 'intent-1')).rejects.toThrow(
+      ConflictException,
+    );
+    expect(prisma.uploadIntent.updateMany).toHaveBeenCalledWith({
+      where: { id: 'intent-1', consumedAt: null },
+      data: { consumedAt: expect.any(Date) as Date, state: 'COMPLETED' },
+    });
+  });
+});
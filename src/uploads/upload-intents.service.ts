@@ -0,0 +1,415 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  Inject,
+} from '@nestjs/common';
+import { Prisma, UploadIntent, UploadState } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditService } from 'src/common/services/audit.service';
+import { STORAGE_PROVIDER, StorageProvider } from './storage-provider';
+import {
+  UPLOAD_INTENT_TTL,
+  UPLOAD_SESSION_RETENTION,
+} from './uploads.constants';
+import { UploadStatusResponseDto } from './dto/upload-status-response.dto';
+import {
+  AbandonmentStatsResponseDto,
+  ClientAbandonmentStatsDto,
+} from './dto/abandonment-stats-response.dto';
+
+export interface CreateUploadIntentData {
+  userId: string;
+  objectKey: string;
+  // ID the asset is created with, which the object key may contain
+  assetId: string;
+  filename: string;
+  contentType: string;
+  fileSize: number;
+  sha256Hash?: string;
+  uploadId?: string;
+  // User-Agent of the presign request, for abandonment stats
+  client?: string;
+  // Date the object key was rendered from
+  createdAt?: Date;
+}
+
+// States of uploads that have neither completed nor been abandoned
+const OPEN_UPLOAD_STATES: UploadState[] = [
+  'PRESIGNED',
+  'UPLOADING',
+  'UPLOADED',
+];
+
+// Longest client string kept, User-Agents can be arbitrarily long
+const MAX_CLIENT_LENGTH = 255;
+
+/**
+ * Upload intents bind a presigned object key to the user it was issued to,
+ * and double as the upload session: their state follows the upload from
+ * presign to completion or abandonment. Finished intents are kept for
+ * UPLOAD_SESSION_RETENTION so their status and abandonment stats stay
+ * available.
+ */
+@Injectable()
+export class UploadIntentsService {
+  private readonly logger = new Logger(UploadIntentsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(STORAGE_PROVIDER) private readonly storage: StorageProvider,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Record that a user was handed upload credentials for an object key
+   */
+  async createIntent(
+    data: CreateUploadIntentData,
+    ttlSeconds: number = UPLOAD_INTENT_TTL,
+  ): Promise<UploadIntent> {
+    const intent = await this.prisma.uploadIntent.create({
+      data: {
+        userId: data.userId,
+        objectKey: data.objectKey,
+        assetId: data.assetId,
+        uploadId: data.uploadId,
+        filename: data.filename,
+        contentType: data.contentType,
+        fileSize: data.fileSize,
+        sha256Hash: data.sha256Hash?.toLowerCase(),
+        client: data.client?.slice(0, MAX_CLIENT_LENGTH),
+        expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+        createdAt: data.createdAt,
+      },
+    });
+
+    this.logger.debug(
+      `Upload intent ${intent.id} created for ${data.objectKey} by ${data.userId}`,
+    );
+    return intent;
+  }
+
+  /**
+   * Find the open intent for an object key, making sure it belongs to the user
+   * and has neither expired nor been consumed
+   */
+  async getActiveIntent(
+    objectKey: string,
+    userId: string,
+    uploadId?: string,
+  ): Promise<UploadIntent> {
+    const intent = await this.prisma.uploadIntent.findUnique({
+      where: { objectKey },
+    });
+
+    if (!intent) {
+      throw new BadRequestException(
+        `No upload was started for object key ${objectKey}`,
+      );
+    }
+
+    if (intent.userId !== userId) {
+      throw new ForbiddenException('Upload was started by another user');
+    }
+
+    if (uploadId !== undefined && intent.uploadId !== uploadId) {
+      throw new BadRequestException('Upload ID does not match this upload');
+    }
+
+    if (intent.consumedAt) {
+      throw new ConflictException('Upload has already been completed');
+    }
+
+    if (intent.abandonedAt || intent.expiresAt <= new Date()) {
+      throw new BadRequestException('Upload has expired');
+    }
+
+    return intent;
+  }
+
+  /**
+   * Mark an intent as consumed. Runs inside the caller's transaction so the
+   * asset is only created if this request is the one that consumed it.
+   */
+  async consumeIntent(
+    tx: Prisma.TransactionClient,
+    intentId: string,
+  ): Promise<void> {
+    const { count } = await tx.uploadIntent.updateMany({
+      where: { id: intentId, consumedAt: null },
+      data: { consumedAt: new Date(), state: 'COMPLETED' },
+    });
+
+    if (count === 0) {
+      throw new ConflictException('Upload has already been completed');
+    }
+  }
+
+  /**
+   * Record that storage has started receiving the upload
+   */
+  async markUploading(objectKey: string): Promise<void> {
+    await this.prisma.uploadIntent.updateMany({
+      where: { objectKey, state: 'PRESIGNED' },
+      data: { state: 'UPLOADING' },
+    });
+  }
+
+  /**
+   * Record that the whole file is in storage
+   */
+  async markUploaded(objectKey: string): Promise<void> {
+    await this.prisma.uploadIntent.updateMany({
+      where: { objectKey, state: { in: ['PRESIGNED', 'UPLOADING'] } },
+      data: { state: 'UPLOADED' },
+    });
+  }
+
+  /**
+   * Mark an upload the client gave up on as abandoned
+   */
+  async abandonIntent(intent: UploadIntent): Promise<void> {
+    await this.abandon(intent, 'aborted');
+  }
+
+  /**
+   * Current state of an upload. Storage is checked for uploads that have not
+   * been seen arriving yet, since clients upload to it directly.
+   */
+  async getUploadStatus(
+    objectKey: string,
+    userId: string,
+  ): Promise<UploadStatusResponseDto> {
+    let intent = await this.prisma.uploadIntent.findUnique({
+      where: { objectKey },
+    });
+
+    if (!intent) {
+      throw new NotFoundException(`No upload was started for ${objectKey}`);
+    }
+
+    if (intent.userId !== userId) {
+      throw new ForbiddenException('Upload was started by another user');
+    }
+
+    if (
+      (intent.state === 'PRESIGNED' || intent.state === 'UPLOADING') &&
+      intent.expiresAt > new Date()
+    ) {
+      const state = await this.probeState(intent);
+      if (state !== intent.state) {
+        intent = await this.prisma.uploadIntent.update({
+          where: { id: intent.id },
+          data: { state },
+        });
+      }
+    }
+
+    return {
+      objectKey: intent.objectKey,
+      state: intent.state,
+      filename: intent.filename,
+      contentType: intent.contentType,
+      fileSize: Number(intent.fileSize),
+      multipart: intent.uploadId !== null,
+      assetId:
+        intent.state === 'COMPLETED'
+          ? (intent.assetId ?? undefined)
+          : undefined,
+      presignedAt: intent.createdAt.toISOString(),
+      expiresAt: intent.expiresAt.toISOString(),
+      completedAt: intent.consumedAt?.toISOString(),
+      abandonedAt: intent.abandonedAt?.toISOString(),
+    };
+  }
+
+  /**
+   * Mark intents that expired without being completed as abandoned, removing
+   * what they left in storage, and drop finished intents past their
+   * retention
+   */
+  async sweepExpiredIntents(
+    batchSize: number = 100,
+  ): Promise<{ abandoned: number; removed: number }> {
+    let abandoned = 0;
+    // Intents whose objects could not be deleted are kept for the next sweep
+    const failedIds: string[] = [];
+
+    for (;;) {
+      const intents = await this.prisma.uploadIntent.findMany({
+        where: {
+          expiresAt: { lt: new Date() },
+          state: { in: OPEN_UPLOAD_STATES },
+          id: { notIn: failedIds },
+        },
+        orderBy: { expiresAt: 'asc' },
+        take: batchSize,
+      });
+
+      for (const intent of intents) {
+        // How far the upload got is only known before its data is removed
+        const state = await this.probeState(intent);
+        if (!(await this.removeLeftoverObjects(intent))) {
+          failedIds.push(intent.id);
+          continue;
+        }
+
+        if (await this.abandon({ ...intent, state }, 'expired')) {
+          abandoned++;
+        }
+      }
+
+      if (intents.length < batchSize) {
+        break;
+      }
+    }
+
+    const { count: removed } = await this.prisma.uploadIntent.deleteMany({
+      where: {
+        state: { in: ['COMPLETED', 'ABANDONED'] },
+        createdAt: {
+          lt: new Date(Date.now() - UPLOAD_SESSION_RETENTION * 1000),
+        },
+      },
+    });
+
+    if (abandoned > 0 || removed > 0) {
+      this.logger.log(
+        `Marked ${abandoned} expired uploads as abandoned, removed ${removed} finished upload intents`,
+      );
+    }
+    return { abandoned, removed };
+  }
+
+  /**
+   * Started, completed and abandoned uploads per client since a date
+   */
+  async getAbandonmentStats(since: Date): Promise<AbandonmentStatsResponseDto> {
+    const groups = await this.prisma.uploadIntent.groupBy({
+      by: ['client', 'state'],
+      where: { createdAt: { gte: since } },
+      _count: { _all: true },
+    });
+
+    const byClient = new Map<string, ClientAbandonmentStatsDto>();
+    for (const group of groups) {
+      const client = group.client ?? 'unknown';
+      let stats = byClient.get(client);
+      if (!stats) {
+        stats = {
+          client,
+          started: 0,
+          completed: 0,
+          abandoned: 0,
+          inProgress: 0,
+          abandonmentRate: null,
+        };
+        byClient.set(client, stats);
+      }
+
+      const count = group._count._all;
+      stats.started += count;
+      if (group.state === 'COMPLETED') {
+        stats.completed += count;
+      } else if (group.state === 'ABANDONED') {
+        stats.abandoned += count;
+      } else {
+        stats.inProgress += count;
+      }
+    }
+
+    const clients = [...byClient.values()];
+    for (const stats of clients) {
+      const finished = stats.completed + stats.abandoned;
+      stats.abandonmentRate =
+        finished > 0 ? Number((stats.abandoned / finished).toFixed(3)) : null;
+    }
+    clients.sort((a, b) => b.started - a.started);
+
+    return { since: since.toISOString(), clients };
+  }
+
+  /**
+   * Mark an open intent as abandoned and audit it with the state it reached.
+   * Returns false when it was completed or abandoned meanwhile.
+   */
+  private async abandon(
+    intent: UploadIntent,
+    reason: 'aborted' | 'expired',
+  ): Promise<boolean> {
+    const { count } = await this.prisma.uploadIntent.updateMany({
+      where: { id: intent.id, state: { in: OPEN_UPLOAD_STATES } },
+      data: { state: 'ABANDONED', abandonedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await this.auditService.logFileEvent(
+      intent.userId,
+      'UPLOAD_FAILED',
+      intent.objectKey,
+      {
+        objectKey: intent.objectKey,
+        filename: intent.filename,
+        fileSize: Number(intent.fileSize),
+        reason,
+        lastState: intent.state,
+        client: intent.client ?? undefined,
+      },
+    );
+    return true;
+  }
+
+  /**
+   * How far an open upload has got, judging by what storage holds
+   */
+  private async probeState(intent: UploadIntent): Promise<UploadState> {
+    try {
+      if (intent.uploadId) {
+        const parts = await this.storage.listParts(
+          intent.objectKey,
+          intent.uploadId,
+        );
+        return parts.length > 0 && intent.state === 'PRESIGNED'
+          ? 'UPLOADING'
+          : intent.state;
+      }
+
+      const head = await this.storage.headObject(intent.objectKey);
+      return head ? 'UPLOADED' : intent.state;
+    } catch {
+      // The multipart upload may already be completed or aborted
+      return intent.state;
+    }
+  }
+
+  private async removeLeftoverObjects(intent: UploadIntent): Promise<boolean> {
+    if (intent.uploadId) {
+      try {
+        await this.storage.abortMultipartUpload(
+          intent.objectKey,
+          intent.uploadId,
+        );
+      } catch {
+        // The multipart upload may already be completed or aborted
+      }
+    }
+
+    try {
+      await this.storage.deleteObject(intent.objectKey);
+      return true;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to delete leftover object ${intent.objectKey}:`,
+        error,
+      );
+      return false;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { Request as TypedRequest } from 'src/types';
+import { UploadPoliciesService } from './upload-policies.service';
+import { CreateUploadPolicyDto } from './dto/create-upload-policy.dto';
+import { UpdateUploadPolicyDto } from './dto/update-upload-policy.dto';
+import { UploadPolicyResponseDto } from './dto/upload-policy-response.dto';
+
+@ApiTags('Upload Policies')
+@Controller('upload-policies')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class UploadPoliciesController {
+  constructor(private readonly uploadPoliciesService: UploadPoliciesService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List upload policies',
+    description:
+      'A user gets their own policy if one exists, otherwise the policy for their role, otherwise the built-in defaults',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Policies retrieved successfully',
+    type: [UploadPolicyResponseDto],
+  })
+  @Roles(UserRole.ADMIN)
+  async listPolicies(): Promise<UploadPolicyResponseDto[]> {
+    return this.uploadPoliciesService.listPolicies();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an upload policy' })
+  @ApiParam({ name: 'id', description: 'Policy ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Policy retrieved successfully',
+    type: UploadPolicyResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Upload policy not found' })
+  @Roles(UserRole.ADMIN)
+  async getPolicy(@Param('id') id: string): Promise<UploadPolicyResponseDto> {
+    return this.uploadPoliciesService.getPolicy(id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create an upload policy',
+    description: 'Assign allowed types and limits to a role or a single user',
+  })
+  @ApiBody({ type: CreateUploadPolicyDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Policy created successfully',
+    type: UploadPolicyResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid limits, or not assigned to exactly one role or user',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Name already used, or the role or user already has a policy',
+  })
+  @Roles(UserRole.ADMIN)
+  async createPolicy(
+    @Body() createDto: CreateUploadPolicyDto,
+    @Request() req: TypedRequest,
+  ): Promise<UploadPolicyResponseDto> {
+    return this.uploadPoliciesService.createPolicy(createDto, req.user.id);
+  }
+
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Change an upload policy' })
+  @ApiParam({ name: 'id', description: 'Policy ID' })
+  @ApiBody({ type: UpdateUploadPolicyDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Policy updated successfully',
+    type: UploadPolicyResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Upload policy not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Name already used, or the role or user already has a policy',
+  })
+  @Roles(UserRole.ADMIN)
+  async updatePolicy(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateUploadPolicyDto,
+    @Request() req: TypedRequest,
+  ): Promise<UploadPolicyResponseDto> {
+    return this.uploadPoliciesService.updatePolicy(id, updateDto, req.user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Delete an upload policy',
+    description:
+      'Affected users fall back to their role policy or the defaults',
+  })
+  @ApiParam({ name: 'id', description: 'Policy ID' })
+  @ApiResponse({ status: 200, description: 'Policy deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Upload policy not found' })
+  @Roles(UserRole.ADMIN)
+  async deletePolicy(
+    @Param('id') id: string,
+    @Request() req: TypedRequest,
+  ): Promise<{ message: string }> {
+    await this.uploadPoliciesService.deletePolicy(id, req.user.id);
+    return { message: 'Upload policy deleted successfully' };
+  }
+}
@@ -0,0 +1,367 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+} from '@nestjs/common';
+import { UploadPolicy, UserRole } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditService } from 'src/common/services/audit.service';
+import { CreateUploadPolicyDto } from './dto/create-upload-policy.dto';
+import { UpdateUploadPolicyDto } from './dto/update-upload-policy.dto';
+import { UploadPolicyResponseDto } from './dto/upload-policy-response.dto';
+import { ALLOWED_CONTENT_TYPES } from './uploads.constants';
+
+/**
+ * The limits that apply to one user. Null limits are not enforced beyond the
+ * hard limit of the upload method.
+ */
+export interface EffectiveUploadPolicy {
+  policyId: string | null;
+  name: string;
+  allowedTypes: string[];
+  maxFileSize: number | null;
+  dailyUploadCount: number | null;
+  dailyUploadBytes: number | null;
+}
+
+export interface UploadUsage {
+  count: number;
+  bytes: number;
+}
+
+// Applies to users without a policy of their own or for their role
+const DEFAULT_UPLOAD_POLICY: EffectiveUploadPolicy = {
+  policyId: null,
+  name: 'default',
+  allowedTypes: ALLOWED_CONTENT_TYPES,
+  maxFileSize: null,
+  dailyUploadCount: null,
+  dailyUploadBytes: null,
+};
+
+@Injectable()
+export class UploadPoliciesService {
+  private readonly logger = new Logger(UploadPoliciesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Resolve the policy for a user: their own policy, else the policy for
+   * their role, else the built-in default
+   */
+  async getEffectivePolicy(userId: string): Promise<EffectiveUploadPolicy> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, uploadPolicy: true },
+    });
+
+    const policy =
+      user?.uploadPolicy ??
+      (user &&
+        (await this.prisma.uploadPolicy.findUnique({
+          where: { role: user.role },
+        })));
+
+    return policy ? this.toEffectivePolicy(policy) : DEFAULT_UPLOAD_POLICY;
+  }
+
+  /**
+   * Check an upload against the user's effective policy. Type and size are
+   * only checked when given.
+   * @param hardLimit - Largest file the upload method supports
+   * @param pending - Uploads accepted earlier in the same batch
+   */
+  async enforce(
+    userId: string,
+    upload: { contentType?: string; fileSize?: number },
+    hardLimit: number,
+    pending: UploadUsage = { count: 0, bytes: 0 },
+  ): Promise<EffectiveUploadPolicy> {
+    const policy = await this.getEffectivePolicy(userId);
+
+    if (upload.contentType !== undefined) {
+      this.assertTypeAllowed(policy, upload.contentType);
+    }
+
+    if (upload.fileSize !== undefined) {
+      const maxFileSize = this.maxFileSize(policy, hardLimit);
+      if (upload.fileSize <= 0 || upload.fileSize > maxFileSize) {
+        throw new BadRequestException(
+          `Invalid file size: files must be between 1 and ${maxFileSize} bytes`,
+        );
+      }
+    }
+
+    if (policy.dailyUploadCount !== null || policy.dailyUploadBytes !== null) {
+      const usage = await this.getDailyUsage(userId);
+      const count = usage.count + pending.count + 1;
+      const bytes = usage.bytes + pending.bytes + (upload.fileSize ?? 0);
+
+      if (policy.dailyUploadCount !== null && count > policy.dailyUploadCount) {
+        throw new HttpException(
+          `Daily upload limit of ${policy.dailyUploadCount} files reached`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+
+      if (policy.dailyUploadBytes !== null && bytes > policy.dailyUploadBytes) {
+        throw new HttpException(
+          `Daily upload limit of ${policy.dailyUploadBytes} bytes reached`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    return policy;
+  }
+
+  /**
+   * Largest file the policy accepts for an upload method
+   */
+  maxFileSize(policy: EffectiveUploadPolicy, hardLimit: number): number {
+    return policy.maxFileSize === null
+      ? hardLimit
+      : Math.min(policy.maxFileSize, hardLimit);
+  }
+
+  assertTypeAllowed(policy: EffectiveUploadPolicy, contentType: string): void {
+    if (!this.isTypeAllowed(policy, contentType)) {
+      throw new BadRequestException(
+        `File type ${contentType} is not allowed. Allowed types: ${policy.allowedTypes.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Match a content type against the policy's types, which may be wildcards
+   * such as image/*
+   */
+  isTypeAllowed(policy: EffectiveUploadPolicy, contentType: string): boolean {
+    const [type, subtype] = contentType.toLowerCase().split('/');
+
+    return policy.allowedTypes.some((allowed) => {
+      const [allowedType, allowedSubtype] = allowed.toLowerCase().split('/');
+      return (
+        (allowedType === '*' || allowedType === type) &&
+        (allowedSubtype === '*' || allowedSubtype === subtype)
+      );
+    });
+  }
+
+  /**
+   * Assets the user created since midnight UTC
+   */
+  async getDailyUsage(userId: string): Promise<UploadUsage> {
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    const usage = await this.prisma.asset.aggregate({
+      where: { ownerId: userId, createdAt: { gte: startOfDay } },
+      _count: { _all: true },
+      _sum: { size: true },
+    });
+
+    return {
+      count: usage._count._all,
+      bytes: Number(usage._sum.size ?? 0),
+    };
+  }
+
+  async listPolicies(): Promise<UploadPolicyResponseDto[]> {
+    const policies = await this.prisma.uploadPolicy.findMany({
+      orderBy: { name: 'asc' },
+    });
+    return policies.map((policy) => this.toResponse(policy));
+  }
+
+  async getPolicy(id: string): Promise<UploadPolicyResponseDto> {
+    return this.toResponse(await this.findPolicy(id));
+  }
+
+  async createPolicy(
+    createDto: CreateUploadPolicyDto,
+    actorId: string,
+  ): Promise<UploadPolicyResponseDto> {
+    await this.assertAssignable(createDto);
+
+    const policy = await this.prisma.uploadPolicy.create({
+      data: {
+        name: createDto.name,
+        role: createDto.role ?? null,
+        userId: createDto.userId ?? null,
+        allowedTypes: createDto.allowedTypes,
+        maxFileSize: createDto.maxFileSize ?? null,
+        dailyUploadCount: createDto.dailyUploadCount ?? null,
+        dailyUploadBytes: createDto.dailyUploadBytes ?? null,
+      },
+    });
+
+    const response = this.toResponse(policy);
+    await this.auditService.logAdminEvent(
+      actorId,
+      'SYSTEM_CONFIG',
+      `upload-policy:${policy.id}`,
+      { targetUserId: policy.userId ?? undefined, newValue: response },
+    );
+
+    this.logger.log(`Upload policy ${policy.name} created by ${actorId}`);
+    return response;
+  }
+
+  async updatePolicy(
+    id: string,
+    updateDto: UpdateUploadPolicyDto,
+    actorId: string,
+  ): Promise<UploadPolicyResponseDto> {
+    const existing = await this.findPolicy(id);
+
+    // Changing the assignment replaces it, so a policy keeps a single target
+    const assignment =
+      updateDto.role !== undefined || updateDto.userId !== undefined
+        ? { role: updateDto.role ?? null, userId: updateDto.userId ?? null }
+        : { role: existing.role, userId: existing.userId };
+
+    await this.assertAssignable(
+      { name: updateDto.name ?? existing.name, ...assignment },
+      id,
+    );
+
+    const policy = await this.prisma.uploadPolicy.update({
+      where: { id },
+      data: {
+        ...assignment,
+        name: updateDto.name,
+        allowedTypes: updateDto.allowedTypes,
+        maxFileSize: updateDto.maxFileSize,
+        dailyUploadCount: updateDto.dailyUploadCount,
+        dailyUploadBytes: updateDto.dailyUploadBytes,
+      },
+    });
+
+    const response = this.toResponse(policy);
+    await this.auditService.logAdminEvent(
+      actorId,
+      'SYSTEM_CONFIG',
+      `upload-policy:${id}`,
+      {
+        targetUserId: policy.userId ?? undefined,
+        oldValue: this.toResponse(existing),
+        newValue: response,
+      },
+    );
+
+    this.logger.log(`Upload policy ${policy.name} updated by ${actorId}`);
+    return response;
+  }
+
+  async deletePolicy(id: string, actorId: string): Promise<void> {
+    const existing = await this.findPolicy(id);
+
+    await this.prisma.uploadPolicy.delete({ where: { id } });
+
+    await this.auditService.logAdminEvent(
+      actorId,
+      'SYSTEM_CONFIG',
+      `upload-policy:${id}`,
+      {
+        targetUserId: existing.userId ?? undefined,
+        oldValue: this.toResponse(existing),
+      },
+    );
+
+    this.logger.log(`Upload policy ${existing.name} deleted by ${actorId}`);
+  }
+
+  private async findPolicy(id: string): Promise<UploadPolicy> {
+    const policy = await this.prisma.uploadPolicy.findUnique({
+      where: { id },
+    });
+
+    if (!policy) {
+      throw new NotFoundException('Upload policy not found');
+    }
+
+    return policy;
+  }
+
+  /**
+   * A policy targets exactly one role or one user, and each role, user and
+   * name can only have one policy
+   */
+  private async assertAssignable(
+    target: { name: string; role?: UserRole | null; userId?: string | null },
+    excludeId?: string,
+  ): Promise<void> {
+    if (!target.role === !target.userId) {
+      throw new BadRequestException(
+        'A policy must be assigned to either a role or a user',
+      );
+    }
+
+    if (target.userId) {
+      const user = await this.prisma.user.findUnique({
+        where: { id: target.userId },
+        select: { id: true },
+      });
+      if (!user) {
+        throw new BadRequestException(`User ${target.userId} not found`);
+      }
+    }
+
+    const conflict = await this.prisma.uploadPolicy.findFirst({
+      where: {
+        id: excludeId ? { not: excludeId } : undefined,
+        OR: [
+          { name: target.name },
+          ...(target.role ? [{ role: target.role }] : []),
+          ...(target.userId ? [{ userId: target.userId }] : []),
+        ],
+      },
+    });
+
+    if (conflict) {
+      throw new ConflictException(
+        conflict.name === target.name
+          ? `A policy named ${target.name} already exists`
+          : `Policy ${conflict.name} is already assigned to this ${target.role ? 'role' : 'user'}`,
+      );
+    }
+  }
+
+  private toEffectivePolicy(policy: UploadPolicy): EffectiveUploadPolicy {
+    return {
+      policyId: policy.id,
+      name: policy.name,
+      allowedTypes: policy.allowedTypes,
+      maxFileSize: this.toNumber(policy.maxFileSize),
+      dailyUploadCount: policy.dailyUploadCount,
+      dailyUploadBytes: this.toNumber(policy.dailyUploadBytes),
+    };
+  }
+
+  private toResponse(policy: UploadPolicy): UploadPolicyResponseDto {
+    return {
+      id: policy.id,
+      name: policy.name,
+      role: policy.role,
+      userId: policy.userId,
+      allowedTypes: policy.allowedTypes,
+      maxFileSize: this.toNumber(policy.maxFileSize),
+      dailyUploadCount: policy.dailyUploadCount,
+      dailyUploadBytes: this.toNumber(policy.dailyUploadBytes),
+      createdAt: policy.createdAt.toISOString(),
+      updatedAt: policy.updatedAt.toISOString(),
+    };
+  }
+
+  private toNumber(value: bigint | null): number | null {
+    return value === null ? null : Number(value);
+  }
+}
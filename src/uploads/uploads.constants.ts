@@ -0,0 +1,71 @@
+// Content types accepted when no upload policy applies
+export const ALLOWED_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/zip',
+];
+
+// Single presigned PUT uploads are capped at 100MB
+export const MAX_SINGLE_UPLOAD_SIZE = 104857600;
+
+// S3 limits for multipart uploads
+export const MAX_MULTIPART_UPLOAD_SIZE = 5 * 1024 * 1024 * 1024 * 1024; // 5TB
+export const MIN_MULTIPART_PART_SIZE = 5 * 1024 * 1024; // 5MB
+export const MAX_MULTIPART_PART_SIZE = 5 * 1024 * 1024 * 1024; // 5GB
+export const MAX_MULTIPART_PARTS = 10000;
+
+// Default part size used when the client does not request one
+export const DEFAULT_MULTIPART_PART_SIZE = 16 * 1024 * 1024; // 16MB
+
+// Presigned single uploads are either a PUT URL or a POST form policy
+export const PRESIGN_UPLOAD_METHODS = ['PUT', 'POST'] as const;
+export type PresignUploadMethod = (typeof PRESIGN_UPLOAD_METHODS)[number];
+
+// Expiration of presigned upload URLs in seconds
+export const PRESIGNED_URL_EXPIRES_IN = 3600;
+
+// Maximum number of files in one batch presign or complete request
+export const MAX_BATCH_UPLOAD_ITEMS = 250;
+
+// How long an upload intent stays valid after presigning, in seconds
+export const UPLOAD_INTENT_TTL = 24 * 3600;
+
+// How long completed and abandoned uploads are kept for status queries and
+// abandonment stats, in seconds
+export const UPLOAD_SESSION_RETENTION = 30 * 24 * 3600;
+
+// tus resumable upload protocol
+export const TUS_VERSION = '1.0.0';
+export const TUS_EXTENSIONS = ['creation', 'termination', 'expiration'];
+export const TUS_CONTENT_TYPE = 'application/offset+octet-stream';
+
+// Remote URL imports
+export const URL_IMPORT_TIMEOUT = 2 * 60 * 1000; // 2 minutes
+export const URL_IMPORT_MAX_REDIRECTS = 5;
+
+// ZIP archive expansion
+export const ARCHIVE_MAX_ENTRIES = 1000;
+export const ARCHIVE_MAX_TOTAL_SIZE = 10 * 1024 * 1024 * 1024; // 10GB uncompressed
+export const ARCHIVE_MAX_COMPRESSION_RATIO = 100;
+// Entries smaller than this are not checked against the compression ratio
+export const ARCHIVE_RATIO_CHECK_MIN_SIZE = 1024 * 1024; // 1MB
+
+// Content types of archive entries, by file extension. Other entries are
+// not extracted; keep them within ALLOWED_CONTENT_TYPES.
+export const ARCHIVE_ENTRY_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
@@ -1,7 +1,10 @@
 import {
   Controller,
+  Get,
   Post,
   Body,
+  Param,
+  Query,
   UseGuards,
   Request,
   HttpCode,
@@ -13,27 +16,54 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiBody,
+  ApiConsumes,
+  ApiParam,
 } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
 import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
 import { UploadsService } from './uploads.service';
+import { UploadIntentsService } from './upload-intents.service';
 import { PresignUploadDto } from './dto/presign-upload.dto';
 import { PresignResponseDto } from './dto/presign-response.dto';
 import { UploadCompleteDto } from './dto/upload-complete.dto';
 import { UploadCompleteResponseDto } from './dto/upload-complete-response.dto';
+import { InitiateMultipartUploadDto } from './dto/initiate-multipart-upload.dto';
+import { InitiateMultipartUploadResponseDto } from './dto/initiate-multipart-upload-response.dto';
+import { PresignMultipartPartsDto } from './dto/presign-multipart-parts.dto';
+import { PresignMultipartPartsResponseDto } from './dto/presign-multipart-parts-response.dto';
+import { MultipartUploadRefDto } from './dto/multipart-upload-ref.dto';
+import { ListMultipartPartsResponseDto } from './dto/list-multipart-parts-response.dto';
+import { CompleteMultipartUploadDto } from './dto/complete-multipart-upload.dto';
+import { BatchPresignUploadDto } from './dto/batch-presign-upload.dto';
+import { BatchPresignResponseDto } from './dto/batch-presign-response.dto';
+import { BatchUploadCompleteDto } from './dto/batch-upload-complete.dto';
+import { BatchUploadCompleteResponseDto } from './dto/batch-upload-complete-response.dto';
+import { ImportUrlDto } from './dto/import-url.dto';
+import { ImportUrlResponseDto } from './dto/import-url-response.dto';
+import { UploadStatusResponseDto } from './dto/upload-status-response.dto';
+import { AbandonmentStatsQueryDto } from './dto/abandonment-stats-query.dto';
+import { AbandonmentStatsResponseDto } from './dto/abandonment-stats-response.dto';
 import { Request as TypedRequest } from 'src/types';
 
 @ApiTags('Uploads')
 @Controller('uploads')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth('JWT-auth')
 export class UploadsController {
-  constructor(private readonly uploadsService: UploadsService) {}
+  constructor(
+    private readonly uploadsService: UploadsService,
+    private readonly uploadIntentsService: UploadIntentsService,
+  ) {}
 
   @Post('presign')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({
     summary: 'Generate presigned upload URL',
-    description: 'Generate a presigned URL for direct S3 upload',
+    description:
+      'Generate a presigned URL for direct S3 upload. ' +
+      'When sha256Hash matches one of your own assets, that asset is returned instead',
   })
   @ApiBody({ type: PresignUploadDto })
   @ApiResponse({
@@ -54,7 +84,46 @@ export class UploadsController {
     @Request() req: TypedRequest,
   ): Promise<PresignResponseDto> {
     const userId = req.user.id;
-    return this.uploadsService.generatePresignedUploadUrl(presignDto, userId);
+    return this.uploadsService.generatePresignedUploadUrl(
+      presignDto,
+      userId,
+      undefined,
+      req.headers['user-agent'],
+    );
+  }
+
+  @Post('presign/batch')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Generate presigned upload URLs for several files',
+    description:
+      'Presign up to 250 files in one request, e.g. for a multi-file drop. ' +
+      'Each item is validated on its own and gets either a presign result or an error',
+  })
+  @ApiBody({ type: BatchPresignUploadDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Batch processed, see each item for its result',
+    type: BatchPresignResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Items missing, not a list or too many',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - valid JWT token required',
+  })
+  async generatePresignedUrls(
+    @Body() batchDto: BatchPresignUploadDto,
+    @Request() req: TypedRequest,
+  ): Promise<BatchPresignResponseDto> {
+    const userId = req.user.id;
+    return this.uploadsService.generatePresignedUploadUrls(
+      batchDto,
+      userId,
+      req.headers['user-agent'],
+    );
   }
 
   @Post('complete')
@@ -71,12 +140,21 @@ export class UploadsController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Invalid file data',
+    description:
+      'Invalid file data, or the stored object is missing or does not match',
   })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized - valid JWT token required',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Upload was started by another user',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Upload has already been completed',
+  })
   async completeUpload(
     @Body() uploadCompleteDto: UploadCompleteDto,
     @Request() req: TypedRequest,
@@ -85,15 +163,337 @@ export class UploadsController {
     return this.uploadsService.completeUpload(uploadCompleteDto, userId);
   }
 
+  @Post('complete/batch')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Complete several file uploads',
+    description:
+      'Complete up to 250 presigned uploads in one request. Each item is checked on its own; ' +
+      'the assets for all valid items are created and queued for processing in a single transaction',
+  })
+  @ApiBody({ type: BatchUploadCompleteDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Batch processed, see each item for its result',
+    type: BatchUploadCompleteResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Items missing, not a list or too many',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - valid JWT token required',
+  })
+  async completeUploads(
+    @Body() batchDto: BatchUploadCompleteDto,
+    @Request() req: TypedRequest,
+  ): Promise<BatchUploadCompleteResponseDto> {
+    const userId = req.user.id;
+    return this.uploadsService.completeUploads(batchDto, userId);
+  }
+
+  @Post('proxy')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Upload through the API',
+    description:
+      'Stream a multipart/form-data upload through the API into storage, for clients that cannot reach S3 directly. ' +
+      'The asset is created and queued for processing in the same request',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: { type: 'string', format: 'binary' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'File stored and queued for processing',
+    type: UploadCompleteResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid form data, file type or size',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - valid JWT token required',
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'File exceeds the maximum upload size',
+  })
+  async proxyUpload(
+    @Request() req: TypedRequest,
+  ): Promise<UploadCompleteResponseDto> {
+    return this.uploadsService.proxyUpload(req, req.user.id);
+  }
+
+  @Post('import-url')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Import a file from a URL',
+    description:
+      'Queue a background job that downloads the URL into storage and then runs the normal processing pipeline. ' +
+      'Private, loopback and link-local addresses are refused',
+  })
+  @ApiBody({ type: ImportUrlDto })
+  @ApiResponse({
+    status: 202,
+    description: 'Import queued',
+    type: ImportUrlResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid or blocked URL',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - valid JWT token required',
+  })
+  async importFromUrl(
+    @Body() importDto: ImportUrlDto,
+    @Request() req: TypedRequest,
+  ): Promise<ImportUrlResponseDto> {
+    return this.uploadsService.importFromUrl(importDto, req.user.id);
+  }
+
+  @Post('multipart/initiate')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Initiate multipart upload',
+    description:
+      'Start an S3 multipart upload for a large file and get the part layout to use',
+  })
+  @ApiBody({ type: InitiateMultipartUploadDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Multipart upload initiated successfully',
+    type: InitiateMultipartUploadResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid file type or size',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - valid JWT token required',
+  })
+  async initiateMultipartUpload(
+    @Body() initiateDto: InitiateMultipartUploadDto,
+    @Request() req: TypedRequest,
+  ): Promise<InitiateMultipartUploadResponseDto> {
+    const userId = req.user.id;
+    return this.uploadsService.initiateMultipartUpload(
+      initiateDto,
+      userId,
+      req.headers['user-agent'],
+    );
+  }
+
+  @Post('multipart/presign-parts')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Presign multipart upload parts',
+    description:
+      'Generate presigned PUT URLs for individual parts. ' +
+      'A failed part can be retried by presigning and uploading it again',
+  })
+  @ApiBody({ type: PresignMultipartPartsDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Part URLs generated successfully',
+    type: PresignMultipartPartsResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - valid JWT token required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Upload was started by another user',
+  })
+  async presignMultipartParts(
+    @Body() presignPartsDto: PresignMultipartPartsDto,
+    @Request() req: TypedRequest,
+  ): Promise<PresignMultipartPartsResponseDto> {
+    const userId = req.user.id;
+    return this.uploadsService.presignMultipartParts(presignPartsDto, userId);
+  }
+
+  @Get('multipart/parts')
+  @ApiOperation({
+    summary: 'List uploaded parts',
+    description:
+      'List the parts S3 has received so far, to resume an interrupted upload',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Uploaded parts retrieved successfully',
+    type: ListMultipartPartsResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown or expired multipart upload',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - valid JWT token required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Upload was started by another user',
+  })
+  async listMultipartParts(
+    @Query() uploadRefDto: MultipartUploadRefDto,
+    @Request() req: TypedRequest,
+  ): Promise<ListMultipartPartsResponseDto> {
+    const userId = req.user.id;
+    return this.uploadsService.listMultipartParts(uploadRefDto, userId);
+  }
+
+  @Post('multipart/complete')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Complete multipart upload',
+    description:
+      'Assemble the uploaded parts, then create the asset and queue it for processing',
+  })
+  @ApiBody({ type: CompleteMultipartUploadDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Upload completed successfully',
+    type: UploadCompleteResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid file data or parts, or the stored object does not match',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - valid JWT token required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Upload was started by another user',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Upload has already been completed',
+  })
+  async completeMultipartUpload(
+    @Body() completeDto: CompleteMultipartUploadDto,
+    @Request() req: TypedRequest,
+  ): Promise<UploadCompleteResponseDto> {
+    const userId = req.user.id;
+    return this.uploadsService.completeMultipartUpload(completeDto, userId);
+  }
+
+  @Post('multipart/abort')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Abort multipart upload',
+    description: 'Abort a multipart upload and discard its uploaded parts',
+  })
+  @ApiBody({ type: MultipartUploadRefDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Multipart upload aborted successfully',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - valid JWT token required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Upload was started by another user',
+  })
+  async abortMultipartUpload(
+    @Body() uploadRefDto: MultipartUploadRefDto,
+    @Request() req: TypedRequest,
+  ): Promise<{ message: string }> {
+    const userId = req.user.id;
+    await this.uploadsService.abortMultipartUpload(uploadRefDto, userId);
+    return { message: 'Multipart upload aborted successfully' };
+  }
+
+  @Get('abandonment')
+  @ApiOperation({
+    summary: 'Get upload abandonment rates per client',
+    description:
+      'Uploads presigned in the period grouped by the User-Agent that started them. ' +
+      'An upload is abandoned when it is aborted or not completed before it expires',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Stats retrieved successfully',
+    type: AbandonmentStatsResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @Roles(UserRole.ADMIN)
+  async getAbandonmentStats(
+    @Query() query: AbandonmentStatsQueryDto,
+  ): Promise<AbandonmentStatsResponseDto> {
+    const days = query.days ?? 7;
+    return this.uploadIntentsService.getAbandonmentStats(
+      new Date(Date.now() - days * 24 * 3600 * 1000),
+    );
+  }
+
+  @Get(':objectKey/status')
+  @ApiOperation({
+    summary: 'Get upload status',
+    description:
+      'Follow an upload from presign to completion: PRESIGNED, UPLOADING, UPLOADED, ' +
+      'then COMPLETED or ABANDONED. The object key must be URL-encoded',
+  })
+  @ApiParam({
+    name: 'objectKey',
+    description: 'URL-encoded object key returned by presign or initiate',
+    example: 'uploads%2F2025%2F08%2F25%2Fcmeq1wmrw0001z97fu028bcd5-sunset.jpg',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Upload status retrieved successfully',
+    type: UploadStatusResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - valid JWT token required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Upload was started by another user',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No upload was started for this object key',
+  })
+  async getUploadStatus(
+    @Param('objectKey') objectKey: string,
+    @Request() req: TypedRequest,
+  ): Promise<UploadStatusResponseDto> {
+    return this.uploadIntentsService.getUploadStatus(objectKey, req.user.id);
+  }
+
   @Post('health')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
-    summary: 'Test S3 connection',
-    description: 'Test the connection to S3 storage',
+    summary: 'Test storage connection',
+    description: 'Test the connection to the configured storage driver',
   })
   @ApiResponse({
     status: 200,
-    description: 'S3 connection test result',
+    description: 'Storage connection test result',
     schema: {
       type: 'object',
       properties: {
@@ -102,11 +502,13 @@ export class UploadsController {
       },
     },
   })
-  async testS3Connection() {
-    const connected = await this.uploadsService.testS3Connection();
+  async testStorageConnection() {
+    const connected = await this.uploadsService.testStorageConnection();
     return {
       connected,
-      message: connected ? 'S3 connection successful' : 'S3 connection failed',
+      message: connected
+        ? 'Storage connection successful'
+        : 'Storage connection failed',
     };
   }
 }
@@ -1,12 +1,42 @@
 import { Module, forwardRef } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { JobsModule } from 'src/jobs/jobs.module';
 import { AuditModule } from 'src/common/audit.module';
+import { SettingsModule } from 'src/common/settings.module';
 import { S3Service } from './s3.service';
+import { LocalStorageService } from './local-storage.service';
+import { LocalStorageController } from './local-storage.controller';
+import { STORAGE_PROVIDER, StorageProvider } from './storage-provider';
+import { COLD_STORAGE, createColdStorage } from './cold-storage';
+import { LifecycleRulesService } from './lifecycle-rules.service';
+import { LifecycleRulesController } from './lifecycle-rules.controller';
+import { StorageTieringService } from './storage-tiering.service';
+import { KEY_PROVIDER } from './key-provider';
+import { LocalKeyProvider } from './local-key-provider';
+import { EncryptionKeysService } from './encryption-keys.service';
+import { EncryptionKeysController } from './encryption-keys.controller';
+import { ObjectEncryptionService } from './object-encryption.service';
+import { ObjectKeysService } from './object-keys.service';
+import { ObjectKeysController } from './object-keys.controller';
 import { UploadsService } from './uploads.service';
 import { UploadsController } from './uploads.controller';
+import { TusUploadsController } from './tus-uploads.controller';
 import { ThumbnailService } from './thumbnail.service';
+import { UploadIntentsService } from './upload-intents.service';
+import { ObjectReferencesService } from './object-references.service';
+import { ContentSnifferService } from './content-sniffer.service';
+import { TusUploadsService } from './tus-uploads.service';
+import { UrlFetcherService } from './url-fetcher.service';
+import { UploadPoliciesService } from './upload-policies.service';
+import { UploadPoliciesController } from './upload-policies.controller';
+import { StorageUsageService } from './storage-usage.service';
+import { StorageUsageController } from './storage-usage.controller';
+import { InboundMailboxesService } from './inbound-mailboxes.service';
+import { InboundMailboxesController } from './inbound-mailboxes.controller';
+import { MetadataPrivacyService } from './metadata-privacy.service';
+import { MetadataPrivacyController } from './metadata-privacy.controller';
+import { SmtpIngestService } from './smtp-ingest.service';
 
 @Module({
   imports: [
@@ -14,9 +44,79 @@ import { ThumbnailService } from './thumbnail.service';
     PrismaModule,
     forwardRef(() => JobsModule),
     AuditModule,
+    SettingsModule,
+  ],
+  controllers: [
+    UploadsController,
+    TusUploadsController,
+    UploadPoliciesController,
+    StorageUsageController,
+    InboundMailboxesController,
+    MetadataPrivacyController,
+    LocalStorageController,
+    LifecycleRulesController,
+    EncryptionKeysController,
+    ObjectKeysController,
+  ],
+  providers: [
+    {
+      // STORAGE_DRIVER picks the object store: s3 (default) or local
+      provide: STORAGE_PROVIDER,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('STORAGE_DRIVER', 's3') === 'local'
+          ? new LocalStorageService(configService)
+          : new S3Service(configService),
+      inject: [ConfigService],
+    },
+    {
+      // COLD_STORAGE_TARGET picks where lifecycle rules move originals
+      provide: COLD_STORAGE,
+      useFactory: (configService: ConfigService, storage: StorageProvider) =>
+        createColdStorage(configService, storage),
+      inject: [ConfigService, STORAGE_PROVIDER],
+    },
+    {
+      // ENCRYPTION_KEY_PROVIDER turns on envelope encryption of originals
+      provide: KEY_PROVIDER,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('ENCRYPTION_KEY_PROVIDER', 'none') === 'local'
+          ? new LocalKeyProvider(configService)
+          : null,
+      inject: [ConfigService],
+    },
+    UploadsService,
+    ThumbnailService,
+    UploadIntentsService,
+    ObjectReferencesService,
+    ContentSnifferService,
+    TusUploadsService,
+    UrlFetcherService,
+    UploadPoliciesService,
+    StorageUsageService,
+    InboundMailboxesService,
+    MetadataPrivacyService,
+    SmtpIngestService,
+    LifecycleRulesService,
+    StorageTieringService,
+    EncryptionKeysService,
+    ObjectEncryptionService,
+    ObjectKeysService,
+  ],
+  exports: [
+    STORAGE_PROVIDER,
+    UploadsService,
+    ThumbnailService,
+    UploadIntentsService,
+    ObjectReferencesService,
+    ContentSnifferService,
+    TusUploadsService,
+    UrlFetcherService,
+    UploadPoliciesService,
+    StorageUsageService,
+    StorageTieringService,
+    EncryptionKeysService,
+    ObjectEncryptionService,
+    ObjectKeysService,
   ],
-  controllers: [UploadsController],
-  providers: [S3Service, UploadsService, ThumbnailService],
-  exports: [S3Service, UploadsService, ThumbnailService],
 })
 export class UploadsModule {}
@@ -0,0 +1,343 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Asset, UploadIntent } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { JobsService } from 'src/jobs/jobs.service';
+import { AuditService } from 'src/common/services/audit.service';
+import { SettingsService } from 'src/common/services/settings.service';
+import { STORAGE_PROVIDER } from './storage-provider';
+import { UploadIntentsService } from './upload-intents.service';
+import { ObjectReferencesService } from './object-references.service';
+import { ObjectKeysService } from './object-keys.service';
+import { ObjectEncryptionService } from './object-encryption.service';
+import { UrlFetcherService } from './url-fetcher.service';
+import { UploadPoliciesService } from './upload-policies.service';
+import { StorageUsageService } from './storage-usage.service';
+import { UploadsService } from './uploads.service';
+
+describe('UploadsService', () => {
+  let service: UploadsService;
+  let dedupEnabled: boolean;
+
+  const objectKey = 'users/user-1/asset-1-photo.jpg';
+
+  const prisma = {
+    uploadIntent: {
+      create: jest.fn(
+        (args: {
+          data: Partial<UploadIntent>;
+        }): Promise<Partial<UploadIntent>> =>
+          Promise.resolve({ id: 'intent-1', ...args.data }),
+      ),
+      findUnique: jest.fn<Promise<UploadIntent | null>, []>(),
+      updateMany: jest.fn<Promise<{ count: number }>, []>(),
+    },
+    asset: {
+      create: jest.fn(
+        (args: { data: Partial<Asset> }): Promise<Partial<Asset>> =>
+          Promise.resolve({
+            ...args.data,
+            status: 'PENDING',
+            createdAt: args.data.createdAt ?? new Date(),
+          }),
+      ),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn<Promise<number>, [{ where: { objectKey: string } }]>(),
+      updateMany: jest.fn<Promise<{ count: number }>, []>(),
+    },
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    storedObject: { upsert: jest.fn() },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+  const storage = {
+    headObject: jest.fn(),
+    deleteObject: jest.fn(() => Promise.resolve()),
+    generatePresignedPutUrl: jest.fn(() =>
+      Promise.resolve('https://storage.example.com/upload'),
+    ),
+    supportsChecksums: jest.fn(() => false),
+  };
+  const jobsService = {
+    addMediaProcessingJobs: jest.fn(() => Promise.resolve()),
+  };
+  const uploadPoliciesService = {
+    enforce: jest.fn(() => Promise.resolve()),
+  };
+  const objectEncryptionService = {
+    shareDataKey: jest.fn(() => Promise.resolve({})),
+  };
+
+  const createIntent = (
+    overrides: Partial<UploadIntent> = {},
+  ): UploadIntent => ({
+    id: 'intent-1',
+    userId: 'user-1',
+    objectKey,
+    assetId: 'asset-1',
+    uploadId: null,
+    filename: 'photo.jpg',
+    contentType: 'image/jpeg',
+    fileSize: BigInt(1024),
+    sha256Hash: null,
+    state: 'PRESIGNED',
+    client: null,
+    expiresAt: new Date(Date.now() + 3600 * 1000),
+    consumedAt: null,
+    abandonedAt: null,
+    createdAt: new Date('2024-03-01T23:30:00Z'),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const completeDto = {
+    objectKey,
+    filename: 'photo.jpg',
+    contentType: 'image/jpeg',
+    fileSize: 1024,
+  };
+
+  beforeEach(async () => {
+    dedupEnabled = true;
+    jest.clearAllMocks();
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => Promise<unknown>) => fn(prisma),
+    );
+    prisma.uploadIntent.updateMany.mockResolvedValue({ count: 1 });
+    prisma.user.findUnique.mockResolvedValue({
+      storageUsed: BigInt(0),
+      storageQuota: BigInt(10000),
+    });
+    storage.headObject.mockResolvedValue({
+      contentLength: 1024,
+      contentType: 'image/jpeg',
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UploadsService,
+        UploadIntentsService,
+        ObjectReferencesService,
+        StorageUsageService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: STORAGE_PROVIDER, useValue: storage },
+        { provide: JobsService, useValue: jobsService },
+        {
+          provide: AuditService,
+          useValue: { logFileEvent: jest.fn(), logAdminEvent: jest.fn() },
+        },
+        {
+          provide: SettingsService,
+          useValue: { get: jest.fn(() => Promise.resolve(dedupEnabled)) },
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: UrlFetcherService, useValue: {} },
+        { provide: UploadPoliciesService, useValue: uploadPoliciesService },
+        { provide: ObjectEncryptionService, useValue: objectEncryptionService },
+        {
+          provide: ObjectKeysService,
+          useValue: {
+            generateAssetId: () => 'asset-1',
+            objectKey: () => objectKey,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<UploadsService>(UploadsService);
+  });
+
+  describe('presign', () => {
+    it('should bind the object key to the requesting user', async () => {
+      const result = await service.generatePresignedUploadUrl(
+        { filename: 'photo.jpg', contentType: 'image/jpeg', fileSize: 1024 },
+        'user-1',
+      );
+
+      expect(result).toMatchObject({ duplicate: false, objectKey });
+      expect(prisma.uploadIntent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          objectKey,
+          assetId: 'asset-1',
+          fileSize: 1024,
+        }) as object,
+      });
+    });
+
+    it('should refuse files over the storage quota before signing', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        storageUsed: BigInt(9500),
+        storageQuota: BigInt(10000),
+      });
+
+      await expect(
+        service.generatePresignedUploadUrl(
+          { filename: 'photo.jpg', contentType: 'image/jpeg', fileSize: 1024 },
+          'user-1',
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(storage.generatePresignedPutUrl).not.toHaveBeenCalled();
+      expect(prisma.uploadIntent.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeUpload', () => {
+    it('should create the asset bound by the intent and queue it', async () => {
+      prisma.uploadIntent.findUnique.mockResolvedValue(createIntent());
+
+      const result = await service.completeUpload(completeDto, 'user-1');
+
+      expect(result).toMatchObject({ assetId: 'asset-1', objectKey });
+      expect(prisma.uploadIntent.updateMany).toHaveBeenCalledWith({
+        where: { id: 'intent-1', consumedAt: null },
+        data: expect.objectContaining({ state: 'COMPLETED' }) as object,
+      });
+      expect(prisma.asset.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          id: 'asset-1',
+          objectKey,
+          ownerId: 'user-1',
+          // The date the object key was rendered from
+          createdAt: new Date('2024-03-01T23:30:00Z'),
+        }) as object,
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { storageUsed: { increment: BigInt(1024) } },
+      });
+      expect(jobsService.addMediaProcessingJobs).toHaveBeenCalledWith([
+        expect.objectContaining({ assetId: 'asset-1', objectKey }),
+      ]);
+    });
+
+    it("should refuse to complete another user's upload", async () => {
+      prisma.uploadIntent.findUnique.mockResolvedValue(
+        createIntent({ userId: 'user-2' }),
+      );
+
+      await expect(
+        service.completeUpload(completeDto, 'user-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prisma.asset.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse expired and already completed uploads', async () => {
+      prisma.uploadIntent.findUnique.mockResolvedValue(
+        createIntent({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+      await expect(
+        service.completeUpload(completeDto, 'user-1'),
+      ).rejects.toThrow('Upload has expired');
+
+      prisma.uploadIntent.findUnique.mockResolvedValue(
+        createIntent({ consumedAt: new Date(), state: 'COMPLETED' }),
+      );
+      await expect(
+        service.completeUpload(completeDto, 'user-1'),
+      ).rejects.toThrow(ConflictException);
+      expect(prisma.asset.create).not.toHaveBeenCalled();
+    });
+
+    it('should create no asset when a concurrent request consumed the intent', async () => {
+      prisma.uploadIntent.findUnique.mockResolvedValue(createIntent());
+      prisma.uploadIntent.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.completeUpload(completeDto, 'user-1'),
+      ).rejects.toThrow(ConflictException);
+      expect(prisma.asset.create).not.toHaveBeenCalled();
+      expect(jobsService.addMediaProcessingJobs).not.toHaveBeenCalled();
+    });
+
+    it('should refuse completions that differ from the presigned file', async () => {
+      prisma.uploadIntent.findUnique.mockResolvedValue(createIntent());
+
+      await expect(
+        service.completeUpload({ ...completeDto, fileSize: 2048 }, 'user-1'),
+      ).rejects.toThrow(BadRequestException);
+
+      storage.headObject.mockResolvedValue({
+        contentLength: 512,
+        contentType: 'image/jpeg',
+      });
+      await expect(
+        service.completeUpload(completeDto, 'user-1'),
+      ).rejects.toThrow('File size mismatch');
+      expect(prisma.asset.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('shareStoredOriginal', () => {
+    const sharedKey = 'users/user-2/asset-0-photo.jpg';
+
+    beforeEach(() => {
+      prisma.asset.findUnique.mockResolvedValue({
+        ownerId: 'user-1',
+        objectKey,
+        size: BigInt(1024),
+      });
+      prisma.asset.findFirst.mockResolvedValue({
+        objectKey: sharedKey,
+        size: BigInt(1024),
+        dataKey: null,
+        dataKeyId: null,
+        encryptedAt: null,
+      });
+      prisma.asset.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it("should move the asset onto another user's copy", async () => {
+      prisma.asset.count.mockResolvedValue(1);
+
+      await expect(service.shareStoredOriginal('asset-1', 'abc')).resolves.toBe(
+        true,
+      );
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(prisma.asset.updateMany).toHaveBeenCalledWith({
+        where: { id: 'asset-1', objectKey },
+        data: {
+          objectKey: sharedKey,
+          dataKey: null,
+          dataKeyId: null,
+          encryptedAt: null,
+        },
+      });
+      expect(prisma.storedObject.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { objectKey: sharedKey } }),
+      );
+      expect(storage.deleteObject).toHaveBeenCalledWith(objectKey);
+    });
+
+    it('should keep the upload when the stored copy was deleted meanwhile', async () => {
+      prisma.asset.count.mockImplementation(({ where }) =>
+        Promise.resolve(where.objectKey === sharedKey ? 0 : 1),
+      );
+
+      await expect(service.shareStoredOriginal('asset-1', 'abc')).resolves.toBe(
+        false,
+      );
+      expect(prisma.asset.updateMany).not.toHaveBeenCalled();
+      expect(prisma.storedObject.upsert).not.toHaveBeenCalled();
+      expect(storage.deleteObject).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing unless cross-user deduplication is enabled', async () => {
+      dedupEnabled = false;
+
+      await expect(service.shareStoredOriginal('asset-1', 'abc')).resolves.toBe(
+        false,
+      );
+      expect(prisma.asset.findFirst).not.toHaveBeenCalled();
+    });
+  });
+});
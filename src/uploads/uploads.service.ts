@@ -1,40 +1,173 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
-import { S3Service } from './s3.service';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  PayloadTooLargeException,
+  Inject,
+} from '@nestjs/common';
+import { Asset, Prisma, UploadIntent } from '@prisma/client';
+import {
+  MultipartUploadPart,
+  STORAGE_PROVIDER,
+  StorageProvider,
+} from './storage-provider';
+import { UploadIntentsService } from './upload-intents.service';
+import { ObjectReferencesService } from './object-references.service';
+import { ObjectKeysService } from './object-keys.service';
+import {
+  ObjectEncryptionService,
+  STORED_ORIGINAL_SELECT,
+} from './object-encryption.service';
+import { pipeThrough } from './pipe-through';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { JobsService, MediaProcessingJobData } from 'src/jobs/jobs.service';
 import { PresignUploadDto } from './dto/presign-upload.dto';
 import { PresignResponseDto } from './dto/presign-response.dto';
 import { UploadCompleteDto } from './dto/upload-complete.dto';
 import { UploadCompleteResponseDto } from './dto/upload-complete-response.dto';
+import { InitiateMultipartUploadDto } from './dto/initiate-multipart-upload.dto';
+import { InitiateMultipartUploadResponseDto } from './dto/initiate-multipart-upload-response.dto';
+import { PresignMultipartPartsDto } from './dto/presign-multipart-parts.dto';
+import { PresignMultipartPartsResponseDto } from './dto/presign-multipart-parts-response.dto';
+import { MultipartUploadRefDto } from './dto/multipart-upload-ref.dto';
+import { ListMultipartPartsResponseDto } from './dto/list-multipart-parts-response.dto';
+import { CompleteMultipartUploadDto } from './dto/complete-multipart-upload.dto';
+import { BatchPresignUploadDto } from './dto/batch-presign-upload.dto';
+import {
+  BatchPresignItemResultDto,
+  BatchPresignResponseDto,
+} from './dto/batch-presign-response.dto';
+import { BatchUploadCompleteDto } from './dto/batch-upload-complete.dto';
+import {
+  BatchUploadCompleteItemResultDto,
+  BatchUploadCompleteResponseDto,
+} from './dto/batch-upload-complete-response.dto';
+import { BatchItemErrorDto } from './dto/batch-item-error.dto';
+import { ImportUrlDto } from './dto/import-url.dto';
+import { ImportUrlResponseDto } from './dto/import-url-response.dto';
+import { UrlFetcherService, UrlFetchError } from './url-fetcher.service';
+import {
+  EffectiveUploadPolicy,
+  UploadPoliciesService,
+  UploadUsage,
+} from './upload-policies.service';
+import { StorageUsageService } from './storage-usage.service';
+import {
+  MAX_SINGLE_UPLOAD_SIZE,
+  MAX_MULTIPART_UPLOAD_SIZE,
+  MIN_MULTIPART_PART_SIZE,
+  MAX_MULTIPART_PART_SIZE,
+  MAX_MULTIPART_PARTS,
+  DEFAULT_MULTIPART_PART_SIZE,
+  PRESIGNED_URL_EXPIRES_IN,
+  PresignUploadMethod,
+} from './uploads.constants';
 import { AuditService } from 'src/common/services/audit.service';
-import { v4 as uuidv4 } from 'uuid';
+import { SettingsService } from 'src/common/services/settings.service';
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
 import * as path from 'path';
+import * as busboy from 'busboy';
+import { createHash } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { Readable, Transform } from 'stream';
+
+interface CompletedUpload {
+  objectKey: string;
+  // Generated along with the object key; the asset is created with it
+  assetId?: string;
+  filename: string;
+  contentType: string;
+  fileSize: number;
+  sha256Hash?: string;
+  // Recorded on the asset next to the original filename
+  meta?: Prisma.JsonObject;
+  // Archive the file was extracted from
+  parentId?: string;
+  // Date and hash the object key was rendered from
+  createdAt?: Date;
+  keyHash?: string;
+}
+
+interface IngestedFile {
+  filename: string;
+  contentType: string;
+  // Streams are stored as they arrive and must deliver exactly fileSize bytes
+  content: Buffer | Readable;
+  fileSize: number;
+  parentId?: string;
+}
+
+interface ProxiedFile extends CompletedUpload {
+  sha256Hash: string;
+}
+
+interface PreparedCompletion {
+  index: number;
+  upload: CompletedUpload;
+  intent: UploadIntent;
+}
+
+// Interactive transaction timeout for batch completion, in milliseconds
+const BATCH_COMPLETE_TIMEOUT = 30000;
 
 @Injectable()
 export class UploadsService {
   private readonly logger = new Logger(UploadsService.name);
 
   constructor(
-    private readonly s3Service: S3Service,
+    @Inject(STORAGE_PROVIDER) private readonly storage: StorageProvider,
+    private readonly uploadIntentsService: UploadIntentsService,
+    private readonly objectReferencesService: ObjectReferencesService,
     private readonly prisma: PrismaService,
     private readonly jobsService: JobsService,
     private readonly auditService: AuditService,
+    private readonly settingsService: SettingsService,
+    private readonly urlFetcherService: UrlFetcherService,
+    private readonly uploadPoliciesService: UploadPoliciesService,
+    private readonly storageUsageService: StorageUsageService,
+    private readonly objectEncryptionService: ObjectEncryptionService,
+    private readonly objectKeysService: ObjectKeysService,
   ) {}
 
+  /**
+   * @param pending - Files presigned earlier in the same batch, counted
+   * against the daily limits and the storage quota
+   * @param client - User-Agent of the request, for abandonment stats
+   */
   async generatePresignedUploadUrl(
     presignDto: PresignUploadDto,
     userId: string,
+    pending?: UploadUsage,
+    client?: string,
   ): Promise<PresignResponseDto> {
-    // Validate file type
-    this.validateFileType(presignDto.contentType);
+    await this.uploadPoliciesService.enforce(
+      userId,
+      presignDto,
+      MAX_SINGLE_UPLOAD_SIZE,
+      pending,
+    );
+    await this.storageUsageService.assertWithinQuota(
+      userId,
+      presignDto.fileSize,
+      pending?.bytes,
+    );
 
-    // Validate file size
-    if (presignDto.fileSize <= 0 || presignDto.fileSize > 104857600) {
-      throw new BadRequestException('Invalid file size');
+    // Skip the upload entirely when the content is already stored
+    if (presignDto.sha256Hash) {
+      const duplicate = await this.findDuplicate(presignDto, userId);
+      if (duplicate) {
+        return duplicate;
+      }
     }
 
-    // Generate unique object key
-    const objectKey = this.generateObjectKey(presignDto.filename);
+    const { assetId, objectKey, createdAt } = this.generateObjectKey(
+      userId,
+      presignDto.filename,
+      presignDto.sha256Hash,
+    );
 
     // Generate presigned URL with metadata
     const metadata = {
@@ -42,13 +175,34 @@ export class UploadsService {
       'x-amz-meta-file-size': presignDto.fileSize.toString(),
     };
 
-    const presignedUrl = await this.s3Service.generatePresignedPutUrl(
+    // Have S3 verify the body against the declared hash where supported
+    const checksumSha256 =
+      presignDto.sha256Hash && this.storage.supportsChecksums()
+        ? Buffer.from(presignDto.sha256Hash, 'hex').toString('base64')
+        : undefined;
+
+    const method = presignDto.method ?? 'PUT';
+    const upload = await this.signSingleUpload(
+      method,
       objectKey,
-      presignDto.contentType,
-      3600, // 1 hour expiration
+      presignDto,
       metadata,
+      checksumSha256,
     );
 
+    // Bind the object key to the requesting user
+    await this.uploadIntentsService.createIntent({
+      userId,
+      objectKey,
+      assetId,
+      filename: presignDto.filename,
+      contentType: presignDto.contentType,
+      fileSize: presignDto.fileSize,
+      sha256Hash: presignDto.sha256Hash,
+      client,
+      createdAt,
+    });
+
     // Log upload start event
     await this.auditService.logFileEvent(userId, 'UPLOAD_START', objectKey, {
       filename: presignDto.filename,
@@ -58,76 +212,1162 @@ export class UploadsService {
     });
 
     this.logger.log(
-      `Generated presigned URL for ${presignDto.filename} -> ${objectKey}`,
+      `Generated presigned ${method} for ${presignDto.filename} -> ${objectKey}`,
     );
 
     return {
-      uploadUrl: presignedUrl,
+      duplicate: false,
+      method,
+      objectKey,
+      expiresIn: PRESIGNED_URL_EXPIRES_IN,
+      ...upload,
+    };
+  }
+
+  /**
+   * Presign several files at once. Items are validated and presigned one by
+   * one; a failing item is reported in its slot without affecting the others.
+   */
+  async generatePresignedUploadUrls(
+    batchDto: BatchPresignUploadDto,
+    userId: string,
+    client?: string,
+  ): Promise<BatchPresignResponseDto> {
+    const items: BatchPresignItemResultDto[] = [];
+    const pending: UploadUsage = { count: 0, bytes: 0 };
+
+    for (const [index, item] of batchDto.items.entries()) {
+      try {
+        const presignDto = await this.validateBatchItem(PresignUploadDto, item);
+        const result = await this.generatePresignedUploadUrl(
+          presignDto,
+          userId,
+          pending,
+          client,
+        );
+        items.push({ index, result });
+
+        if (!result.duplicate) {
+          pending.count++;
+          pending.bytes += presignDto.fileSize;
+        }
+      } catch (error) {
+        items.push({ index, error: this.toBatchItemError(error) });
+      }
+    }
+
+    return this.summarizeBatch(items);
+  }
+
+  /**
+   * Sign either a PUT URL with the headers the client must send, or a POST
+   * form policy whose conditions S3 enforces on the uploaded body
+   */
+  private async signSingleUpload(
+    method: PresignUploadMethod,
+    objectKey: string,
+    presignDto: PresignUploadDto,
+    metadata: Record<string, string>,
+    checksumSha256?: string,
+  ): Promise<Pick<PresignResponseDto, 'uploadUrl' | 'headers' | 'fields'>> {
+    if (method === 'POST') {
+      // The policy makes S3 reject bodies that differ from the declared size
+      const { url, fields } = await this.storage.generatePresignedPost(
+        objectKey,
+        presignDto.contentType,
+        { min: presignDto.fileSize, max: presignDto.fileSize },
+        PRESIGNED_URL_EXPIRES_IN,
+        metadata,
+        checksumSha256,
+      );
+      return { uploadUrl: url, fields };
+    }
+
+    const uploadUrl = await this.storage.generatePresignedPutUrl(
       objectKey,
-      expiresIn: 3600,
+      presignDto.contentType,
+      PRESIGNED_URL_EXPIRES_IN,
+      metadata,
+      checksumSha256,
+      presignDto.fileSize,
+    );
+
+    return {
+      uploadUrl,
       headers: {
         'Content-Type': presignDto.contentType,
-        'x-amz-meta-original-filename': presignDto.filename,
-        'x-amz-meta-file-size': presignDto.fileSize.toString(),
+        ...metadata,
+        ...(checksumSha256 && { 'x-amz-checksum-sha256': checksumSha256 }),
       },
     };
   }
 
-  async testS3Connection(): Promise<boolean> {
-    return this.s3Service.testConnection();
+  /**
+   * Look for the user's own asset with the same SHA-256 and size. Other
+   * users' copies are only shared once the media processor has verified the
+   * hash of the uploaded bytes, see shareStoredOriginal.
+   */
+  private async findDuplicate(
+    presignDto: PresignUploadDto,
+    userId: string,
+  ): Promise<PresignResponseDto | null> {
+    const ownAsset = await this.prisma.asset.findFirst({
+      where: {
+        ownerId: userId,
+        sha256: presignDto.sha256Hash!.toLowerCase(),
+        size: presignDto.fileSize,
+        status: { notIn: ['FAILED', 'QUARANTINED'] },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!ownAsset) {
+      return null;
+    }
+
+    this.logger.log(
+      `Presign for ${presignDto.filename} matched existing asset ${ownAsset.id}`,
+    );
+    return this.toDuplicateResponse(
+      ownAsset,
+      'File already exists in your inbox',
+    );
+  }
+
+  private toDuplicateResponse(
+    asset: Asset,
+    message: string,
+  ): PresignResponseDto {
+    return {
+      duplicate: true,
+      objectKey: asset.objectKey,
+      asset: {
+        assetId: asset.id,
+        objectKey: asset.objectKey,
+        status: asset.status,
+        message,
+        completedAt: asset.createdAt.toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Point an asset at another user's stored copy of the same content when
+   * cross-user deduplication is enabled, and delete the uploaded copy.
+   * Called by the media processor with the hash it verified, since the
+   * declared hash proves nothing. Returns whether the asset was moved.
+   */
+  async shareStoredOriginal(assetId: string, sha256: string): Promise<boolean> {
+    if (!(await this.settingsService.get('uploads.crossUserDedup'))) {
+      return false;
+    }
+
+    const asset = await this.prisma.asset.findUnique({
+      where: { id: assetId },
+      select: { ownerId: true, objectKey: true, size: true },
+    });
+    if (!asset) {
+      return false;
+    }
+
+    // Cold originals can't be served or processed without a restore
+    const sharable = {
+      status: 'READY',
+      storageTier: 'HOT',
+      restoreRequestedAt: null,
+    } satisfies Prisma.AssetWhereInput;
+    const shared = await this.prisma.asset.findFirst({
+      where: {
+        ownerId: { not: asset.ownerId },
+        sha256,
+        size: asset.size,
+        objectKey: { not: asset.objectKey },
+        ...sharable,
+      },
+      orderBy: { createdAt: 'asc' },
+      select: STORED_ORIGINAL_SELECT,
+    });
+    if (!shared) {
+      return false;
+    }
+
+    // The new owner gets the object's data key wrapped with their own key;
+    // plaintext originals have none
+    const {
+      dataKey = null,
+      dataKeyId = null,
+      encryptedAt = null,
+    } = await this.objectEncryptionService.shareDataKey(shared, asset.ownerId);
+
+    const moved = await this.prisma.$transaction(async (tx) => {
+      await this.objectReferencesService.lockObjects(tx, [
+        asset.objectKey,
+        shared.objectKey,
+      ]);
+
+      // The stored copy may have been deleted since it was picked, and the
+      // uploaded copy may be shared by now; either way keep the upload
+      const [sharedCount, uploadedCount] = await Promise.all([
+        tx.asset.count({
+          where: { objectKey: shared.objectKey, sha256, ...sharable },
+        }),
+        tx.asset.count({ where: { objectKey: asset.objectKey } }),
+      ]);
+      if (sharedCount === 0 || uploadedCount !== 1) {
+        return false;
+      }
+
+      const { count } = await tx.asset.updateMany({
+        where: { id: assetId, objectKey: asset.objectKey },
+        data: {
+          objectKey: shared.objectKey,
+          dataKey,
+          dataKeyId,
+          encryptedAt,
+        },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      await this.objectReferencesService.addReference(tx, shared.objectKey);
+      return true;
+    });
+
+    if (!moved) {
+      return false;
+    }
+
+    this.logger.log(
+      `Asset ${assetId} now shares ${shared.objectKey}, deleting ${asset.objectKey}`,
+    );
+    await this.storage.deleteObject(asset.objectKey).catch((error) => {
+      this.logger.warn(
+        `Failed to delete duplicate upload ${asset.objectKey}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    });
+    return true;
+  }
+
+  async testStorageConnection(): Promise<boolean> {
+    return this.storage.testConnection();
   }
 
   async completeUpload(
     uploadCompleteDto: UploadCompleteDto,
     userId: string,
   ): Promise<UploadCompleteResponseDto> {
-    // Validate file type
-    this.validateFileType(uploadCompleteDto.contentType);
+    const { upload, intent } = await this.prepareCompletion(
+      uploadCompleteDto,
+      userId,
+    );
 
-    // Validate file size
-    if (
-      uploadCompleteDto.fileSize <= 0 ||
-      uploadCompleteDto.fileSize > 104857600
-    ) {
+    return this.createAssetAndEnqueue(upload, intent, userId);
+  }
+
+  /**
+   * Complete several presigned uploads at once. Each item is checked on its
+   * own; the assets for all valid items are then created and their jobs
+   * queued in a single transaction.
+   */
+  async completeUploads(
+    batchDto: BatchUploadCompleteDto,
+    userId: string,
+  ): Promise<BatchUploadCompleteResponseDto> {
+    const items: BatchUploadCompleteItemResultDto[] = [];
+    const completions: PreparedCompletion[] = [];
+    const objectKeys = new Set<string>();
+    const pending: UploadUsage = { count: 0, bytes: 0 };
+
+    for (const [index, item] of batchDto.items.entries()) {
+      try {
+        const completeDto = await this.validateBatchItem(
+          UploadCompleteDto,
+          item,
+        );
+
+        if (objectKeys.has(completeDto.objectKey)) {
+          throw new BadRequestException(
+            `Object key ${completeDto.objectKey} appears more than once in the batch`,
+          );
+        }
+        objectKeys.add(completeDto.objectKey);
+
+        const completion = await this.prepareCompletion(
+          completeDto,
+          userId,
+          pending,
+        );
+        completions.push({ index, ...completion });
+        pending.count++;
+        pending.bytes += completion.upload.fileSize;
+      } catch (error) {
+        items.push({ index, error: this.toBatchItemError(error) });
+      }
+    }
+
+    if (completions.length > 0) {
+      try {
+        const results = await this.createAssetsAndEnqueue(completions, userId);
+        completions.forEach(({ index }, i) =>
+          items.push({ index, result: results[i] }),
+        );
+      } catch (error) {
+        // Nothing was created, so every valid item fails with the same error
+        const batchError = this.toBatchItemError(error);
+        for (const { index } of completions) {
+          items.push({ index, error: batchError });
+        }
+      }
+    }
+
+    items.sort((a, b) => a.index - b.index);
+    return this.summarizeBatch(items);
+  }
+
+  /**
+   * Check a completion request against its intent and the stored object
+   */
+  private async prepareCompletion(
+    uploadCompleteDto: UploadCompleteDto,
+    userId: string,
+    pending?: UploadUsage,
+  ): Promise<{ upload: CompletedUpload; intent: UploadIntent }> {
+    // The policy may have changed since the upload was presigned
+    await this.uploadPoliciesService.enforce(
+      userId,
+      uploadCompleteDto,
+      MAX_SINGLE_UPLOAD_SIZE,
+      pending,
+    );
+
+    const intent = await this.uploadIntentsService.getActiveIntent(
+      uploadCompleteDto.objectKey,
+      userId,
+    );
+    this.assertMatchesIntent(uploadCompleteDto, intent);
+
+    const storedObject = await this.verifyUploadedObject(uploadCompleteDto);
+    await this.uploadIntentsService.markUploaded(intent.objectKey);
+
+    const upload: CompletedUpload = {
+      ...uploadCompleteDto,
+      ...storedObject,
+      assetId: intent.assetId ?? undefined,
+      sha256Hash: intent.sha256Hash ?? uploadCompleteDto.sha256Hash,
+      createdAt: intent.createdAt,
+      keyHash: intent.sha256Hash ?? undefined,
+    };
+
+    return { upload, intent };
+  }
+
+  /**
+   * Receive a multipart/form-data upload and stream its "file" field into
+   * storage, for clients that cannot reach the bucket. The file is never
+   * fully buffered in memory.
+   */
+  async proxyUpload(
+    req: Readable & { headers: IncomingHttpHeaders },
+    userId: string,
+  ): Promise<UploadCompleteResponseDto> {
+    // Check the limits before reading the body, taking the whole request as
+    // the file. Chunked bodies have no size yet: only the file count is
+    // checked and the size is checked once the file is received.
+    const policy = await this.uploadPoliciesService.getEffectivePolicy(userId);
+    const maxFileSize = this.uploadPoliciesService.maxFileSize(
+      policy,
+      MAX_SINGLE_UPLOAD_SIZE,
+    );
+    const contentLength = Number(req.headers['content-length']);
+    const expectedSize =
+      contentLength > 0 ? Math.min(contentLength, maxFileSize) : undefined;
+    await this.uploadPoliciesService.enforce(
+      userId,
+      { fileSize: expectedSize },
+      MAX_SINGLE_UPLOAD_SIZE,
+    );
+    if (expectedSize !== undefined) {
+      await this.storageUsageService.assertWithinQuota(userId, expectedSize);
+    }
+
+    // Stop reading once the file can no longer fit in the quota
+    const available = await this.storageUsageService.getAvailableBytes(userId);
+    const upload = await this.receiveProxiedFile(
+      req,
+      userId,
+      policy,
+      available === null ? maxFileSize : Math.min(maxFileSize, available),
+    );
+
+    try {
+      // Check again with the size actually received
+      await this.uploadPoliciesService.enforce(
+        userId,
+        upload,
+        MAX_SINGLE_UPLOAD_SIZE,
+      );
+      await this.storageUsageService.assertWithinQuota(userId, upload.fileSize);
+      const storedObject = await this.verifyUploadedObject(upload);
+      return await this.createAssetAndEnqueue(
+        { ...upload, ...storedObject },
+        null,
+        userId,
+      );
+    } catch (error) {
+      await this.storage.deleteObject(upload.objectKey).catch(() => {
+        // Left for manual cleanup; the upload already failed
+      });
+      throw error;
+    }
+  }
+
+  private receiveProxiedFile(
+    req: Readable & { headers: IncomingHttpHeaders },
+    userId: string,
+    policy: EffectiveUploadPolicy,
+    maxFileSize: number,
+  ): Promise<ProxiedFile> {
+    return new Promise((resolve, reject) => {
+      let parser: busboy.Busboy;
+      try {
+        parser = busboy({
+          headers: req.headers,
+          limits: { files: 1, fileSize: maxFileSize },
+        });
+      } catch {
+        reject(new BadRequestException('Expected a multipart/form-data body'));
+        return;
+      }
+
+      let received: Promise<ProxiedFile> | null = null;
+
+      parser.on('file', (fieldName, file, info) => {
+        if (fieldName !== 'file' || received) {
+          file.resume();
+          return;
+        }
+        received = this.streamFileToStorage(
+          file,
+          info,
+          userId,
+          policy,
+          maxFileSize,
+        );
+        // Settled through the close handler
+        received.catch(() => undefined);
+      });
+
+      parser.on('error', (error) => {
+        req.unpipe(parser);
+        reject(
+          new BadRequestException(
+            `Invalid multipart body: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          ),
+        );
+      });
+
+      parser.on('close', () => {
+        if (!received) {
+          reject(new BadRequestException('Missing "file" field'));
+          return;
+        }
+        received.then(resolve, reject);
+      });
+
+      req.pipe(parser);
+    });
+  }
+
+  private async streamFileToStorage(
+    file: Readable,
+    info: busboy.FileInfo,
+    userId: string,
+    policy: EffectiveUploadPolicy,
+    maxFileSize: number,
+  ): Promise<ProxiedFile> {
+    const filename = info.filename || 'upload';
+    const contentType = this.normalizeContentType(info.mimeType);
+
+    try {
+      this.uploadPoliciesService.assertTypeAllowed(policy, contentType);
+    } catch (error) {
+      file.resume();
+      throw error;
+    }
+
+    // The hash is only known once the file is stored
+    const { assetId, objectKey, createdAt } = this.generateObjectKey(
+      userId,
+      filename,
+    );
+    const hash = createHash('sha256');
+    let fileSize = 0;
+
+    const hasher = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash.update(chunk);
+        fileSize += chunk.length;
+        callback(null, chunk);
+      },
+    });
+
+    // Abort the S3 upload as soon as the client goes over the limit
+    file.on('limit', () => {
+      hasher.destroy(
+        new PayloadTooLargeException(
+          `File exceeds the maximum size of ${maxFileSize} bytes`,
+        ),
+      );
+    });
+    await this.auditService.logFileEvent(userId, 'UPLOAD_START', objectKey, {
+      filename,
+      contentType,
+      objectKey,
+    });
+
+    try {
+      await this.storage.uploadStream(
+        objectKey,
+        pipeThrough(file, hasher),
+        contentType,
+        { 'original-filename': filename },
+      );
+    } catch (error) {
+      if (error instanceof PayloadTooLargeException) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to store uploaded file: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+
+    if (fileSize === 0) {
+      await this.storage.deleteObject(objectKey);
       throw new BadRequestException('Invalid file size');
     }
 
-    // Create asset record in database
+    this.logger.log(
+      `Proxied upload of ${filename} stored as ${objectKey} (${fileSize} bytes)`,
+    );
+
+    return {
+      objectKey,
+      assetId,
+      filename,
+      contentType,
+      fileSize,
+      sha256Hash: hash.digest('hex'),
+      createdAt,
+    };
+  }
+
+  /**
+   * Store a file that arrived outside the HTTP API, such as an email
+   * attachment or an archive entry, and queue it like any other upload
+   * @param meta - Where the file came from, recorded on the asset
+   */
+  async ingestFile(
+    file: IngestedFile,
+    userId: string,
+    meta: Prisma.JsonObject,
+  ): Promise<UploadCompleteResponseDto> {
+    const filename = file.filename || 'attachment';
+    const contentType = this.normalizeContentType(file.contentType);
+    const { fileSize } = file;
+
+    await this.uploadPoliciesService.enforce(
+      userId,
+      { contentType, fileSize },
+      MAX_SINGLE_UPLOAD_SIZE,
+    );
+    await this.storageUsageService.assertWithinQuota(userId, fileSize);
+
+    const { assetId, objectKey, createdAt } = this.generateObjectKey(
+      userId,
+      filename,
+    );
+    await this.auditService.logFileEvent(userId, 'UPLOAD_START', objectKey, {
+      filename,
+      contentType,
+      objectKey,
+    });
+
+    const hash = createHash('sha256');
+    let received = 0;
+    const hasher = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash.update(chunk);
+        received += chunk.length;
+        callback(null, chunk);
+      },
+    });
+    const body = Buffer.isBuffer(file.content)
+      ? Readable.from([file.content])
+      : file.content;
+
+    await this.storage.uploadStream(
+      objectKey,
+      pipeThrough(body, hasher),
+      contentType,
+      { 'original-filename': filename },
+    );
+
+    try {
+      if (received !== fileSize) {
+        throw new BadRequestException(
+          `File size mismatch: expected ${fileSize} bytes, received ${received}`,
+        );
+      }
+
+      return await this.createAssetAndEnqueue(
+        {
+          objectKey,
+          assetId,
+          filename,
+          contentType,
+          fileSize,
+          sha256Hash: hash.digest('hex'),
+          meta,
+          parentId: file.parentId,
+          createdAt,
+        },
+        null,
+        userId,
+      );
+    } catch (error) {
+      await this.storage.deleteObject(objectKey).catch(() => {
+        // Left for manual cleanup; the upload already failed
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a remote URL for import. The asset is created right away so the
+   * fetch job and the processing that follows are tracked against it.
+   */
+  async importFromUrl(
+    importDto: ImportUrlDto,
+    userId: string,
+  ): Promise<ImportUrlResponseDto> {
+    // Fail fast on URLs the fetch job would refuse anyway
+    let url: URL;
+    try {
+      url = await this.urlFetcherService.validateUrl(importDto.url);
+    } catch (error) {
+      if (error instanceof UrlFetchError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    // Only the daily limits can be checked before the file is fetched
+    await this.uploadPoliciesService.enforce(
+      userId,
+      {},
+      MAX_SINGLE_UPLOAD_SIZE,
+    );
+
+    const filename = importDto.filename ?? this.filenameFromUrl(url);
+    const { assetId, objectKey, createdAt } = this.generateObjectKey(
+      userId,
+      filename,
+    );
+
+    // Type and size are only known once the file has been fetched
     const asset = await this.prisma.asset.create({
       data: {
-        objectKey: uploadCompleteDto.objectKey,
-        mime: uploadCompleteDto.contentType,
-        size: uploadCompleteDto.fileSize,
+        id: assetId,
+        objectKey,
+        mime: 'application/octet-stream',
+        size: 0,
         status: 'PENDING',
         ownerId: userId,
+        createdAt,
         meta: {
-          originalFilename: uploadCompleteDto.filename,
-          sha256Hash: uploadCompleteDto.sha256Hash,
+          originalFilename: filename,
+          sourceUrl: url.href,
         },
       },
     });
 
+    const jobId = await this.jobsService.addUrlImportJob({
+      assetId: asset.id,
+      objectKey,
+      url: url.href,
+      originalFilename: filename,
+    });
+
+    await this.auditService.logFileEvent(userId, 'UPLOAD_START', objectKey, {
+      assetId: asset.id,
+      filename,
+      objectKey,
+    });
+
+    this.logger.log(`Queued import of ${url.href} as asset ${asset.id}`);
+
+    return {
+      assetId: asset.id,
+      jobId,
+      objectKey,
+      status: asset.status,
+      message: 'Import queued, the file will be fetched in the background',
+    };
+  }
+
+  async initiateMultipartUpload(
+    initiateDto: InitiateMultipartUploadDto,
+    userId: string,
+    client?: string,
+  ): Promise<InitiateMultipartUploadResponseDto> {
+    await this.uploadPoliciesService.enforce(
+      userId,
+      initiateDto,
+      MAX_MULTIPART_UPLOAD_SIZE,
+    );
+    await this.storageUsageService.assertWithinQuota(
+      userId,
+      initiateDto.fileSize,
+    );
+
+    const partSize = this.calculatePartSize(
+      initiateDto.fileSize,
+      initiateDto.partSize,
+    );
+    const partCount = Math.ceil(initiateDto.fileSize / partSize);
+
+    const { assetId, objectKey, createdAt } = this.generateObjectKey(
+      userId,
+      initiateDto.filename,
+      initiateDto.sha256Hash,
+    );
+
+    const uploadId = await this.storage.createMultipartUpload(
+      objectKey,
+      initiateDto.contentType,
+      {
+        'original-filename': initiateDto.filename,
+        'file-size': initiateDto.fileSize.toString(),
+      },
+    );
+
+    // Bind the object key and upload ID to the requesting user
+    await this.uploadIntentsService.createIntent({
+      userId,
+      objectKey,
+      assetId,
+      uploadId,
+      filename: initiateDto.filename,
+      contentType: initiateDto.contentType,
+      fileSize: initiateDto.fileSize,
+      sha256Hash: initiateDto.sha256Hash,
+      client,
+      createdAt,
+    });
+
+    // Log upload start event
+    await this.auditService.logFileEvent(userId, 'UPLOAD_START', objectKey, {
+      filename: initiateDto.filename,
+      contentType: initiateDto.contentType,
+      fileSize: initiateDto.fileSize,
+      objectKey,
+    });
+
     this.logger.log(
-      `Asset created for ${uploadCompleteDto.filename} with ID: ${asset.id}`,
+      `Initiated multipart upload for ${initiateDto.filename} -> ${objectKey} (${partCount} parts)`,
     );
 
-    // Enqueue media processing job
-    const jobData: MediaProcessingJobData = {
+    return {
+      uploadId,
+      objectKey,
+      partSize,
+      partCount,
+      expiresIn: PRESIGNED_URL_EXPIRES_IN,
+    };
+  }
+
+  async presignMultipartParts(
+    presignPartsDto: PresignMultipartPartsDto,
+    userId: string,
+  ): Promise<PresignMultipartPartsResponseDto> {
+    const { objectKey, uploadId } = presignPartsDto;
+    await this.uploadIntentsService.getActiveIntent(
+      objectKey,
+      userId,
+      uploadId,
+    );
+    const partNumbers = [...new Set(presignPartsDto.partNumbers)];
+
+    const parts = await Promise.all(
+      partNumbers.map(async (partNumber) => ({
+        partNumber,
+        uploadUrl: await this.storage.generatePresignedUploadPartUrl(
+          objectKey,
+          uploadId,
+          partNumber,
+          PRESIGNED_URL_EXPIRES_IN,
+        ),
+      })),
+    );
+
+    return {
+      parts,
+      expiresIn: PRESIGNED_URL_EXPIRES_IN,
+    };
+  }
+
+  async listMultipartParts(
+    uploadRefDto: MultipartUploadRefDto,
+    userId: string,
+  ): Promise<ListMultipartPartsResponseDto> {
+    const { objectKey, uploadId } = uploadRefDto;
+    await this.uploadIntentsService.getActiveIntent(
+      objectKey,
+      userId,
+      uploadId,
+    );
+    const parts = await this.listUploadedParts(objectKey, uploadId);
+    if (parts.length > 0) {
+      await this.uploadIntentsService.markUploading(objectKey);
+    }
+
+    return {
+      objectKey,
+      uploadId,
+      parts: parts.map((part) => ({
+        partNumber: part.partNumber,
+        etag: part.etag,
+        size: part.size,
+        lastModified: part.lastModified?.toISOString(),
+      })),
+    };
+  }
+
+  async completeMultipartUpload(
+    completeDto: CompleteMultipartUploadDto,
+    userId: string,
+  ): Promise<UploadCompleteResponseDto> {
+    const { objectKey, uploadId } = completeDto;
+
+    // The policy may have changed since the upload was initiated
+    await this.uploadPoliciesService.enforce(
+      userId,
+      completeDto,
+      MAX_MULTIPART_UPLOAD_SIZE,
+    );
+
+    const intent = await this.uploadIntentsService.getActiveIntent(
+      objectKey,
+      userId,
+      uploadId,
+    );
+    this.assertMatchesIntent(completeDto, intent);
+
+    // Use the parts sent by the client, or fall back to what S3 has received
+    const parts: MultipartUploadPart[] = completeDto.parts
+      ? [...completeDto.parts].sort((a, b) => a.partNumber - b.partNumber)
+      : await this.listUploadedParts(objectKey, uploadId);
+
+    if (parts.length === 0) {
+      throw new BadRequestException('No parts have been uploaded');
+    }
+
+    if (new Set(parts.map((part) => part.partNumber)).size !== parts.length) {
+      throw new BadRequestException('Duplicate part numbers');
+    }
+
+    // The asset is only created once S3 has assembled the object
+    try {
+      await this.storage.completeMultipartUpload(objectKey, uploadId, parts);
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to complete multipart upload: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+
+    await this.uploadIntentsService.markUploaded(objectKey);
+    const storedObject = await this.verifyUploadedObject(completeDto);
+
+    return this.createAssetAndEnqueue(
+      {
+        ...completeDto,
+        ...storedObject,
+        assetId: intent.assetId ?? undefined,
+        sha256Hash: intent.sha256Hash ?? completeDto.sha256Hash,
+        createdAt: intent.createdAt,
+        keyHash: intent.sha256Hash ?? undefined,
+      },
+      intent,
+      userId,
+    );
+  }
+
+  async abortMultipartUpload(
+    uploadRefDto: MultipartUploadRefDto,
+    userId: string,
+  ): Promise<void> {
+    const { objectKey, uploadId } = uploadRefDto;
+    const intent = await this.uploadIntentsService.getActiveIntent(
+      objectKey,
+      userId,
+      uploadId,
+    );
+
+    try {
+      await this.storage.abortMultipartUpload(objectKey, uploadId);
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to abort multipart upload: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+
+    // Audited as a failed upload
+    await this.uploadIntentsService.abandonIntent(intent);
+
+    this.logger.log(`Aborted multipart upload ${uploadId} for ${objectKey}`);
+  }
+
+  private async listUploadedParts(
+    objectKey: string,
+    uploadId: string,
+  ): Promise<MultipartUploadPart[]> {
+    try {
+      return await this.storage.listParts(objectKey, uploadId);
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to list multipart upload parts: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Check the uploaded object in storage against what the client declared.
+   * Returns the size and content type reported by storage.
+   */
+  private async verifyUploadedObject(upload: {
+    objectKey: string;
+    contentType: string;
+    fileSize: number;
+  }): Promise<{ fileSize: number; contentType: string }> {
+    const head = await this.storage.headObject(upload.objectKey);
+
+    if (!head) {
+      throw new BadRequestException(
+        `Uploaded object ${upload.objectKey} was not found in storage`,
+      );
+    }
+
+    if (head.contentLength !== upload.fileSize) {
+      throw new BadRequestException(
+        `File size mismatch: declared ${upload.fileSize} bytes, stored object is ${head.contentLength} bytes`,
+      );
+    }
+
+    const storedType = this.normalizeContentType(head.contentType);
+    if (storedType !== this.normalizeContentType(upload.contentType)) {
+      throw new BadRequestException(
+        `Content type mismatch: declared ${upload.contentType}, stored object is ${head.contentType ?? 'unknown'}`,
+      );
+    }
+
+    return { fileSize: head.contentLength, contentType: storedType };
+  }
+
+  /**
+   * Make sure the completion request describes the file that was presigned
+   */
+  private assertMatchesIntent(
+    upload: { contentType: string; fileSize: number; sha256Hash?: string },
+    intent: UploadIntent,
+  ): void {
+    if (
+      this.normalizeContentType(upload.contentType) !==
+      this.normalizeContentType(intent.contentType)
+    ) {
+      throw new BadRequestException(
+        `Content type ${upload.contentType} does not match the presigned type ${intent.contentType}`,
+      );
+    }
+
+    if (BigInt(upload.fileSize) !== intent.fileSize) {
+      throw new BadRequestException(
+        `File size ${upload.fileSize} does not match the presigned size ${intent.fileSize}`,
+      );
+    }
+
+    if (
+      upload.sha256Hash &&
+      intent.sha256Hash &&
+      upload.sha256Hash.toLowerCase() !== intent.sha256Hash
+    ) {
+      throw new BadRequestException(
+        'SHA-256 hash does not match the presigned hash',
+      );
+    }
+  }
+
+  private normalizeContentType(contentType?: string): string {
+    // Drop parameters such as "; charset=utf-8"
+    return (contentType ?? '').split(';')[0].trim().toLowerCase();
+  }
+
+  private async createAssetAndEnqueue(
+    upload: CompletedUpload,
+    intent: UploadIntent | null,
+    userId: string,
+  ): Promise<UploadCompleteResponseDto> {
+    // Consume the intent and create the asset record together, so a
+    // concurrent completion of the same upload cannot create a second asset
+    const asset = await this.prisma.$transaction(async (tx) => {
+      if (intent) {
+        await this.uploadIntentsService.consumeIntent(tx, intent.id);
+      }
+
+      const created = await tx.asset.create({
+        data: this.toAssetData(upload, userId),
+      });
+      await this.storageUsageService.adjustUsage(tx, userId, upload.fileSize);
+      return created;
+    });
+
+    this.logger.log(
+      `Asset created for ${upload.filename} with ID: ${asset.id}`,
+    );
+
+    await this.enqueueProcessing([this.toJobData(asset, upload.filename)]);
+
+    return this.completeAsset(asset, upload, userId);
+  }
+
+  /**
+   * Batch version of createAssetAndEnqueue: either every asset is created or
+   * none is and all intents stay open for a retry. The jobs are queued once
+   * the assets are committed.
+   */
+  private async createAssetsAndEnqueue(
+    completions: PreparedCompletion[],
+    userId: string,
+  ): Promise<UploadCompleteResponseDto[]> {
+    const assets = await this.prisma.$transaction(
+      async (tx) => {
+        const created: Asset[] = [];
+        for (const { upload, intent } of completions) {
+          await this.uploadIntentsService.consumeIntent(tx, intent.id);
+          created.push(
+            await tx.asset.create({ data: this.toAssetData(upload, userId) }),
+          );
+        }
+
+        await this.storageUsageService.adjustUsage(
+          tx,
+          userId,
+          completions.reduce((total, { upload }) => total + upload.fileSize, 0),
+        );
+        return created;
+      },
+      { timeout: BATCH_COMPLETE_TIMEOUT },
+    );
+
+    this.logger.log(`Batch created ${assets.length} assets`);
+
+    await this.enqueueProcessing(
+      assets.map((asset, i) =>
+        this.toJobData(asset, completions[i].upload.filename),
+      ),
+    );
+
+    return Promise.all(
+      assets.map((asset, i) =>
+        this.completeAsset(asset, completions[i].upload, userId),
+      ),
+    );
+  }
+
+  /**
+   * Queue media processing for committed assets. Assets whose job could not
+   * be queued are marked FAILED instead of staying PENDING forever.
+   */
+  private async enqueueProcessing(
+    jobs: MediaProcessingJobData[],
+  ): Promise<void> {
+    try {
+      await this.jobsService.addMediaProcessingJobs(jobs);
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue ${jobs.length} assets for processing:`,
+        error,
+      );
+      await this.prisma.asset.updateMany({
+        where: { id: { in: jobs.map((job) => job.assetId) } },
+        data: { status: 'FAILED' },
+      });
+      throw error;
+    }
+
+    this.logger.log(`Queued ${jobs.length} assets for processing`);
+  }
+
+  private toAssetData(
+    upload: CompletedUpload,
+    userId: string,
+  ): Prisma.AssetUncheckedCreateInput {
+    return {
+      id: upload.assetId,
+      objectKey: upload.objectKey,
+      createdAt: upload.createdAt,
+      mime: upload.contentType,
+      size: upload.fileSize,
+      status: 'PENDING',
+      ownerId: userId,
+      parentId: upload.parentId,
+      meta: {
+        ...upload.meta,
+        originalFilename: upload.filename,
+        sha256Hash: upload.sha256Hash,
+        keyHash: upload.keyHash,
+      },
+    };
+  }
+
+  private toJobData(
+    asset: Asset,
+    originalFilename: string,
+  ): MediaProcessingJobData {
+    return {
       assetId: asset.id,
       objectKey: asset.objectKey,
       mimeType: asset.mime,
-      originalFilename: uploadCompleteDto.filename,
+      originalFilename,
     };
+  }
 
-    await this.jobsService.addMediaProcessingJob(jobData);
-    this.logger.log(`Media processing job enqueued for asset: ${asset.id}`);
-
+  /**
+   * Audit a created and queued asset and build the completion response
+   */
+  private async completeAsset(
+    asset: Asset,
+    upload: CompletedUpload,
+    userId: string,
+  ): Promise<UploadCompleteResponseDto> {
     // Log upload completion event
     await this.auditService.logFileEvent(userId, 'UPLOAD_COMPLETE', asset.id, {
       assetId: asset.id,
-      filename: uploadCompleteDto.filename,
-      contentType: uploadCompleteDto.contentType,
-      fileSize: uploadCompleteDto.fileSize,
+      filename: upload.filename,
+      contentType: upload.contentType,
+      fileSize: upload.fileSize,
       objectKey: asset.objectKey,
       jobEnqueued: true,
     });
@@ -141,42 +1381,99 @@ export class UploadsService {
     };
   }
 
-  private validateFileType(contentType: string): void {
-    const allowedTypes = [
-      'image/jpeg',
-      'image/png',
-      'image/gif',
-      'image/webp',
-      'application/pdf',
-      'text/plain',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    ];
+  /**
+   * Validate one batch item the way the global ValidationPipe validates a
+   * single request body
+   */
+  private async validateBatchItem<T extends object>(
+    dtoClass: ClassConstructor<T>,
+    item: object,
+  ): Promise<T> {
+    const dto = plainToInstance(dtoClass, item);
+    const errors = await validate(dto, {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
 
-    if (!allowedTypes.includes(contentType)) {
+    if (errors.length > 0) {
       throw new BadRequestException(
-        `File type ${contentType} is not allowed. Allowed types: ${allowedTypes.join(', ')}`,
+        errors
+          .flatMap((error) => Object.values(error.constraints ?? {}))
+          .join(', '),
       );
     }
+
+    return dto;
   }
 
-  private generateObjectKey(filename: string): string {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const day = String(now.getDate()).padStart(2, '0');
+  private toBatchItemError(error: unknown): BatchItemErrorDto {
+    if (error instanceof HttpException) {
+      return { statusCode: error.getStatus(), message: error.message };
+    }
 
-    // Generate unique identifier
-    const uuid = uuidv4();
+    this.logger.error('Batch upload item failed:', error);
+    return {
+      statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+      message: 'Internal server error',
+    };
+  }
 
-    // Get file extension
-    const ext = path.extname(filename);
-    const nameWithoutExt = path.basename(filename, ext);
+  private summarizeBatch<T extends { error?: BatchItemErrorDto }>(
+    items: T[],
+  ): { items: T[]; succeeded: number; failed: number } {
+    const failed = items.filter((item) => item.error).length;
+    return { items, succeeded: items.length - failed, failed };
+  }
 
-    // Create sanitized filename (remove special characters)
-    const sanitizedName = nameWithoutExt.replace(/[^a-zA-Z0-9\-_]/g, '_');
+  /**
+   * Pick a part size that keeps the upload within S3's 10000 part limit
+   */
+  private calculatePartSize(fileSize: number, requested?: number): number {
+    const minimumForFile = Math.ceil(fileSize / MAX_MULTIPART_PARTS);
+    const partSize = Math.max(
+      requested ?? DEFAULT_MULTIPART_PART_SIZE,
+      minimumForFile,
+      MIN_MULTIPART_PART_SIZE,
+    );
+
+    if (partSize > MAX_MULTIPART_PART_SIZE) {
+      throw new BadRequestException('File is too large for a multipart upload');
+    }
 
-    // Format: uploads/YYYY/MM/DD/uuid-sanitized-name.ext
-    return `uploads/${year}/${month}/${day}/${uuid}-${sanitizedName}${ext}`;
+    return partSize;
+  }
+
+  private filenameFromUrl(url: URL): string {
+    const segment = path.posix.basename(url.pathname);
+    try {
+      return decodeURIComponent(segment) || 'download';
+    } catch {
+      return segment || 'download';
+    }
+  }
+
+  /**
+   * Pick the ID of the asset about to be uploaded and the key its original
+   * is stored under
+   */
+  private generateObjectKey(
+    userId: string,
+    filename: string,
+    sha256Hash?: string,
+  ): { assetId: string; objectKey: string; createdAt: Date } {
+    const assetId = this.objectKeysService.generateAssetId();
+    // Stored with the asset, so re-keying renders the same key again
+    const createdAt = new Date();
+    return {
+      assetId,
+      objectKey: this.objectKeysService.objectKey({
+        userId,
+        assetId,
+        filename,
+        createdAt,
+        sha256: sha256Hash,
+      }),
+      createdAt,
+    };
   }
 }
@@ -0,0 +1,290 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { Readable, Transform, pipeline } from 'stream';
+
+export interface UrlFetchOptions {
+  maxBytes: number;
+  timeoutMs: number;
+  maxRedirects: number;
+}
+
+export interface FetchedResource {
+  body: Readable;
+  contentType?: string;
+  contentLength?: number;
+  url: string; // Final URL after redirects
+}
+
+/**
+ * Raised when a remote URL cannot be imported. Retryable errors are network
+ * or server failures; everything else (blocked address, too large...) is final.
+ */
+export class UrlFetchError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean = false,
+  ) {
+    super(message);
+    this.name = 'UrlFetchError';
+  }
+}
+
+// Addresses that must never be fetched: private networks, loopback,
+// link-local (including cloud metadata endpoints) and reserved ranges.
+// IPv4-mapped IPv6 addresses are matched against the IPv4 rules.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], // Unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96], // NAT64
+  ['100::', 64],
+  ['2001::', 32], // Teredo
+  ['2001:db8::', 32],
+  ['2002::', 16], // 6to4
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+@Injectable()
+export class UrlFetcherService {
+  private readonly logger = new Logger(UrlFetcherService.name);
+
+  /**
+   * Check that a URL may be fetched: http(s) only, no credentials, and a
+   * host that does not resolve to a blocked address
+   */
+  async validateUrl(rawUrl: string): Promise<URL> {
+    const url = this.parseUrl(rawUrl);
+
+    const hostname = this.stripBrackets(url.hostname);
+    if (!isIP(hostname)) {
+      let addresses: dns.LookupAddress[];
+      try {
+        addresses = await dns.promises.lookup(hostname, { all: true });
+      } catch {
+        throw new UrlFetchError(`Host ${hostname} could not be resolved`);
+      }
+      this.assertPublicAddresses(hostname, addresses);
+    }
+
+    return url;
+  }
+
+  /**
+   * Download a URL, following a limited number of redirects. Every hop is
+   * re-validated and the addresses are checked again when connecting, so DNS
+   * rebinding cannot reach a blocked address. The returned body fails once it
+   * exceeds maxBytes, and the whole transfer is bounded by timeoutMs.
+   */
+  async fetch(
+    rawUrl: string,
+    options: UrlFetchOptions,
+  ): Promise<FetchedResource> {
+    const signal = AbortSignal.timeout(options.timeoutMs);
+    let url = this.parseUrl(rawUrl);
+
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.request(url, signal);
+      const status = response.statusCode ?? 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects >= options.maxRedirects) {
+          throw new UrlFetchError(
+            `Too many redirects (more than ${options.maxRedirects})`,
+          );
+        }
+        url = this.parseUrl(new URL(response.headers.location, url).href);
+        this.logger.debug(`Following redirect to ${url.href}`);
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new UrlFetchError(
+          `Remote server responded with status ${status}`,
+          status >= 500 || status === 429,
+        );
+      }
+
+      const contentLength = response.headers['content-length']
+        ? Number(response.headers['content-length'])
+        : undefined;
+
+      if (contentLength !== undefined && contentLength > options.maxBytes) {
+        response.destroy();
+        throw new UrlFetchError(
+          `Remote file is ${contentLength} bytes, the limit is ${options.maxBytes}`,
+        );
+      }
+
+      return {
+        body: this.limitSize(response, options.maxBytes),
+        contentType: response.headers['content-type'],
+        contentLength,
+        url: url.href,
+      };
+    }
+  }
+
+  isBlockedAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 0) {
+      return true;
+    }
+    return BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+  }
+
+  private parseUrl(rawUrl: string): URL {
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      throw new UrlFetchError(`Invalid URL: ${rawUrl}`);
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new UrlFetchError(`Unsupported protocol ${url.protocol}`);
+    }
+
+    if (url.username || url.password) {
+      throw new UrlFetchError('URLs with credentials are not allowed');
+    }
+
+    // IP literals never go through DNS lookup, so check them here
+    const hostname = this.stripBrackets(url.hostname);
+    if (isIP(hostname) && this.isBlockedAddress(hostname)) {
+      throw new UrlFetchError(`Address ${hostname} is not allowed`);
+    }
+
+    return url;
+  }
+
+  private request(
+    url: URL,
+    signal: AbortSignal,
+  ): Promise<http.IncomingMessage> {
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const req = client.get(
+        url,
+        {
+          signal,
+          lookup: this.safeLookup,
+          headers: { 'user-agent': 'media-inbox-importer', accept: '*/*' },
+        },
+        resolve,
+      );
+
+      req.on('error', (error) => {
+        if (error instanceof UrlFetchError) {
+          reject(error);
+        } else if (signal.aborted) {
+          reject(new UrlFetchError('Timed out fetching remote file', true));
+        } else {
+          reject(new UrlFetchError(`Request failed: ${error.message}`, true));
+        }
+      });
+    });
+  }
+
+  /**
+   * DNS lookup used for the actual connection, refusing blocked addresses
+   */
+  private readonly safeLookup: LookupFunction = (
+    hostname,
+    options,
+    callback,
+  ) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '');
+        return;
+      }
+
+      try {
+        this.assertPublicAddresses(hostname, addresses);
+      } catch (blocked) {
+        callback(blocked as NodeJS.ErrnoException, '');
+        return;
+      }
+
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+
+  private assertPublicAddresses(
+    hostname: string,
+    addresses: dns.LookupAddress[],
+  ): void {
+    if (addresses.length === 0) {
+      throw new UrlFetchError(`Host ${hostname} could not be resolved`);
+    }
+
+    const blocked = addresses.find(({ address }) =>
+      this.isBlockedAddress(address),
+    );
+    if (blocked) {
+      throw new UrlFetchError(
+        `Host ${hostname} resolves to a blocked address (${blocked.address})`,
+      );
+    }
+  }
+
+  private limitSize(body: Readable, maxBytes: number): Readable {
+    let received = 0;
+
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (received > maxBytes) {
+          callback(
+            new UrlFetchError(
+              `Remote file exceeds the limit of ${maxBytes} bytes`,
+            ),
+          );
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+
+    pipeline(body, limiter, () => {
+      // Errors surface to the consumer of the limiter
+    });
+    return limiter;
+  }
+
+  private stripBrackets(hostname: string): string {
+    return hostname.replace(/^\[|\]$/g, '');
+  }
+}